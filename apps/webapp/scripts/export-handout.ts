@@ -0,0 +1,198 @@
+#!/usr/bin/env bun
+
+/**
+ * Presentation Handout Exporter
+ *
+ * Saves the handout of a deck as a self-contained HTML file, with its stylesheets and images
+ * inlined and its scripts removed, so that it can be shared and opened without the app.
+ * Optionally prints the saved file to PDF with a locally installed Chrome or Chromium
+ * (use --pdf flag). Printing reads only the saved file, so it works offline.
+ *
+ * Usage:
+ *   bun scripts/export-handout.ts /presentations/20250425-confession
+ *   bun scripts/export-handout.ts /presentations/20250425-confession --pdf
+ *   bun scripts/export-handout.ts /presentations/20250425-confession --base-url https://example.com --out exports
+ *
+ * The app must be running at the base URL (default http://localhost:3000).
+ * Output:
+ *   - handouts/{deck}.html (self-contained handout)
+ *   - handouts/{deck}.pdf (only with --pdf flag)
+ *
+ * Set CHROME_PATH if Chrome or Chromium is not found on the PATH.
+ */
+
+import { spawnSync } from 'node:child_process';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+// Browsers tried for printing to PDF, in order
+const CHROME_BINARIES = [
+  'google-chrome',
+  'google-chrome-stable',
+  'chromium',
+  'chromium-browser',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+] as const;
+
+interface ExportOptions {
+  deckPath: string;
+  baseUrl: string;
+  outDir: string;
+  shouldPrintPdf: boolean;
+}
+
+function parseArgs(args: string[]): ExportOptions | null {
+  const options: ExportOptions = {
+    deckPath: '',
+    baseUrl: 'http://localhost:3000',
+    outDir: 'handouts',
+    shouldPrintPdf: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--pdf') {
+      options.shouldPrintPdf = true;
+    } else if (arg === '--base-url' && args[i + 1]) {
+      options.baseUrl = args[++i] as string;
+    } else if (arg === '--out' && args[i + 1]) {
+      options.outDir = args[++i] as string;
+    } else if (arg && !arg.startsWith('--')) {
+      options.deckPath = arg;
+    } else {
+      return null;
+    }
+  }
+
+  return options.deckPath ? options : null;
+}
+
+// Fetch a resource of the page, resolving paths against the base URL
+async function fetchResource(url: string, baseUrl: string): Promise<Response> {
+  const response = await fetch(new URL(url, baseUrl));
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} for ${url}`);
+  }
+  return response;
+}
+
+// Replace each match of a pattern with the result of an async replacer
+async function replaceAsync(
+  text: string,
+  pattern: RegExp,
+  replacer: (...match: string[]) => Promise<string>
+): Promise<string> {
+  const replacements = await Promise.all(
+    Array.from(text.matchAll(pattern), (match) => replacer(...match))
+  );
+  let index = 0;
+  return text.replace(pattern, () => replacements[index++] ?? '');
+}
+
+async function inlineHandout(html: string, baseUrl: string): Promise<string> {
+  // Scripts are not needed to show the handout, and would fail to load outside the app
+  let result = html
+    .replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<link\b[^>]*rel="(?:preload|modulepreload|prefetch)"[^>]*>/gi, '');
+
+  result = await replaceAsync(
+    result,
+    /<link\b[^>]*rel="stylesheet"[^>]*href="([^"]+)"[^>]*>/gi,
+    async (_tag, href = '') => {
+      const css = await (await fetchResource(href, baseUrl)).text();
+      return `<style>${css}</style>`;
+    }
+  );
+
+  result = await replaceAsync(
+    result,
+    /<img\b([^>]*?)src="(\/[^"]+)"/gi,
+    async (_tag, attributes = '', src = '') => {
+      const response = await fetchResource(src.replace(/&amp;/g, '&'), baseUrl);
+      const contentType = response.headers.get('content-type') ?? 'application/octet-stream';
+      const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+      return `<img${attributes}src="data:${contentType};base64,${data}"`;
+    }
+  );
+
+  // Responsive image sources point at the app and are not needed once the source is inlined
+  return result.replace(/\s(?:srcset|sizes)="[^"]*"/gi, '');
+}
+
+function findChrome(): string | null {
+  const candidates = process.env.CHROME_PATH ? [process.env.CHROME_PATH] : CHROME_BINARIES;
+  for (const candidate of candidates) {
+    const check = spawnSync(candidate, ['--version'], { stdio: 'ignore' });
+    if (check.status === 0) return candidate;
+  }
+  return null;
+}
+
+function printPdf(htmlFile: string, pdfFile: string): boolean {
+  const chrome = findChrome();
+  if (!chrome) {
+    console.error('❌ Chrome or Chromium not found. Set CHROME_PATH to print to PDF.');
+    return false;
+  }
+
+  const result = spawnSync(
+    chrome,
+    [
+      '--headless',
+      '--disable-gpu',
+      '--no-pdf-header-footer',
+      `--print-to-pdf=${pdfFile}`,
+      pathToFileURL(htmlFile).href,
+    ],
+    { stdio: 'inherit', timeout: 120_000 }
+  );
+  return result.status === 0;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(
+      'Usage: bun scripts/export-handout.ts <deck path> [--base-url <url>] [--out <dir>] [--pdf]'
+    );
+    process.exit(1);
+  }
+
+  const deckPath = options.deckPath.replace(/\/+$/, '');
+  const handoutUrl = `${options.baseUrl}${deckPath}/handout`;
+  console.log(`📄 Exporting handout from ${handoutUrl}\n`);
+
+  let html: string;
+  try {
+    const page = await (await fetchResource(handoutUrl, options.baseUrl)).text();
+    html = await inlineHandout(page, options.baseUrl);
+  } catch (error) {
+    console.error(
+      '❌ Error exporting handout:',
+      error instanceof Error ? error.message : String(error)
+    );
+    console.error(`Please ensure the app is running at ${options.baseUrl}.`);
+    process.exit(1);
+  }
+
+  const outDir = resolve(options.outDir);
+  const name = basename(deckPath);
+  const htmlFile = resolve(outDir, `${name}.html`);
+  await mkdir(outDir, { recursive: true });
+  await writeFile(htmlFile, html);
+  console.log(`✅ Saved ${htmlFile}`);
+
+  if (options.shouldPrintPdf) {
+    const pdfFile = resolve(outDir, `${name}.pdf`);
+    if (!printPdf(htmlFile, pdfFile)) {
+      console.error('❌ Error printing handout to PDF');
+      process.exit(1);
+    }
+    console.log(`✅ Saved ${pdfFile}`);
+  } else {
+    console.log('\n💡 Tip: Use --pdf flag to also print the handout to PDF');
+  }
+}
+
+main();
@@ -0,0 +1,20 @@
+'use client';
+
+import { AttendanceHistoryReport } from '@/modules/attendance/components/AttendanceHistoryReport';
+
+/**
+ * Admin page showing attendance history and per-member statistics.
+ */
+export default function AdminAttendancePage() {
+  return (
+    <div className="pt-6 space-y-4 md:space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl md:text-3xl font-bold">Attendance</h1>
+        <p className="text-sm md:text-base text-muted-foreground">
+          Review attendance trends across meetings to follow up with members
+        </p>
+      </div>
+      <AttendanceHistoryReport />
+    </div>
+  );
+}
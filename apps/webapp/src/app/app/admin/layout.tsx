@@ -1,6 +1,6 @@
 'use client';
 
-import { ArrowLeft, Menu, Settings, Shield, X } from 'lucide-react';
+import { ArrowLeft, ClipboardList, Menu, Settings, Shield, X } from 'lucide-react';
 import Link from 'next/link';
 import { useCallback, useState } from 'react';
 
@@ -146,6 +146,15 @@ function _renderSidebarContent(closeSidebar: () => void) {
           <Shield className="h-4 w-4" />
           <span>Google Auth Config</span>
         </Link>
+
+        <Link
+          href="/app/admin/attendance"
+          className="flex items-center space-x-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted transition-colors"
+          onClick={closeSidebar}
+        >
+          <ClipboardList className="h-4 w-4" />
+          <span>Attendance History</span>
+        </Link>
       </nav>
 
       {/* Admin Info */}
@@ -0,0 +1,24 @@
+'use client';
+
+import { AttendanceEventManager } from '@/modules/attendance/components/AttendanceEventManager';
+import { AttendanceGroupManager } from '@/modules/attendance/components/AttendanceGroupManager';
+import { AttendanceTransferPanel } from '@/modules/attendance/components/AttendanceTransferPanel';
+
+/**
+ * Attendance events page where coordinators set up and manage their meetings.
+ */
+export default function AttendanceEventsPage() {
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">Attendance Events</h1>
+      <p className="text-muted-foreground mb-6">
+        Create meetings and share their attendance links with your group.
+      </p>
+      <div className="space-y-6">
+        <AttendanceEventManager />
+        <AttendanceGroupManager />
+        <AttendanceTransferPanel />
+      </div>
+    </div>
+  );
+}
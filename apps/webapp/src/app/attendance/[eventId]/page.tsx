@@ -0,0 +1,21 @@
+import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+
+import { Attendance } from '@/modules/attendance/components/Attendance';
+
+// Public interfaces and types
+export interface AttendanceEventPageProps {
+  params: Promise<{ eventId: string }>;
+}
+
+/**
+ * Public attendance page for an attendance event, rendered from the event id.
+ */
+export default async function AttendanceEventPage({ params }: AttendanceEventPageProps) {
+  const { eventId } = await params;
+
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-8">
+      <Attendance eventId={eventId as Id<'attendanceEvents'>} />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { AttendanceCheckIn } from '@/modules/attendance/components/AttendanceCheckIn';
+
+// Public interfaces and types
+export interface AttendanceCheckInPageProps {
+  searchParams: Promise<{ code?: string }>;
+}
+
+/**
+ * Check-in page opened by scanning a host's QR code, or visited to enter a code by hand.
+ */
+export default async function AttendanceCheckInPage({ searchParams }: AttendanceCheckInPageProps) {
+  const { code } = await searchParams;
+
+  return (
+    <div className="container max-w-md mx-auto px-4 py-8">
+      <AttendanceCheckIn initialCode={code} />
+    </div>
+  );
+}
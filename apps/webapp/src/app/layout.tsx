@@ -75,9 +75,11 @@ export default function RootLayout({
             <AppInfoProvider>
               <AuthProvider>
                 <ThemeProvider>
-                  <div className="flex flex-col h-screen overflow-hidden">
+                  <div className="flex flex-col h-screen overflow-hidden print:block print:h-auto print:overflow-visible">
                     <NavHeader />
-                    <main className="flex-1 flex flex-col overflow-scroll">{children}</main>
+                    <main className="flex-1 flex flex-col overflow-scroll print:overflow-visible">
+                      {children}
+                    </main>
                   </div>
                 </ThemeProvider>
               </AuthProvider>
@@ -1,7 +1,9 @@
 import type { Metadata } from 'next';
+
 import { PresentationContainer } from '@/modules/presentation/presentation-container';
 import { PresentationControls } from '@/modules/presentation/presentation-controls';
 import { Slide } from '@/modules/presentation/slide';
+
 export const metadata: Metadata = {
   title: 'Spiritual Appetites | 25th March 2025',
   description: 'Cell Group sharing on Spiritual Appetites',
@@ -12,7 +14,15 @@ export default function SpiritualAppetitesPresentation() {
   const presentationKey = 'spiritual-appetites';
 
   return (
-    <PresentationContainer totalSlides={10} presentationKey={presentationKey}>
+    <PresentationContainer
+      totalSlides={10}
+      presentationKey={presentationKey}
+      registration={{
+        title: 'Spiritual Appetites',
+        date: '2025-03-28',
+        description: 'Cell Group sharing on Spiritual Appetites',
+      }}
+    >
       <PresentationControls />
 
       {/* Title Slide */}
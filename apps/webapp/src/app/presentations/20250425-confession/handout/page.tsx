@@ -0,0 +1,28 @@
+import type { Metadata } from 'next';
+
+import Content from '../content.mdx';
+
+import { MdxPresentation } from '@/modules/presentation/mdx-presentation';
+
+export const metadata: Metadata = {
+  title: 'Handout | Confession',
+  robots: { index: false },
+};
+
+// Rendered on each request, so the handout shows what the discussions concluded with
+export const dynamic = 'force-dynamic';
+
+export default function ConfessionHandout() {
+  return (
+    <MdxPresentation
+      content={Content}
+      presentationKey="confession-april-2025"
+      registration={{
+        title: 'Confession',
+        date: '2025-04-25',
+        description: 'Cell Group sharing on Confession',
+      }}
+      view="handout"
+    />
+  );
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+
+import Content from '../content.mdx';
+
+import { MdxPresentation } from '@/modules/presentation/mdx-presentation';
+import { loadScriptNotes } from '@/modules/presentation/script-notes';
+
+export const metadata: Metadata = {
+  title: 'Presenter View | Confession',
+  robots: { index: false },
+};
+
+export default async function ConfessionPresenterView() {
+  const notes = await loadScriptNotes('20250425-confession');
+
+  return (
+    <MdxPresentation
+      content={Content}
+      presentationKey="confession-april-2025"
+      registration={{ title: 'Confession', date: '2025-04-25' }}
+      view="presenter"
+      notes={notes}
+      durationMinutes={30}
+    />
+  );
+}
@@ -0,0 +1,21 @@
+import type { Metadata } from 'next';
+
+import Content from '../content.mdx';
+
+import { MdxPresentation } from '@/modules/presentation/mdx-presentation';
+
+export const metadata: Metadata = {
+  title: 'Replay | Confession',
+  robots: { index: false },
+};
+
+export default function ConfessionReplay() {
+  return (
+    <MdxPresentation
+      content={Content}
+      presentationKey="confession-april-2025"
+      registration={{ title: 'Confession', date: '2025-04-25' }}
+      view="replay"
+    />
+  );
+}
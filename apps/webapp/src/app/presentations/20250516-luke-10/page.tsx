@@ -1,4 +1,5 @@
 import type { Metadata } from 'next';
+
 import { Discussion } from '@/modules/discussion/discussion';
 import { PresentationContainer } from '@/modules/presentation/presentation-container';
 import { PresentationControls } from '@/modules/presentation/presentation-controls';
@@ -29,7 +30,15 @@ export default function MakingADifferencePresentation() {
   const presentationKey = 'luke-10-making-difference';
 
   return (
-    <PresentationContainer totalSlides={7} presentationKey={presentationKey}>
+    <PresentationContainer
+      totalSlides={7}
+      presentationKey={presentationKey}
+      registration={{
+        title: 'Making a Difference',
+        date: '2025-05-16',
+        description: 'Cell Group sharing on Luke 10: The Good Samaritan and Martha & Mary',
+      }}
+    >
       <PresentationControls />
 
       {/* Title Slide */}
@@ -1,6 +1,9 @@
 import type { Metadata } from 'next';
+
 import Content from './content.mdx';
 
+import { RegisterPresentation } from '@/modules/presentation/register-presentation';
+
 export const metadata: Metadata = {
   title: 'Grow in Love for God | Aug 22, 2025',
   description: 'Cell sharing: How can we grow in our love for God?',
@@ -9,6 +12,12 @@ export const metadata: Metadata = {
 export default function GrowLoveForGodPage() {
   return (
     <div className="container max-w-3xl mx-auto px-4 py-12">
+      <RegisterPresentation
+        presentationKey="grow-love-for-god"
+        title="Grow in Love for God"
+        date="2025-08-23"
+        description="Cell sharing: How can we grow in our love for God?"
+      />
       <article className="max-w-none">
         <Content />
       </article>
@@ -1,4 +1,5 @@
 import type { Metadata } from 'next';
+
 import { PresentationsGrid } from '@/components/presentations-grid';
 
 export const metadata: Metadata = {
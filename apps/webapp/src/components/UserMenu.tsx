@@ -138,6 +138,9 @@ function _renderUserDropdownMenu(
         <Link href="/app">
           <DropdownMenuItem className="cursor-pointer">Dashboard</DropdownMenuItem>
         </Link>
+        <Link href="/app/attendance">
+          <DropdownMenuItem className="cursor-pointer">Attendance Events</DropdownMenuItem>
+        </Link>
         {isSystemAdmin && (
           <Link href="/app/admin">
             <DropdownMenuItem className="cursor-pointer">
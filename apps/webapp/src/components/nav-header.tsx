@@ -3,6 +3,7 @@
 import { BookOpenIcon, HomeIcon } from 'lucide-react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+
 import { cn } from '@/lib/utils';
 
 const navigation = [
@@ -14,7 +15,7 @@ export function NavHeader() {
   const pathname = usePathname();
 
   return (
-    <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+    <header className="print:hidden border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container max-w-3xl mx-auto px-4">
         <div className="flex h-16 items-center justify-between">
           <div className="flex items-center">
@@ -1,5 +1,7 @@
-import { CalendarIcon } from 'lucide-react';
+import { CalendarIcon, Radio, UserIcon } from 'lucide-react';
 import Link from 'next/link';
+
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 
 export interface PresentationInfo {
@@ -7,6 +9,9 @@ export interface PresentationInfo {
   title: string;
   date: string;
   description?: string;
+  speaker?: string;
+  slideCount?: number;
+  isLive?: boolean;
   path: string;
 }
 
@@ -15,9 +20,22 @@ export function PresentationCard({ presentation }: { presentation: PresentationI
     <div className="p-6 border rounded-lg bg-card hover:bg-muted/30 transition-colors relative">
       <div className="absolute -top-1 -right-1 w-8 h-8 bg-muted/30 rounded-bl-lg" />
 
-      <div className="mb-3 flex items-center gap-2 text-sm text-muted-foreground">
-        <CalendarIcon className="h-4 w-4" />
-        <span>{presentation.date}</span>
+      <div className="mb-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        <span className="flex items-center gap-2">
+          <CalendarIcon className="h-4 w-4" />
+          {presentation.date}
+        </span>
+        {presentation.speaker && (
+          <span className="flex items-center gap-2">
+            <UserIcon className="h-4 w-4" />
+            {presentation.speaker}
+          </span>
+        )}
+        {presentation.isLive && (
+          <Badge variant="destructive" className="gap-1">
+            <Radio className="h-3 w-3" /> Live now
+          </Badge>
+        )}
       </div>
 
       <h3 className="text-2xl font-medium mb-3">{presentation.title}</h3>
@@ -26,9 +44,14 @@ export function PresentationCard({ presentation }: { presentation: PresentationI
         <p className="text-muted-foreground mb-4">{presentation.description}</p>
       )}
 
-      <div className="mt-4 w-full flex justify-end">
+      <div className="mt-4 w-full flex items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">
+          {presentation.slideCount ? `${presentation.slideCount} slides` : ''}
+        </span>
         <Button variant="outline" size="sm" className="rounded-full" asChild>
-          <Link href={presentation.path}>view slides →</Link>
+          <Link href={presentation.path}>
+            {presentation.isLive ? 'join presentation →' : 'view slides →'}
+          </Link>
         </Button>
       </div>
     </div>
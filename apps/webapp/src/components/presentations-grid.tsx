@@ -1,46 +1,105 @@
-import { PresentationCard, type PresentationInfo } from '@/components/presentation-card';
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { PresentationListItem } from '@workspace/backend/modules/presentation/registry';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+import { Search } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { useState } from 'react';
 
-const PRESENTATIONS: PresentationInfo[] = [
-  {
-    id: 'grow-love-for-god',
-    title: 'Grow in Love for God',
-    date: 'August 23, 2025',
-    description: 'Cell sharing: How can we grow in our love for God?',
-    path: '/presentations/20250823-grow-love-for-god',
-  },
-  {
-    id: 'luke-10',
-    title: 'Making a Difference',
-    date: 'May 16, 2025',
-    description: 'Cell Group sharing on Luke 10: The Good Samaritan and Martha & Mary',
-    path: '/presentations/20250516-luke-10',
-  },
-  {
-    id: 'confession',
-    title: 'Confession',
-    date: 'April 25, 2025',
-    description: 'Cell Group sharing on Confession',
-    path: '/presentations/20250425-confession',
-  },
-  {
-    id: 'spiritual-appetites',
-    title: 'Spiritual Appetites',
-    date: 'March 28, 2025',
-    description: 'Cell Group sharing on Spiritual Appetites',
-    path: '/presentations/20250328-spiritual-appetites',
-  },
-  // Add more presentations here as they become available
-];
+import { PresentationCard, type PresentationInfo } from '@/components/presentation-card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
 
+/**
+ * Lists the presentations registered by their decks, newest first, with search and a date
+ * range filter. Presentations that someone is currently presenting are badged as live.
+ */
 export function PresentationsGrid() {
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const presentations = useSessionQuery(api.presentations.listPresentations, {
+    search: search || undefined,
+    fromDate: fromDate || undefined,
+    toDate: toDate || undefined,
+  });
+  const isFiltered = Boolean(search || fromDate || toDate);
+
   return (
     <div className="w-full">
       <h2 className="text-2xl font-bold mb-6">Recent Sharings</h2>
-      <div className="flex flex-col gap-6">
-        {PRESENTATIONS.map((presentation) => (
-          <PresentationCard key={presentation.id} presentation={presentation} />
-        ))}
+
+      <div className="mb-6 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by title, speaker or description"
+            className="pl-9"
+            aria-label="Search sharings"
+          />
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="presentations-from">From</Label>
+            <Input
+              id="presentations-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="presentations-to">To</Label>
+            <Input
+              id="presentations-to"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+        </div>
       </div>
+
+      {presentations === undefined ? (
+        <div className="flex flex-col gap-6">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : presentations.length === 0 ? (
+        <p className="text-muted-foreground">
+          {isFiltered ? 'No sharings match your filters.' : 'No sharings yet.'}
+        </p>
+      ) : (
+        <div className="flex flex-col gap-6">
+          {presentations.map((presentation) => (
+            <PresentationCard
+              key={presentation.key}
+              presentation={_toPresentationInfo(presentation)}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
+
+/**
+ * Converts a registry entry into the information shown on a presentation card.
+ */
+function _toPresentationInfo(presentation: PresentationListItem): PresentationInfo {
+  return {
+    id: presentation.key,
+    title: presentation.title,
+    date: DateTime.fromISO(presentation.date).toLocaleString(DateTime.DATE_FULL),
+    description: presentation.description ?? undefined,
+    speaker: presentation.speaker ?? undefined,
+    slideCount: presentation.slideCount ?? undefined,
+    isLive: presentation.isLive,
+    path: presentation.path,
+  };
+}
@@ -1,9 +1,38 @@
-import { CheckCircle2, ChevronDown, Copy, MoreVertical, UserPlus, X, XCircle } from 'lucide-react';
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Doc, Id } from '@workspace/backend/convex/_generated/dataModel';
+import { formatAttendanceGuests } from '@workspace/backend/modules/attendance/guests';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+import {
+  Archive,
+  Bell,
+  CalendarDays,
+  CheckCircle2,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Copy,
+  HelpCircle,
+  History,
+  MapPin,
+  MoreVertical,
+  QrCode,
+  UserPlus,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { DateTime } from 'luxon';
 import { Suspense, useCallback, useEffect, useState } from 'react';
 
+import { AttendanceAuditLogDialog } from './AttendanceAuditLogDialog';
+import { AttendanceCheckInDialog } from './AttendanceCheckInDialog';
 import { AttendanceCopyDialog } from './AttendanceCopyDialog';
 import { AttendanceDialog } from './AttendanceDialog';
 import { AttendanceEmptyState } from './AttendanceEmptyState';
+import { AttendanceMarkControl } from './AttendanceMarkControl';
+import { AttendanceReminderHistoryDialog } from './AttendanceReminderHistoryDialog';
 import { isCurrentUser, useAttendanceData } from '../hooks/useAttendanceData';
 
 import { Badge } from '@/components/ui/badge';
@@ -23,10 +52,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 /**
  * Props for the Attendance component.
+ * Either an attendanceKey or the eventId of an attendance event must be provided.
+ * When rendering from an event, the title defaults to the event title, and sessions
+ * of a recurring event can be switched between without leaving the component.
  */
 export interface AttendanceModuleProps {
-  attendanceKey: string;
-  title: string;
+  attendanceKey?: string;
+  eventId?: Id<'attendanceEvents'>;
+  title?: string;
   expectedNames?: string[];
   remarksPlaceholder?: string;
 }
@@ -37,24 +70,38 @@ export interface AttendanceModuleProps {
  */
 const AttendanceContentInner = ({
   attendanceKey,
-  title = 'Attendance',
+  eventId,
+  title: titleProp,
   expectedNames = [],
   remarksPlaceholder,
 }: AttendanceModuleProps) => {
+  // The session being shown, which differs from eventId after switching sessions of a series
+  const [selectedEventId, setSelectedEventId] = useState(eventId);
+  useEffect(() => {
+    setSelectedEventId(eventId);
+  }, [eventId]);
+
   // Use the custom hook for all data management
   const {
     attendanceData,
+    attendanceEvent,
+    isEventNotFound,
+    resolvedAttendanceKey,
     attendanceRecords,
     attendanceMap,
+    editableRecordIds,
+    expectedNameSet,
     allNames,
     pendingNames,
     filteredRespondedNames,
     modalFilteredNames,
     attendingCount,
     notAttendingCount,
+    maybeCount,
     pendingCount,
     respondedAttendingCount,
     respondedNotAttendingCount,
+    respondedMaybeCount,
     activeTab,
     searchQuery,
     modalSearchQuery,
@@ -66,7 +113,15 @@ const AttendanceContentInner = ({
     setModalSearchQuery,
     setStatusFilter,
     handleTabChange,
-  } = useAttendanceData({ attendanceKey, expectedNames });
+  } = useAttendanceData({ attendanceKey, eventId: selectedEventId, expectedNames });
+
+  const adjacentSessions = useSessionQuery(
+    api.attendanceEvents.getAdjacentAttendanceSessions,
+    attendanceEvent?.seriesId ? { eventId: attendanceEvent._id } : 'skip'
+  );
+
+  const title = titleProp ?? attendanceEvent?.title ?? 'Attendance';
+  const isArchived = attendanceEvent?.isArchived ?? false;
 
   // Local component state
   const [_expanded, _setExpanded] = useState<string | null>(null);
@@ -75,6 +130,23 @@ const AttendanceContentInner = ({
   const [showFullListModal, setShowFullListModal] = useState(false);
   const [isManualJoin, setIsManualJoin] = useState(false);
   const [showCopyDialog, setShowCopyDialog] = useState(false);
+  const [showCheckInDialog, setShowCheckInDialog] = useState(false);
+  const [showAuditLogDialog, setShowAuditLogDialog] = useState(false);
+  const [showReminderDialog, setShowReminderDialog] = useState(false);
+
+  // Hosts of an event can open check-in, mark who actually attended and see the change history
+  const canManageEvent = Boolean(
+    attendanceEvent &&
+    currentUser &&
+    (attendanceEvent.ownerId === currentUser._id || currentUser.accessLevel === 'system_admin')
+  );
+
+  /**
+   * Close the check-in dialog.
+   */
+  const handleCheckInDialogClose = useCallback(() => {
+    setShowCheckInDialog(false);
+  }, []);
 
   /**
    * Handle successful attendance submission by switching to responded tab.
@@ -99,11 +171,11 @@ const AttendanceContentInner = ({
   const handlePersonClick = useCallback(
     (name: string) => {
       setSelectedPerson(name);
-      const wasInExpectedList = expectedNames?.includes(name);
+      const wasInExpectedList = expectedNameSet.has(name);
       setIsManualJoin(!wasInExpectedList);
       setDialogOpen(true);
     },
-    [expectedNames]
+    [expectedNameSet]
   );
 
   /**
@@ -124,6 +196,14 @@ const AttendanceContentInner = ({
     }
   }, [showFullListModal, setModalSearchQuery]);
 
+  if (isEventNotFound) {
+    return (
+      <div className="p-4 border rounded-md text-sm text-muted-foreground">
+        This attendance event could not be found.
+      </div>
+    );
+  }
+
   return (
     <>
       <div className="pb-3">
@@ -140,6 +220,11 @@ const AttendanceContentInner = ({
                 <Badge variant="outline" className="bg-red-50 dark:bg-red-950/20">
                   <XCircle className="h-3 w-3 mr-1" /> {notAttendingCount}
                 </Badge>
+                {maybeCount > 0 && (
+                  <Badge variant="outline" className="bg-yellow-50 dark:bg-yellow-950/20">
+                    <HelpCircle className="h-3 w-3 mr-1" /> {maybeCount}
+                  </Badge>
+                )}
                 {pendingCount > 0 && <Badge variant="outline">{pendingCount} pending</Badge>}
 
                 {/* Action Menu */}
@@ -157,12 +242,41 @@ const AttendanceContentInner = ({
                       <Copy className="h-4 w-4" />
                       Copy List as Text
                     </DropdownMenuItem>
+                    {canManageEvent && !isArchived && (
+                      <DropdownMenuItem
+                        onClick={() => setShowCheckInDialog(true)}
+                        className="cursor-pointer flex items-center gap-2"
+                      >
+                        <QrCode className="h-4 w-4" />
+                        Open Check-in
+                      </DropdownMenuItem>
+                    )}
+                    {canManageEvent && (
+                      <DropdownMenuItem
+                        onClick={() => setShowAuditLogDialog(true)}
+                        className="cursor-pointer flex items-center gap-2"
+                      >
+                        <History className="h-4 w-4" />
+                        Change History
+                      </DropdownMenuItem>
+                    )}
+                    {canManageEvent && attendanceEvent?.groupId && (
+                      <DropdownMenuItem
+                        onClick={() => setShowReminderDialog(true)}
+                        className="cursor-pointer flex items-center gap-2"
+                      >
+                        <Bell className="h-4 w-4" />
+                        Reminders
+                      </DropdownMenuItem>
+                    )}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </>
             )}
           </div>
         </h2>
+        {attendanceEvent && _renderEventDetails(attendanceEvent)}
+        {adjacentSessions && _renderSessionSwitcher(adjacentSessions, setSelectedEventId)}
       </div>
 
       <div>
@@ -225,6 +339,18 @@ const AttendanceContentInner = ({
                       {respondedNotAttendingCount}
                     </Badge>
                   </Button>
+                  <Button
+                    variant={statusFilter === 'maybe' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setStatusFilter('maybe')}
+                    className="flex items-center gap-1"
+                  >
+                    <HelpCircle className="h-3 w-3 text-yellow-500" />
+                    Maybe
+                    <Badge variant="secondary" className="ml-1 text-xs">
+                      {respondedMaybeCount}
+                    </Badge>
+                  </Button>
                   {statusFilter !== 'all' && (
                     <Button
                       variant="ghost"
@@ -245,6 +371,12 @@ const AttendanceContentInner = ({
                   />
                 ) : (
                   <div className="space-y-2">
+                    {attendanceEvent && (
+                      <div className="flex justify-between px-2 text-xs text-muted-foreground">
+                        <span>RSVP</span>
+                        <span>Attendance</span>
+                      </div>
+                    )}
                     {filteredRespondedNames.slice(0, 7).map((name) => {
                       const record = attendanceMap.get(name);
                       const status = record?.status;
@@ -260,10 +392,10 @@ const AttendanceContentInner = ({
                       return (
                         <div
                           key={name}
-                          className="p-2 border rounded-md relative hover:bg-accent/50"
+                          className="p-2 border rounded-md relative hover:bg-accent/50 flex items-start gap-2"
                         >
                           <button
-                            className="cursor-pointer w-full text-left p-0 inline-block"
+                            className="cursor-pointer flex-1 min-w-0 text-left p-0 inline-block"
                             type="button"
                             onClick={() => handlePersonClick(name)}
                             onKeyDown={(e) => {
@@ -273,13 +405,7 @@ const AttendanceContentInner = ({
                             }}
                           >
                             <div className="flex items-center">
-                              {status === 'attending' ? (
-                                <CheckCircle2 className="h-4 w-4 text-green-500 mr-2 flex-shrink-0" />
-                              ) : status === 'not_attending' ? (
-                                <XCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
-                              ) : (
-                                <div className="h-4 w-4 rounded-full border mr-2 flex-shrink-0" />
-                              )}
+                              {_renderStatusIcon(status)}
                               <span className="ml-2 text-sm">
                                 {name}
                                 {isYou && (
@@ -288,15 +414,23 @@ const AttendanceContentInner = ({
                               </span>
                             </div>
 
+                            {record && _renderGuests(record)}
+
                             {/* Always show reason or remarks */}
                             {(status === 'not_attending' && reason) ||
-                            (status === 'attending' && remarks) ? (
+                            (status !== 'not_attending' && remarks) ? (
                               <div className="mt-1 text-sm text-muted-foreground">
-                                {status === 'attending' && remarks && <p>Remarks: {remarks}</p>}
+                                {status !== 'not_attending' && remarks && <p>Remarks: {remarks}</p>}
                                 {status === 'not_attending' && reason && <p>Reason: {reason}</p>}
                               </div>
                             ) : null}
                           </button>
+                          <AttendanceMarkControl
+                            eventId={attendanceEvent?._id}
+                            name={name}
+                            record={record}
+                            canEdit={canManageEvent}
+                          />
                         </div>
                       );
                     })}
@@ -324,6 +458,7 @@ const AttendanceContentInner = ({
                 ) : (
                   <div className="space-y-2">
                     {pendingNames.slice(0, 7).map((name) => {
+                      const record = attendanceMap.get(name);
                       const isYou = isCurrentUser(
                         name,
                         attendanceMap,
@@ -333,10 +468,10 @@ const AttendanceContentInner = ({
                       return (
                         <div
                           key={name}
-                          className="p-2 border rounded-md relative hover:bg-accent/50"
+                          className="p-2 border rounded-md relative hover:bg-accent/50 flex items-start gap-2"
                         >
                           <button
-                            className="cursor-pointer w-full text-left p-0 inline-block"
+                            className="cursor-pointer flex-1 min-w-0 text-left p-0 inline-block"
                             type="button"
                             onClick={() => handlePersonClick(name)}
                             onKeyDown={(e) => {
@@ -355,6 +490,12 @@ const AttendanceContentInner = ({
                               </span>
                             </div>
                           </button>
+                          <AttendanceMarkControl
+                            eventId={attendanceEvent?._id}
+                            name={name}
+                            record={record}
+                            canEdit={canManageEvent}
+                          />
                         </div>
                       );
                     })}
@@ -374,7 +515,7 @@ const AttendanceContentInner = ({
             </Tabs>
 
             {/* Join button below component */}
-            {(!isAuthenticated || !isCurrentUserRegistered) && (
+            {!isArchived && (!isAuthenticated || !isCurrentUserRegistered) && (
               <div className="mt-6 text-center">
                 <p className="text-muted-foreground mb-2">Don't see your name?</p>
                 <Button
@@ -402,7 +543,9 @@ const AttendanceContentInner = ({
                   ? 'All Responses'
                   : statusFilter === 'attending'
                     ? 'Attending Responses'
-                    : 'Not Attending Responses'}{' '}
+                    : statusFilter === 'maybe'
+                      ? 'Maybe Responses'
+                      : 'Not Attending Responses'}{' '}
               ({modalFilteredNames.length})
             </DialogTitle>
           </DialogHeader>
@@ -427,13 +570,16 @@ const AttendanceContentInner = ({
                     const isYou = isCurrentUser(name, attendanceMap, isAuthenticated, currentUser);
 
                     return (
-                      <div key={name} className="p-2 border rounded-md relative hover:bg-accent/50">
+                      <div
+                        key={name}
+                        className="p-2 border rounded-md relative hover:bg-accent/50 flex items-start gap-2"
+                      >
                         <button
-                          className="cursor-pointer w-full text-left p-0 inline-block"
+                          className="cursor-pointer flex-1 min-w-0 text-left p-0 inline-block"
                           type="button"
                           onClick={() => {
                             setSelectedPerson(name);
-                            const wasInExpectedList = expectedNames?.includes(name);
+                            const wasInExpectedList = expectedNameSet.has(name);
                             setIsManualJoin(!wasInExpectedList);
                             setDialogOpen(true);
                             setShowFullListModal(false);
@@ -441,7 +587,7 @@ const AttendanceContentInner = ({
                           onKeyDown={(e) => {
                             if (e.key === 'Enter') {
                               setSelectedPerson(name);
-                              const wasInExpectedList = expectedNames?.includes(name);
+                              const wasInExpectedList = expectedNameSet.has(name);
                               setIsManualJoin(!wasInExpectedList);
                               setDialogOpen(true);
                               setShowFullListModal(false);
@@ -449,13 +595,7 @@ const AttendanceContentInner = ({
                           }}
                         >
                           <div className="flex items-center">
-                            {status === 'attending' ? (
-                              <CheckCircle2 className="h-4 w-4 text-green-500 mr-2 flex-shrink-0" />
-                            ) : status === 'not_attending' ? (
-                              <XCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
-                            ) : (
-                              <div className="h-4 w-4 rounded-full border mr-2 flex-shrink-0" />
-                            )}
+                            {_renderStatusIcon(status)}
                             <span className="ml-2 text-sm">
                               {name}
                               {isYou && (
@@ -464,15 +604,23 @@ const AttendanceContentInner = ({
                             </span>
                           </div>
 
+                          {record && _renderGuests(record)}
+
                           {/* Always show reason or remarks */}
                           {(status === 'not_attending' && reason) ||
-                          (status === 'attending' && remarks) ? (
+                          (status !== 'not_attending' && remarks) ? (
                             <div className="mt-1 text-sm text-muted-foreground">
-                              {status === 'attending' && remarks && <p>Remarks: {remarks}</p>}
+                              {status !== 'not_attending' && remarks && <p>Remarks: {remarks}</p>}
                               {status === 'not_attending' && reason && <p>Reason: {reason}</p>}
                             </div>
                           ) : null}
                         </button>
+                        <AttendanceMarkControl
+                          eventId={attendanceEvent?._id}
+                          name={name}
+                          record={record}
+                          canEdit={canManageEvent}
+                        />
                       </div>
                     );
                   })}
@@ -503,13 +651,41 @@ const AttendanceContentInner = ({
         attendanceMap={attendanceMap}
       />
 
+      {attendanceEvent && canManageEvent && (
+        <AttendanceCheckInDialog
+          isOpen={showCheckInDialog}
+          onClose={handleCheckInDialogClose}
+          eventId={attendanceEvent._id}
+          title={title}
+        />
+      )}
+
+      {attendanceEvent && canManageEvent && (
+        <AttendanceAuditLogDialog
+          isOpen={showAuditLogDialog}
+          onClose={() => setShowAuditLogDialog(false)}
+          eventId={attendanceEvent._id}
+          title={title}
+        />
+      )}
+
+      {attendanceEvent && canManageEvent && (
+        <AttendanceReminderHistoryDialog
+          isOpen={showReminderDialog}
+          onClose={() => setShowReminderDialog(false)}
+          eventId={attendanceEvent._id}
+          title={title}
+        />
+      )}
+
       {dialogOpen && attendanceRecords && (
         <AttendanceDialog
           isOpen={dialogOpen}
           onClose={handleDialogClose}
           personName={selectedPerson}
-          attendanceKey={attendanceKey}
+          attendanceKey={resolvedAttendanceKey}
           attendanceRecords={attendanceRecords}
+          editableRecordIds={editableRecordIds}
           onSuccess={handleAttendanceSuccess}
           isManuallyJoined={isManualJoin}
           remarksPlaceholder={remarksPlaceholder}
@@ -519,6 +695,111 @@ const AttendanceContentInner = ({
   );
 };
 
+/**
+ * Renders the date, location, RSVP deadline and archive status of an attendance event.
+ */
+function _renderEventDetails(event: Doc<'attendanceEvents'>) {
+  const hasDetails = event.date || event.location || event.rsvpDeadline || event.isArchived;
+  if (!hasDetails) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+      {event.date && (
+        <span className="flex items-center gap-1">
+          <CalendarDays className="h-3 w-3" />
+          {DateTime.fromMillis(event.date).toLocaleString(DateTime.DATETIME_MED)}
+        </span>
+      )}
+      {event.location && (
+        <span className="flex items-center gap-1">
+          <MapPin className="h-3 w-3" />
+          {event.location}
+        </span>
+      )}
+      {event.rsvpDeadline && (
+        <span className="flex items-center gap-1">
+          <Clock className="h-3 w-3" />
+          RSVP by {DateTime.fromMillis(event.rsvpDeadline).toLocaleString(DateTime.DATETIME_MED)}
+        </span>
+      )}
+      {event.isArchived && (
+        <span className="flex items-center gap-1">
+          <Archive className="h-3 w-3" />
+          Archived
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Renders the guests responding together with a person, if any.
+ */
+function _renderGuests(record: Doc<'attendanceRecords'>) {
+  if (!record.guests?.length || record.status === 'not_attending') return null;
+
+  return (
+    <p className="mt-1 ml-8 text-xs text-muted-foreground">
+      +{record.guests.length}: {formatAttendanceGuests(record.guests)}
+    </p>
+  );
+}
+
+/**
+ * Renders the icon for a person's RSVP status, or an empty circle if they have not responded.
+ */
+function _renderStatusIcon(status: Doc<'attendanceRecords'>['status']) {
+  switch (status) {
+    case 'attending':
+      return <CheckCircle2 className="h-4 w-4 text-green-500 mr-2 flex-shrink-0" />;
+    case 'not_attending':
+      return <XCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />;
+    case 'maybe':
+      return <HelpCircle className="h-4 w-4 text-yellow-500 mr-2 flex-shrink-0" />;
+    default:
+      return <div className="h-4 w-4 rounded-full border mr-2 flex-shrink-0" />;
+  }
+}
+
+/**
+ * Renders buttons for switching to the previous and next sessions of a recurring event.
+ */
+function _renderSessionSwitcher(
+  sessions: {
+    previous: Doc<'attendanceEvents'> | null;
+    next: Doc<'attendanceEvents'> | null;
+  },
+  onSelect: (eventId: Id<'attendanceEvents'>) => void
+) {
+  const { previous, next } = sessions;
+  if (!previous && !next) return null;
+
+  return (
+    <div className="mt-2 flex items-center justify-between gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!previous}
+        onClick={() => previous && onSelect(previous._id)}
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        {previous?.date
+          ? DateTime.fromMillis(previous.date).toLocaleString(DateTime.DATE_MED)
+          : 'Previous'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!next}
+        onClick={() => next && onSelect(next._id)}
+      >
+        {next?.date ? DateTime.fromMillis(next.date).toLocaleString(DateTime.DATE_MED) : 'Next'}
+        <ChevronRight className="h-4 w-4 ml-1" />
+      </Button>
+    </div>
+  );
+}
+
 /**
  * Main Attendance component with Suspense boundary for handling async operations.
  * Provides attendance tracking functionality with tabs for pending and responded users.
@@ -0,0 +1,146 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import type {
+  AttendanceAuditAction,
+  AttendanceAuditEntry,
+} from '@workspace/backend/modules/attendance/auditLog';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+import { DateTime } from 'luxon';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+
+/**
+ * Props for the AttendanceAuditLogDialog component.
+ */
+export interface AttendanceAuditLogDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  eventId: Id<'attendanceEvents'>;
+  title: string;
+}
+
+const _ACTION_LABELS: Record<AttendanceAuditAction, string> = {
+  created: 'responded',
+  updated: 'changed the response of',
+  deleted: 'deleted the response of',
+  marked: 'marked the attendance of',
+  checked_in: 'checked in',
+  imported: 'imported the response of',
+};
+
+const _VALUE_LABELS: Record<string, string> = {
+  attending: 'Attending',
+  not_attending: 'Not Attending',
+  maybe: 'Maybe',
+  present: 'Present',
+  absent: 'Absent',
+  late: 'Late',
+};
+
+/**
+ * Dialog for hosts showing who created, changed or deleted which attendance responses and when.
+ */
+export const AttendanceAuditLogDialog = ({
+  isOpen,
+  onClose,
+  eventId,
+  title,
+}: AttendanceAuditLogDialogProps) => {
+  const entries = useSessionQuery(
+    api.attendanceAudit.getAttendanceAuditLog,
+    isOpen ? { eventId } : 'skip'
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Change History</DialogTitle>
+          <DialogDescription>Changes to the responses for {title}.</DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[400px]">
+          <ScrollArea className="h-full">
+            {entries === undefined ? (
+              <div className="space-y-2">
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes have been recorded yet.</p>
+            ) : (
+              <div className="space-y-2">{entries.map(_renderEntry)}</div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Renders a single audit log entry.
+ */
+function _renderEntry(entry: AttendanceAuditEntry) {
+  const actor = entry.actorName ?? 'An anonymous visitor';
+  const isSelfAction = entry.action === 'created' || entry.action === 'checked_in';
+  const change = _describeChange(entry);
+
+  return (
+    <div key={entry._id} className="p-2 border rounded-md text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <p>
+          <span className="font-medium">{actor}</span> {_ACTION_LABELS[entry.action]}
+          {!isSelfAction && entry.name && <span className="font-medium"> {entry.name}</span>}
+          {isSelfAction && entry.name && entry.name !== entry.actorName && (
+            <span> as {entry.name}</span>
+          )}
+        </p>
+        {entry.isOverride && (
+          <Badge variant="outline" className="flex-shrink-0 text-xs">
+            Host override
+          </Badge>
+        )}
+      </div>
+      {change && <p className="text-muted-foreground">{change}</p>}
+      <p className="text-xs text-muted-foreground">
+        {DateTime.fromMillis(entry.timestamp).toLocaleString(DateTime.DATETIME_MED)}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Describes how the RSVP status and attendance mark changed, if at all.
+ */
+function _describeChange(entry: AttendanceAuditEntry): string | null {
+  const changes: string[] = [];
+  if (entry.previousStatus !== entry.status) {
+    changes.push(`RSVP: ${_formatValue(entry.previousStatus)} → ${_formatValue(entry.status)}`);
+  }
+  if (entry.previousAttendanceMark !== entry.attendanceMark) {
+    changes.push(
+      `Attendance: ${_formatValue(entry.previousAttendanceMark)} → ${_formatValue(entry.attendanceMark)}`
+    );
+  }
+  return changes.length > 0 ? changes.join(', ') : null;
+}
+
+/**
+ * Formats a status or mark for display.
+ */
+function _formatValue(value: string | null): string {
+  return value ? (_VALUE_LABELS[value] ?? value) : 'None';
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import { ConvexError } from 'convex/values';
+import { useSessionMutation } from 'convex-helpers/react/sessions';
+import { CheckCircle2, Loader2, ScanLine } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAuthState } from '@/modules/auth/AuthProvider';
+
+/**
+ * Props for the AttendanceCheckIn component.
+ */
+export interface AttendanceCheckInProps {
+  initialCode?: string;
+}
+
+/**
+ * Internal result of a successful check-in.
+ */
+interface _CheckInResult {
+  eventId: Id<'attendanceEvents'> | null;
+  title: string | null;
+}
+
+/**
+ * Lets attendees check in with a code displayed by the host.
+ * Codes from a scanned QR code are submitted automatically once the user is logged in.
+ */
+export function AttendanceCheckIn({ initialCode = '' }: AttendanceCheckInProps) {
+  const authState = useAuthState();
+  const checkInWithCode = useSessionMutation(api.attendanceCheckIn.checkInWithCode);
+
+  const [code, setCode] = useState(initialCode);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<_CheckInResult | null>(null);
+  const hasAutoSubmitted = useRef(false);
+
+  /**
+   * Check in with the given code.
+   */
+  const submitCode = useCallback(
+    async (value: string) => {
+      if (!value.trim()) {
+        setError('Please enter the check-in code');
+        return;
+      }
+
+      setIsCheckingIn(true);
+      setError(null);
+      try {
+        const checkIn = await checkInWithCode({ code: value });
+        setResult({ eventId: checkIn.eventId, title: checkIn.title });
+      } catch (checkInError) {
+        console.error('Failed to check in:', checkInError);
+        setError(
+          checkInError instanceof ConvexError && typeof checkInError.data === 'string'
+            ? checkInError.data
+            : 'Failed to check in. Please try again.'
+        );
+      } finally {
+        setIsCheckingIn(false);
+      }
+    },
+    [checkInWithCode]
+  );
+
+  // Submit a scanned code as soon as the user is known to be logged in
+  useEffect(() => {
+    if (hasAutoSubmitted.current || !initialCode) return;
+    if (authState?.state !== 'authenticated') return;
+
+    hasAutoSubmitted.current = true;
+    void submitCode(initialCode);
+  }, [authState, initialCode, submitCode]);
+
+  if (result) {
+    return _renderCheckedIn(result);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanLine className="h-5 w-5" /> Check In
+        </CardTitle>
+        <CardDescription>
+          Enter the code shown by your host to mark yourself present.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {authState === undefined ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : authState.state === 'unauthenticated' ? (
+          <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">You need to be logged in to check in.</p>
+            <Button asChild>
+              <Link href="/login">Log in</Link>
+            </Button>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              void submitCode(code);
+            }}
+            className="space-y-3"
+          >
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="ABCD-1234"
+              className="font-mono uppercase tracking-widest"
+              autoComplete="off"
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" disabled={isCheckingIn} className="w-full">
+              {isCheckingIn && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Check In
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Renders the confirmation shown after checking in.
+ */
+function _renderCheckedIn(result: _CheckInResult) {
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center gap-3 py-8 text-center">
+        <CheckCircle2 className="h-12 w-12 text-green-500" />
+        <p className="text-lg font-medium">
+          You&apos;re checked in{result.title ? ` to ${result.title}` : ''}
+        </p>
+        {result.eventId && (
+          <Button variant="outline" asChild>
+            <Link href={`/attendance/${result.eventId}`}>View attendance</Link>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
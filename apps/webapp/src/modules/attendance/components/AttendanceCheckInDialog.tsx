@@ -0,0 +1,131 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import { CHECK_IN_CODE_ROTATION_MS } from '@workspace/backend/modules/attendance/checkInCodes';
+import { formatLoginCode } from '@workspace/backend/modules/auth/codeUtils';
+import { useSessionMutation } from 'convex-helpers/react/sessions';
+import { Loader2 } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+/**
+ * Props for the AttendanceCheckInDialog component.
+ */
+export interface AttendanceCheckInDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  eventId: Id<'attendanceEvents'>;
+  title: string;
+}
+
+/**
+ * Dialog for hosts to display a rotating check-in code as a QR code and as text.
+ * A new code is generated every rotation period while the dialog is open, and
+ * check-in is closed when the dialog is dismissed.
+ */
+export const AttendanceCheckInDialog = ({
+  isOpen,
+  onClose,
+  eventId,
+  title,
+}: AttendanceCheckInDialogProps) => {
+  const createCheckInCode = useSessionMutation(api.attendanceCheckIn.createCheckInCode);
+  const closeCheckIn = useSessionMutation(api.attendanceCheckIn.closeCheckIn);
+
+  const [code, setCode] = useState<string | null>(null);
+  const [rotatesAt, setRotatesAt] = useState<number | null>(null);
+  const [secondsRemaining, setSecondsRemaining] = useState(0);
+
+  /**
+   * Generate a new check-in code, replacing the one on screen.
+   */
+  const rotateCode = useCallback(async () => {
+    try {
+      const result = await createCheckInCode({ eventId });
+      setCode(result.code);
+      setRotatesAt(Date.now() + CHECK_IN_CODE_ROTATION_MS);
+    } catch (error) {
+      console.error('Failed to create check-in code:', error);
+      toast.error('Failed to open check-in. Please try again.');
+      onClose();
+    }
+  }, [createCheckInCode, eventId, onClose]);
+
+  // Open check-in with a fresh code, and rotate it for as long as the dialog stays open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    void rotateCode();
+    const interval = setInterval(() => void rotateCode(), CHECK_IN_CODE_ROTATION_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, rotateCode]);
+
+  // Update the countdown to the next rotation every second
+  useEffect(() => {
+    if (!rotatesAt) return;
+
+    const updateRemaining = () =>
+      setSecondsRemaining(Math.max(0, Math.ceil((rotatesAt - Date.now()) / 1000)));
+    updateRemaining();
+    const interval = setInterval(updateRemaining, 1000);
+    return () => clearInterval(interval);
+  }, [rotatesAt]);
+
+  /**
+   * Close check-in so that displayed codes can no longer be used.
+   */
+  const handleClose = useCallback(async () => {
+    onClose();
+    setCode(null);
+    setRotatesAt(null);
+    try {
+      await closeCheckIn({ eventId });
+    } catch (error) {
+      console.error('Failed to close check-in:', error);
+    }
+  }, [closeCheckIn, eventId, onClose]);
+
+  const checkInUrl =
+    code && typeof window !== 'undefined'
+      ? `${window.location.origin}/attendance/check-in?code=${code}`
+      : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Check in to {title}</DialogTitle>
+          <DialogDescription>
+            Scan the QR code, or enter the code at /attendance/check-in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {code && checkInUrl ? (
+          <div className="flex flex-col items-center gap-4 py-2">
+            <div className="rounded-md bg-white p-4">
+              <QRCodeSVG value={checkInUrl} size={224} />
+            </div>
+            <p className="font-mono text-3xl font-bold tracking-widest">{formatLoginCode(code)}</p>
+            <p className="text-sm text-muted-foreground">
+              New code in {secondsRemaining}s. Earlier codes stay valid briefly.
+            </p>
+          </div>
+        ) : (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,7 +1,10 @@
 import type { Doc } from '@workspace/backend/convex/_generated/dataModel';
+import { formatAttendanceGuests, getPartySize } from '@workspace/backend/modules/attendance/guests';
 import { Check, Copy } from 'lucide-react';
 import { useCallback, useState } from 'react';
 
+import type { AttendanceStatusFilter } from '../hooks/useAttendanceData';
+
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import {
@@ -18,6 +21,7 @@ import {
  */
 export interface CopyOptions {
   includeRemarks: boolean;
+  includeAttendanceMarks: boolean;
   groupByStatus: boolean;
 }
 
@@ -29,14 +33,14 @@ export interface AttendanceCopyDialogProps {
   onClose: () => void;
   title: string;
   activeTab: 'pending' | 'responded';
-  statusFilter: 'all' | 'attending' | 'not_attending';
+  statusFilter: AttendanceStatusFilter;
   allNames: Set<string>;
   attendanceMap: Map<string, Doc<'attendanceRecords'>>;
 }
 
 /**
  * Dialog component for configuring and copying attendance data as formatted text.
- * Provides options for including remarks and grouping by status.
+ * Provides options for including remarks, including attendance marks and grouping by status.
  */
 export const AttendanceCopyDialog = ({
   isOpen,
@@ -50,6 +54,7 @@ export const AttendanceCopyDialog = ({
   const [copySuccess, setCopySuccess] = useState(false);
   const [copyOptions, setCopyOptions] = useState<CopyOptions>({
     includeRemarks: false,
+    includeAttendanceMarks: true,
     groupByStatus: true,
   });
 
@@ -69,7 +74,9 @@ export const AttendanceCopyDialog = ({
       });
 
       copyText += `Pending Responses (${pendingNames.length}):\n`;
-      copyText += pendingNames.map((name, index) => `${index + 1}. ${name}`).join('\n');
+      copyText += pendingNames
+        .map((name, index) => _formatNameLine(name, index, attendanceMap.get(name), copyOptions))
+        .join('\n');
     } else {
       // For responded tab, get names based on status filter
       const respondedNames = allNamesArray.filter((name) => {
@@ -155,6 +162,22 @@ export const AttendanceCopyDialog = ({
               </label>
             </div>
 
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="includeAttendanceMarks"
+                checked={copyOptions.includeAttendanceMarks}
+                onCheckedChange={(checked) =>
+                  setCopyOptions((prev) => ({
+                    ...prev,
+                    includeAttendanceMarks: checked as boolean,
+                  }))
+                }
+              />
+              <label htmlFor="includeAttendanceMarks" className="text-sm">
+                Include actual attendance (present/absent/late)
+              </label>
+            </div>
+
             {statusFilter === 'all' && activeTab === 'responded' && (
               <div className="flex items-center space-x-2">
                 <Checkbox
@@ -232,7 +255,28 @@ function _fallbackCopyToClipboard(text: string): boolean {
 }
 
 /**
- * Generate grouped text format with separate sections for attending and not attending.
+ * Sections of the grouped text format, in order.
+ */
+const _STATUS_SECTIONS = [
+  { status: 'attending', heading: '✓ Attending' },
+  { status: 'maybe', heading: '? Maybe' },
+  { status: 'not_attending', heading: '✗ Not Attending' },
+] as const;
+
+const _STATUS_ICONS: Record<NonNullable<Doc<'attendanceRecords'>['status']>, string> = {
+  attending: '✓',
+  maybe: '?',
+  not_attending: '✗',
+};
+
+const _MARK_LABELS: Record<NonNullable<Doc<'attendanceRecords'>['attendanceMark']>, string> = {
+  present: 'Present',
+  absent: 'Absent',
+  late: 'Late',
+};
+
+/**
+ * Generate grouped text format with separate sections for each RSVP status.
  * Internal helper function for text generation.
  */
 function _generateGroupedStatusText(
@@ -240,54 +284,21 @@ function _generateGroupedStatusText(
   attendanceMap: Map<string, Doc<'attendanceRecords'>>,
   copyOptions: CopyOptions
 ): string {
-  let copyText = '';
-
-  const attendingNames = respondedNames.filter((name) => {
-    const record = attendanceMap.get(name);
-    return record?.status === 'attending';
-  });
-
-  const notAttendingNames = respondedNames.filter((name) => {
-    const record = attendanceMap.get(name);
-    return record?.status === 'not_attending';
-  });
-
-  // Attending section
-  if (attendingNames.length > 0) {
-    copyText += `✓ Attending (${attendingNames.length}):\n`;
-    copyText += attendingNames
-      .map((name, index) => {
-        const record = attendanceMap.get(name);
-        let line = `${index + 1}. ${name}`;
-
-        if (copyOptions.includeRemarks && record?.remarks) {
-          line += `\n   Remarks: ${record.remarks}`;
-        }
-
-        return line;
-      })
-      .join('\n');
-    copyText += '\n\n';
+  const sections: string[] = [];
+
+  for (const { status, heading } of _STATUS_SECTIONS) {
+    const names = respondedNames.filter((name) => attendanceMap.get(name)?.status === status);
+    if (names.length === 0) continue;
+
+    sections.push(
+      `${heading} (${_countPeople(names, attendanceMap)}):\n` +
+        names
+          .map((name, index) => _formatNameLine(name, index, attendanceMap.get(name), copyOptions))
+          .join('\n')
+    );
   }
 
-  // Not attending section
-  if (notAttendingNames.length > 0) {
-    copyText += `✗ Not Attending (${notAttendingNames.length}):\n`;
-    copyText += notAttendingNames
-      .map((name, index) => {
-        const record = attendanceMap.get(name);
-        let line = `${index + 1}. ${name}`;
-
-        if (copyOptions.includeRemarks && record?.reason) {
-          line += `\n   Reason: ${record.reason}`;
-        }
-
-        return line;
-      })
-      .join('\n');
-  }
-
-  return copyText;
+  return sections.join('\n\n');
 }
 
 /**
@@ -297,7 +308,7 @@ function _generateGroupedStatusText(
 function _generateSingleListText(
   respondedNames: string[],
   attendanceMap: Map<string, Doc<'attendanceRecords'>>,
-  statusFilter: 'all' | 'attending' | 'not_attending',
+  statusFilter: AttendanceStatusFilter,
   copyOptions: CopyOptions
 ): string {
   const statusTitle =
@@ -305,30 +316,68 @@ function _generateSingleListText(
       ? 'All Responses'
       : statusFilter === 'attending'
         ? 'Attending Responses'
-        : 'Not Attending Responses';
+        : statusFilter === 'maybe'
+          ? 'Maybe Responses'
+          : 'Not Attending Responses';
 
-  let copyText = `${statusTitle} (${respondedNames.length}):\n`;
+  let copyText = `${statusTitle} (${_countPeople(respondedNames, attendanceMap)}):\n`;
 
   copyText += respondedNames
-    .map((name, index) => {
-      const record = attendanceMap.get(name);
-      const status = record?.status;
-      const statusIcon = status === 'attending' ? '✓' : '✗';
-
-      let line = `${index + 1}. ${name} [${statusIcon}]`;
-
-      // Add reason or remarks if option is enabled
-      if (copyOptions.includeRemarks) {
-        if (status === 'attending' && record?.remarks) {
-          line += `\n   Remarks: ${record.remarks}`;
-        } else if (status === 'not_attending' && record?.reason) {
-          line += `\n   Reason: ${record.reason}`;
-        }
-      }
-
-      return line;
-    })
+    .map((name, index) =>
+      _formatNameLine(name, index, attendanceMap.get(name), copyOptions, statusFilter === 'all')
+    )
     .join('\n');
 
   return copyText;
 }
+
+/**
+ * Format a numbered line for a person, with their RSVP status icon when requested,
+ * their actual attendance, and their reason or remarks depending on the copy options.
+ * Internal helper function for text generation.
+ */
+function _formatNameLine(
+  name: string,
+  index: number,
+  record: Doc<'attendanceRecords'> | undefined,
+  copyOptions: CopyOptions,
+  showStatusIcon = false
+): string {
+  const status = record?.status;
+  let line = `${index + 1}. ${name}`;
+
+  if (showStatusIcon && status) {
+    line += ` [${_STATUS_ICONS[status]}]`;
+  }
+  if (record?.guests?.length && status !== 'not_attending') {
+    line += ` (+${record.guests.length}: ${formatAttendanceGuests(record.guests)})`;
+  }
+  if (copyOptions.includeAttendanceMarks && record?.attendanceMark) {
+    line += ` - ${_MARK_LABELS[record.attendanceMark]}`;
+  }
+
+  // Add reason or remarks if option is enabled
+  if (copyOptions.includeRemarks) {
+    if (status !== 'not_attending' && record?.remarks) {
+      line += `\n   Remarks: ${record.remarks}`;
+    } else if (status === 'not_attending' && record?.reason) {
+      line += `\n   Reason: ${record.reason}`;
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Count the people responding under a list of names, including their guests.
+ * Internal helper function for section headcounts.
+ */
+function _countPeople(
+  names: string[],
+  attendanceMap: Map<string, Doc<'attendanceRecords'>>
+): number {
+  return names.reduce((total, name) => {
+    const record = attendanceMap.get(name);
+    return total + (record && record.status !== 'not_attending' ? getPartySize(record) : 1);
+  }, 0);
+}
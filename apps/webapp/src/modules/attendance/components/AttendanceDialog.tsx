@@ -1,7 +1,8 @@
 import { api } from '@workspace/backend/convex/_generated/api';
 import type { Doc, Id } from '@workspace/backend/convex/_generated/dataModel';
+import { MAX_ATTENDANCE_GUESTS } from '@workspace/backend/modules/attendance/guests';
 import { useSessionMutation } from 'convex-helpers/react/sessions';
-import { Loader2, Trash2, UserCog, UserRound } from 'lucide-react';
+import { Loader2, Plus, Trash2, UserCog, UserRound, X } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
 import { toast } from 'sonner';
 
@@ -35,6 +36,7 @@ interface AttendanceDialogProps {
   personName: string;
   attendanceKey?: string;
   attendanceRecords: Doc<'attendanceRecords'>[];
+  editableRecordIds: Set<Id<'attendanceRecords'>>;
   onSuccess?: () => void;
   isManuallyJoined: boolean;
   remarksPlaceholder?: string;
@@ -42,7 +44,7 @@ interface AttendanceDialogProps {
 
 /**
  * Dialog component for recording attendance with support for authenticated and anonymous users.
- * Handles attendance status, reasons, remarks, and allows editing/deleting existing records.
+ * Handles attendance status, reasons, remarks and guests, and allows editing/deleting existing records.
  */
 export function AttendanceDialog({
   isOpen,
@@ -50,6 +52,7 @@ export function AttendanceDialog({
   personName,
   attendanceKey,
   attendanceRecords,
+  editableRecordIds,
   onSuccess,
   isManuallyJoined,
   remarksPlaceholder,
@@ -60,6 +63,9 @@ export function AttendanceDialog({
   // Find existing record for this person
   const existingRecord = attendanceRecords.find((record) => record.name === personName);
 
+  // Responses can only be changed by the person who gave them, or by a host or admin
+  const canEditExistingRecord = !existingRecord || editableRecordIds.has(existingRecord._id);
+
   // If the existing record belongs to the current user
   const isCurrentUserResponse = existingRecord?.userId
     ? existingRecord?.userId === currentUser?._id
@@ -80,6 +86,9 @@ export function AttendanceDialog({
   );
   const [reason, setReason] = useState(existingRecord?.reason || '');
   const [remarks, setRemarks] = useState(existingRecord?.remarks || '');
+  const [guestNames, setGuestNames] = useState<string[]>(
+    existingRecord?.guests?.map((guest) => guest.name ?? '') ?? []
+  );
   const [loading, setLoading] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [enteredName, setEnteredName] = useState(personName || '');
@@ -98,6 +107,7 @@ export function AttendanceDialog({
       setStatus((existingRecord.status as AttendanceStatus) || AttendanceStatus.ATTENDING);
       setReason(existingRecord.reason || '');
       setRemarks(existingRecord.remarks || '');
+      setGuestNames(existingRecord.guests?.map((guest) => guest.name ?? '') ?? []);
     }
   }, [existingRecord]);
 
@@ -114,6 +124,10 @@ export function AttendanceDialog({
     }
 
     setLoading(true);
+    const guests =
+      status !== AttendanceStatus.NOT_ATTENDING
+        ? guestNames.map((guestName) => ({ name: guestName.trim() || undefined }))
+        : undefined;
 
     try {
       if (respondAs === 'self' && isAuthenticated) {
@@ -122,9 +136,10 @@ export function AttendanceDialog({
           attendanceKey,
           status,
           reason: status === AttendanceStatus.NOT_ATTENDING ? reason : undefined,
-          remarks: status === AttendanceStatus.ATTENDING ? remarks : undefined,
+          remarks: status !== AttendanceStatus.NOT_ATTENDING ? remarks : undefined,
           self: true,
           isManuallyJoined,
+          guests,
         });
         toast.success('Your attendance has been recorded');
       } else {
@@ -133,9 +148,10 @@ export function AttendanceDialog({
           name: nameToUse,
           status,
           reason: status === AttendanceStatus.NOT_ATTENDING ? reason : undefined,
-          remarks: status === AttendanceStatus.ATTENDING ? remarks : undefined,
+          remarks: status !== AttendanceStatus.NOT_ATTENDING ? remarks : undefined,
           self: false,
           isManuallyJoined,
+          guests,
         });
         toast.success(`Attendance recorded for ${nameToUse}`);
       }
@@ -164,6 +180,7 @@ export function AttendanceDialog({
     respondAs,
     status,
     remarks,
+    guestNames,
     isManuallyJoined,
   ]);
 
@@ -203,12 +220,7 @@ export function AttendanceDialog({
   }, [existingRecord, isAuthenticated, personName, enteredName, deleteAttendanceRecord, onClose]);
 
   // Check if current user can modify this record
-  const canDelete =
-    existingRecord &&
-    // User can delete their own record
-    ((isAuthenticated && existingRecord.userId === currentUser?._id) ||
-      // User can delete anonymous records
-      !existingRecord.userId);
+  const canDelete = existingRecord && canEditExistingRecord;
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
@@ -227,6 +239,12 @@ export function AttendanceDialog({
           <Separator className="mb-2" />
 
           <div className="space-y-2">
+            {!canEditExistingRecord && (
+              <p className="p-3 rounded-lg bg-muted/30 text-sm text-muted-foreground">
+                {personName} has already responded. Only they or the host can change this response.
+              </p>
+            )}
+
             {/* Name input for anonymous users or when no name is provided */}
             {(!isAuthenticated || !personName) && (
               <div className="space-y-3 p-4 bg-muted/30 rounded-lg">
@@ -287,6 +305,7 @@ export function AttendanceDialog({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value={AttendanceStatus.ATTENDING}>Attending</SelectItem>
+                    <SelectItem value={AttendanceStatus.MAYBE}>Maybe</SelectItem>
                     <SelectItem value={AttendanceStatus.NOT_ATTENDING}>Not Attending</SelectItem>
                   </SelectContent>
                 </Select>
@@ -308,7 +327,7 @@ export function AttendanceDialog({
                 </div>
               )}
 
-              {status === AttendanceStatus.ATTENDING && (
+              {status !== AttendanceStatus.NOT_ATTENDING && (
                 <div className="space-y-2 pt-2">
                   <Label htmlFor="remarks" className="text-sm font-medium">
                     Remarks (optional)
@@ -323,6 +342,45 @@ export function AttendanceDialog({
                   />
                 </div>
               )}
+
+              {status !== AttendanceStatus.NOT_ATTENDING && (
+                <div className="space-y-2 pt-2">
+                  <Label className="text-sm font-medium">Guests (optional)</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Add household members or plus-ones coming with you. Names are optional.
+                  </p>
+                  {guestNames.map((guestName, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        value={guestName}
+                        onChange={(e) =>
+                          setGuestNames((prev) =>
+                            prev.map((name, i) => (i === index ? e.target.value : name))
+                          )
+                        }
+                        placeholder={`Guest ${index + 1}`}
+                        aria-label={`Guest ${index + 1} name`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setGuestNames((prev) => prev.filter((_, i) => i !== index))}
+                        aria-label={`Remove guest ${index + 1}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setGuestNames((prev) => [...prev, ''])}
+                    disabled={guestNames.length >= MAX_ATTENDANCE_GUESTS}
+                  >
+                    <Plus className="h-4 w-4 mr-1" /> Add guest
+                  </Button>
+                </div>
+              )}
             </div>
 
             <div>
@@ -361,7 +419,7 @@ export function AttendanceDialog({
             <Button variant="outline" onClick={onClose} size="sm">
               Cancel
             </Button>
-            <Button onClick={handleSubmit} disabled={loading} size="sm">
+            <Button onClick={handleSubmit} disabled={loading || !canEditExistingRecord} size="sm">
               {loading ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
@@ -0,0 +1,312 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Doc, Id } from '@workspace/backend/convex/_generated/dataModel';
+import { useSessionMutation, useSessionQuery } from 'convex-helpers/react/sessions';
+import { Archive, CalendarDays, ExternalLink, Loader2, MapPin, Plus, Repeat } from 'lucide-react';
+import { DateTime } from 'luxon';
+import Link from 'next/link';
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+
+/**
+ * Internal form state for creating an attendance event.
+ */
+interface _EventFormState {
+  title: string;
+  date: string;
+  location: string;
+  rsvpDeadline: string;
+  groupId: string;
+  repeats: _RepeatOption;
+}
+
+type _RepeatOption = 'none' | 'weekly' | 'biweekly';
+
+// Select value used when the event is not linked to a group roster
+const _NO_GROUP = 'none';
+
+const _REPEAT_LABELS: Record<_RepeatOption, string> = {
+  none: 'Does not repeat',
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+};
+
+const _EMPTY_FORM: _EventFormState = {
+  title: '',
+  date: '',
+  location: '',
+  rsvpDeadline: '',
+  groupId: _NO_GROUP,
+  repeats: 'none',
+};
+
+/**
+ * Lets coordinators create attendance events and manage the events they own.
+ * Each event gets a shareable page that renders its attendance list.
+ */
+export function AttendanceEventManager() {
+  const events = useSessionQuery(api.attendanceEvents.listAttendanceEvents, {
+    includeArchived: true,
+  });
+  const groups = useSessionQuery(api.attendanceGroups.listAttendanceGroups, {});
+  const createAttendanceEvent = useSessionMutation(api.attendanceEvents.createAttendanceEvent);
+  const archiveAttendanceEvent = useSessionMutation(api.attendanceEvents.archiveAttendanceEvent);
+
+  const [form, setForm] = useState<_EventFormState>(_EMPTY_FORM);
+  const [isCreating, setIsCreating] = useState(false);
+
+  /**
+   * Create a new attendance event from the form values.
+   */
+  const handleCreate = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!form.title.trim()) {
+        toast.error('Please enter a title');
+        return;
+      }
+
+      const date = _parseDateTimeInput(form.date);
+      if (form.repeats !== 'none' && date === undefined) {
+        toast.error('Please choose a date for the first session');
+        return;
+      }
+
+      setIsCreating(true);
+      try {
+        await createAttendanceEvent({
+          title: form.title,
+          date,
+          location: form.location.trim() || undefined,
+          rsvpDeadline: _parseDateTimeInput(form.rsvpDeadline),
+          groupId:
+            form.groupId === _NO_GROUP ? undefined : (form.groupId as Id<'attendanceGroups'>),
+          recurrence:
+            form.repeats !== 'none' && date !== undefined
+              ? _buildRecurrence(form.repeats, date)
+              : undefined,
+        });
+        setForm(_EMPTY_FORM);
+        toast.success('Attendance event created');
+      } catch (error) {
+        console.error('Failed to create attendance event:', error);
+        toast.error('Failed to create attendance event. Please try again.');
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [createAttendanceEvent, form]
+  );
+
+  /**
+   * Archive an attendance event so it stops accepting responses.
+   */
+  const handleArchive = useCallback(
+    async (event: Doc<'attendanceEvents'>) => {
+      try {
+        await archiveAttendanceEvent({ eventId: event._id });
+        toast.success(`Archived ${event.title}`);
+      } catch (error) {
+        console.error('Failed to archive attendance event:', error);
+        toast.error('Failed to archive attendance event. Please try again.');
+      }
+    },
+    [archiveAttendanceEvent]
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>New Attendance Event</CardTitle>
+          <CardDescription>
+            Set up a meeting and share its link to collect responses.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="event-title">Title</Label>
+              <Input
+                id="event-title"
+                value={form.title}
+                onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+                placeholder="Friday Cell Group"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-date">Date</Label>
+              <Input
+                id="event-date"
+                type="datetime-local"
+                value={form.date}
+                onChange={(e) => setForm((prev) => ({ ...prev, date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-rsvp-deadline">RSVP Deadline</Label>
+              <Input
+                id="event-rsvp-deadline"
+                type="datetime-local"
+                value={form.rsvpDeadline}
+                onChange={(e) => setForm((prev) => ({ ...prev, rsvpDeadline: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-location">Location</Label>
+              <Input
+                id="event-location"
+                value={form.location}
+                onChange={(e) => setForm((prev) => ({ ...prev, location: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-group">Group Roster</Label>
+              <Select
+                value={form.groupId}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, groupId: value }))}
+              >
+                <SelectTrigger id="event-group" className="w-full">
+                  <SelectValue placeholder="Select a group" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={_NO_GROUP}>No roster</SelectItem>
+                  {groups?.map((group) => (
+                    <SelectItem key={group._id} value={group._id}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-repeats">Repeats</Label>
+              <Select
+                value={form.repeats}
+                onValueChange={(value) =>
+                  setForm((prev) => ({ ...prev, repeats: value as _RepeatOption }))
+                }
+              >
+                <SelectTrigger id="event-repeats" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(_REPEAT_LABELS) as _RepeatOption[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {_REPEAT_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="sm:col-span-2 flex justify-end">
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Create Event
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-2">
+        <h2 className="text-lg font-semibold">Your Events</h2>
+        {events === undefined ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have not created any events yet.</p>
+        ) : (
+          events.map((event) => (
+            <div
+              key={event._id}
+              className="p-3 border rounded-md flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">{event.title}</p>
+                <div className="flex flex-wrap gap-x-4 text-sm text-muted-foreground">
+                  {event.date && (
+                    <span className="flex items-center gap-1">
+                      <CalendarDays className="h-3 w-3" />
+                      {DateTime.fromMillis(event.date).toLocaleString(DateTime.DATETIME_MED)}
+                    </span>
+                  )}
+                  {event.location && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {event.location}
+                    </span>
+                  )}
+                  {event.recurrence && (
+                    <span className="flex items-center gap-1">
+                      <Repeat className="h-3 w-3" />
+                      {_REPEAT_LABELS[event.recurrence.frequency]}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/attendance/${event._id}`}>
+                    <ExternalLink className="h-4 w-4 mr-1" /> Open
+                  </Link>
+                </Button>
+                {event.isArchived ? (
+                  <Badge variant="secondary">Archived</Badge>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => handleArchive(event)}>
+                    <Archive className="h-4 w-4 mr-1" /> Archive
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Converts a datetime-local input value into a timestamp, or undefined when empty.
+ */
+function _parseDateTimeInput(value: string): number | undefined {
+  if (!value) return undefined;
+  const dateTime = DateTime.fromISO(value);
+  return dateTime.isValid ? dateTime.toMillis() : undefined;
+}
+
+/**
+ * Builds a recurrence rule that repeats on the weekday and local time of the first session.
+ */
+function _buildRecurrence(frequency: Exclude<_RepeatOption, 'none'>, date: number) {
+  const dateTime = DateTime.fromMillis(date);
+  return {
+    frequency,
+    dayOfWeek: dateTime.weekday % 7,
+    time: dateTime.toFormat('HH:mm'),
+    utcOffsetMinutes: dateTime.offset,
+  };
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Doc, Id } from '@workspace/backend/convex/_generated/dataModel';
+import { useSessionMutation, useSessionQuery } from 'convex-helpers/react/sessions';
+import { Bell, BellOff, Link2, Plus, Trash2, Users } from 'lucide-react';
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+
+/**
+ * Lets coordinators create attendance groups and maintain the roster of expected attendees.
+ * Events linked to a group compute pending and responded members from this roster.
+ */
+export function AttendanceGroupManager() {
+  const groups = useSessionQuery(api.attendanceGroups.listAttendanceGroups, {});
+  const createAttendanceGroup = useSessionMutation(api.attendanceGroups.createAttendanceGroup);
+
+  const [groupName, setGroupName] = useState('');
+  const [selectedGroupId, setSelectedGroupId] = useState<Id<'attendanceGroups'> | null>(null);
+
+  /**
+   * Create a new attendance group and select it for roster editing.
+   */
+  const handleCreateGroup = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!groupName.trim()) {
+        toast.error('Please enter a group name');
+        return;
+      }
+
+      try {
+        const groupId = await createAttendanceGroup({ name: groupName });
+        setGroupName('');
+        setSelectedGroupId(groupId);
+        toast.success('Attendance group created');
+      } catch (error) {
+        console.error('Failed to create attendance group:', error);
+        toast.error('Failed to create attendance group. Please try again.');
+      }
+    },
+    [createAttendanceGroup, groupName]
+  );
+
+  const selectedGroup = groups?.find((group) => group._id === selectedGroupId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Groups</CardTitle>
+        <CardDescription>
+          Keep a roster of who is expected at your meetings. Changes apply immediately.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreateGroup} className="flex gap-2">
+          <Input
+            value={groupName}
+            onChange={(e) => setGroupName(e.target.value)}
+            placeholder="New group name"
+          />
+          <Button type="submit" variant="outline">
+            <Plus className="h-4 w-4 mr-1" /> Add Group
+          </Button>
+        </form>
+
+        {groups === undefined ? (
+          <Skeleton className="h-10 w-full" />
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have not created any groups yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {groups.map((group) => (
+              <Button
+                key={group._id}
+                variant={group._id === selectedGroupId ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSelectedGroupId(group._id)}
+              >
+                <Users className="h-4 w-4 mr-1" />
+                {group.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {selectedGroup && <AttendanceGroupRoster group={selectedGroup} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Roster editor for a single attendance group.
+ */
+function AttendanceGroupRoster({ group }: { group: Doc<'attendanceGroups'> }) {
+  const members = useSessionQuery(api.attendanceGroups.getAttendanceGroupMembers, {
+    groupId: group._id,
+    includeInactive: true,
+  });
+  const addMember = useSessionMutation(api.attendanceGroups.addAttendanceGroupMember);
+  const updateMember = useSessionMutation(api.attendanceGroups.updateAttendanceGroupMember);
+  const removeMember = useSessionMutation(api.attendanceGroups.removeAttendanceGroupMember);
+  const setReminderOptOut = useSessionMutation(api.attendanceReminders.setAttendanceReminderOptOut);
+
+  const [memberName, setMemberName] = useState('');
+  const [memberEmail, setMemberEmail] = useState('');
+
+  /**
+   * Add a member to the roster by name, with an optional email address for reminders.
+   */
+  const handleAddMember = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!memberName.trim()) return;
+
+      try {
+        await addMember({ groupId: group._id, name: memberName, email: memberEmail });
+        setMemberName('');
+        setMemberEmail('');
+      } catch (error) {
+        console.error('Failed to add roster member:', error);
+        toast.error('Failed to add member. They may already be on the roster.');
+      }
+    },
+    [addMember, group._id, memberName, memberEmail]
+  );
+
+  /**
+   * Save a member's email address for reminders when it was changed.
+   */
+  const handleUpdateEmail = useCallback(
+    async (member: Doc<'attendanceGroupMembers'>, email: string) => {
+      if (email.trim() === (member.email ?? '')) return;
+
+      try {
+        await updateMember({ memberId: member._id, email });
+      } catch (error) {
+        console.error('Failed to update roster member:', error);
+        toast.error('Failed to update email. Please try again.');
+      }
+    },
+    [updateMember]
+  );
+
+  /**
+   * Toggle whether a member receives reminders for events they have not responded to.
+   */
+  const handleToggleReminders = useCallback(
+    async (member: Doc<'attendanceGroupMembers'>) => {
+      try {
+        await setReminderOptOut({ memberId: member._id, optedOut: !member.remindersOptedOut });
+      } catch (error) {
+        console.error('Failed to update reminder settings:', error);
+        toast.error('Failed to update reminder settings. Please try again.');
+      }
+    },
+    [setReminderOptOut]
+  );
+
+  /**
+   * Toggle whether a member is expected to respond.
+   */
+  const handleToggleActive = useCallback(
+    async (member: Doc<'attendanceGroupMembers'>, isActive: boolean) => {
+      try {
+        await updateMember({ memberId: member._id, isActive });
+      } catch (error) {
+        console.error('Failed to update roster member:', error);
+        toast.error('Failed to update member. Please try again.');
+      }
+    },
+    [updateMember]
+  );
+
+  /**
+   * Remove a member from the roster.
+   */
+  const handleRemove = useCallback(
+    async (member: Doc<'attendanceGroupMembers'>) => {
+      try {
+        await removeMember({ memberId: member._id });
+        toast.success(`Removed ${member.name} from ${group.name}`);
+      } catch (error) {
+        console.error('Failed to remove roster member:', error);
+        toast.error('Failed to remove member. Please try again.');
+      }
+    },
+    [removeMember, group.name]
+  );
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h3 className="font-medium">{group.name} Roster</h3>
+      <form onSubmit={handleAddMember} className="flex gap-2">
+        <Input
+          value={memberName}
+          onChange={(e) => setMemberName(e.target.value)}
+          placeholder="Member name"
+        />
+        <Input
+          type="email"
+          value={memberEmail}
+          onChange={(e) => setMemberEmail(e.target.value)}
+          placeholder="Email (optional)"
+        />
+        <Button type="submit" variant="outline">
+          <Plus className="h-4 w-4 mr-1" /> Add
+        </Button>
+      </form>
+
+      {members === undefined ? (
+        <Skeleton className="h-10 w-full" />
+      ) : members.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No members on this roster yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {members.map((member) => (
+            <div
+              key={member._id}
+              className="p-2 border rounded-md flex items-center justify-between gap-2"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span
+                  className={`text-sm truncate ${member.isActive ? '' : 'text-muted-foreground line-through'}`}
+                >
+                  {member.name}
+                </span>
+                {member.userId && (
+                  <Badge variant="secondary" className="text-xs">
+                    <Link2 className="h-3 w-3 mr-1" /> Linked
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Input
+                  key={member.email ?? ''}
+                  type="email"
+                  defaultValue={member.email ?? ''}
+                  onBlur={(e) => handleUpdateEmail(member, e.target.value)}
+                  placeholder="Email for reminders"
+                  className="h-8 w-48 hidden sm:block"
+                  aria-label={`Email for ${member.name}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => handleToggleReminders(member)}
+                  aria-label={
+                    member.remindersOptedOut
+                      ? `Send reminders to ${member.name}`
+                      : `Stop reminders to ${member.name}`
+                  }
+                  title={member.remindersOptedOut ? 'Reminders off' : 'Reminders on'}
+                >
+                  {member.remindersOptedOut ? (
+                    <BellOff className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Bell className="h-4 w-4" />
+                  )}
+                </Button>
+                <Switch
+                  checked={member.isActive}
+                  onCheckedChange={(checked) => handleToggleActive(member, checked)}
+                  aria-label={`Expect ${member.name} to respond`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => handleRemove(member)}
+                  aria-label={`Remove ${member.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
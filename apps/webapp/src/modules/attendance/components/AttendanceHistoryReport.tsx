@@ -0,0 +1,218 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import type { AttendanceMemberStats } from '@workspace/backend/modules/attendance/history';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+import { Flame } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { useMemo, useState } from 'react';
+
+import { AttendanceSparkline } from './AttendanceSparkline';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type _HistoryRange = '3' | '6' | '12' | 'all';
+
+const _RANGE_LABELS: Record<_HistoryRange, string> = {
+  '3': 'Last 3 months',
+  '6': 'Last 6 months',
+  '12': 'Last 12 months',
+  all: 'All time',
+};
+
+/**
+ * Shows per-member attendance statistics across the sessions of a group or recurring series,
+ * so that group leaders can spot members who are drifting away.
+ */
+export function AttendanceHistoryReport() {
+  const sources = useSessionQuery(api.attendanceHistory.listAttendanceHistorySources, {});
+
+  // Sources are encoded as "group:<id>" or "series:<id>" for the select
+  const [source, setSource] = useState<string>('');
+  const [range, setRange] = useState<_HistoryRange>('6');
+
+  const since = useMemo(() => {
+    if (range === 'all') return undefined;
+    return DateTime.now()
+      .minus({ months: Number(range) })
+      .startOf('day')
+      .toMillis();
+  }, [range]);
+
+  const [sourceType, sourceId] = source.split(':');
+  const history = useSessionQuery(
+    api.attendanceHistory.getAttendanceHistory,
+    source
+      ? {
+          groupId: sourceType === 'group' ? (sourceId as Id<'attendanceGroups'>) : undefined,
+          seriesId: sourceType === 'series' ? (sourceId as Id<'attendanceEvents'>) : undefined,
+          since,
+        }
+      : 'skip'
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attendance History</CardTitle>
+        <CardDescription>
+          Attendance rate, streaks and absence reasons per member. Members with the lowest
+          attendance are listed first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="history-source">Group or series</Label>
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger id="history-source" className="w-full">
+                <SelectValue placeholder="Select a group or series" />
+              </SelectTrigger>
+              <SelectContent>
+                {sources?.groups.map((group) => (
+                  <SelectItem key={group._id} value={`group:${group._id}`}>
+                    {group.name} (group)
+                  </SelectItem>
+                ))}
+                {sources?.series.map((series) => (
+                  <SelectItem key={series.seriesId} value={`series:${series.seriesId}`}>
+                    {series.title} (series)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="history-range">Period</Label>
+            <Select value={range} onValueChange={(value) => setRange(value as _HistoryRange)}>
+              <SelectTrigger id="history-range" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(_RANGE_LABELS) as _HistoryRange[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {_RANGE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!source ? (
+          <p className="text-sm text-muted-foreground">
+            Select a group or recurring series to see its attendance history.
+          </p>
+        ) : history === undefined ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : history.members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No responses were recorded for {history.sessions.length} sessions in this period.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {history.sessions.length} sessions, {history.members.length} members
+            </p>
+            {_renderMemberTable(history.members)}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Renders the table of member statistics.
+ */
+function _renderMemberTable(members: AttendanceMemberStats[]) {
+  return (
+    <div className="overflow-x-auto border rounded-md">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-left">
+          <tr>
+            <th className="p-2 font-medium">Member</th>
+            <th className="p-2 font-medium">Rate</th>
+            <th className="p-2 font-medium">Trend</th>
+            <th className="p-2 font-medium">Attended</th>
+            <th className="p-2 font-medium">Absent</th>
+            <th className="p-2 font-medium">No response</th>
+            <th className="p-2 font-medium">No-shows</th>
+            <th className="p-2 font-medium">Late</th>
+            <th className="p-2 font-medium">Streak</th>
+            <th className="p-2 font-medium">Common absence reasons</th>
+          </tr>
+        </thead>
+        <tbody>
+          {members.map((member) => (
+            <tr key={member.memberKey} className="border-t">
+              <td className="p-2 font-medium">{member.name}</td>
+              <td className={`p-2 ${_getRateClassName(member.attendanceRate)}`}>
+                {Math.round(member.attendanceRate * 100)}%
+              </td>
+              <td className={`p-2 ${_getRateClassName(member.trend[member.trend.length - 1])}`}>
+                <AttendanceSparkline values={member.trend} />
+              </td>
+              <td className="p-2">{member.attendedCount}</td>
+              <td className="p-2">{member.absentCount}</td>
+              <td className="p-2">{member.missedCount}</td>
+              <td
+                className="p-2"
+                title="RSVP'd as attending but marked absent, out of attending RSVPs with a mark"
+              >
+                {member.noShowCount > 0 ? (
+                  <span className="text-red-600 dark:text-red-400">
+                    {member.noShowCount} ({Math.round(member.noShowRate * 100)}%)
+                  </span>
+                ) : (
+                  0
+                )}
+              </td>
+              <td className="p-2">{member.lateCount}</td>
+              <td className="p-2">
+                <span className="flex items-center gap-1" title="Current / longest streak">
+                  {member.currentStreak > 0 && <Flame className="h-3 w-3 text-orange-500" />}
+                  {member.currentStreak} / {member.longestStreak}
+                </span>
+              </td>
+              <td className="p-2">
+                <div className="flex flex-wrap gap-1">
+                  {member.topAbsenceReasons.map((reason) => (
+                    <Badge key={reason.reason} variant="secondary" className="text-xs">
+                      {reason.reason} ({reason.count})
+                    </Badge>
+                  ))}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Colors an attendance rate by how concerning it is.
+ */
+function _getRateClassName(rate: number | undefined): string {
+  if (rate === undefined) return 'text-muted-foreground';
+  if (rate < 0.5) return 'text-red-600 dark:text-red-400';
+  if (rate < 0.75) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-green-600 dark:text-green-400';
+}
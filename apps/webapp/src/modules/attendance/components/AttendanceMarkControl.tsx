@@ -0,0 +1,120 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Doc, Id } from '@workspace/backend/convex/_generated/dataModel';
+import { useSessionMutation } from 'convex-helpers/react/sessions';
+import { DateTime } from 'luxon';
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+
+import { AttendanceMark } from '../types';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+/**
+ * Props for the AttendanceMarkControl component.
+ */
+export interface AttendanceMarkControlProps {
+  eventId?: Id<'attendanceEvents'>;
+  name: string;
+  record?: Doc<'attendanceRecords'>;
+  canEdit: boolean;
+}
+
+const _UNMARKED = 'unmarked';
+
+const _MARK_LABELS: Record<AttendanceMark, string> = {
+  [AttendanceMark.PRESENT]: 'Present',
+  [AttendanceMark.ABSENT]: 'Absent',
+  [AttendanceMark.LATE]: 'Late',
+};
+
+const _MARK_CLASS_NAMES: Record<AttendanceMark, string> = {
+  [AttendanceMark.PRESENT]: 'text-green-600 dark:text-green-400',
+  [AttendanceMark.ABSENT]: 'text-red-600 dark:text-red-400',
+  [AttendanceMark.LATE]: 'text-yellow-600 dark:text-yellow-400',
+};
+
+/**
+ * Shows whether a person actually attended an event, separately from their RSVP.
+ * Hosts get a select for marking people present, absent or late; everyone else sees a badge.
+ */
+export const AttendanceMarkControl = ({
+  eventId,
+  name,
+  record,
+  canEdit,
+}: AttendanceMarkControlProps) => {
+  const markAttendance = useSessionMutation(api.attendance.markAttendance);
+  const [isSaving, setIsSaving] = useState(false);
+  const mark = record?.attendanceMark as AttendanceMark | undefined;
+
+  /**
+   * Save the selected mark, clearing it when "Not marked" is chosen.
+   */
+  const handleChange = useCallback(
+    async (value: string) => {
+      if (!eventId) return;
+
+      setIsSaving(true);
+      try {
+        await markAttendance({
+          eventId,
+          name,
+          mark: value === _UNMARKED ? null : (value as AttendanceMark),
+        });
+      } catch (error) {
+        console.error('Failed to mark attendance:', error);
+        toast.error('Failed to mark attendance. Please try again.');
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [eventId, markAttendance, name]
+  );
+
+  if (canEdit && eventId) {
+    return (
+      <Select value={mark ?? _UNMARKED} onValueChange={handleChange} disabled={isSaving}>
+        <SelectTrigger
+          size="sm"
+          className={`w-[120px] flex-shrink-0 text-xs ${mark ? _MARK_CLASS_NAMES[mark] : ''}`}
+          aria-label={`Attendance of ${name}`}
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={_UNMARKED}>Not marked</SelectItem>
+          {Object.values(AttendanceMark).map((value) => (
+            <SelectItem key={value} value={value}>
+              {_MARK_LABELS[value]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (!mark) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`flex-shrink-0 text-xs ${_MARK_CLASS_NAMES[mark]}`}
+      title={
+        record?.checkedInAt
+          ? `Checked in at ${DateTime.fromMillis(record.checkedInAt).toLocaleString(DateTime.TIME_SIMPLE)}`
+          : undefined
+      }
+    >
+      {_MARK_LABELS[mark]}
+    </Badge>
+  );
+};
@@ -0,0 +1,106 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import {
+  ATTENDANCE_REMINDER_LEAD_TIME_MS,
+  type AttendanceReminderHistoryEntry,
+} from '@workspace/backend/modules/attendance/notifiers';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+import { Mail, Webhook } from 'lucide-react';
+import { DateTime } from 'luxon';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+
+/**
+ * Props for the AttendanceReminderHistoryDialog component.
+ */
+export interface AttendanceReminderHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  eventId: Id<'attendanceEvents'>;
+  title: string;
+}
+
+/**
+ * Dialog for hosts showing which roster members were reminded to respond, and how.
+ */
+export const AttendanceReminderHistoryDialog = ({
+  isOpen,
+  onClose,
+  eventId,
+  title,
+}: AttendanceReminderHistoryDialogProps) => {
+  const reminders = useSessionQuery(
+    api.attendanceReminders.getAttendanceReminderHistory,
+    isOpen ? { eventId } : 'skip'
+  );
+  const leadTimeHours = ATTENDANCE_REMINDER_LEAD_TIME_MS / (60 * 60 * 1000);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Reminders</DialogTitle>
+          <DialogDescription>
+            Roster members who have not responded to {title} are reminded {leadTimeHours} hours
+            before the RSVP deadline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[400px]">
+          <ScrollArea className="h-full">
+            {reminders === undefined ? (
+              <div className="space-y-2">
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ) : reminders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No reminders have been sent yet.</p>
+            ) : (
+              <div className="space-y-2">{reminders.map(_renderReminder)}</div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Renders a single reminder attempt.
+ */
+function _renderReminder(reminder: AttendanceReminderHistoryEntry) {
+  const ChannelIcon = reminder.channel === 'email' ? Mail : Webhook;
+
+  return (
+    <div key={reminder._id} className="p-2 border rounded-md text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 min-w-0">
+          <ChannelIcon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="font-medium truncate">{reminder.memberName}</span>
+        </p>
+        <Badge
+          variant={reminder.status === 'sent' ? 'secondary' : 'destructive'}
+          className="flex-shrink-0 text-xs"
+        >
+          {reminder.status === 'sent' ? 'Sent' : 'Failed'}
+        </Badge>
+      </div>
+      {reminder.error && <p className="text-muted-foreground">{reminder.error}</p>}
+      <p className="text-xs text-muted-foreground">
+        {DateTime.fromMillis(reminder.sentAt).toLocaleString(DateTime.DATETIME_MED)}
+      </p>
+    </div>
+  );
+}
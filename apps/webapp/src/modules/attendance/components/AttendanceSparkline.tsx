@@ -0,0 +1,49 @@
+/**
+ * Props for the AttendanceSparkline component.
+ */
+export interface AttendanceSparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Renders a small line chart of values between 0 and 1, such as a rolling attendance rate.
+ * The line is drawn with the current text color so it follows the surrounding theme.
+ */
+export function AttendanceSparkline({
+  values,
+  width = 96,
+  height = 24,
+  className,
+}: AttendanceSparklineProps) {
+  if (values.length === 0) {
+    return <span className="text-xs text-muted-foreground">—</span>;
+  }
+
+  // A single value is drawn as a flat line across the chart
+  const points = values.length === 1 ? [values[0], values[0]] : values;
+  const padding = 2;
+  const step = (width - padding * 2) / (points.length - 1);
+  const path = points
+    .map((value, index) => {
+      const x = padding + index * step;
+      const y = padding + (1 - value) * (height - padding * 2);
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      role="img"
+      aria-label={`Attendance trend, latest ${Math.round(values[values.length - 1] * 100)}%`}
+    >
+      <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+}
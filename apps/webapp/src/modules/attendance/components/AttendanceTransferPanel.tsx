@@ -0,0 +1,279 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import {
+  type AttendanceImportResult,
+  type AttendanceTransferFormat,
+  formatAttendanceCsv,
+  formatAttendanceJson,
+} from '@workspace/backend/modules/attendance/transfer';
+import { useSessionMutation, useSessionQuery } from 'convex-helpers/react/sessions';
+import { AlertCircle, Download, Loader2, Upload } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { useCallback, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+
+// Select value used to export a date range instead of a single event
+const _DATE_RANGE = 'range';
+
+/**
+ * Lets coordinators export attendance records as CSV or JSON and bulk-import
+ * past responses, such as a transcribed paper sign-in sheet.
+ */
+export function AttendanceTransferPanel() {
+  const events = useSessionQuery(api.attendanceEvents.listAttendanceEvents, {
+    includeArchived: true,
+  });
+  const importAttendanceRecords = useSessionMutation(
+    api.attendanceTransfer.importAttendanceRecords
+  );
+
+  const [exportScope, setExportScope] = useState<string>(_DATE_RANGE);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [importEventKey, setImportEventKey] = useState<string>('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<AttendanceImportResult | null>(null);
+
+  const exportArgs = useMemo(() => {
+    if (exportScope !== _DATE_RANGE) {
+      return { attendanceKey: exportScope };
+    }
+    return {
+      from: fromDate ? DateTime.fromISO(fromDate).startOf('day').toMillis() : undefined,
+      to: toDate ? DateTime.fromISO(toDate).endOf('day').toMillis() : undefined,
+    };
+  }, [exportScope, fromDate, toDate]);
+  const exportRows = useSessionQuery(api.attendanceTransfer.exportAttendanceRecords, exportArgs);
+
+  /**
+   * Download the exported rows in the chosen format.
+   */
+  const handleExport = useCallback(
+    (format: AttendanceTransferFormat) => {
+      if (!exportRows) return;
+      const content =
+        format === 'csv' ? formatAttendanceCsv(exportRows) : formatAttendanceJson(exportRows);
+      const baseName = exportScope === _DATE_RANGE ? 'attendance' : exportScope;
+      _downloadFile(
+        content,
+        `${baseName}-${DateTime.now().toFormat('yyyy-MM-dd')}.${format}`,
+        format === 'csv' ? 'text/csv' : 'application/json'
+      );
+    },
+    [exportRows, exportScope]
+  );
+
+  /**
+   * Import the selected file, showing per-row errors if it could not be imported.
+   */
+  const handleImport = useCallback(async () => {
+    if (!importFile) {
+      toast.error('Please choose a CSV or JSON file');
+      return;
+    }
+
+    setIsImporting(true);
+    setImportResult(null);
+    try {
+      const content = await importFile.text();
+      const format: AttendanceTransferFormat = importFile.name.toLowerCase().endsWith('.json')
+        ? 'json'
+        : 'csv';
+      const result = await importAttendanceRecords({
+        content,
+        format,
+        attendanceKey: importEventKey || undefined,
+      });
+      setImportResult(result);
+      if (result.success) {
+        toast.success(`Imported ${result.importedCount} responses`);
+      } else {
+        toast.error('Some rows could not be imported. Nothing was imported.');
+      }
+    } catch (error) {
+      console.error('Failed to import attendance records:', error);
+      toast.error('Failed to import attendance records. Please check the file and try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importAttendanceRecords, importEventKey, importFile]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Export & Import</CardTitle>
+        <CardDescription>
+          Download responses as CSV or JSON, or load responses from a past sign-in sheet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-scope">Export</Label>
+            <Select value={exportScope} onValueChange={setExportScope}>
+              <SelectTrigger id="export-scope" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={_DATE_RANGE}>All my events in a date range</SelectItem>
+                {events?.map((event) => (
+                  <SelectItem key={event._id} value={event.attendanceKey}>
+                    {event.title}
+                    {event.date &&
+                      ` (${DateTime.fromMillis(event.date).toLocaleString(DateTime.DATE_MED)})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {exportScope === _DATE_RANGE && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="export-from">From</Label>
+                <Input
+                  id="export-from"
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-to">To</Label>
+                <Input
+                  id="export-to"
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {exportRows === undefined ? 'Loading...' : `${exportRows.length} responses`}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!exportRows?.length}
+                onClick={() => handleExport('csv')}
+              >
+                <Download className="h-4 w-4 mr-1" /> CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!exportRows?.length}
+                onClick={() => handleExport('json')}
+              >
+                <Download className="h-4 w-4 mr-1" /> JSON
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Import file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => {
+                  setImportFile(e.target.files?.[0] ?? null);
+                  setImportResult(null);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-event">Into event</Label>
+              <Select value={importEventKey} onValueChange={setImportEventKey}>
+                <SelectTrigger id="import-event" className="w-full">
+                  <SelectValue placeholder="Use the attendanceKey column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {events?.map((event) => (
+                    <SelectItem key={event._id} value={event.attendanceKey}>
+                      {event.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Columns: attendanceKey, name, status (attending or not_attending), reason, remarks,
+            isManuallyJoined, guests, guestNames (separated by semicolons), timestamp. Rows without
+            an attendanceKey go into the selected event.
+          </p>
+          <div className="flex justify-end">
+            <Button onClick={handleImport} disabled={isImporting || !importFile}>
+              {isImporting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Import
+            </Button>
+          </div>
+          {importResult && !importResult.success && _renderImportErrors(importResult)}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Renders the per-row errors of a rejected import.
+ */
+function _renderImportErrors(result: AttendanceImportResult) {
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{result.errors.length} problems found. Nothing was imported.</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 max-h-48 overflow-y-auto space-y-1">
+          {result.errors.map((error, index) => (
+            <li key={`${error.row}-${index}`}>
+              Row {error.row}: {error.message}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+/**
+ * Triggers a browser download of text content.
+ */
+function _downloadFile(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
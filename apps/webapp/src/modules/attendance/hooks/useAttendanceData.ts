@@ -1,5 +1,6 @@
 import { api } from '@workspace/backend/convex/_generated/api';
-import type { Doc } from '@workspace/backend/convex/_generated/dataModel';
+import type { Doc, Id } from '@workspace/backend/convex/_generated/dataModel';
+import { getPartySize } from '@workspace/backend/modules/attendance/guests';
 import { useSessionQuery } from 'convex-helpers/react/sessions';
 import { useRouter, useSearchParams } from 'next/navigation';
 // External imports
@@ -8,11 +9,17 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 // Internal imports
 import { useCurrentUser } from '@/modules/auth/AuthProvider';
 
+/**
+ * RSVP statuses that the responded list can be filtered by.
+ */
+export type AttendanceStatusFilter = 'all' | 'attending' | 'not_attending' | 'maybe';
+
 /**
  * Props for the useAttendanceData hook.
  */
 export interface UseAttendanceDataProps {
-  attendanceKey: string;
+  attendanceKey?: string;
+  eventId?: Id<'attendanceEvents'>;
   expectedNames?: string[];
 }
 
@@ -24,25 +31,32 @@ export interface UseAttendanceDataReturn {
   attendanceData:
     | ReturnType<typeof useSessionQuery<typeof api.attendance.getAttendanceData>>
     | undefined;
+  attendanceEvent: Doc<'attendanceEvents'> | undefined;
+  isEventNotFound: boolean;
+  resolvedAttendanceKey: string | undefined;
   attendanceRecords: Doc<'attendanceRecords'>[];
   attendanceMap: Map<string, Doc<'attendanceRecords'>>;
+  editableRecordIds: Set<Id<'attendanceRecords'>>;
+  expectedNameSet: Set<string>;
   allNames: Set<string>;
   pendingNames: string[];
   filteredRespondedNames: string[];
   modalFilteredNames: string[];
 
-  // Counts
+  // Counts - attending and maybe counts include guests, so they are headcounts
   attendingCount: number;
   notAttendingCount: number;
+  maybeCount: number;
   pendingCount: number;
   respondedAttendingCount: number;
   respondedNotAttendingCount: number;
+  respondedMaybeCount: number;
 
   // State
   activeTab: 'pending' | 'responded';
   searchQuery: string;
   modalSearchQuery: string;
-  statusFilter: 'all' | 'attending' | 'not_attending';
+  statusFilter: AttendanceStatusFilter;
   isAuthenticated: boolean;
   currentUser: ReturnType<typeof useCurrentUser>;
   isCurrentUserRegistered: boolean;
@@ -50,7 +64,7 @@ export interface UseAttendanceDataReturn {
   // Actions
   setSearchQuery: (query: string) => void;
   setModalSearchQuery: (query: string) => void;
-  setStatusFilter: (filter: 'all' | 'attending' | 'not_attending') => void;
+  setStatusFilter: (filter: AttendanceStatusFilter) => void;
   handleTabChange: (tab: 'pending' | 'responded') => void;
 }
 
@@ -74,6 +88,7 @@ export function isCurrentUser(
  */
 export const useAttendanceData = ({
   attendanceKey,
+  eventId,
   expectedNames = [],
 }: UseAttendanceDataProps): UseAttendanceDataReturn => {
   const router = useRouter();
@@ -84,12 +99,21 @@ export const useAttendanceData = ({
   // Local state
   const [searchQuery, setSearchQuery] = useState('');
   const [modalSearchQuery, setModalSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'attending' | 'not_attending'>('all');
+  const [statusFilter, setStatusFilter] = useState<AttendanceStatusFilter>('all');
 
-  // Data fetching
-  const attendanceData = useSessionQuery(api.attendance.getAttendanceData, {
-    attendanceKey,
-  });
+  // Data fetching - events are looked up by id, otherwise records are read by attendance key
+  const keyAttendanceData = useSessionQuery(
+    api.attendance.getAttendanceData,
+    !eventId && attendanceKey ? { attendanceKey } : 'skip'
+  );
+  const eventAttendanceData = useSessionQuery(
+    api.attendance.getAttendanceEventData,
+    eventId ? { eventId } : 'skip'
+  );
+  const attendanceData = eventId ? (eventAttendanceData ?? undefined) : keyAttendanceData;
+  const attendanceEvent = eventAttendanceData?.event;
+  const isEventNotFound = Boolean(eventId) && eventAttendanceData === null;
+  const resolvedAttendanceKey = attendanceEvent?.attendanceKey ?? attendanceKey;
 
   // Get attendance tab from URL or determine default
   const attendanceTabFromUrl = searchParams.get('attendanceTab');
@@ -123,17 +147,49 @@ export const useAttendanceData = ({
     return map;
   }, [attendanceRecords]);
 
+  // Records the current user owns, or can override as a host or admin
+  const editableRecordIds = useMemo(
+    () => new Set(attendanceData?.editableRecordIds ?? []),
+    [attendanceData?.editableRecordIds]
+  );
+
+  // Names of guests listed on someone else's response
+  const guestNames = useMemo(() => {
+    const names = new Set<string>();
+    for (const record of attendanceRecords) {
+      if (!record.status) continue;
+      for (const guest of record.guests ?? []) {
+        if (guest.name) names.add(guest.name);
+      }
+    }
+    return names;
+  }, [attendanceRecords]);
+
+  // Names expected to respond, from the hardcoded list and the server-side group roster
+  const roster = attendanceData?.roster;
+  const expectedNameSet = useMemo(() => {
+    return new Set([...expectedNames, ...(roster?.expectedNames ?? [])]);
+  }, [expectedNames, roster?.expectedNames]);
+
   // Prepare the combined list of names (expected + recorded)
   const allNames = useMemo(() => {
     const names = new Set<string>();
 
-    // Add expected names
+    // Add expected names, except people who are coming as someone else's guest
     if (expectedNames) {
       for (const name of expectedNames) {
-        names.add(name);
+        if (!guestNames.has(name) || attendanceMap.has(name)) {
+          names.add(name);
+        }
       }
     }
 
+    // Add roster members the server has computed as pending.
+    // Members who responded under a linked user account are represented by their record instead.
+    for (const name of roster?.pendingNames ?? []) {
+      names.add(name);
+    }
+
     // Add recorded names
     for (const record of attendanceRecords) {
       if (record.name) {
@@ -142,7 +198,7 @@ export const useAttendanceData = ({
     }
 
     return names;
-  }, [expectedNames, attendanceRecords]);
+  }, [expectedNames, guestNames, attendanceMap, roster?.pendingNames, attendanceRecords]);
 
   // Convert set to array and filter by search query for main lists
   const filteredNames = useMemo(() => {
@@ -193,21 +249,26 @@ export const useAttendanceData = ({
 
   // Calculate attendance counts
   const attendingCount = useMemo(() => {
-    return attendanceRecords.filter((r) => r.status === 'attending').length;
+    return _countPeople(attendanceRecords.filter((r) => r.status === 'attending'));
   }, [attendanceRecords]);
 
   const notAttendingCount = useMemo(() => {
     return attendanceRecords.filter((r) => r.status === 'not_attending').length;
   }, [attendanceRecords]);
 
+  const maybeCount = useMemo(() => {
+    return _countPeople(attendanceRecords.filter((r) => r.status === 'maybe'));
+  }, [attendanceRecords]);
+
   const pendingCount = useMemo(() => pendingNames.length, [pendingNames.length]);
 
   // Filter counts for responded names (after search but before status filter)
   const respondedAttendingCount = useMemo(() => {
-    return respondedNames.filter((name) => {
-      const record = attendanceMap.get(name);
-      return record?.status === 'attending';
-    }).length;
+    return _countPeople(
+      respondedNames
+        .map((name) => attendanceMap.get(name))
+        .filter((record) => record?.status === 'attending')
+    );
   }, [respondedNames, attendanceMap]);
 
   const respondedNotAttendingCount = useMemo(() => {
@@ -217,6 +278,14 @@ export const useAttendanceData = ({
     }).length;
   }, [respondedNames, attendanceMap]);
 
+  const respondedMaybeCount = useMemo(() => {
+    return _countPeople(
+      respondedNames
+        .map((name) => attendanceMap.get(name))
+        .filter((record) => record?.status === 'maybe')
+    );
+  }, [respondedNames, attendanceMap]);
+
   // Check if the current user is already in the attendance list
   const isCurrentUserRegistered = useMemo(() => {
     return Boolean(currentUserResponse);
@@ -252,8 +321,13 @@ export const useAttendanceData = ({
   return {
     // Data
     attendanceData,
+    attendanceEvent,
+    isEventNotFound,
+    resolvedAttendanceKey,
     attendanceRecords,
     attendanceMap,
+    editableRecordIds,
+    expectedNameSet,
     allNames,
     pendingNames,
     filteredRespondedNames,
@@ -262,9 +336,11 @@ export const useAttendanceData = ({
     // Counts
     attendingCount,
     notAttendingCount,
+    maybeCount,
     pendingCount,
     respondedAttendingCount,
     respondedNotAttendingCount,
+    respondedMaybeCount,
 
     // State
     activeTab,
@@ -294,3 +370,11 @@ function _getCurrentUserResponse(
 ) {
   return attendanceData?.currentUserResponse;
 }
+
+/**
+ * Count the people represented by a list of records, including each record's guests.
+ * Internal helper function for headcounts.
+ */
+function _countPeople(records: (Doc<'attendanceRecords'> | undefined)[]): number {
+  return records.reduce((total, record) => total + (record ? getPartySize(record) : 0), 0);
+}
@@ -1,10 +1,21 @@
 import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import type { AttendanceGuest } from '@workspace/backend/modules/attendance/guests';
 
 export type AttendanceMode = 'simple' | 'full';
 
 export enum AttendanceStatus {
   ATTENDING = 'attending',
   NOT_ATTENDING = 'not_attending',
+  MAYBE = 'maybe',
+}
+
+/**
+ * Actual attendance at an event, marked by a host independently of the RSVP status.
+ */
+export enum AttendanceMark {
+  PRESENT = 'present',
+  ABSENT = 'absent',
+  LATE = 'late',
 }
 
 export interface AttendanceRecord {
@@ -15,5 +26,7 @@ export interface AttendanceRecord {
   userId?: Id<'users'>;
   name?: string;
   status?: AttendanceStatus;
+  attendanceMark?: AttendanceMark;
   reason?: string;
+  guests?: AttendanceGuest[];
 }
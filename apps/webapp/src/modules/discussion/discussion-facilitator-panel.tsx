@@ -0,0 +1,151 @@
+'use client';
+
+import { EyeOff, Loader2, Lock, Mic, MicOff, Shield, ShieldOff } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { DiscussionParticipant } from '@/modules/discussion/use-discussion-sync';
+
+interface DiscussionFacilitatorPanelProps {
+  // The participants, or undefined while loading
+  participants: DiscussionParticipant[] | null | undefined;
+  // Only the owner can change who facilitates
+  isOwner: boolean;
+  isLocked: boolean;
+  onLockedChange: (isLocked: boolean) => void;
+  isAnonymous: boolean;
+  onAnonymousChange: (isAnonymous: boolean) => void;
+  onUpdateParticipant: (
+    participantId: string,
+    changes: { role?: 'facilitator' | 'participant'; isMuted?: boolean }
+  ) => void;
+}
+
+/**
+ * Controls for facilitators: lock the discussion as read-only, make people post anonymously,
+ * mute participants and, for the owner, choose who else facilitates.
+ */
+export function DiscussionFacilitatorPanel({
+  participants,
+  isOwner,
+  isLocked,
+  onLockedChange,
+  isAnonymous,
+  onAnonymousChange,
+  onUpdateParticipant,
+}: DiscussionFacilitatorPanelProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between rounded-md border p-3">
+        <div className="space-y-0.5">
+          <Label htmlFor="discussion-locked" className="flex items-center gap-1">
+            <Lock className="h-3.5 w-3.5" /> Read-only
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            No one can add, edit or react to messages while the discussion is locked.
+          </p>
+        </div>
+        <Switch id="discussion-locked" checked={isLocked} onCheckedChange={onLockedChange} />
+      </div>
+
+      <div className="flex items-center justify-between rounded-md border p-3">
+        <div className="space-y-0.5">
+          <Label htmlFor="discussion-anonymous" className="flex items-center gap-1">
+            <EyeOff className="h-3.5 w-3.5" /> Anonymous
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            New messages are posted under a pseudonym, and names are not kept. Earlier messages keep
+            the name they were posted under.
+          </p>
+        </div>
+        <Switch
+          id="discussion-anonymous"
+          checked={isAnonymous}
+          onCheckedChange={onAnonymousChange}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Participants</p>
+        {participants === undefined ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : !participants?.length ? (
+          <p className="text-sm text-muted-foreground italic">No one has contributed yet.</p>
+        ) : (
+          <ul className="max-h-64 space-y-1 overflow-y-auto">
+            {participants.map((participant) => {
+              const isFacilitator = participant.role === 'facilitator';
+
+              return (
+                <li
+                  key={participant.participantId}
+                  className="flex items-center gap-2 rounded-md px-2 py-1 text-sm hover:bg-muted"
+                >
+                  <span className="flex-1 truncate">
+                    {participant.name}
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      ({participant.messageCount})
+                    </span>
+                  </span>
+                  {participant.role !== 'participant' && (
+                    <Badge variant="outline" className="text-xs capitalize">
+                      {participant.role}
+                    </Badge>
+                  )}
+                  {participant.isMuted && (
+                    <Badge variant="secondary" className="text-xs">
+                      Muted
+                    </Badge>
+                  )}
+                  {/* Facilitators are never muted */}
+                  {participant.role === 'participant' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      aria-label={participant.isMuted ? 'Unmute' : 'Mute'}
+                      title={participant.isMuted ? 'Unmute' : 'Mute'}
+                      onClick={() =>
+                        onUpdateParticipant(participant.participantId, {
+                          isMuted: !participant.isMuted,
+                        })
+                      }
+                    >
+                      {participant.isMuted ? (
+                        <Mic className="h-3.5 w-3.5" />
+                      ) : (
+                        <MicOff className="h-3.5 w-3.5" />
+                      )}
+                    </Button>
+                  )}
+                  {isOwner && participant.role !== 'owner' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      aria-label={isFacilitator ? 'Remove facilitator' : 'Make facilitator'}
+                      title={isFacilitator ? 'Remove facilitator' : 'Make facilitator'}
+                      onClick={() =>
+                        onUpdateParticipant(participant.participantId, {
+                          role: isFacilitator ? 'participant' : 'facilitator',
+                        })
+                      }
+                    >
+                      {isFacilitator ? (
+                        <ShieldOff className="h-3.5 w-3.5" />
+                      ) : (
+                        <Shield className="h-3.5 w-3.5" />
+                      )}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,13 +9,25 @@ import { Textarea } from '@/components/ui/textarea';
 
 interface DiscussionFormProps {
   initialName?: string;
+  initialMessage?: string;
+  // Whether the name can be changed, which it cannot when editing a message
+  canChangeName?: boolean;
+  // The pseudonym to post under instead of a name, in an anonymous discussion
+  pseudonym?: string;
   onSubmit: (name: string, message: string) => Promise<boolean>;
   onCancel?: () => void;
 }
 
-export function DiscussionForm({ initialName = '', onSubmit, onCancel }: DiscussionFormProps) {
+export function DiscussionForm({
+  initialName = '',
+  initialMessage = '',
+  canChangeName = true,
+  pseudonym,
+  onSubmit,
+  onCancel,
+}: DiscussionFormProps) {
   const [name, setName] = useState(initialName);
-  const [message, setMessage] = useState('');
+  const [message, setMessage] = useState(initialMessage);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const formRef = useRef<HTMLFormElement>(null);
 
@@ -25,7 +37,7 @@ export function DiscussionForm({ initialName = '', onSubmit, onCancel }: Discuss
         e.preventDefault();
       }
 
-      if (!name.trim() || !message.trim() || isSubmitting) return;
+      if ((!name.trim() && !pseudonym) || !message.trim() || isSubmitting) return;
 
       setIsSubmitting(true);
       try {
@@ -38,7 +50,7 @@ export function DiscussionForm({ initialName = '', onSubmit, onCancel }: Discuss
         setIsSubmitting(false);
       }
     },
-    [name, message, onSubmit, isSubmitting]
+    [name, message, pseudonym, onSubmit, isSubmitting]
   );
 
   const handleTextareaKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -51,18 +63,25 @@ export function DiscussionForm({ initialName = '', onSubmit, onCancel }: Discuss
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4" ref={formRef}>
-      <div className="space-y-2">
-        <Label htmlFor="name">Your Name</Label>
-        <Input
-          id="name"
-          placeholder="Enter your name"
-          value={name}
-          onChange={(e) => setName(e.target.value)}
-          required
-          disabled={isSubmitting}
-          className="w-full"
-        />
-      </div>
+      {pseudonym ? (
+        <p className="text-sm text-muted-foreground">
+          This discussion is anonymous. You post as{' '}
+          <span className="font-medium text-foreground">{pseudonym}</span>.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="name">Your Name</Label>
+          <Input
+            id="name"
+            placeholder="Enter your name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            disabled={isSubmitting || !canChangeName}
+            className="w-full"
+          />
+        </div>
+      )}
 
       <div className="space-y-2">
         <Label htmlFor="message">Your Thoughts</Label>
@@ -84,7 +103,10 @@ export function DiscussionForm({ initialName = '', onSubmit, onCancel }: Discuss
             Cancel
           </Button>
         )}
-        <Button type="submit" disabled={isSubmitting || !name.trim() || !message.trim()}>
+        <Button
+          type="submit"
+          disabled={isSubmitting || (!name.trim() && !pseudonym) || !message.trim()}
+        >
           {isSubmitting ? 'Submitting...' : 'Submit'}
         </Button>
       </div>
@@ -0,0 +1,289 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import { DISCUSSION_REACTION_EMOJIS } from '@workspace/backend/modules/discussion/reactions';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+import {
+  ChevronDown,
+  ChevronRight,
+  Edit,
+  Loader2,
+  MoreHorizontal,
+  Pin,
+  PinOff,
+  Reply,
+  SmilePlus,
+  Trash,
+} from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { DiscussionMessage } from '@/modules/discussion/use-discussion-sync';
+
+interface DiscussionThreadProps {
+  message: DiscussionMessage;
+  // Replies to the message, oldest first
+  replies: DiscussionMessage[];
+  isActive: boolean;
+  // Whether the current session can reply and react, which it cannot when locked or muted
+  canPost: boolean;
+  // Whether the current session facilitates the discussion, and so can pin messages
+  canFacilitate: boolean;
+  onReply: (message: DiscussionMessage) => void;
+  onEdit: (message: DiscussionMessage) => void;
+  onDelete: (message: DiscussionMessage) => void;
+  onTogglePin: (message: DiscussionMessage) => void;
+  onToggleReaction: (message: DiscussionMessage, emoji: string) => void;
+}
+
+/**
+ * A discussion message with its replies, which are collapsed until the thread is expanded.
+ */
+export function DiscussionThread({
+  message,
+  replies,
+  isActive,
+  canPost,
+  canFacilitate,
+  onReply,
+  onEdit,
+  onDelete,
+  onTogglePin,
+  onToggleReaction,
+}: DiscussionThreadProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const messageActions = {
+    isActive,
+    canPost,
+    canFacilitate,
+    onReply,
+    onEdit,
+    onDelete,
+    onTogglePin,
+    onToggleReaction,
+  };
+
+  return (
+    <div
+      className={cn(
+        'bg-primary/5 rounded-md p-2 text-sm',
+        message.pinnedAt && 'border border-primary/30'
+      )}
+    >
+      <DiscussionMessageItem message={message} {...messageActions} />
+
+      {replies.length > 0 && (
+        <div className="mt-1">
+          <button
+            type="button"
+            className="flex items-center text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setIsExpanded(!isExpanded)}
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? (
+              <ChevronDown className="h-3 w-3 mr-1" />
+            ) : (
+              <ChevronRight className="h-3 w-3 mr-1" />
+            )}
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </button>
+
+          {isExpanded && (
+            <div className="mt-2 space-y-2 border-l-2 border-primary/10 pl-3">
+              {replies.map((reply) => (
+                <DiscussionMessageItem key={reply._id} message={reply} {...messageActions} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A single message with its reactions, and actions to reply, react, edit, pin and delete while
+ * the discussion is active. Only the author can edit a message; facilitators can pin it, and
+ * the author or a facilitator can delete it.
+ */
+function DiscussionMessageItem({
+  message,
+  isActive,
+  canPost,
+  canFacilitate,
+  onReply,
+  onEdit,
+  onDelete,
+  onTogglePin,
+  onToggleReaction,
+}: Omit<DiscussionThreadProps, 'replies'>) {
+  // Only messages that start a thread can be pinned
+  const canPin = canFacilitate && !message.parentMessageId;
+
+  return (
+    <div>
+      <div className="flex justify-between items-start">
+        <p className="font-medium text-xs">
+          {message.pinnedAt && (
+            <Pin className="mr-1 inline h-3 w-3 text-primary" aria-label="Pinned" />
+          )}
+          {message.name}
+          {message.isOwn && <span className="ml-1 font-normal text-muted-foreground">(you)</span>}
+          {message.editedAt && <EditedMarker message={message} />}
+        </p>
+        {isActive && (message.canEdit || message.canDelete || canPin) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                <MoreHorizontal className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {message.canEdit && (
+                <DropdownMenuItem onClick={() => onEdit(message)}>
+                  <Edit className="mr-2 h-3.5 w-3.5" />
+                  Edit
+                </DropdownMenuItem>
+              )}
+              {canPin && (
+                <DropdownMenuItem onClick={() => onTogglePin(message)}>
+                  {message.pinnedAt ? (
+                    <PinOff className="mr-2 h-3.5 w-3.5" />
+                  ) : (
+                    <Pin className="mr-2 h-3.5 w-3.5" />
+                  )}
+                  {message.pinnedAt ? 'Unpin' : 'Pin'}
+                </DropdownMenuItem>
+              )}
+              {message.canDelete && (
+                <DropdownMenuItem onClick={() => onDelete(message)}>
+                  <Trash className="mr-2 h-3.5 w-3.5" />
+                  Delete
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+      <p className="mt-1 whitespace-pre-line">{message.message}</p>
+
+      {/* Reactions and Reply */}
+      {(canPost || message.reactions.length > 0) && (
+        <div className="mt-1 flex flex-wrap items-center gap-1">
+          {message.reactions.map((reaction) => (
+            <button
+              key={reaction.emoji}
+              type="button"
+              className={cn(
+                'flex items-center gap-1 rounded-full border px-1.5 text-xs',
+                reaction.hasReacted && 'border-primary/40 bg-primary/10'
+              )}
+              onClick={() => onToggleReaction(message, reaction.emoji)}
+              disabled={!canPost}
+              aria-pressed={reaction.hasReacted}
+              aria-label={`${reaction.emoji} ${reaction.count}`}
+            >
+              <span>{reaction.emoji}</span>
+              <span>{reaction.count}</span>
+            </button>
+          ))}
+
+          {canPost && (
+            <>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label="React">
+                    <SmilePlus className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="flex min-w-0 gap-1 p-1">
+                  {DISCUSSION_REACTION_EMOJIS.map((emoji) => (
+                    <DropdownMenuItem
+                      key={emoji}
+                      className="px-2 text-base"
+                      onClick={() => onToggleReaction(message, emoji)}
+                    >
+                      {emoji}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1.5 text-xs text-muted-foreground"
+                onClick={() => onReply(message)}
+              >
+                <Reply className="h-3 w-3 mr-1" /> Reply
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Marks a message as edited and, for its author and facilitators, shows what it said before
+ * each edit when clicked.
+ */
+function EditedMarker({ message }: { message: DiscussionMessage }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const edits = useSessionQuery(
+    api.discussions.getDiscussionMessageEdits,
+    isOpen && message.canViewEdits ? { messageId: message._id as Id<'discussionMessages'> } : 'skip'
+  );
+  const editedTitle = message.editedAt ? new Date(message.editedAt).toLocaleString() : undefined;
+
+  if (!message.canViewEdits) {
+    return (
+      <span className="ml-1 font-normal text-muted-foreground" title={editedTitle}>
+        (edited)
+      </span>
+    );
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="ml-1 font-normal text-muted-foreground hover:underline"
+          title={editedTitle}
+        >
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 text-sm">
+        <p className="mb-2 text-xs font-medium text-muted-foreground">Edit history</p>
+        {edits === undefined ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : !edits?.length ? (
+          <p className="text-sm text-muted-foreground italic">No earlier versions to show.</p>
+        ) : (
+          <ol className="max-h-48 space-y-2 overflow-y-auto">
+            {edits.map((edit) => (
+              <li key={edit._id}>
+                <p className="text-xs text-muted-foreground">
+                  Before {new Date(edit.editedAt).toLocaleString()}
+                </p>
+                <p className="whitespace-pre-line break-words">{edit.previousMessage}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
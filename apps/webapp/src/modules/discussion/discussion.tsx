@@ -3,14 +3,16 @@
 import type { Id } from '@workspace/backend/convex/_generated/dataModel';
 import {
   Check,
+  ChevronRight,
   Edit,
+  EyeOff,
   Loader2,
+  Lock,
   MessageCircle,
-  MoreHorizontal,
   MoreVertical,
   Plus,
   RefreshCw,
-  Trash,
+  Shield,
 } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 
@@ -23,27 +25,46 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuTrigger,
-} from '@/components/ui/dropdown-menu';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ConclusionForm } from '@/modules/discussion/discussion-conclusion';
+import { DiscussionFacilitatorPanel } from '@/modules/discussion/discussion-facilitator-panel';
 import { DiscussionForm } from '@/modules/discussion/discussion-form';
-import { useDiscussionSync } from '@/modules/discussion/use-discussion-sync';
+import { DiscussionThread } from '@/modules/discussion/discussion-message';
+import {
+  type DiscussionMessage,
+  useDiscussionSync,
+} from '@/modules/discussion/use-discussion-sync';
+import { useOptionalPresentationContext } from '@/modules/presentation/presentation-container';
 
 interface DiscussionProps {
   title: string;
   discussionKey: string;
   className?: string;
+  // Whether people post under a pseudonym instead of their name, e.g. for sensitive sharing
+  anonymous?: boolean;
+  // Guiding questions, in order, which messages answer one at a time
+  prompts?: string[];
+  // The deck whose presenters run the discussion; defaults to the deck it is shown in
+  presentationKey?: string;
 }
 
-export function Discussion({ title, discussionKey, className }: DiscussionProps) {
+export function Discussion({
+  title,
+  discussionKey,
+  className,
+  anonymous,
+  prompts,
+  presentationKey,
+}: DiscussionProps) {
+  const presentation = useOptionalPresentationContext();
   // State for UI controls
+  const [selectedPromptIndex, setSelectedPromptIndex] = useState<number | null>(null);
   const [showFormDialog, setShowFormDialog] = useState(false);
+  const [replyTo, setReplyTo] = useState<DiscussionMessage | null>(null);
+  const [messageToEdit, setMessageToEdit] = useState<DiscussionMessage | null>(null);
   const [showConclusionDialog, setShowConclusionDialog] = useState(false);
   const [showEditConclusionDialog, setShowEditConclusionDialog] = useState(false);
+  const [showFacilitatorPanel, setShowFacilitatorPanel] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
   const [messageToDelete, setMessageToDelete] = useState<Id<'discussionMessages'> | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -59,9 +80,26 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
     conclusion,
     isActive,
     isConcluded,
+    isLocked,
+    isAnonymous,
+    pseudonym,
+    prompts: discussionPrompts,
+    activePromptIndex,
+    currentPromptIndex,
+    role,
+    canFacilitate,
+    canPost,
+    participants,
     userName,
     addMessage,
     deleteMessage,
+    editMessage,
+    toggleReaction,
+    setMessagePinned,
+    setLocked,
+    setAnonymous,
+    setActivePrompt,
+    updateParticipant,
     concludeDiscussion,
     updateConclusions,
     reopenDiscussion,
@@ -69,6 +107,10 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
   } = useDiscussionSync({
     key: discussionKey,
     title,
+    anonymous,
+    prompts,
+    presentationKey: presentationKey ?? presentation?.presentationKey,
+    selectedPromptIndex,
   });
 
   // Set loading state based on data availability
@@ -121,15 +163,35 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
     };
   }, [showMenu]);
 
+  // Open the form to add a contribution, or to reply to a message
+  const openMessageForm = (message: DiscussionMessage | null = null) => {
+    setReplyTo(message);
+    setShowFormDialog(true);
+  };
+
   // Handle message submission
   const handleMessageSubmit = async (name: string, message: string) => {
-    const success = await addMessage(name, message);
+    const success = await addMessage(
+      name,
+      message,
+      replyTo?._id as Id<'discussionMessages'> | undefined
+    );
     if (success) {
       setShowFormDialog(false);
     }
     return success || false;
   };
 
+  // Handle submitting an edited message
+  const handleEditSubmit = async (_name: string, message: string) => {
+    if (!messageToEdit) return false;
+    const success = await editMessage(messageToEdit._id as Id<'discussionMessages'>, message);
+    if (success) {
+      setMessageToEdit(null);
+    }
+    return success;
+  };
+
   // Handle message deletion
   const handleDeleteMessage = async (messageId: Id<'discussionMessages'>) => {
     setMessageToDelete(messageId);
@@ -171,6 +233,63 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
     setShowMenu(false);
   };
 
+  // Move everyone to a question, and follow it from then on
+  const handleActivatePrompt = async (promptIndex: number) => {
+    await setActivePrompt(promptIndex);
+    setSelectedPromptIndex(null);
+  };
+
+  // Render the questions as tabs, with the current question and, for facilitators, a way to
+  // move everyone to it or on to the next one
+  const renderPrompts = () => {
+    if (currentPromptIndex === undefined) return null;
+
+    const isCurrentActive = currentPromptIndex === activePromptIndex;
+    const hasNextPrompt = activePromptIndex < discussionPrompts.length - 1;
+
+    return (
+      <div className="px-3 pt-3 space-y-2">
+        <Tabs
+          value={currentPromptIndex.toString()}
+          onValueChange={(value) => setSelectedPromptIndex(Number(value))}
+        >
+          <TabsList className="w-full">
+            {discussionPrompts.map((prompt, index) => (
+              <TabsTrigger
+                key={`${index}-${prompt}`}
+                value={index.toString()}
+                className="flex-1"
+                title={prompt}
+              >
+                Q{index + 1}
+                {index === activePromptIndex && (
+                  <span className="ml-1 h-1.5 w-1.5 rounded-full bg-primary" aria-label="Active" />
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-sm font-medium">{discussionPrompts[currentPromptIndex]}</p>
+          {canFacilitate && isActive && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 flex-shrink-0 text-xs"
+              onClick={() =>
+                handleActivatePrompt(isCurrentActive ? activePromptIndex + 1 : currentPromptIndex)
+              }
+              disabled={isCurrentActive && !hasNextPrompt}
+            >
+              {isCurrentActive ? 'Next question' : 'Make active'}
+              <ChevronRight className="h-3 w-3 ml-1" />
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   // Render loading state with spinner within fixed height container
   const renderLoadingState = () => {
     return (
@@ -189,33 +308,42 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
       return renderLoadingState();
     }
 
+    // Messages come newest first; show pinned threads first, then threads newest first, with
+    // their replies oldest first
+    const messageIds = new Set(messages?.map((msg) => msg._id));
+    const threads = (messages ?? [])
+      .filter((msg) => !msg.parentMessageId || !messageIds.has(msg.parentMessageId))
+      .sort((a, b) => (b.pinnedAt ?? 0) - (a.pinnedAt ?? 0));
+    const repliesByParent = new Map<string, DiscussionMessage[]>();
+    for (const msg of [...(messages ?? [])].reverse()) {
+      if (!msg.parentMessageId || !messageIds.has(msg.parentMessageId)) continue;
+      repliesByParent.set(msg.parentMessageId, [
+        ...(repliesByParent.get(msg.parentMessageId) ?? []),
+        msg,
+      ]);
+    }
+
     return (
       <div className="space-y-2 h-full">
-        {messages && messages.length > 0 ? (
-          messages.map((msg) => (
-            <div key={msg._id} className="bg-primary/5 rounded-md p-2 text-sm">
-              <div className="flex justify-between items-start">
-                <p className="font-medium text-xs">{msg.name}</p>
-                {isActive && (
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                        <MoreHorizontal className="h-3 w-3" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem
-                        onClick={() => handleDeleteMessage(msg._id as Id<'discussionMessages'>)}
-                      >
-                        <Trash className="mr-2 h-3.5 w-3.5" />
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                )}
-              </div>
-              <p className="mt-1 whitespace-pre-line">{msg.message}</p>
-            </div>
+        {threads.length > 0 ? (
+          threads.map((msg) => (
+            <DiscussionThread
+              key={msg._id}
+              message={msg}
+              replies={repliesByParent.get(msg._id) ?? []}
+              isActive={isActive}
+              canPost={canPost}
+              canFacilitate={canFacilitate}
+              onReply={openMessageForm}
+              onEdit={setMessageToEdit}
+              onDelete={(target) => handleDeleteMessage(target._id as Id<'discussionMessages'>)}
+              onTogglePin={(target) =>
+                setMessagePinned(target._id as Id<'discussionMessages'>, !target.pinnedAt)
+              }
+              onToggleReaction={(target, emoji) =>
+                toggleReaction(target._id as Id<'discussionMessages'>, emoji)
+              }
+            />
           ))
         ) : (
           <div className="flex items-center justify-center h-full">
@@ -312,6 +440,18 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
               {title}
             </h3>
             {isConcluded && <Badge variant="secondary">Concluded</Badge>}
+            {isAnonymous && (
+              <Badge variant="outline">
+                <EyeOff className="h-3 w-3 mr-1" />
+                Anonymous
+              </Badge>
+            )}
+            {isActive && isLocked && (
+              <Badge variant="outline">
+                <Lock className="h-3 w-3 mr-1" />
+                Locked
+              </Badge>
+            )}
           </div>
 
           <div className="relative">
@@ -332,12 +472,12 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
                 ref={menuRef}
                 className="absolute right-0 top-full mt-1 w-48 z-50 bg-popover rounded-md shadow-md border p-1 text-popover-foreground"
               >
-                {isActive && (
+                {canPost && (
                   <button
                     type="button"
                     className="flex w-full items-center px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground rounded-sm"
                     onClick={() => {
-                      setShowFormDialog(true);
+                      openMessageForm();
                       setShowMenu(false);
                     }}
                   >
@@ -346,7 +486,7 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
                   </button>
                 )}
 
-                {isActive && (
+                {isActive && canFacilitate && (
                   <button
                     type="button"
                     className="flex w-full items-center px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground rounded-sm"
@@ -360,7 +500,7 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
                   </button>
                 )}
 
-                {isConcluded && (
+                {isConcluded && canFacilitate && (
                   <button
                     type="button"
                     className="flex w-full items-center px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground rounded-sm"
@@ -374,7 +514,7 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
                   </button>
                 )}
 
-                {isConcluded && (
+                {isConcluded && canFacilitate && (
                   <button
                     type="button"
                     className="flex w-full items-center px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground rounded-sm"
@@ -384,29 +524,56 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
                     Reopen Discussion
                   </button>
                 )}
+
+                {canFacilitate && (
+                  <button
+                    type="button"
+                    className="flex w-full items-center px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground rounded-sm"
+                    onClick={() => {
+                      setShowFacilitatorPanel(true);
+                      setShowMenu(false);
+                    }}
+                  >
+                    <Shield className="h-4 w-4 mr-2" />
+                    Facilitator Controls
+                  </button>
+                )}
+
+                {!canPost && !canFacilitate && (
+                  <p className="px-2 py-1.5 text-sm text-muted-foreground">No actions available</p>
+                )}
               </div>
             )}
           </div>
         </div>
 
         <div className="relative">
+          {/* Questions of the discussion, if any */}
+          {!isConcluded && !isLoading && renderPrompts()}
+
           {/* Discussion content with fixed height container */}
           <div className="p-3 h-[250px] overflow-y-auto">{renderContent()}</div>
 
           {/* Action buttons for quick access */}
           {isActive && (
             <div className="p-3 border-t">
-              {!isLoading ? (
+              {isLoading ? (
+                <div className="h-9" />
+              ) : canPost ? (
                 <Button
                   size="sm"
                   variant="secondary"
-                  onClick={() => setShowFormDialog(true)}
+                  onClick={() => openMessageForm()}
                   className="w-full"
                 >
                   <Plus className="h-4 w-4 mr-1" /> Add Contribution
                 </Button>
               ) : (
-                <div className="h-9" />
+                <p className="flex h-9 items-center justify-center text-sm text-muted-foreground">
+                  {isLocked
+                    ? 'This discussion is read-only.'
+                    : 'A facilitator has muted you in this discussion.'}
+                </p>
               )}
             </div>
           )}
@@ -417,19 +584,77 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
       <Dialog open={showFormDialog} onOpenChange={setShowFormDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Add Your Contribution</DialogTitle>
+            <DialogTitle>
+              {replyTo ? `Reply to ${replyTo.name}` : 'Add Your Contribution'}
+            </DialogTitle>
             <DialogDescription>
-              Share your thoughts on the discussion topic: {title}
+              {replyTo ? (
+                <span className="line-clamp-2">{replyTo.message}</span>
+              ) : currentPromptIndex !== undefined ? (
+                <>Share your thoughts on: {discussionPrompts[currentPromptIndex]}</>
+              ) : (
+                <>Share your thoughts on the discussion topic: {title}</>
+              )}
             </DialogDescription>
           </DialogHeader>
           <DiscussionForm
             initialName={userName}
+            pseudonym={isAnonymous ? pseudonym : undefined}
             onSubmit={handleMessageSubmit}
             onCancel={() => setShowFormDialog(false)}
           />
         </DialogContent>
       </Dialog>
 
+      {/* Dialog for editing a message */}
+      <Dialog
+        open={messageToEdit !== null}
+        onOpenChange={(open) => {
+          if (!open) setMessageToEdit(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Message</DialogTitle>
+            <DialogDescription>
+              Your previous version is kept in the message&apos;s edit history.
+            </DialogDescription>
+          </DialogHeader>
+          {messageToEdit && (
+            <DiscussionForm
+              key={messageToEdit._id}
+              initialName={messageToEdit.name}
+              initialMessage={messageToEdit.message}
+              canChangeName={false}
+              onSubmit={handleEditSubmit}
+              onCancel={() => setMessageToEdit(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog for facilitator controls */}
+      <Dialog open={showFacilitatorPanel} onOpenChange={setShowFacilitatorPanel}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Facilitator Controls</DialogTitle>
+            <DialogDescription>
+              Lock the discussion, choose whether people post anonymously, mute participants
+              {role === 'owner' ? ' and choose who facilitates with you' : ''}.
+            </DialogDescription>
+          </DialogHeader>
+          <DiscussionFacilitatorPanel
+            participants={participants}
+            isOwner={role === 'owner'}
+            isLocked={isLocked}
+            onLockedChange={setLocked}
+            isAnonymous={isAnonymous}
+            onAnonymousChange={setAnonymous}
+            onUpdateParticipant={updateParticipant}
+          />
+        </DialogContent>
+      </Dialog>
+
       {/* Dialog for concluding discussion */}
       <Dialog open={showConclusionDialog} onOpenChange={setShowConclusionDialog}>
         <DialogContent>
@@ -470,7 +695,8 @@ export function Discussion({ title, discussionKey, className }: DiscussionProps)
           <DialogHeader>
             <DialogTitle>Delete Message</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this message? This action cannot be undone.
+              Are you sure you want to delete this message and its replies? This action cannot be
+              undone.
             </DialogDescription>
           </DialogHeader>
           <div className="flex justify-end space-x-2 mt-4">
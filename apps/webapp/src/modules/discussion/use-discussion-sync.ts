@@ -1,5 +1,7 @@
 import { api } from '@workspace/backend/convex/_generated/api';
 import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import type { DiscussionRole } from '@workspace/backend/modules/discussion/accessControl';
+import type { DiscussionReactionCount } from '@workspace/backend/modules/discussion/reactions';
 import { useSessionMutation, useSessionQuery } from 'convex-helpers/react/sessions';
 import { useCallback, useState } from 'react';
 import { toast } from 'sonner';
@@ -8,6 +10,12 @@ import { toast } from 'sonner';
 type DiscussionState = {
   key: string;
   title: string;
+  // The deck the discussion is part of, whose presenters run it
+  presentationKey?: string;
+  // Guiding questions, in order
+  prompts?: string[];
+  // The question facilitators moved the discussion to
+  activePromptIndex?: number;
   isActive: boolean;
   createdAt: number;
   exists: boolean;
@@ -16,19 +24,52 @@ type DiscussionState = {
     tags: string[];
   }[];
   concludedAt?: number;
-  concludedBy?: string;
+  isLocked?: boolean;
+  // Whether people post under a pseudonym instead of their name
+  isAnonymous?: boolean;
+  // The pseudonym the current session posts under, in an anonymous discussion
+  pseudonym?: string;
+  // The role of the current session in the discussion
+  role?: DiscussionRole;
+  // Whether a facilitator muted the current session
+  isMuted?: boolean;
+  // Whether the current session can add, edit and react to messages
+  canPost?: boolean;
   _id?: unknown;
   _creationTime?: number;
 };
 
+// Define the discussion participant type, as listed to facilitators
+export type DiscussionParticipant = {
+  participantId: string;
+  name: string;
+  role: DiscussionRole;
+  isMuted: boolean;
+  messageCount: number;
+};
+
 // Define the discussion message type
-type DiscussionMessage = {
+export type DiscussionMessage = {
   _id: string;
   discussionKey: string;
   name: string;
   message: string;
   timestamp: number;
-  sessionId?: string;
+  parentMessageId?: string;
+  // The question the message answers, if any
+  promptIndex?: number;
+  editedAt?: number;
+  pinnedAt?: number;
+  reactions: DiscussionReactionCount[];
+  // Whether the current session wrote the message
+  isOwn: boolean;
+  // Whether the current session can edit the message, which it can only when it wrote it
+  canEdit: boolean;
+  // Whether the current session wrote the message or moderates the discussion
+  canDelete: boolean;
+  // Whether the current session wrote the message or facilitates the discussion, and so can
+  // see what it said before it was edited
+  canViewEdits: boolean;
   _creationTime?: number;
 };
 
@@ -41,11 +82,28 @@ type DiscussionConclusion = {
     tags: string[];
   }[];
   createdAt: number;
-  createdBy?: string;
   _creationTime?: number;
 };
 
-export function useDiscussionSync({ key, title }: { key: string; title: string }) {
+export function useDiscussionSync({
+  key,
+  title,
+  anonymous,
+  prompts,
+  presentationKey,
+  selectedPromptIndex = null,
+}: {
+  key: string;
+  title: string;
+  // Whether people post under a pseudonym when the discussion is created
+  anonymous?: boolean;
+  // Guiding questions when the discussion is created, or added once if it has none
+  prompts?: string[];
+  // The deck the discussion is part of, whose presenters run it
+  presentationKey?: string;
+  // The question to show messages for, or null to follow the active question
+  selectedPromptIndex?: number | null;
+}) {
   // Store user's name for messages
   const [userName, setUserName] = useState<string>('');
 
@@ -55,10 +113,29 @@ export function useDiscussionSync({ key, title }: { key: string; title: string }
     key ? { key } : 'skip'
   ) as DiscussionState | undefined;
 
-  // Get discussion messages from backend
-  const messages = useSessionQuery(api.discussions.getDiscussionMessages, key ? { key } : 'skip') as
-    | DiscussionMessage[]
-    | undefined;
+  // Show the selected question, or the active one, if the discussion has questions
+  const discussionPrompts = discussionState?.prompts ?? [];
+  const activePromptIndex = discussionState?.activePromptIndex ?? 0;
+  const currentPromptIndex =
+    discussionPrompts.length > 0
+      ? Math.min(selectedPromptIndex ?? activePromptIndex, discussionPrompts.length - 1)
+      : undefined;
+
+  // Get discussion messages from backend, for the current question if there are questions
+  const messages = useSessionQuery(
+    api.discussions.getDiscussionMessages,
+    key && discussionState ? { key, promptIndex: currentPromptIndex } : 'skip'
+  ) as DiscussionMessage[] | undefined;
+
+  // Check the role of the current session
+  const role = discussionState?.role ?? 'participant';
+  const canFacilitate = role !== 'participant';
+
+  // Get the participants from backend, which only facilitators can manage
+  const participants = useSessionQuery(
+    api.discussions.getDiscussionParticipants,
+    key && canFacilitate ? { key } : 'skip'
+  ) as DiscussionParticipant[] | null | undefined;
 
   // Get discussion conclusion from backend
   const conclusion = useSessionQuery(
@@ -72,12 +149,27 @@ export function useDiscussionSync({ key, title }: { key: string; title: string }
   const concludeDiscussionMutation = useSessionMutation(api.discussions.concludeDiscussion);
   const reopenDiscussionMutation = useSessionMutation(api.discussions.reopenDiscussion);
   const deleteMessageMutation = useSessionMutation(api.discussions.deleteDiscussionMessage);
+  const editMessageMutation = useSessionMutation(api.discussions.editDiscussionMessage);
   const updateConclusionsMutation = useSessionMutation(api.discussions.updateConclusions);
+  const toggleReactionMutation = useSessionMutation(
+    api.discussions.toggleDiscussionMessageReaction
+  );
+  const setMessagePinnedMutation = useSessionMutation(api.discussions.setDiscussionMessagePinned);
+  const setLockedMutation = useSessionMutation(api.discussions.setDiscussionLocked);
+  const setAnonymousMutation = useSessionMutation(api.discussions.setDiscussionAnonymous);
+  const setActivePromptMutation = useSessionMutation(api.discussions.setActiveDiscussionPrompt);
+  const updateParticipantMutation = useSessionMutation(api.discussions.updateDiscussionParticipant);
 
   // Check if discussion exists
   const exists = discussionState?.exists || false;
   const isActive = discussionState?.isActive || false;
   const isConcluded = exists && !isActive;
+  const isLocked = discussionState?.isLocked || false;
+  const isAnonymous = discussionState?.isAnonymous || false;
+  const canPost = discussionState?.canPost || false;
+
+  // Compare questions by content, as decks pass a new array on every render
+  const promptsKey = JSON.stringify(prompts ?? []);
 
   // Create discussion if it doesn't exist
   const createDiscussion = useCallback(async () => {
@@ -87,28 +179,37 @@ export function useDiscussionSync({ key, title }: { key: string; title: string }
       await createDiscussionMutation({
         key,
         title,
+        prompts: JSON.parse(promptsKey) as string[],
+        isAnonymous: anonymous,
+        presentationKey,
       });
     } catch (error) {
       toast.error('Failed to create discussion', {
         description: (error as Error).message,
       });
     }
-  }, [key, title, createDiscussionMutation]);
+  }, [key, title, anonymous, promptsKey, presentationKey, createDiscussionMutation]);
 
-  // Add message to discussion
+  // Add message to discussion, optionally as a reply to another message, answering the current
+  // question. In an anonymous discussion the name is not sent, as the message is posted under
+  // the session's pseudonym
   const addMessage = useCallback(
-    async (name: string, message: string) => {
-      if (!key || !name || !message) return;
+    async (name: string, message: string, parentMessageId?: Id<'discussionMessages'>) => {
+      if (!key || (!name && !isAnonymous) || !message) return;
 
       try {
         await addMessageMutation({
           discussionKey: key,
-          name,
+          name: isAnonymous ? undefined : name,
           message,
+          parentMessageId,
+          promptIndex: currentPromptIndex,
         });
 
         // Save name for future use
-        setUserName(name);
+        if (!isAnonymous) {
+          setUserName(name);
+        }
 
         return true;
       } catch (error) {
@@ -118,7 +219,7 @@ export function useDiscussionSync({ key, title }: { key: string; title: string }
         return false;
       }
     },
-    [key, addMessageMutation]
+    [key, isAnonymous, currentPromptIndex, addMessageMutation]
   );
 
   // Delete message from discussion
@@ -143,6 +244,125 @@ export function useDiscussionSync({ key, title }: { key: string; title: string }
     [deleteMessageMutation]
   );
 
+  // Edit the content of a message
+  const editMessage = useCallback(
+    async (messageId: Id<'discussionMessages'>, message: string) => {
+      if (!messageId || !message) return false;
+
+      try {
+        await editMessageMutation({
+          messageId,
+          message,
+        });
+
+        return true;
+      } catch (error) {
+        toast.error('Failed to edit message', {
+          description: (error as Error).message,
+        });
+        return false;
+      }
+    },
+    [editMessageMutation]
+  );
+
+  // React to a message, or take the reaction back
+  const toggleReaction = useCallback(
+    async (messageId: Id<'discussionMessages'>, emoji: string) => {
+      try {
+        await toggleReactionMutation({ messageId, emoji });
+      } catch (error) {
+        toast.error('Failed to react', {
+          description: (error as Error).message,
+        });
+      }
+    },
+    [toggleReactionMutation]
+  );
+
+  // Pin a message to the top of the discussion, or unpin it
+  const setMessagePinned = useCallback(
+    async (messageId: Id<'discussionMessages'>, isPinned: boolean) => {
+      try {
+        await setMessagePinnedMutation({ messageId, isPinned });
+      } catch (error) {
+        toast.error(isPinned ? 'Failed to pin message' : 'Failed to unpin message', {
+          description: (error as Error).message,
+        });
+      }
+    },
+    [setMessagePinnedMutation]
+  );
+
+  // Lock the discussion as read-only, or unlock it
+  const setLocked = useCallback(
+    async (locked: boolean) => {
+      if (!key) return;
+
+      try {
+        await setLockedMutation({ discussionKey: key, isLocked: locked });
+        toast.success(locked ? 'Discussion locked' : 'Discussion unlocked');
+      } catch (error) {
+        toast.error(locked ? 'Failed to lock discussion' : 'Failed to unlock discussion', {
+          description: (error as Error).message,
+        });
+      }
+    },
+    [key, setLockedMutation]
+  );
+
+  // Move the discussion to one of its questions
+  const setActivePrompt = useCallback(
+    async (promptIndex: number) => {
+      if (!key) return;
+
+      try {
+        await setActivePromptMutation({ discussionKey: key, promptIndex });
+      } catch (error) {
+        toast.error('Failed to change the question', {
+          description: (error as Error).message,
+        });
+      }
+    },
+    [key, setActivePromptMutation]
+  );
+
+  // Make people post under a pseudonym, or under their name again
+  const setAnonymous = useCallback(
+    async (anonymousMode: boolean) => {
+      if (!key) return;
+
+      try {
+        await setAnonymousMutation({ discussionKey: key, isAnonymous: anonymousMode });
+        toast.success(anonymousMode ? 'Anonymous posting on' : 'Anonymous posting off');
+      } catch (error) {
+        toast.error('Failed to change anonymous posting', {
+          description: (error as Error).message,
+        });
+      }
+    },
+    [key, setAnonymousMutation]
+  );
+
+  // Mute or unmute a participant, or change their role
+  const updateParticipant = useCallback(
+    async (
+      participantId: string,
+      changes: { role?: 'facilitator' | 'participant'; isMuted?: boolean }
+    ) => {
+      if (!key) return;
+
+      try {
+        await updateParticipantMutation({ discussionKey: key, participantId, ...changes });
+      } catch (error) {
+        toast.error('Failed to update participant', {
+          description: (error as Error).message,
+        });
+      }
+    },
+    [key, updateParticipantMutation]
+  );
+
   // Conclude discussion
   const concludeDiscussion = useCallback(
     async (conclusions: { text: string; tags: string[] }[]) => {
@@ -208,12 +428,16 @@ export function useDiscussionSync({ key, title }: { key: string; title: string }
     }
   }, [key, reopenDiscussionMutation]);
 
-  // Initialize discussion if it doesn't exist yet
+  // Initialize discussion if it doesn't exist yet, or as a facilitator add the deck's questions to
+  // a discussion that was created without any, or add it to its deck if it was created before it
+  // was part of one
+  const needsPrompts = canFacilitate && discussionPrompts.length === 0 && promptsKey !== '[]';
+  const needsPresentation = !!presentationKey && !discussionState?.presentationKey;
   const initializeDiscussion = useCallback(async () => {
-    if (!exists && key && title) {
+    if ((!exists || needsPrompts || needsPresentation) && key && title) {
       await createDiscussion();
     }
-  }, [exists, key, title, createDiscussion]);
+  }, [exists, needsPrompts, needsPresentation, key, title, createDiscussion]);
 
   // Get the latest messages (limited by count)
   const getLatestMessages = useCallback(
@@ -231,11 +455,28 @@ export function useDiscussionSync({ key, title }: { key: string; title: string }
     exists,
     isActive,
     isConcluded,
+    isLocked,
+    isAnonymous,
+    pseudonym: discussionState?.pseudonym,
+    prompts: discussionPrompts,
+    activePromptIndex,
+    currentPromptIndex,
+    role,
+    canFacilitate,
+    canPost,
+    participants,
     userName,
     setUserName,
     createDiscussion,
     addMessage,
     deleteMessage,
+    editMessage,
+    toggleReaction,
+    setMessagePinned,
+    setLocked,
+    setAnonymous,
+    setActivePrompt,
+    updateParticipant,
     concludeDiscussion,
     updateConclusions,
     reopenDiscussion,
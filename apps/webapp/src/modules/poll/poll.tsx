@@ -0,0 +1,334 @@
+'use client';
+
+import {
+  MAX_WORD_CLOUD_ANSWER_LENGTH,
+  type PollResults,
+  type PollType,
+} from '@workspace/backend/modules/poll/results';
+import { Check, Eye, EyeOff, Loader2, Lock, Play } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { usePollSync } from './use-poll-sync';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { useOptionalPresentationContext } from '@/modules/presentation/presentation-container';
+
+/**
+ * Props for the Poll component.
+ */
+export interface PollProps {
+  pollKey: string;
+  question: string;
+  // Defaults to a single choice poll
+  type?: PollType;
+  // Options to choose from, not used by word clouds
+  options?: string[];
+  // The deck whose presenters control the poll; defaults to the deck the poll is shown in
+  presentationKey?: string;
+  className?: string;
+}
+
+/**
+ * An audience poll with results that update live, for placing inside a slide, e.g.
+ * `<Poll pollKey="..." question="..." options={['Yes', 'No']} />`.
+ * Supports single choice, multiple choice and word cloud polls. Each browser session has one
+ * vote, which can be changed while the poll is open. Whoever presents the deck opens and closes
+ * the poll and decides when viewers see the results.
+ */
+export function Poll({
+  pollKey,
+  question,
+  type = 'single_choice',
+  options = [],
+  presentationKey,
+  className,
+}: PollProps) {
+  const presentation = useOptionalPresentationContext();
+  const { poll, isLoading, vote, openPoll, closePoll, setResultsRevealed } = usePollSync({
+    key: pollKey,
+    question,
+    type,
+    options,
+    presentationKey: presentationKey ?? presentation?.presentationKey,
+  });
+
+  if (isLoading || !poll) {
+    return (
+      <Card className={cn('w-full', className)}>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isOpen = poll.status === 'open';
+
+  return (
+    <Card className={cn('w-full', className)}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <CardTitle className="text-lg">{poll.question}</CardTitle>
+          <Badge variant={isOpen ? 'default' : 'outline'} className="flex-shrink-0">
+            {isOpen ? 'Open' : poll.status === 'closed' ? 'Closed' : 'Not started'}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {poll.type === 'multiple_choice'
+            ? 'Choose all that apply'
+            : poll.type === 'word_cloud'
+              ? 'Answer in a word or two'
+              : 'Choose one'}{' '}
+          · {poll.voteCount} {poll.voteCount === 1 ? 'response' : 'responses'}
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {poll.type === 'word_cloud' ? (
+          <WordCloudAnswer
+            ownAnswer={poll.ownVote?.text}
+            isOpen={isOpen}
+            onSubmit={(text) => vote({ text })}
+          />
+        ) : (
+          <ChoiceOptions
+            options={poll.options}
+            isMultipleChoice={poll.type === 'multiple_choice'}
+            ownChoice={poll.ownVote?.optionIndexes}
+            isOpen={isOpen}
+            onSubmit={(optionIndexes) => vote({ optionIndexes })}
+          />
+        )}
+
+        {poll.results && (
+          <section className="space-y-2">
+            {!poll.isResultsRevealed && (
+              <p className="text-xs text-muted-foreground">
+                Only presenters can see these results until they are revealed.
+              </p>
+            )}
+            <PollResultsView
+              results={poll.results}
+              options={poll.options}
+              voteCount={poll.voteCount}
+            />
+          </section>
+        )}
+
+        {/* Presenter Controls */}
+        {poll.canControl && (
+          <div className="flex flex-wrap gap-2 border-t pt-3">
+            {isOpen ? (
+              <Button variant="outline" size="sm" onClick={closePoll}>
+                <Lock className="h-4 w-4 mr-1" /> Close poll
+              </Button>
+            ) : (
+              <Button size="sm" onClick={openPoll}>
+                <Play className="h-4 w-4 mr-1" />
+                {poll.status === 'closed' ? 'Reopen poll' : 'Open poll'}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setResultsRevealed(!poll.isResultsRevealed)}
+            >
+              {poll.isResultsRevealed ? (
+                <>
+                  <EyeOff className="h-4 w-4 mr-1" /> Hide results
+                </>
+              ) : (
+                <>
+                  <Eye className="h-4 w-4 mr-1" /> Reveal results
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Options of a single or multiple choice poll. Single choice polls vote on click; multiple
+ * choice polls collect a selection and vote when it is submitted.
+ */
+function ChoiceOptions({
+  options,
+  isMultipleChoice,
+  ownChoice,
+  isOpen,
+  onSubmit,
+}: {
+  options: string[];
+  isMultipleChoice: boolean;
+  ownChoice?: number[];
+  isOpen: boolean;
+  onSubmit: (optionIndexes: number[]) => Promise<boolean>;
+}) {
+  const [selection, setSelection] = useState<number[]>(ownChoice ?? []);
+
+  // Show the vote stored for this session once it loads or changes elsewhere
+  const serializedOwnChoice = JSON.stringify(ownChoice ?? []);
+  useEffect(() => {
+    setSelection(JSON.parse(serializedOwnChoice) as number[]);
+  }, [serializedOwnChoice]);
+
+  const handleClick = (index: number) => {
+    if (!isMultipleChoice) {
+      setSelection([index]);
+      void onSubmit([index]);
+      return;
+    }
+    setSelection((current) =>
+      current.includes(index) ? current.filter((i) => i !== index) : [...current, index]
+    );
+  };
+
+  const hasUnsubmittedSelection =
+    isMultipleChoice &&
+    JSON.stringify([...selection].sort((a, b) => a - b)) !== serializedOwnChoice;
+
+  return (
+    <div className="space-y-2">
+      {options.map((option, index) => {
+        const isSelected = selection.includes(index);
+        return (
+          <Button
+            key={`${option}-${index}`}
+            variant={isSelected ? 'default' : 'outline'}
+            className="w-full justify-start"
+            disabled={!isOpen}
+            onClick={() => handleClick(index)}
+          >
+            <span
+              className={cn(
+                'mr-2 flex h-4 w-4 flex-shrink-0 items-center justify-center border',
+                isMultipleChoice ? 'rounded-sm' : 'rounded-full'
+              )}
+            >
+              {isSelected && <Check className="h-3 w-3" />}
+            </span>
+            <span className="truncate">{option}</span>
+          </Button>
+        );
+      })}
+      {isMultipleChoice && isOpen && (
+        <Button
+          size="sm"
+          disabled={selection.length === 0 || !hasUnsubmittedSelection}
+          onClick={() => onSubmit(selection)}
+        >
+          {ownChoice ? 'Update vote' : 'Submit vote'}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Answer form of a word cloud poll.
+ */
+function WordCloudAnswer({
+  ownAnswer,
+  isOpen,
+  onSubmit,
+}: {
+  ownAnswer?: string;
+  isOpen: boolean;
+  onSubmit: (text: string) => Promise<boolean>;
+}) {
+  const [text, setText] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    if (await onSubmit(text)) {
+      setText('');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Your answer"
+            maxLength={MAX_WORD_CLOUD_ANSWER_LENGTH}
+          />
+          <Button type="submit" disabled={!text.trim()}>
+            {ownAnswer ? 'Change' : 'Submit'}
+          </Button>
+        </form>
+      )}
+      {ownAnswer && (
+        <p className="text-sm text-muted-foreground">
+          Your answer: <span className="font-medium text-foreground">{ownAnswer}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Live results of a poll: a bar per option, or the answers of a word cloud sized by how
+ * often they were given.
+ */
+function PollResultsView({
+  results,
+  options,
+  voteCount,
+}: {
+  results: PollResults;
+  options: string[];
+  voteCount: number;
+}) {
+  if (results.type === 'word_cloud') {
+    const maxCount = results.words[0]?.count ?? 1;
+    if (results.words.length === 0) {
+      return <p className="text-sm text-muted-foreground">No answers yet.</p>;
+    }
+    return (
+      <div className="flex flex-wrap items-baseline justify-center gap-x-4 gap-y-2 py-2">
+        {results.words.map((word) => (
+          <span
+            key={word.text}
+            className="font-semibold leading-none text-primary"
+            style={{ fontSize: `${0.875 + (word.count / maxCount) * 1.625}rem` }}
+            title={`${word.count} ${word.count === 1 ? 'answer' : 'answers'}`}
+          >
+            {word.text}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {options.map((option, index) => {
+        const count = results.optionCounts[index] ?? 0;
+        const percentage = voteCount > 0 ? Math.round((count / voteCount) * 100) : 0;
+        return (
+          <li key={`${option}-${index}`} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="truncate">{option}</span>
+              <span className="text-muted-foreground">
+                {count} ({percentage}%)
+              </span>
+            </div>
+            <Progress value={percentage} className="h-2" />
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,102 @@
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { PollType } from '@workspace/backend/modules/poll/results';
+import { useSessionMutation, useSessionQuery } from 'convex-helpers/react/sessions';
+import { useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+
+/**
+ * Props for the usePollSync hook.
+ */
+export interface UsePollSyncProps {
+  key: string;
+  question: string;
+  type: PollType;
+  options: string[];
+  presentationKey?: string;
+}
+
+/**
+ * Custom hook for an audience poll with live results.
+ * Creates the poll the first time it is shown, and provides voting for viewers and the
+ * open/close/reveal controls for whoever presents the poll's deck.
+ *
+ * @returns Object containing the poll, its results and action functions
+ */
+export function usePollSync({ key, question, type, options, presentationKey }: UsePollSyncProps) {
+  const poll = useSessionQuery(api.polls.getPoll, { key });
+
+  const ensurePollMutation = useSessionMutation(api.polls.ensurePoll);
+  const votePollMutation = useSessionMutation(api.polls.votePoll);
+  const openPollMutation = useSessionMutation(api.polls.openPoll);
+  const closePollMutation = useSessionMutation(api.polls.closePoll);
+  const setPollResultsRevealedMutation = useSessionMutation(api.polls.setPollResultsRevealed);
+
+  // Create the poll, or update its definition while it is still a draft, whenever it changes
+  const serializedOptions = JSON.stringify(options);
+  useEffect(() => {
+    ensurePollMutation({
+      key,
+      question,
+      type,
+      options: JSON.parse(serializedOptions) as string[],
+      presentationKey,
+    }).catch((error) => {
+      console.error('Failed to create poll:', error);
+    });
+  }, [ensurePollMutation, key, question, type, serializedOptions, presentationKey]);
+
+  const vote = useCallback(
+    async (choice: { optionIndexes?: number[]; text?: string }) => {
+      try {
+        await votePollMutation({ key, ...choice });
+        return true;
+      } catch (error) {
+        console.error('Failed to vote:', error);
+        toast.error('Could not submit your vote', {
+          description: error instanceof Error ? error.message : undefined,
+        });
+        return false;
+      }
+    },
+    [key, votePollMutation]
+  );
+
+  const openPoll = useCallback(async () => {
+    try {
+      await openPollMutation({ key });
+    } catch (error) {
+      console.error('Failed to open poll:', error);
+      toast.error('Could not open the poll');
+    }
+  }, [key, openPollMutation]);
+
+  const closePoll = useCallback(async () => {
+    try {
+      await closePollMutation({ key });
+    } catch (error) {
+      console.error('Failed to close poll:', error);
+      toast.error('Could not close the poll');
+    }
+  }, [key, closePollMutation]);
+
+  const setResultsRevealed = useCallback(
+    async (isRevealed: boolean) => {
+      try {
+        await setPollResultsRevealedMutation({ key, isRevealed });
+      } catch (error) {
+        console.error('Failed to change poll results visibility:', error);
+        toast.error(isRevealed ? 'Could not reveal the results' : 'Could not hide the results');
+      }
+    },
+    [key, setPollResultsRevealedMutation]
+  );
+
+  return {
+    poll,
+    isLoading: poll === undefined,
+    vote,
+    openPoll,
+    closePoll,
+    setResultsRevealed,
+  };
+}
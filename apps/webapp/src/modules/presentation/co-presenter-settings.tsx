@@ -0,0 +1,154 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { Id } from '@workspace/backend/convex/_generated/dataModel';
+import { useSessionMutation, useSessionQuery } from 'convex-helpers/react/sessions';
+import { UserCheck, UserPlus, X } from 'lucide-react';
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+/**
+ * Lets the owner of a deck, or an admin, choose which other users may present it, and lets
+ * admins choose who owns it. Renders nothing for everyone else.
+ */
+export function CoPresenterSettings({ presentationKey }: { presentationKey: string }) {
+  const access = useSessionQuery(api.presentations.getPresentationAccess, {
+    key: presentationKey,
+  });
+  const addCoPresenter = useSessionMutation(api.presentations.addCoPresenter);
+  const removeCoPresenter = useSessionMutation(api.presentations.removeCoPresenter);
+  const setPresentationOwner = useSessionMutation(api.presentations.setPresentationOwner);
+
+  const [username, setUsername] = useState('');
+  const [ownerUsername, setOwnerUsername] = useState('');
+
+  // Assign the owner by username
+  const handleSetOwner = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!ownerUsername.trim()) return;
+
+      try {
+        await setPresentationOwner({ key: presentationKey, username: ownerUsername });
+        setOwnerUsername('');
+      } catch (error) {
+        console.error('Failed to set owner:', error);
+        toast.error('Could not set owner', {
+          description: 'Check that the username is correct.',
+        });
+      }
+    },
+    [setPresentationOwner, presentationKey, ownerUsername]
+  );
+
+  // Add a co-presenter by username
+  const handleAdd = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!username.trim()) return;
+
+      try {
+        await addCoPresenter({ key: presentationKey, username });
+        setUsername('');
+      } catch (error) {
+        console.error('Failed to add co-presenter:', error);
+        toast.error('Could not add co-presenter', {
+          description: 'Check that the username is correct.',
+        });
+      }
+    },
+    [addCoPresenter, presentationKey, username]
+  );
+
+  // Remove a co-presenter
+  const handleRemove = useCallback(
+    async (userId: Id<'users'>) => {
+      try {
+        await removeCoPresenter({ key: presentationKey, userId });
+      } catch (error) {
+        console.error('Failed to remove co-presenter:', error);
+        toast.error('Could not remove co-presenter');
+      }
+    },
+    [removeCoPresenter, presentationKey]
+  );
+
+  if (!access?.canManagePresenters) return null;
+
+  return (
+    <>
+      <div className="h-px w-full bg-border" />
+      {access.canSetOwner && (
+        <section>
+          <h3 className="text-sm font-medium">Owner</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            {access.ownerName
+              ? `${access.ownerName} owns this deck.`
+              : 'No one owns this deck yet, so only admins can present it.'}
+          </p>
+          <form onSubmit={handleSetOwner} className="flex gap-2 mt-2">
+            <Input
+              value={ownerUsername}
+              onChange={(e) => setOwnerUsername(e.target.value)}
+              placeholder="Username"
+              className="h-8 text-xs"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              size="sm"
+              className="h-8"
+              aria-label="Set owner"
+            >
+              <UserCheck className="h-3 w-3" />
+            </Button>
+          </form>
+        </section>
+      )}
+      <section>
+        <h3 className="text-sm font-medium">Co-presenters</h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          Co-presenters can start presenting and take over from you at any time.
+        </p>
+        {access.coPresenters.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {access.coPresenters.map((coPresenter) => (
+              <li key={coPresenter.userId} className="flex items-center justify-between text-xs">
+                <span className="truncate">{coPresenter.name}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleRemove(coPresenter.userId)}
+                  aria-label={`Remove ${coPresenter.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleAdd} className="flex gap-2 mt-2">
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            className="h-8 text-xs"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            className="h-8"
+            aria-label="Add co-presenter"
+          >
+            <UserPlus className="h-3 w-3" />
+          </Button>
+        </form>
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,212 @@
+import { api } from '@workspace/backend/convex/_generated/api';
+import { fetchQuery } from 'convex/nextjs';
+import type { FunctionReturnType } from 'convex/server';
+import type { MDXComponents, MDXContent } from 'mdx/types';
+
+import { cn } from '@/lib/utils';
+import { findElementProps, renderMdxSlides } from '@/modules/presentation/mdx-slides';
+import { SlideFragment } from '@/modules/presentation/slide-fragment';
+
+type _HandoutSnapshot = FunctionReturnType<typeof api.handouts.getHandoutSnapshot>;
+type _DiscussionSnapshot = _HandoutSnapshot['discussions'][number];
+type _ChecklistSnapshot = _HandoutSnapshot['checklists'][number];
+
+interface HandoutViewProps {
+  // The compiled Markdown/MDX deck
+  content: MDXContent;
+  title?: string;
+  date?: string;
+  speaker?: string;
+  description?: string;
+  slideClassName?: string;
+}
+
+/**
+ * Printable handout of a deck: every slide one after another, one slide per printed page,
+ * with the conclusions of the deck's discussions and its checklists as they stand.
+ * Rendered on the server, so the page works without JavaScript and can be exported as a
+ * self-contained HTML file or printed to PDF.
+ */
+export async function HandoutView({
+  content,
+  title,
+  date,
+  speaker,
+  description,
+  slideClassName,
+}: HandoutViewProps) {
+  // Find the discussions and checklists in the deck before fetching what they concluded with
+  const deckContent = renderMdxSlides(content, HANDOUT_COMPONENTS).map((slide) => slide.content);
+  const discussionKeys = findElementProps(deckContent, HandoutDiscussion).map(
+    (props) => props.discussionKey
+  );
+  const checklistKeys = findElementProps(deckContent, HandoutChecklist).map(
+    (props) => props.checklistKey
+  );
+  const snapshot = await fetchHandoutSnapshot({
+    discussionKeys: Array.from(new Set(discussionKeys)),
+    checklistKeys: Array.from(new Set(checklistKeys)),
+  });
+
+  const discussions = new Map(snapshot?.discussions.map((d) => [d.key, d]));
+  const checklists = new Map(snapshot?.checklists.map((c) => [c.key, c]));
+  const slides = renderMdxSlides(content, {
+    ...HANDOUT_COMPONENTS,
+    Discussion: (props: HandoutDiscussionProps) => (
+      <HandoutDiscussion {...props} snapshot={discussions.get(props.discussionKey)} />
+    ),
+    Checklist: (props: HandoutChecklistProps) => (
+      <HandoutChecklist {...props} snapshot={checklists.get(props.checklistKey)} />
+    ),
+  });
+
+  return (
+    <article className="mx-auto w-full max-w-4xl space-y-6 p-6 print:max-w-none print:space-y-0 print:p-0">
+      <header className="space-y-1 border-b pb-4 print:break-after-page print:border-0">
+        {title && <h1 className="text-3xl font-bold">{title}</h1>}
+        {(date || speaker) && (
+          <p className="text-muted-foreground">{[speaker, date].filter(Boolean).join(' · ')}</p>
+        )}
+        {description && <p>{description}</p>}
+        <p className="text-sm text-muted-foreground print:hidden">
+          {slides.length} slides · Print this page or save it as a PDF to share it.
+        </p>
+        {!snapshot && (
+          <p className="text-sm text-muted-foreground">
+            Discussion conclusions and checklists could not be loaded.
+          </p>
+        )}
+      </header>
+
+      {slides.map((slide, index) => (
+        <section
+          key={index}
+          className={cn(
+            'break-inside-avoid rounded-lg border print:break-after-page print:rounded-none print:border-0',
+            slideClassName
+          )}
+        >
+          <p className="mb-4 text-xs text-muted-foreground">
+            Slide {index + 1} of {slides.length}
+          </p>
+          <div className="mx-auto w-full max-w-3xl">{slide.content}</div>
+        </section>
+      ))}
+    </article>
+  );
+}
+
+interface HandoutDiscussionProps {
+  title: string;
+  discussionKey: string;
+  snapshot?: _DiscussionSnapshot;
+}
+
+/**
+ * A discussion as printed in a handout: its conclusions once it has concluded.
+ */
+function HandoutDiscussion({ title, snapshot }: HandoutDiscussionProps) {
+  return (
+    <div className="my-4 rounded-lg border p-4 break-inside-avoid">
+      <h3 className="font-semibold">{snapshot?.title ?? title}</h3>
+      {snapshot ? (
+        <ul className="mt-2 list-disc space-y-1 pl-5">
+          {snapshot.conclusions.map((conclusion, index) => (
+            <li key={index}>
+              {conclusion.text}
+              {conclusion.tags.length > 0 && (
+                <span className="text-sm text-muted-foreground">
+                  {' '}
+                  ({conclusion.tags.join(', ')})
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-sm text-muted-foreground">This discussion has not concluded.</p>
+      )}
+    </div>
+  );
+}
+
+interface HandoutChecklistProps {
+  title: string;
+  checklistKey: string;
+  snapshot?: _ChecklistSnapshot;
+}
+
+/**
+ * A checklist as printed in a handout: its items as they stand.
+ */
+function HandoutChecklist({ title, snapshot }: HandoutChecklistProps) {
+  return (
+    <div className="my-4 rounded-lg border p-4 break-inside-avoid">
+      <h3 className="font-semibold">{snapshot?.title ?? title}</h3>
+      {snapshot && snapshot.items.length > 0 ? (
+        <ul className="mt-2 space-y-1">
+          {snapshot.items.map((item, index) => (
+            <li key={index} className="flex gap-2">
+              <span aria-hidden="true">{item.isCompleted ? '☑' : '☐'}</span>
+              <span className={cn(item.isCompleted && 'line-through text-muted-foreground')}>
+                {item.text}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-sm text-muted-foreground">No items.</p>
+      )}
+    </div>
+  );
+}
+
+interface HandoutPollProps {
+  question: string;
+  options?: string[];
+}
+
+/**
+ * A poll as printed in a handout: its question and options.
+ */
+function HandoutPoll({ question, options = [] }: HandoutPollProps) {
+  return (
+    <div className="my-4 rounded-lg border p-4 break-inside-avoid">
+      <h3 className="font-semibold">{question}</h3>
+      {options.length > 0 && (
+        <ul className="mt-2 list-disc space-y-1 pl-5">
+          {options.map((option, index) => (
+            <li key={index}>{option}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Static stand-ins for the live components decks can embed. Fragments are always shown
+ * outside a slide.
+ */
+const HANDOUT_COMPONENTS: MDXComponents = {
+  Discussion: HandoutDiscussion,
+  Checklist: HandoutChecklist,
+  Poll: HandoutPoll,
+  SlideFragment,
+};
+
+// Fetch the handout snapshot, leaving it out if the backend cannot be reached
+async function fetchHandoutSnapshot(args: {
+  discussionKeys: string[];
+  checklistKeys: string[];
+}): Promise<_HandoutSnapshot | null> {
+  if (args.discussionKeys.length === 0 && args.checklistKeys.length === 0) {
+    return { discussions: [], checklists: [] };
+  }
+  try {
+    return await fetchQuery(api.handouts.getHandoutSnapshot, args);
+  } catch (error) {
+    console.error('Failed to load handout snapshot:', error);
+    return null;
+  }
+}
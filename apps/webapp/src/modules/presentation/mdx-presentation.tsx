@@ -0,0 +1,136 @@
+import type { PresentationRegistration } from '@workspace/backend/modules/presentation/registry';
+import type { MDXComponents, MDXContent } from 'mdx/types';
+
+import { Checklist } from '@/modules/checklist/checklist';
+import { Discussion } from '@/modules/discussion/discussion';
+import { Poll } from '@/modules/poll/poll';
+import { HandoutView } from '@/modules/presentation/handout-view';
+import { findElementProps, renderMdxSlides } from '@/modules/presentation/mdx-slides';
+import { PresentationContainer } from '@/modules/presentation/presentation-container';
+import { PresentationControls } from '@/modules/presentation/presentation-controls';
+import { PresenterView } from '@/modules/presentation/presenter-view';
+import { ReplayView } from '@/modules/presentation/replay-view';
+import type { SpeakerNotes } from '@/modules/presentation/script-notes';
+import { Slide, type SlideTransition } from '@/modules/presentation/slide';
+import { SlideFragment } from '@/modules/presentation/slide-fragment';
+
+interface MdxPresentationProps {
+  // The compiled Markdown/MDX deck, imported from a .md or .mdx file
+  content: MDXContent;
+  presentationKey: string;
+  registration?: Omit<PresentationRegistration, 'key' | 'path' | 'slideCount'>;
+  className?: string;
+  slideClassName?: string;
+  // How each slide appears, defaults to fading in
+  transition?: SlideTransition;
+  // Show the presenter view, with speaker notes and a timer, the printable handout, or the
+  // replay of recorded sessions, instead of the audience view
+  view?: 'audience' | 'presenter' | 'handout' | 'replay';
+  // Speaker notes for the presenter view, e.g. from the deck's script; notes written in the
+  // deck with <Notes> are shown after these
+  notes?: SpeakerNotes;
+  // Planned length of the talk, shown as the remaining time in the presenter view
+  durationMinutes?: number;
+}
+
+/**
+ * Components available to deck authors without importing them, so that decks can embed live
+ * discussions, checklists and polls inline, e.g. `<Discussion discussionKey="..." title="..." />`,
+ * and reveal parts of a slide step by step with `<SlideFragment>`.
+ */
+const DECK_COMPONENTS: MDXComponents = {
+  Discussion,
+  Checklist,
+  Poll,
+  SlideFragment,
+};
+
+/**
+ * Renders a Markdown/MDX file as a slide deck. The file is split into slides at each `---`,
+ * and the slides are numbered automatically, so decks can be written without any TSX.
+ * The same file can be rendered as the presenter view, a printable handout or the replay of
+ * recorded sessions on separate routes.
+ *
+ * @example
+ * import Content from './content.mdx';
+ *
+ * <MdxPresentation content={Content} presentationKey="my-sharing" />
+ */
+export function MdxPresentation({
+  content: Content,
+  presentationKey,
+  registration,
+  className,
+  slideClassName,
+  transition,
+  view = 'audience',
+  notes,
+  durationMinutes,
+}: MdxPresentationProps) {
+  if (view === 'handout') {
+    return (
+      <HandoutView
+        content={Content}
+        title={registration?.title}
+        date={registration?.date}
+        speaker={registration?.speaker}
+        description={registration?.description}
+        slideClassName={slideClassName}
+      />
+    );
+  }
+
+  const slides = renderMdxSlides(Content, DECK_COMPONENTS);
+
+  if (view === 'replay') {
+    const slideContents = slides.map((slide) => slide.content);
+    const discussionKeys = findElementProps(slideContents, Discussion).map(
+      (props) => props.discussionKey
+    );
+    return (
+      <ReplayView
+        presentationKey={presentationKey}
+        title={registration?.title}
+        slides={slideContents}
+        discussionKeys={Array.from(new Set(discussionKeys))}
+      />
+    );
+  }
+
+  if (view === 'presenter') {
+    return (
+      <PresenterView
+        presentationKey={presentationKey}
+        title={registration?.title}
+        slides={slides.map((slide) => slide.content)}
+        notes={slides.map((slide, index) => {
+          const scriptNotes = notes?.[index + 1];
+          if (!scriptNotes && slide.notes.length === 0) return undefined;
+          return (
+            <>
+              {scriptNotes && <p className="whitespace-pre-wrap">{scriptNotes}</p>}
+              {slide.notes}
+            </>
+          );
+        })}
+        durationMinutes={durationMinutes}
+      />
+    );
+  }
+
+  return (
+    <PresentationContainer
+      totalSlides={slides.length}
+      presentationKey={presentationKey}
+      registration={registration}
+      className={className}
+    >
+      <PresentationControls />
+      {slides.map((slide, index) => (
+        <Slide key={index} index={index + 1} className={slideClassName} transition={transition}>
+          <div className="w-full max-w-3xl mx-auto">{slide.content}</div>
+        </Slide>
+      ))}
+    </PresentationContainer>
+  );
+}
@@ -0,0 +1,80 @@
+import type { MDXComponents, MDXContent } from 'mdx/types';
+import { Children, Fragment, isValidElement, type ReactNode } from 'react';
+
+/**
+ * A slide split from an MDX document, with the speaker notes written on it.
+ */
+export interface MdxSlide {
+  content: ReactNode[];
+  notes: ReactNode[];
+}
+
+/**
+ * Marks the boundary between two slides. Markdown thematic breaks (`---` on its own line,
+ * with a blank line before it) are rendered as this component and then removed.
+ */
+export function SlideSeparator() {
+  return null;
+}
+
+/**
+ * Speaker notes written in a deck, e.g. `<Notes>Ask for a volunteer to read</Notes>`.
+ * Notes are only shown in the presenter view.
+ */
+export function Notes(_props: { children?: ReactNode }) {
+  return null;
+}
+
+/**
+ * Renders an MDX document with the given components and splits it into slides.
+ * Rendering the document directly, rather than as an element, returns a fragment of its
+ * top-level elements, which lets the deck be split into slides before anything is rendered.
+ */
+export function renderMdxSlides(Content: MDXContent, components: MDXComponents): MdxSlide[] {
+  const mdxDocument = Content({ components: { ...components, Notes, hr: SlideSeparator } });
+  return splitMdxSlides(
+    isValidElement<{ children?: ReactNode }>(mdxDocument) && mdxDocument.type === Fragment
+      ? mdxDocument.props.children
+      : mdxDocument
+  );
+}
+
+/**
+ * Finds the elements of a component in rendered slide content, e.g. the discussions embedded
+ * in a deck, and returns their props in the order they appear.
+ */
+export function findElementProps<P>(nodes: ReactNode, component: (props: P) => ReactNode): P[] {
+  const found: P[] = [];
+  for (const node of Children.toArray(nodes)) {
+    if (!isValidElement<{ children?: ReactNode }>(node)) continue;
+
+    if (node.type === component) {
+      found.push(node.props as P);
+    }
+    found.push(...findElementProps(node.props.children, component));
+  }
+  return found;
+}
+
+/**
+ * Splits the top-level elements of a rendered MDX document into slides at each separator,
+ * taking out the speaker notes of each slide.
+ * Slides without any content, such as one after a trailing separator, are dropped.
+ */
+function splitMdxSlides(children: ReactNode): MdxSlide[] {
+  const slides: MdxSlide[] = [{ content: [], notes: [] }];
+  for (const child of Children.toArray(children)) {
+    const slide = slides[slides.length - 1];
+    if (isValidElement<{ children?: ReactNode }>(child) && child.type === SlideSeparator) {
+      slides.push({ content: [], notes: [] });
+    } else if (isValidElement<{ children?: ReactNode }>(child) && child.type === Notes) {
+      slide?.notes.push(child.props.children);
+    } else {
+      slide?.content.push(child);
+    }
+  }
+  // Whitespace between MDX elements is rendered as newline strings
+  return slides.filter((slide) =>
+    slide.content.some((node) => typeof node !== 'string' || node.trim() !== '')
+  );
+}
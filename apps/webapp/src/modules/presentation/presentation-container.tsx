@@ -1,5 +1,6 @@
 'use client';
 
+import type { PresentationRegistration } from '@workspace/backend/modules/presentation/registry';
 import { useSearchParams } from 'next/navigation';
 import {
   createContext,
@@ -13,11 +14,16 @@ import {
 
 import { cn } from '@/lib/utils';
 import { usePresentationSync } from '@/modules/presentation/use-presentation-sync';
+import { useRegisterPresentation } from '@/modules/presentation/use-register-presentation';
 
 type PresentationContextType = {
+  presentationKey: string;
   isFullScreen: boolean;
   toggleFullScreen: () => void;
   currentSlide: number;
+  // Fragments revealed on the current slide
+  currentFragment: number;
+  setFragmentCount: (slide: number, count: number) => void;
   totalSlides: number;
   nextSlide: () => void;
   previousSlide: () => void;
@@ -32,6 +38,15 @@ type PresentationContextType = {
   startPresenting: () => void;
   stopPresenting: () => void;
   followPresenter: () => void;
+  canPresent: boolean;
+  // Whether the user can take over from the active presenter without asking
+  canTakeOver: boolean;
+  controlRequest: { name: string; requestedAt: number; isOwnRequest: boolean } | null;
+  requestControl: () => void;
+  cancelControlRequest: () => void;
+  respondToControlRequest: (grant: boolean) => void;
+  isPresenterDisconnected: boolean;
+  dismissPresenterDisconnected: () => void;
 };
 
 const PresentationContext = createContext<PresentationContextType | null>(null);
@@ -44,11 +59,18 @@ export function usePresentationContext() {
   return context;
 }
 
+// Like usePresentationContext, for components that can also be used outside a presentation
+export function useOptionalPresentationContext() {
+  return useContext(PresentationContext);
+}
+
 interface PresentationContainerProps {
   children: React.ReactNode;
   totalSlides: number;
   className?: string;
   presentationKey: string;
+  // Metadata listed on the presentations index; the key and slide count come from this container
+  registration?: Omit<PresentationRegistration, 'key' | 'path' | 'slideCount'>;
   fallback?: React.ReactNode;
 }
 
@@ -70,6 +92,7 @@ function PresentationContainerInner({
   totalSlides,
   className,
   presentationKey,
+  registration,
 }: PresentationContainerProps) {
   const searchParams = useSearchParams();
   const slideParam = searchParams.get('slide');
@@ -86,6 +109,8 @@ function PresentationContainerInner({
   // Use the presentation sync hook
   const {
     currentSlide,
+    currentFragment,
+    setFragmentCount,
     nextSlide: nextSlideSync,
     previousSlide: previousSlideSync,
     goToSlide: goToSlideSync,
@@ -97,6 +122,14 @@ function PresentationContainerInner({
     startPresenting,
     stopPresenting,
     followPresenter,
+    canPresent,
+    canTakeOver,
+    controlRequest,
+    requestControl,
+    cancelControlRequest,
+    respondToControlRequest,
+    isPresenterDisconnected,
+    dismissPresenterDisconnected,
   } = usePresentationSync({
     key: presentationKey,
     initialSlide: !Number.isNaN(initialSlide) ? initialSlide : 1,
@@ -106,6 +139,10 @@ function PresentationContainerInner({
   // Sync is always enabled since presentationKey is mandatory
   const isSynced = true;
 
+  useRegisterPresentation(
+    registration ? { ...registration, key: presentationKey, slideCount: totalSlides } : null
+  );
+
   // Handle fullscreen changes from outside (e.g., Escape key)
   useEffect(() => {
     const handleFullScreenChange = () => {
@@ -218,9 +255,12 @@ function PresentationContainerInner({
   return (
     <PresentationContext.Provider
       value={{
+        presentationKey,
         isFullScreen,
         toggleFullScreen,
         currentSlide,
+        currentFragment,
+        setFragmentCount,
         totalSlides,
         nextSlide,
         previousSlide,
@@ -235,6 +275,14 @@ function PresentationContainerInner({
         startPresenting,
         stopPresenting,
         followPresenter,
+        canPresent,
+        canTakeOver,
+        controlRequest,
+        requestControl,
+        cancelControlRequest,
+        respondToControlRequest,
+        isPresenterDisconnected,
+        dismissPresenterDisconnected,
       }}
     >
       <div
@@ -1,10 +1,25 @@
 'use client';
 
-import { Info, LinkIcon, Maximize2, Minimize2, MonitorSmartphone, UserIcon } from 'lucide-react';
+import { api } from '@workspace/backend/convex/_generated/api';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+import {
+  Eye,
+  Hand,
+  Info,
+  LinkIcon,
+  Maximize2,
+  Minimize2,
+  MonitorSmartphone,
+  UserIcon,
+  WifiOff,
+} from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 
+import { CoPresenterSettings } from './co-presenter-settings';
 import { usePresentationContext } from './presentation-container';
+import { PresentationReactions } from './presentation-reactions';
+import { PresentationViewers } from './presentation-viewers';
 import { Button } from '../../components/ui/button';
 
 import { Badge } from '@/components/ui/badge';
@@ -47,8 +62,22 @@ export function PresentationControls() {
     startPresenting,
     stopPresenting,
     followPresenter,
+    presentationKey,
+    canPresent, // Whether current user is allowed to present this deck
+    canTakeOver, // Whether current user can take over without the presenter's approval
+    controlRequest, // Pending request from a viewer to take over presenting
+    requestControl,
+    cancelControlRequest,
+    respondToControlRequest,
+    isPresenterDisconnected, // Whether the followed presentation ended because the presenter disconnected
+    dismissPresenterDisconnected,
   } = usePresentationContext();
 
+  // Live audience, shown to the presenter as a viewer count
+  const audience = useSessionQuery(api.presentationPresence.getPresentationAudience, {
+    key: presentationKey,
+  });
+
   // For safe client-side feature detection
   const { isMounted, isClient } = useClientSideFeatures();
 
@@ -211,14 +240,62 @@ export function PresentationControls() {
     return {
       variant: 'ghost' as const,
       icon: <MonitorSmartphone className="h-4 w-4" />,
-      tooltip: 'Start Presenting',
+      tooltip: canPresent ? 'Start Presenting' : 'Only the owner or co-presenters can present',
     };
-  }, [isPresenter, isPresentationActive, isSoloMode]);
+  }, [isPresenter, isPresentationActive, isSoloMode, canPresent]);
 
   const syncButtonState = getSyncButtonState();
 
   return (
     <>
+      {/* Control Request - Shown to the presenter when a viewer asks to take over */}
+      {isPresenter && controlRequest && (
+        <div className="fixed bottom-20 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-lg border bg-background px-4 py-2 shadow-md">
+          <Hand className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="text-sm">
+            <span className="font-medium">{controlRequest.name}</span> wants to present
+          </span>
+          <Button size="sm" className="h-8" onClick={() => respondToControlRequest(true)}>
+            Hand over
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            onClick={() => respondToControlRequest(false)}
+          >
+            Decline
+          </Button>
+        </div>
+      )}
+
+      {/* Presenter Disconnected - Shown to viewers when the presenter stopped responding */}
+      {isPresenterDisconnected && !isPresentationActive && (
+        <div className="fixed top-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-lg border bg-background px-4 py-2 shadow-md">
+          <WifiOff className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="text-sm">
+            The presenter disconnected. You can keep browsing the slides on your own.
+          </span>
+          {canPresent && (
+            <Button size="sm" className="h-8" onClick={startPresenting}>
+              Start presenting
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={dismissPresenterDisconnected}
+            aria-label="Dismiss"
+          >
+            ✕
+          </Button>
+        </div>
+      )}
+
+      {/* Emoji Reactions - Floating over the current slide */}
+      <PresentationReactions />
+
       {/* Main Controls - Fixed bar at bottom of screen */}
       <div
         className={cn(
@@ -236,6 +313,14 @@ export function PresentationControls() {
           {isPresenter ? 'Presenting' : isSoloMode ? 'Solo Mode' : 'Viewer'}
         </Badge>
 
+        {/* Viewer Count - Shown to the presenter, with the full list in the info dialog */}
+        {isPresenter && audience && (
+          <Badge variant="outline" className="flex items-center gap-1 h-8">
+            <Eye className="h-3 w-3" />
+            {audience.viewerCount}
+          </Badge>
+        )}
+
         {/* Slide Navigation Controls */}
         <div className="flex items-center gap-1">
           <Button variant="ghost" size="icon" onClick={previousSlide}>
@@ -284,6 +369,7 @@ export function PresentationControls() {
                   variant={syncButtonState.variant}
                   size="icon"
                   onClick={handleSyncButtonClick}
+                  disabled={!isPresentationActive && !canPresent}
                   className="h-8 w-8"
                 >
                   {syncButtonState.icon}
@@ -408,7 +494,9 @@ export function PresentationControls() {
                       ? isSoloMode
                         ? 'You are viewing independently. Click "Return to Presenter" to follow again.'
                         : "You are following the presenter's slides."
-                      : 'No active presentation. Click "Start Presenting" to begin.'}
+                      : canPresent
+                        ? 'No active presentation. Click "Start Presenting" to begin.'
+                        : 'No active presentation. Only the owner or co-presenters can present.'}
                 </p>
 
                 {/* Button: Return to presenter - For viewers in solo mode */}
@@ -424,8 +512,8 @@ export function PresentationControls() {
                   </Button>
                 )}
 
-                {/* Button: Become presenter - For viewers following presenter */}
-                {isPresentationActive && !isPresenter && !isSoloMode && (
+                {/* Button: Take over - For the owner or an admin following another presenter */}
+                {isPresentationActive && !isPresenter && !isSoloMode && canTakeOver && (
                   <Button
                     variant="default"
                     size="sm"
@@ -433,12 +521,25 @@ export function PresentationControls() {
                     className="flex items-center gap-1 text-xs w-full mt-2 h-8"
                   >
                     <MonitorSmartphone className="h-3 w-3" />
-                    Become presenter
+                    Take over presenting
+                  </Button>
+                )}
+
+                {/* Button: Request control - For other viewers, co-presenters included, who need the presenter's approval */}
+                {isPresentationActive && !isPresenter && !canTakeOver && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={controlRequest?.isOwnRequest ? cancelControlRequest : requestControl}
+                    className="flex items-center gap-1 text-xs w-full mt-2 h-8"
+                  >
+                    <Hand className="h-3 w-3" />
+                    {controlRequest?.isOwnRequest ? 'Cancel request to present' : 'Request control'}
                   </Button>
                 )}
 
                 {/* Button: Start presenting - When no presentation is active */}
-                {!isPresenter && !isPresentationActive && (
+                {!isPresenter && !isPresentationActive && canPresent && (
                   <Button
                     variant="outline"
                     size="sm"
@@ -473,6 +574,10 @@ export function PresentationControls() {
                   Copy shareable link
                 </Button>
               </section>
+
+              <PresentationViewers presentationKey={presentationKey} />
+
+              <CoPresenterSettings presentationKey={presentationKey} />
             </div>
           </dialog>
         </div>
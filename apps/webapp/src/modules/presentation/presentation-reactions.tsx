@@ -0,0 +1,111 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import {
+  PRESENTATION_REACTION_DISPLAY_MS,
+  PRESENTATION_REACTION_EMOJIS,
+} from '@workspace/backend/modules/presentation/reactions';
+import { useSessionMutation, useSessionQuery } from 'convex-helpers/react/sessions';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { usePresentationContext } from './presentation-container';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+/**
+ * Lightweight emoji reactions for a presentation: a bar to react with, and the reactions
+ * sent to the current slide floating up over it.
+ */
+export function PresentationReactions() {
+  const { presentationKey, currentSlide, isFullScreen, controlsVisible } = usePresentationContext();
+
+  // Only reactions sent after the deck was opened float over it
+  const [since] = useState(() => Date.now());
+  const reactions = useSessionQuery(api.presentationReactions.getRecentReactions, {
+    key: presentationKey,
+    since,
+  });
+  const sendReactionMutation = useSessionMutation(api.presentationReactions.sendReaction);
+
+  // When each reaction arrived, so that clock differences with the server do not matter
+  const receivedAtRef = useRef(new Map<string, number>());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const receivedAt = Date.now();
+    for (const reaction of reactions ?? []) {
+      if (!receivedAtRef.current.has(reaction._id)) {
+        receivedAtRef.current.set(reaction._id, receivedAt);
+      }
+    }
+    setNow(receivedAt);
+  }, [reactions]);
+
+  // Remove reactions once they have floated away
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const sendReaction = useCallback(
+    (emoji: string) => {
+      sendReactionMutation({ key: presentationKey, slide: currentSlide, emoji }).catch((error) => {
+        console.error('Failed to send reaction:', error);
+      });
+    },
+    [presentationKey, currentSlide, sendReactionMutation]
+  );
+
+  const floatingReactions = (reactions ?? []).filter((reaction) => {
+    const receivedAt = receivedAtRef.current.get(reaction._id) ?? now;
+    return reaction.slide === currentSlide && now - receivedAt < PRESENTATION_REACTION_DISPLAY_MS;
+  });
+
+  return (
+    <>
+      {/* Floating Reactions - Over the slide, without blocking it */}
+      <div className="pointer-events-none fixed inset-0 z-40 overflow-hidden" aria-hidden="true">
+        {floatingReactions.map((reaction) => (
+          <span
+            key={reaction._id}
+            className="absolute bottom-24 animate-float-up text-4xl"
+            style={{ left: `${_getReactionPosition(reaction._id)}%` }}
+          >
+            {reaction.emoji}
+          </span>
+        ))}
+      </div>
+
+      {/* Reaction Bar */}
+      <div
+        className={cn(
+          'fixed bottom-4 right-4 z-50 hidden gap-1 rounded-full bg-background/80 px-2 py-1 shadow-md backdrop-blur-sm transition-opacity duration-300 md:flex',
+          isFullScreen && !controlsVisible && 'opacity-0'
+        )}
+      >
+        {PRESENTATION_REACTION_EMOJIS.map((emoji) => (
+          <Button
+            key={emoji}
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-lg"
+            onClick={() => sendReaction(emoji)}
+            aria-label={`React with ${emoji}`}
+          >
+            {emoji}
+          </Button>
+        ))}
+      </div>
+    </>
+  );
+}
+
+// Spread reactions across the slide, keeping each reaction in the same place while it floats
+function _getReactionPosition(id: string): number {
+  let hash = 0;
+  for (const char of id) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 997;
+  }
+  return 10 + (hash % 80);
+}
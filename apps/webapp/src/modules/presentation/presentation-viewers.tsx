@@ -0,0 +1,58 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+
+import { Badge } from '@/components/ui/badge';
+
+/**
+ * Lists who is viewing a deck, which slide each viewer is on and whether they follow the
+ * presenter. Only people who can present the deck see the list; everyone else sees the count.
+ */
+export function PresentationViewers({ presentationKey }: { presentationKey: string }) {
+  const audience = useSessionQuery(api.presentationPresence.getPresentationAudience, {
+    key: presentationKey,
+  });
+
+  if (!audience) return null;
+
+  return (
+    <>
+      <div className="h-px w-full bg-border" />
+      <section>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium">Audience</h3>
+          <span className="text-xs text-muted-foreground">
+            {audience.viewerCount} {audience.viewerCount === 1 ? 'viewer' : 'viewers'}
+          </span>
+        </div>
+        {audience.viewers.length > 0 && (
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {audience.viewers.map((viewer, index) => (
+              <li
+                key={`${viewer.name}-${index}`}
+                className="flex items-center justify-between gap-2 text-xs"
+              >
+                <span className="truncate">
+                  {viewer.name}
+                  {viewer.isCurrentSession && (
+                    <span className="text-muted-foreground"> (this tab)</span>
+                  )}
+                </span>
+                <span className="flex flex-shrink-0 items-center gap-1">
+                  <span className="text-muted-foreground">Slide {viewer.currentSlide}</span>
+                  <Badge
+                    variant={viewer.isSoloMode ? 'outline' : 'secondary'}
+                    className="px-1.5 py-0 text-[10px]"
+                  >
+                    {viewer.isSoloMode ? 'Solo' : 'In sync'}
+                  </Badge>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
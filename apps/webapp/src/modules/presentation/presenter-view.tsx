@@ -0,0 +1,294 @@
+'use client';
+
+import {
+  ChevronLeft,
+  ChevronRight,
+  Hand,
+  MonitorSmartphone,
+  RotateCcw,
+  Timer,
+  WifiOff,
+} from 'lucide-react';
+import { Suspense, useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { SlideFragments } from '@/modules/presentation/slide-fragment';
+import { usePresentationSync } from '@/modules/presentation/use-presentation-sync';
+
+interface PresenterViewProps {
+  presentationKey: string;
+  title?: string;
+  // The content of each slide, in order
+  slides: React.ReactNode[];
+  // Speaker notes for each slide, in the same order as the slides
+  notes: (React.ReactNode | undefined)[];
+  // Planned length of the talk, used to show the remaining time
+  durationMinutes?: number;
+}
+
+/**
+ * Presenter view of a deck, showing the current slide, a preview of the next slide, speaker
+ * notes and a timer. Slide changes are synced to the audience like in the regular deck.
+ * Fragments the audience cannot see yet are shown faded on the current slide.
+ */
+export function PresenterView(props: PresenterViewProps) {
+  return (
+    <Suspense fallback={null}>
+      <PresenterViewInner {...props} />
+    </Suspense>
+  );
+}
+
+function PresenterViewInner({
+  presentationKey,
+  title,
+  slides,
+  notes,
+  durationMinutes,
+}: PresenterViewProps) {
+  const totalSlides = slides.length;
+  const {
+    currentSlide,
+    currentFragment,
+    fragmentCount,
+    setFragmentCount,
+    nextSlide,
+    previousSlide,
+    isPresenter,
+    isPresentationActive,
+    canPresent,
+    canTakeOver,
+    controlRequest,
+    startPresenting,
+    stopPresenting,
+    respondToControlRequest,
+    isPresenterDisconnected,
+  } = usePresentationSync({ key: presentationKey, totalSlides });
+
+  // Navigate with the same keys as the audience view, except while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target.isContentEditable
+      ) {
+        return;
+      }
+
+      if (e.key === 'ArrowRight' || e.key === ' ') {
+        nextSlide();
+      } else if (e.key === 'ArrowLeft') {
+        previousSlide();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [nextSlide, previousSlide]);
+
+  const handleFragmentCountChange = useCallback(
+    (count: number) => setFragmentCount(currentSlide, count),
+    [currentSlide, setFragmentCount]
+  );
+
+  const currentNotes = notes[currentSlide - 1];
+  const upcomingSlide = currentSlide < totalSlides ? slides[currentSlide] : null;
+
+  return (
+    <div className="flex min-h-screen flex-col gap-4 bg-background p-4 text-foreground">
+      {/* Header - Title, presenting status and timer */}
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <h1 className="text-lg font-semibold truncate">{title ?? 'Presenter View'}</h1>
+          <Badge variant={isPresenter ? 'default' : 'outline'}>
+            {isPresenter
+              ? 'Presenting'
+              : isPresentationActive
+                ? 'Someone else is presenting'
+                : 'Not presenting'}
+          </Badge>
+        </div>
+        <div className="flex items-center gap-3">
+          <PresenterTimer durationMinutes={durationMinutes} />
+          {isPresenter ? (
+            <Button variant="outline" size="sm" onClick={stopPresenting}>
+              <MonitorSmartphone className="h-4 w-4 mr-1" /> Stop presenting
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={startPresenting}
+              disabled={isPresentationActive ? !canTakeOver : !canPresent}
+            >
+              <MonitorSmartphone className="h-4 w-4 mr-1" />
+              {isPresentationActive ? 'Take over presenting' : 'Start presenting'}
+            </Button>
+          )}
+        </div>
+      </header>
+
+      {/* Control Request - Shown when a viewer asks to take over */}
+      {isPresenter && controlRequest && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border px-4 py-2">
+          <Hand className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm">
+            <span className="font-medium">{controlRequest.name}</span> wants to present
+          </span>
+          <Button size="sm" className="h-8" onClick={() => respondToControlRequest(true)}>
+            Hand over
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            onClick={() => respondToControlRequest(false)}
+          >
+            Decline
+          </Button>
+        </div>
+      )}
+
+      {/* Presenter Disconnected - Shown when the audience was released after missed heartbeats */}
+      {isPresenterDisconnected && !isPresentationActive && (
+        <div className="flex items-center gap-3 rounded-lg border px-4 py-2">
+          <WifiOff className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm">
+            The presenter disconnected, so the audience is no longer following. Start presenting to
+            resume.
+          </span>
+        </div>
+      )}
+
+      <div className="grid flex-1 gap-4 lg:grid-cols-3">
+        {/* Current Slide */}
+        <section className="flex flex-col gap-2 lg:col-span-2">
+          <h2 className="text-sm font-medium text-muted-foreground">
+            Slide {currentSlide} of {totalSlides}
+            {fragmentCount > 0 && ` · Step ${currentFragment} of ${fragmentCount}`}
+          </h2>
+          <div className="flex flex-1 items-center justify-center overflow-auto rounded-lg border p-6">
+            <div className="w-full max-w-3xl">
+              <SlideFragments
+                key={currentSlide}
+                revealedFragments={currentFragment}
+                onFragmentCountChange={handleFragmentCountChange}
+                showHidden
+              >
+                {slides[currentSlide - 1]}
+              </SlideFragments>
+            </div>
+          </div>
+        </section>
+
+        <div className="flex flex-col gap-4">
+          {/* Next Slide Preview */}
+          <section className="flex flex-col gap-2">
+            <h2 className="text-sm font-medium text-muted-foreground">
+              Next
+              {currentFragment < fragmentCount &&
+                ` · ${fragmentCount - currentFragment} more ${fragmentCount - currentFragment === 1 ? 'step' : 'steps'} on this slide`}
+            </h2>
+            <div className="relative aspect-video overflow-hidden rounded-lg border bg-muted/30">
+              {upcomingSlide ? (
+                <div
+                  className="pointer-events-none absolute left-0 top-0 w-[400%] origin-top-left scale-25 p-8"
+                  aria-hidden="true"
+                >
+                  {upcomingSlide}
+                </div>
+              ) : (
+                <p className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                  End of presentation
+                </p>
+              )}
+            </div>
+          </section>
+
+          {/* Speaker Notes */}
+          <section className="flex flex-1 flex-col gap-2">
+            <h2 className="text-sm font-medium text-muted-foreground">Notes</h2>
+            <div className="flex-1 overflow-auto rounded-lg border p-4 text-sm leading-6">
+              {currentNotes ?? <p className="text-muted-foreground">No notes for this slide.</p>}
+            </div>
+          </section>
+        </div>
+      </div>
+
+      {/* Navigation */}
+      <footer className="flex items-center justify-center gap-3">
+        <Button
+          variant="outline"
+          onClick={previousSlide}
+          disabled={currentSlide <= 1 && currentFragment === 0}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" /> Previous
+        </Button>
+        <Button
+          onClick={nextSlide}
+          disabled={currentSlide >= totalSlides && currentFragment >= fragmentCount}
+        >
+          Next <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </footer>
+    </div>
+  );
+}
+
+/**
+ * Shows the time elapsed since the presenter view was opened, and the time remaining
+ * when the planned length of the talk is known.
+ */
+function PresenterTimer({ durationMinutes }: { durationMinutes?: number }) {
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick every second
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const elapsedMs = Math.max(0, now - startedAt);
+  const remainingMs =
+    durationMinutes !== undefined ? durationMinutes * 60 * 1000 - elapsedMs : null;
+
+  return (
+    <div className="flex items-center gap-2 font-mono text-sm">
+      <Timer className="h-4 w-4 text-muted-foreground" />
+      <span aria-label="Elapsed time">{formatDuration(elapsedMs)}</span>
+      {remainingMs !== null && (
+        <span
+          className={cn('text-muted-foreground', remainingMs < 0 && 'text-destructive')}
+          aria-label="Remaining time"
+        >
+          ({remainingMs < 0 ? '+' : ''}
+          {formatDuration(Math.abs(remainingMs))} {remainingMs < 0 ? 'over' : 'left'})
+        </span>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0"
+        onClick={() => {
+          setStartedAt(Date.now());
+          setNow(Date.now());
+        }}
+        aria-label="Reset timer"
+      >
+        <RotateCcw className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+// Format a duration in milliseconds as m:ss
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import type { PresentationRegistration } from '@workspace/backend/modules/presentation/registry';
+
+import { useRegisterPresentation } from '@/modules/presentation/use-register-presentation';
+
+/**
+ * Props for the RegisterPresentation component. The key is named presentationKey like on
+ * PresentationContainer, since React reserves the key prop.
+ */
+export type RegisterPresentationProps = Omit<PresentationRegistration, 'key' | 'path'> & {
+  presentationKey: string;
+};
+
+/**
+ * Registers a page that is not a slide deck, such as an MDX article, in the presentations registry.
+ * Slide decks register through the `registration` prop of PresentationContainer instead.
+ */
+export function RegisterPresentation({ presentationKey, ...details }: RegisterPresentationProps) {
+  useRegisterPresentation({ ...details, key: presentationKey });
+  return null;
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { FunctionReturnType } from 'convex/server';
+import { useSessionQuery } from 'convex-helpers/react/sessions';
+import { ChevronLeft, ChevronRight, Loader2, MessageSquare, MonitorSmartphone } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { formatDuration } from '@/modules/presentation/presenter-view';
+import { SlideFragments } from '@/modules/presentation/slide-fragment';
+
+type _Replay = NonNullable<
+  FunctionReturnType<typeof api.presentationReplays.getPresentationReplay>
+>;
+
+// An event or discussion message in the timeline of a replay, in the order it happened
+type _TimelineEntry =
+  | ({ kind: 'event' } & _Replay['events'][number])
+  | ({ kind: 'message' } & _Replay['messages'][number]);
+
+interface ReplayViewProps {
+  presentationKey: string;
+  title?: string;
+  // The content of each slide, in order
+  slides: React.ReactNode[];
+  // The discussions embedded in the deck, whose messages are shown in the timeline
+  discussionKeys: string[];
+}
+
+/**
+ * Replays recorded sessions of a deck: steps through what the presenter showed, with the
+ * messages sent to the deck's discussions in between, and shows how long was spent on each
+ * slide. Only people who can present the deck can see its recordings.
+ */
+export function ReplayView({ presentationKey, title, slides, discussionKeys }: ReplayViewProps) {
+  const recordings = useSessionQuery(api.presentationReplays.listPresentationRecordings, {
+    key: presentationKey,
+  });
+  const [selectedStartedAt, setSelectedStartedAt] = useState<number | null>(null);
+  const startedAt = selectedStartedAt ?? recordings?.[0]?.startedAt;
+
+  const replay = useSessionQuery(
+    api.presentationReplays.getPresentationReplay,
+    startedAt !== undefined ? { key: presentationKey, startedAt, discussionKeys } : 'skip'
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col gap-4 bg-background p-4 text-foreground">
+      {/* Header - Title and recording picker */}
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-lg font-semibold truncate">
+          {title ? `${title} · Replay` : 'Presentation Replay'}
+        </h1>
+        {recordings && recordings.length > 0 && (
+          <Select
+            value={startedAt?.toString()}
+            onValueChange={(value) => setSelectedStartedAt(Number(value))}
+          >
+            <SelectTrigger className="w-64" aria-label="Recording">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {recordings.map((recording) => (
+                <SelectItem key={recording.startedAt} value={recording.startedAt.toString()}>
+                  {new Date(recording.startedAt).toLocaleString()}
+                  {recording.endedAt === null && ' (live)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </header>
+
+      {recordings === undefined || (startedAt !== undefined && replay === undefined) ? (
+        <div className="flex flex-1 items-center justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : recordings === null ? (
+        <p className="text-sm text-muted-foreground">
+          Only the owner, co-presenters or an admin can replay this deck.
+        </p>
+      ) : !replay ? (
+        <p className="text-sm text-muted-foreground">
+          No sessions have been recorded yet. Sessions are recorded whenever someone presents the
+          deck.
+        </p>
+      ) : (
+        <ReplayTimeline key={replay.recording.startedAt} replay={replay} slides={slides} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Steps through the timeline of a recording, showing the slide on screen at each step.
+ */
+function ReplayTimeline({ replay, slides }: { replay: _Replay; slides: React.ReactNode[] }) {
+  const entries = useMemo<_TimelineEntry[]>(
+    () =>
+      [
+        ...replay.events.map((event) => ({ kind: 'event' as const, ...event })),
+        ...replay.messages.map((message) => ({ kind: 'message' as const, ...message })),
+      ].sort((a, b) => a.timestamp - b.timestamp),
+    [replay]
+  );
+  const [selectedPosition, setPosition] = useState(0);
+  const lastPosition = Math.max(0, entries.length - 1);
+  const position = Math.min(selectedPosition, lastPosition);
+
+  // The slide and fragments on screen at the current position
+  let slide = replay.initialSlide;
+  let fragment = 0;
+  for (const entry of entries.slice(0, position + 1)) {
+    if (entry.kind === 'event' && entry.type === 'slide_changed' && entry.slide !== undefined) {
+      slide = entry.slide;
+      fragment = entry.fragment ?? 0;
+    }
+  }
+  const currentEntry = entries[position];
+  const startedAt = replay.recording.startedAt;
+
+  return (
+    <>
+      <div className="grid flex-1 gap-4 lg:grid-cols-3">
+        {/* Slide On Screen */}
+        <section className="flex flex-col gap-2 lg:col-span-2">
+          <h2 className="text-sm font-medium text-muted-foreground">
+            Slide {slide + 1} of {slides.length}
+            {currentEntry && ` · ${formatDuration(currentEntry.timestamp - startedAt)}`}
+          </h2>
+          <div
+            className="pointer-events-none flex flex-1 items-center justify-center overflow-auto rounded-lg border p-6"
+            aria-hidden="true"
+          >
+            <div className="w-full max-w-3xl">
+              <SlideFragments key={slide} revealedFragments={fragment}>
+                {slides[slide]}
+              </SlideFragments>
+            </div>
+          </div>
+          <div className="flex items-center justify-center gap-3">
+            <Button
+              variant="outline"
+              onClick={() => setPosition(position - 1)}
+              disabled={position <= 0}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" /> Previous
+            </Button>
+            <span className="min-w-16 text-center text-sm text-muted-foreground">
+              {position + 1} / {entries.length}
+            </span>
+            <Button onClick={() => setPosition(position + 1)} disabled={position >= lastPosition}>
+              Next <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </section>
+
+        {/* Timeline - Events and discussion messages, in the order they happened */}
+        <section className="flex flex-col gap-2">
+          <h2 className="text-sm font-medium text-muted-foreground">Timeline</h2>
+          <ol className="max-h-[60vh] flex-1 space-y-1 overflow-y-auto rounded-lg border p-2">
+            {entries.map((entry, index) => (
+              <li key={entry._id}>
+                <button
+                  type="button"
+                  className={cn(
+                    'flex w-full gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-muted',
+                    index === position && 'bg-muted font-medium',
+                    index > position && 'text-muted-foreground'
+                  )}
+                  onClick={() => setPosition(index)}
+                >
+                  <span className="w-12 flex-shrink-0 font-mono text-xs leading-5 text-muted-foreground">
+                    {formatDuration(entry.timestamp - startedAt)}
+                  </span>
+                  <TimelineEntryLabel entry={entry} />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+
+      <SlideDwellTimes dwellTimes={replay.dwellTimes} totalSlides={slides.length} />
+    </>
+  );
+}
+
+/**
+ * Describes an entry of the timeline.
+ */
+function TimelineEntryLabel({ entry }: { entry: _TimelineEntry }) {
+  if (entry.kind === 'message') {
+    return (
+      <span className="min-w-0">
+        <MessageSquare className="mr-1 inline h-3 w-3 text-muted-foreground" />
+        <span className="font-medium">{entry.name}</span> in {entry.discussionTitle}:{' '}
+        <span className="break-words">{entry.message}</span>
+      </span>
+    );
+  }
+
+  if (entry.type === 'slide_changed') {
+    return (
+      <span>
+        Slide {(entry.slide ?? 0) + 1}
+        {!!entry.fragment && (
+          <span className="text-muted-foreground"> · step {entry.fragment}</span>
+        )}
+      </span>
+    );
+  }
+
+  return (
+    <span>
+      <MonitorSmartphone className="mr-1 inline h-3 w-3 text-muted-foreground" />
+      {entry.type === 'presenting_started'
+        ? `${entry.presenterName ?? 'Someone'} started presenting`
+        : 'Presenting stopped'}
+    </span>
+  );
+}
+
+/**
+ * Time spent on each slide during the recording, as bars relative to the longest.
+ */
+function SlideDwellTimes({
+  dwellTimes,
+  totalSlides,
+}: {
+  dwellTimes: _Replay['dwellTimes'];
+  totalSlides: number;
+}) {
+  const longestMs = Math.max(1, ...dwellTimes.map((dwellTime) => dwellTime.totalMs));
+
+  return (
+    <section className="flex flex-col gap-2">
+      <h2 className="text-sm font-medium text-muted-foreground">Time per slide</h2>
+      <ul className="space-y-1 rounded-lg border p-4">
+        {dwellTimes
+          .filter((dwellTime) => dwellTime.slide < totalSlides)
+          .map((dwellTime) => (
+            <li key={dwellTime.slide} className="flex items-center gap-3 text-sm">
+              <span className="w-16 flex-shrink-0">Slide {dwellTime.slide + 1}</span>
+              <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full rounded-full bg-primary"
+                  style={{ width: `${(dwellTime.totalMs / longestMs) * 100}%` }}
+                />
+              </div>
+              <span className="w-14 flex-shrink-0 text-right font-mono text-xs">
+                {formatDuration(dwellTime.totalMs)}
+              </span>
+              {dwellTime.visitCount > 1 && (
+                <Badge variant="outline" className="px-1.5 py-0 text-[10px]">
+                  {dwellTime.visitCount} visits
+                </Badge>
+              )}
+            </li>
+          ))}
+      </ul>
+    </section>
+  );
+}
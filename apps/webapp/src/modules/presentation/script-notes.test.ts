@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseScriptNotes } from './script-notes';
+
+describe('parseScriptNotes', () => {
+  it('splits a script into notes for each slide', () => {
+    const script = [
+      '# Slide 1',
+      '### James 5:16',
+      'Therefore confess your sins to each other.',
+      '',
+      '# Slide 2',
+      '### What is Sin?',
+      '- Missing the mark',
+    ].join('\n');
+
+    expect(parseScriptNotes(script)).toEqual({
+      1: '### James 5:16\nTherefore confess your sins to each other.',
+      2: '### What is Sin?\n- Missing the mark',
+    });
+  });
+
+  it('ignores text before the first slide and slides without notes', () => {
+    const script = ['Introduction', '# Slide 1', '', '# slide 2', 'Reflection'].join('\r\n');
+
+    expect(parseScriptNotes(script)).toEqual({ 2: 'Reflection' });
+  });
+
+  it('joins notes for a slide that appears more than once', () => {
+    const script = ['# Slide 3', 'First part', '# Slide 3', 'Second part'].join('\n');
+
+    expect(parseScriptNotes(script)).toEqual({ 3: 'First part\n\nSecond part' });
+  });
+
+  it('keeps slide headings inside fenced code blocks as notes', () => {
+    const script = ['# Slide 1', 'quote: v36', '```', '# Slide 2', '```'].join('\n');
+
+    expect(parseScriptNotes(script)).toEqual({ 1: 'quote: v36\n```\n# Slide 2\n```' });
+  });
+});
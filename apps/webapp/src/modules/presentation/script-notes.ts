@@ -0,0 +1,69 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Speaker notes keyed by slide number, starting at 1.
+ */
+export type SpeakerNotes = Record<number, string>;
+
+/**
+ * Parses a presentation script into speaker notes. Scripts are Markdown files with a
+ * `# Slide N` heading before the notes for each slide.
+ * Headings inside fenced code blocks are treated as part of the notes.
+ */
+export function parseScriptNotes(script: string): SpeakerNotes {
+  const notes: SpeakerNotes = {};
+  let slideNumber: number | null = null;
+  let lines: string[] = [];
+  let isInFence = false;
+
+  const flush = () => {
+    if (slideNumber !== null) {
+      const text = lines.join('\n').trim();
+      if (text) {
+        notes[slideNumber] = notes[slideNumber] ? `${notes[slideNumber]}\n\n${text}` : text;
+      }
+    }
+    lines = [];
+  };
+
+  for (const line of script.split(/\r?\n/)) {
+    if (line.trimStart().startsWith('```')) {
+      isInFence = !isInFence;
+    }
+
+    const heading = isInFence ? null : /^#\s+Slide\s+(\d+)\s*$/i.exec(line);
+    if (heading) {
+      flush();
+      slideNumber = Number.parseInt(heading[1] ?? '', 10);
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return notes;
+}
+
+/**
+ * Loads the speaker notes of a deck from `data/presentations/<slug>/script.md` at the root of
+ * the repository. Only call this from server components, e.g. a deck's presenter page.
+ * @param slug - The deck's folder name, e.g. `20250425-confession`
+ * @returns The notes, or no notes if the deck has no script
+ */
+export async function loadScriptNotes(slug: string): Promise<SpeakerNotes> {
+  const scriptPath = path.join(
+    process.cwd(),
+    '..',
+    '..',
+    'data',
+    'presentations',
+    slug,
+    'script.md'
+  );
+  try {
+    return parseScriptNotes(await readFile(scriptPath, 'utf8'));
+  } catch {
+    return {};
+  }
+}
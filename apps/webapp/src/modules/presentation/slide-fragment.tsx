@@ -0,0 +1,124 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useMemo,
+  useState,
+} from 'react';
+
+import { cn } from '@/lib/utils';
+
+type SlideFragmentsContextType = {
+  // How many steps of the slide are revealed
+  revealedFragments: number;
+  // Show fragments that are not revealed yet faded, rather than hiding them
+  showHidden: boolean;
+  registerFragment: (id: string, step?: number) => () => void;
+  getFragmentStep: (id: string) => number | undefined;
+};
+
+const SlideFragmentsContext = createContext<SlideFragmentsContextType | null>(null);
+
+interface SlideFragmentsProps {
+  revealedFragments: number;
+  // Called with the number of steps on the slide whenever it changes
+  onFragmentCountChange?: (count: number) => void;
+  showHidden?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * Reveals the fragments inside it step by step. Provided by `Slide`, and by the presenter
+ * view for the current slide.
+ */
+export function SlideFragments({
+  revealedFragments,
+  onFragmentCountChange,
+  showHidden = false,
+  children,
+}: SlideFragmentsProps) {
+  const [fragments, setFragments] = useState<{ id: string; step?: number }[]>([]);
+
+  const registerFragment = useCallback((id: string, step?: number) => {
+    setFragments((current) => [...current, { id, step }]);
+    return () => setFragments((current) => current.filter((fragment) => fragment.id !== id));
+  }, []);
+
+  const steps = useMemo(() => _getFragmentSteps(fragments), [fragments]);
+  const fragmentCount = Math.max(0, ...steps.values());
+
+  useEffect(() => {
+    onFragmentCountChange?.(fragmentCount);
+  }, [fragmentCount, onFragmentCountChange]);
+
+  const getFragmentStep = useCallback((id: string) => steps.get(id), [steps]);
+
+  return (
+    <SlideFragmentsContext.Provider
+      value={{ revealedFragments, showHidden, registerFragment, getFragmentStep }}
+    >
+      {children}
+    </SlideFragmentsContext.Provider>
+  );
+}
+
+interface SlideFragmentProps {
+  children: React.ReactNode;
+  // Step on which to reveal this fragment, to reveal several fragments together or out of
+  // order; fragments without a step are revealed one by one in the order they appear
+  step?: number;
+  className?: string;
+}
+
+/**
+ * Part of a slide that is revealed step by step as the presenter advances, e.g.
+ * `<SlideFragment>Second point</SlideFragment>`. Fragments keep their space on the slide while
+ * hidden, so the rest of the slide does not move as they appear. Outside a slide, such as in
+ * a handout or a slide preview, fragments are always shown.
+ */
+export function SlideFragment({ children, step, className }: SlideFragmentProps) {
+  const context = useContext(SlideFragmentsContext);
+  const id = useId();
+  const registerFragment = context?.registerFragment;
+
+  // Register in a layout effect so that fragments are numbered in the order they appear
+  useLayoutEffect(() => registerFragment?.(id, step), [registerFragment, id, step]);
+
+  if (!context) {
+    return <div className={className}>{children}</div>;
+  }
+
+  const fragmentStep = context.getFragmentStep(id);
+  const isRevealed = fragmentStep !== undefined && fragmentStep <= context.revealedFragments;
+
+  return (
+    <div
+      className={cn(
+        isRevealed
+          ? 'animate-in fade-in slide-in-from-bottom-2 duration-300'
+          : context.showHidden
+            ? 'opacity-30'
+            : 'invisible',
+        className
+      )}
+      aria-hidden={!isRevealed && !context.showHidden}
+    >
+      {children}
+    </div>
+  );
+}
+
+// Number fragments without a step in the order they registered, alongside those with a step
+function _getFragmentSteps(fragments: { id: string; step?: number }[]): Map<string, number> {
+  const steps = new Map<string, number>();
+  let nextStep = 1;
+  for (const fragment of fragments) {
+    steps.set(fragment.id, fragment.step ?? nextStep++);
+  }
+  return steps;
+}
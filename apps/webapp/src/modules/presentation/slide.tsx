@@ -1,35 +1,62 @@
 'use client';
 
+import { useCallback } from 'react';
+
 import { usePresentationContext } from '../../modules/presentation/presentation-container';
 
 import { cn } from '@/lib/utils';
+import { SlideFragments } from '@/modules/presentation/slide-fragment';
+
+/**
+ * How a slide appears when it becomes the active slide.
+ */
+export type SlideTransition = 'fade' | 'slide' | 'zoom' | 'none';
+
+const TRANSITION_CLASSES: Record<SlideTransition, string> = {
+  fade: 'animate-in fade-in duration-500',
+  slide: 'animate-in fade-in slide-in-from-right-8 duration-500',
+  zoom: 'animate-in fade-in zoom-in-95 duration-500',
+  none: '',
+};
 
 interface SlideProps {
   index: number;
   children: React.ReactNode;
   className?: string;
+  transition?: SlideTransition;
 }
 
 /**
  * Slide component - Renders a single presentation slide
  * Only renders when it's the active slide (matching currentSlide)
  * Uses flex layout for proper content centering and responsive design
+ * Reveals the slide's fragments up to the current fragment
  */
-export function Slide({ index, children, className }: SlideProps) {
-  const { currentSlide } = usePresentationContext();
+export function Slide({ index, children, className, transition = 'fade' }: SlideProps) {
+  const { currentSlide, currentFragment, setFragmentCount } = usePresentationContext();
   const isActive = currentSlide === index;
 
+  const handleFragmentCountChange = useCallback(
+    (count: number) => setFragmentCount(index, count),
+    [index, setFragmentCount]
+  );
+
   if (!isActive) return null;
 
   return (
     <div
       className={cn(
         'flex h-full flex-col items-center justify-center p-2 lg:p-8',
-        'animate-in fade-in duration-500',
+        TRANSITION_CLASSES[transition],
         className
       )}
     >
-      {children}
+      <SlideFragments
+        revealedFragments={currentFragment}
+        onFragmentCountChange={handleFragmentCountChange}
+      >
+        {children}
+      </SlideFragments>
     </div>
   );
 }
@@ -0,0 +1,73 @@
+import { api } from '@workspace/backend/convex/_generated/api';
+import { VIEWER_HEARTBEAT_INTERVAL_MS } from '@workspace/backend/modules/presentation/presence';
+import { useSessionMutation } from 'convex-helpers/react/sessions';
+import { useEffect, useRef } from 'react';
+
+/**
+ * Shows the current session in the live audience of a presentation while the deck is open,
+ * keeping the slide it is on and whether it follows the presenter up to date.
+ */
+export function usePresentationPresence({
+  key,
+  currentSlide,
+  isSoloMode,
+}: {
+  key: string;
+  currentSlide: number;
+  isSoloMode: boolean;
+}) {
+  const joinPresentation = useSessionMutation(api.presentationPresence.joinPresentation);
+  const presenceHeartbeat = useSessionMutation(api.presentationPresence.presenceHeartbeat);
+  const leavePresentation = useSessionMutation(api.presentationPresence.leavePresentation);
+
+  // Keep the latest position for the join and heartbeat callbacks without restarting them
+  const positionRef = useRef({ currentSlide, isSoloMode });
+  positionRef.current = { currentSlide, isSoloMode };
+
+  // Join when the deck opens, and leave when it closes or the tab is closed
+  useEffect(() => {
+    if (!key) return;
+
+    const leave = () => {
+      leavePresentation({ key }).catch((error) => {
+        console.error('Failed to leave presentation:', error);
+      });
+    };
+
+    joinPresentation({ key, ...positionRef.current }).catch((error) => {
+      console.error('Failed to join presentation:', error);
+    });
+    window.addEventListener('pagehide', leave);
+    return () => {
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, [key, joinPresentation, leavePresentation]);
+
+  // Send a heartbeat periodically, so that viewers who go away without leaving drop out
+  useEffect(() => {
+    if (!key) return;
+
+    const interval = setInterval(() => {
+      presenceHeartbeat({ key, ...positionRef.current }).catch((error) => {
+        console.error('Failed to send presence heartbeat:', error);
+      });
+    }, VIEWER_HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [key, presenceHeartbeat]);
+
+  // Share slide changes and switches between following and solo mode right away
+  const isFirstPositionRef = useRef(true);
+  useEffect(() => {
+    if (!key) return;
+
+    // The position at mount is sent when joining
+    if (isFirstPositionRef.current) {
+      isFirstPositionRef.current = false;
+      return;
+    }
+    presenceHeartbeat({ key, currentSlide, isSoloMode }).catch((error) => {
+      console.error('Failed to update presence:', error);
+    });
+  }, [key, currentSlide, isSoloMode, presenceHeartbeat]);
+}
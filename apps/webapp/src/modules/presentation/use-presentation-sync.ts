@@ -1,18 +1,28 @@
 import { api } from '@workspace/backend/convex/_generated/api';
+import { PRESENTER_HEARTBEAT_INTERVAL_MS } from '@workspace/backend/modules/presentation/heartbeat';
 import { useSessionMutation, useSessionQuery } from 'convex-helpers/react/sessions';
 import { useSearchParams } from 'next/navigation';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 
+import { usePresentationPresence } from './use-presentation-presence';
+
 // Define the presentation state type to include activePresentation
 type PresentationState = {
   key: string;
   currentSlide: number;
+  currentFragment: number;
   lastUpdated: number;
   exists: boolean;
   activePresentation?: {
-    presenterId: string;
+    isPresenter: boolean;
   };
+  presenterDisconnectedAt?: number;
+  controlRequest: {
+    name: string;
+    requestedAt: number;
+    isOwnRequest: boolean;
+  } | null;
   _id?: unknown;
   _creationTime?: number;
 };
@@ -29,6 +39,12 @@ export function usePresentationSync({
   // Internal state for current slide (this is the source of truth)
   const [currentSlide, setCurrentSlideInternal] = useState(initialSlide);
 
+  // Fragments revealed on the current slide
+  const [currentFragment, setCurrentFragment] = useState(0);
+
+  // Number of fragments on each slide that has been shown, reported by the slides themselves
+  const [fragmentCounts, setFragmentCounts] = useState<Record<number, number>>({});
+
   // Track the timestamp of the last local slide change
   const [lastChangeTimestamp, setLastChangeTimestamp] = useState<number>(Date.now());
 
@@ -41,6 +57,9 @@ export function usePresentationSync({
   // Track previous presentation state to detect changes
   const prevPresentationActiveRef = useRef<boolean | null>(null);
 
+  // Track if the presentation being followed ended because the presenter disconnected
+  const [isPresenterDisconnected, setIsPresenterDisconnected] = useState(false);
+
   // Get URL parameters to check sync status
   const searchParams = useSearchParams();
   const slideParam = searchParams.get('slide');
@@ -83,13 +102,25 @@ export function usePresentationSync({
   const updateSlide = useSessionMutation(api.presentations.setCurrentSlide);
   const startPresentingMutation = useSessionMutation(api.presentations.startPresenting);
   const stopPresentingMutation = useSessionMutation(api.presentations.stopPresenting);
+  const requestControlMutation = useSessionMutation(api.presentations.requestControl);
+  const cancelControlRequestMutation = useSessionMutation(api.presentations.cancelControlRequest);
+  const respondToControlRequestMutation = useSessionMutation(
+    api.presentations.respondToControlRequest
+  );
+  const presenterHeartbeatMutation = useSessionMutation(api.presentations.presenterHeartbeat);
+
+  // Who may present this deck, and who may change that
+  const presentationAccess = useSessionQuery(
+    api.presentations.getPresentationAccess,
+    isSyncEnabled ? { key } : 'skip'
+  );
 
   // Get session ID from auth state
   const authState = useSessionQuery(api.auth.getState);
   const sessionId = authState?.sessionId || '';
 
   // Determine if there's an active presentation and if we're the presenter
-  const isPresenter = presentationState?.activePresentation?.presenterId === sessionId;
+  const isPresenter = !!presentationState?.activePresentation?.isPresenter;
   const isPresentationActive = !!presentationState?.activePresentation;
 
   // Derive solo mode:
@@ -101,6 +132,9 @@ export function usePresentationSync({
   // User is following if there's an active presentation, they're not the presenter, and not in solo mode
   const isFollowing = isPresentationActive && !isPresenter && !isSoloMode;
 
+  // Show this session in the live audience of the presentation
+  usePresentationPresence({ key, currentSlide, isSoloMode });
+
   // Initialize the previous presentation state ref
   useEffect(() => {
     if (presentationState && prevPresentationActiveRef.current === null) {
@@ -110,7 +144,7 @@ export function usePresentationSync({
 
   // Sync to backend
   const syncToBackend = useCallback(
-    (slideNumber: number, timestamp: number) => {
+    (slideNumber: number, fragment: number, timestamp: number) => {
       if (!key) return;
 
       // Only sync to backend if user is presenter or there's no active presentation
@@ -118,6 +152,7 @@ export function usePresentationSync({
         updateSlide({
           key,
           slide: slideNumber - 1,
+          fragment,
           timestamp,
         });
       }
@@ -125,11 +160,17 @@ export function usePresentationSync({
     [key, updateSlide, isPresenter, isPresentationActive]
   );
 
-  // Set the slide with side effects (URL update, backend sync)
+  // Set the slide, and the fragments revealed on it, with side effects (URL update, backend sync)
   const setCurrentSlide = useCallback(
     (
       slideNumber: number,
-      { fromBackend = false, updateUrl = true, updateBackend = true, timestamp = Date.now() } = {}
+      {
+        fragment = 0,
+        fromBackend = false,
+        updateUrl = true,
+        updateBackend = true,
+        timestamp = Date.now(),
+      } = {}
     ) => {
       try {
         updatingRef.current = true;
@@ -144,6 +185,7 @@ export function usePresentationSync({
 
         // Update internal state
         setCurrentSlideInternal(validSlide);
+        setCurrentFragment(fragment);
 
         // Update URL if needed
         if (updateUrl) {
@@ -152,7 +194,7 @@ export function usePresentationSync({
 
         // Update backend if needed and not originated from backend
         if (updateBackend && !fromBackend) {
-          syncToBackend(validSlide, timestamp);
+          syncToBackend(validSlide, fragment, timestamp);
         }
       } finally {
         // Use a small timeout to ensure state updates complete
@@ -165,9 +207,18 @@ export function usePresentationSync({
     [totalSlides, updateUrlWithSlide, syncToBackend]
   );
 
-  // Navigation methods
+  // Record how many fragments a slide has, so that navigating reveals them before moving on
+  const setFragmentCount = useCallback((slideNumber: number, count: number) => {
+    setFragmentCounts((current) =>
+      current[slideNumber] === count ? current : { ...current, [slideNumber]: count }
+    );
+  }, []);
+
+  // Navigation methods. Next and previous step through the fragments of the current slide
+  // before moving to another slide, which is shown with all its fragments when going back.
   const nextSlide = useCallback(() => {
-    if (currentSlide < totalSlides) {
+    const hasNextFragment = currentFragment < (fragmentCounts[currentSlide] ?? 0);
+    if (hasNextFragment || currentSlide < totalSlides) {
       const now = Date.now();
 
       // If we're a viewer and not explicitly in solo mode, set explicit solo mode when navigating
@@ -175,10 +226,16 @@ export function usePresentationSync({
         setExplicitSoloMode(true);
       }
 
-      setCurrentSlide(currentSlide + 1, { timestamp: now });
+      if (hasNextFragment) {
+        setCurrentSlide(currentSlide, { fragment: currentFragment + 1, timestamp: now });
+      } else {
+        setCurrentSlide(currentSlide + 1, { timestamp: now });
+      }
     }
   }, [
     currentSlide,
+    currentFragment,
+    fragmentCounts,
     totalSlides,
     setCurrentSlide,
     isPresentationActive,
@@ -187,7 +244,7 @@ export function usePresentationSync({
   ]);
 
   const previousSlide = useCallback(() => {
-    if (currentSlide > 1) {
+    if (currentFragment > 0 || currentSlide > 1) {
       const now = Date.now();
 
       // If we're a viewer and not explicitly in solo mode, set explicit solo mode when navigating
@@ -195,9 +252,24 @@ export function usePresentationSync({
         setExplicitSoloMode(true);
       }
 
-      setCurrentSlide(currentSlide - 1, { timestamp: now });
+      if (currentFragment > 0) {
+        setCurrentSlide(currentSlide, { fragment: currentFragment - 1, timestamp: now });
+      } else {
+        setCurrentSlide(currentSlide - 1, {
+          fragment: fragmentCounts[currentSlide - 1] ?? 0,
+          timestamp: now,
+        });
+      }
     }
-  }, [currentSlide, setCurrentSlide, isPresentationActive, isPresenter, explicitSoloMode]);
+  }, [
+    currentSlide,
+    currentFragment,
+    fragmentCounts,
+    setCurrentSlide,
+    isPresentationActive,
+    isPresenter,
+    explicitSoloMode,
+  ]);
 
   const goToSlide = useCallback(
     (index: number) => {
@@ -222,6 +294,7 @@ export function usePresentationSync({
     if (!presentationState || updatingRef.current || isSoloMode) return;
 
     const backendSlide = presentationState.currentSlide + 1; // Convert from 0-based to 1-based
+    const backendFragment = presentationState.currentFragment;
 
     // Check if lastUpdated exists (type guard for presentationState)
     if (!('lastUpdated' in presentationState)) return;
@@ -230,15 +303,26 @@ export function usePresentationSync({
 
     // Only update if the backend change is newer than our last local change
     // This is the key part: latest timestamp wins
-    if (backendSlide !== currentSlide && backendTimestamp > lastChangeTimestamp) {
+    if (
+      (backendSlide !== currentSlide || backendFragment !== currentFragment) &&
+      backendTimestamp > lastChangeTimestamp
+    ) {
       // Only update URL and internal state, not the backend again
       setCurrentSlide(backendSlide, {
+        fragment: backendFragment,
         fromBackend: true,
         updateBackend: false,
         timestamp: backendTimestamp,
       });
     }
-  }, [presentationState, currentSlide, setCurrentSlide, lastChangeTimestamp, isSoloMode]);
+  }, [
+    presentationState,
+    currentSlide,
+    currentFragment,
+    setCurrentSlide,
+    lastChangeTimestamp,
+    isSoloMode,
+  ]);
 
   // Detect when a presentation has ended and notify viewers
   useEffect(() => {
@@ -253,8 +337,11 @@ export function usePresentationSync({
         // When a presentation ends, reset explicit solo mode
         setExplicitSoloMode(false);
 
-        // Notify viewers (but not the presenter who ended it)
-        if (!isPresenter) {
+        // Notify viewers (but not the presenter who ended it). Presentations released because
+        // the presenter stopped sending heartbeats are shown as a banner instead.
+        if (presentationState.presenterDisconnectedAt) {
+          setIsPresenterDisconnected(true);
+        } else if (!isPresenter) {
           toast.info('Presentation ended', {
             description: 'The presenter has ended the presentation.',
             duration: 5000,
@@ -262,11 +349,32 @@ export function usePresentationSync({
         }
       }
 
+      // Whoever presents next replaces the disconnected presenter
+      if (isActive) {
+        setIsPresenterDisconnected(false);
+      }
+
       // Update previous state
       prevPresentationActiveRef.current = isActive;
     }
   }, [presentationState, isPresenter]);
 
+  // Let the backend know the presenter is still connected, so that the presentation is only
+  // released when their browser goes away
+  useEffect(() => {
+    if (!key || !isPresenter) return;
+
+    const sendHeartbeat = () => {
+      presenterHeartbeatMutation({ key }).catch((error) => {
+        console.error('Failed to send presenter heartbeat:', error);
+      });
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, PRESENTER_HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [key, isPresenter, presenterHeartbeatMutation]);
+
   // Function to start presenting
   const startPresenting = useCallback(async () => {
     if (!key) return;
@@ -274,9 +382,16 @@ export function usePresentationSync({
     // Reset explicit solo mode when starting to present
     setExplicitSoloMode(false);
 
-    await startPresentingMutation({
-      key,
-    });
+    try {
+      await startPresentingMutation({
+        key,
+      });
+    } catch (error) {
+      console.error('Failed to start presenting:', error);
+      toast.error('Could not start presenting', {
+        description: 'Only the owner, co-presenters or an admin can present this deck.',
+      });
+    }
   }, [key, startPresentingMutation]);
 
   // Function to stop presenting
@@ -288,6 +403,48 @@ export function usePresentationSync({
     });
   }, [key, stopPresentingMutation]);
 
+  // Function to ask the presenter to hand over control
+  const requestControl = useCallback(async () => {
+    if (!key) return;
+
+    try {
+      await requestControlMutation({ key });
+      toast.info('Request sent', {
+        description: 'The presenter has been asked to hand over control.',
+      });
+    } catch (error) {
+      console.error('Failed to request control:', error);
+      toast.error('Could not request control');
+    }
+  }, [key, requestControlMutation]);
+
+  // Function to withdraw a pending request for control
+  const cancelControlRequest = useCallback(async () => {
+    if (!key) return;
+
+    await cancelControlRequestMutation({ key });
+  }, [key, cancelControlRequestMutation]);
+
+  // Function for the presenter to grant or decline a request for control
+  const respondToControlRequest = useCallback(
+    async (grant: boolean) => {
+      if (!key) return;
+
+      try {
+        await respondToControlRequestMutation({ key, grant });
+      } catch (error) {
+        console.error('Failed to respond to control request:', error);
+        toast.error('Could not respond to the request');
+      }
+    },
+    [key, respondToControlRequestMutation]
+  );
+
+  // Function to hide the banner shown when the presenter disconnected
+  const dismissPresenterDisconnected = useCallback(() => {
+    setIsPresenterDisconnected(false);
+  }, []);
+
   // Function to follow presenter
   const followPresenter = useCallback(() => {
     // Only allow following if there's an active presentation
@@ -298,6 +455,9 @@ export function usePresentationSync({
 
   return {
     currentSlide,
+    currentFragment,
+    fragmentCount: fragmentCounts[currentSlide] ?? 0,
+    setFragmentCount,
     setCurrentSlide,
     nextSlide,
     previousSlide,
@@ -311,5 +471,13 @@ export function usePresentationSync({
     startPresenting,
     stopPresenting,
     followPresenter,
+    canPresent: presentationAccess?.canPresent ?? false,
+    canTakeOver: presentationAccess?.canTakeOver ?? false,
+    controlRequest: presentationState?.controlRequest ?? null,
+    requestControl,
+    cancelControlRequest,
+    respondToControlRequest,
+    isPresenterDisconnected,
+    dismissPresenterDisconnected,
   };
 }
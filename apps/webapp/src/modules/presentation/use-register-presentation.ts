@@ -0,0 +1,29 @@
+import { api } from '@workspace/backend/convex/_generated/api';
+import type { PresentationRegistration } from '@workspace/backend/modules/presentation/registry';
+import { useSessionMutation } from 'convex-helpers/react/sessions';
+import { usePathname } from 'next/navigation';
+import { useEffect } from 'react';
+
+/**
+ * Registers a deck's metadata in the presentations registry when the deck is opened,
+ * so that the presentations index lists it without being edited by hand.
+ * The deck's current path is registered as the link shown on the index.
+ */
+export function useRegisterPresentation(
+  registration: Omit<PresentationRegistration, 'path'> | null
+) {
+  const registerPresentation = useSessionMutation(api.presentations.registerPresentation);
+  const pathname = usePathname();
+
+  // Register again only when the metadata itself changes, not on every render
+  const serializedRegistration = registration ? JSON.stringify(registration) : null;
+
+  useEffect(() => {
+    if (!serializedRegistration) return;
+
+    const details = JSON.parse(serializedRegistration) as Omit<PresentationRegistration, 'path'>;
+    registerPresentation({ ...details, path: pathname }).catch((error) => {
+      console.error('Failed to register presentation:', error);
+    });
+  }, [registerPresentation, serializedRegistration, pathname]);
+}
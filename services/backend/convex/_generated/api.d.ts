@@ -10,13 +10,25 @@
 
 import type * as appinfo from "../appinfo.js";
 import type * as attendance from "../attendance.js";
+import type * as attendanceAudit from "../attendanceAudit.js";
+import type * as attendanceCheckIn from "../attendanceCheckIn.js";
+import type * as attendanceEvents from "../attendanceEvents.js";
+import type * as attendanceGroups from "../attendanceGroups.js";
+import type * as attendanceHistory from "../attendanceHistory.js";
+import type * as attendanceReminders from "../attendanceReminders.js";
+import type * as attendanceTransfer from "../attendanceTransfer.js";
 import type * as auth from "../auth.js";
 import type * as auth_google from "../auth/google.js";
 import type * as checklists from "../checklists.js";
 import type * as cleanupTasks from "../cleanupTasks.js";
 import type * as crypto from "../crypto.js";
 import type * as discussions from "../discussions.js";
+import type * as handouts from "../handouts.js";
 import type * as migration from "../migration.js";
+import type * as polls from "../polls.js";
+import type * as presentationPresence from "../presentationPresence.js";
+import type * as presentationReactions from "../presentationReactions.js";
+import type * as presentationReplays from "../presentationReplays.js";
 import type * as presentations from "../presentations.js";
 import type * as serviceDesk from "../serviceDesk.js";
 import type * as system_auth_google from "../system/auth/google.js";
@@ -30,13 +42,25 @@ import type {
 declare const fullApi: ApiFromModules<{
   appinfo: typeof appinfo;
   attendance: typeof attendance;
+  attendanceAudit: typeof attendanceAudit;
+  attendanceCheckIn: typeof attendanceCheckIn;
+  attendanceEvents: typeof attendanceEvents;
+  attendanceGroups: typeof attendanceGroups;
+  attendanceHistory: typeof attendanceHistory;
+  attendanceReminders: typeof attendanceReminders;
+  attendanceTransfer: typeof attendanceTransfer;
   auth: typeof auth;
   "auth/google": typeof auth_google;
   checklists: typeof checklists;
   cleanupTasks: typeof cleanupTasks;
   crypto: typeof crypto;
   discussions: typeof discussions;
+  handouts: typeof handouts;
   migration: typeof migration;
+  polls: typeof polls;
+  presentationPresence: typeof presentationPresence;
+  presentationReactions: typeof presentationReactions;
+  presentationReplays: typeof presentationReplays;
   presentations: typeof presentations;
   serviceDesk: typeof serviceDesk;
   "system/auth/google": typeof system_auth_google;
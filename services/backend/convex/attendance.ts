@@ -1,8 +1,16 @@
 import { ConvexError, v } from 'convex/values';
-import { SessionIdArg } from 'convex-helpers/server/sessions';
+import { type SessionId, SessionIdArg } from 'convex-helpers/server/sessions';
 
-import type { Id } from './_generated/dataModel';
-import { mutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { mutation, type QueryCtx, query } from './_generated/server';
+import {
+  canOverrideAttendanceRecords,
+  getManageableAttendanceEvent,
+  isAttendanceRecordOwner,
+  isHostOwnedAttendanceRecord,
+} from '../modules/attendance/accessControl';
+import { logAttendanceChange } from '../modules/attendance/auditLog';
+import { MAX_ATTENDANCE_GUESTS, normalizeAttendanceGuests } from '../modules/attendance/guests';
 import { getAuthUserOptional } from '../modules/auth/getAuthUser';
 
 // Hardcoded attendance key
@@ -13,11 +21,12 @@ export const recordAttendance = mutation({
   args: {
     attendanceKey: v.optional(v.string()),
     name: v.string(),
-    status: v.union(v.literal('attending'), v.literal('not_attending')),
+    status: v.union(v.literal('attending'), v.literal('not_attending'), v.literal('maybe')),
     reason: v.optional(v.string()),
     remarks: v.optional(v.string()),
     self: v.optional(v.boolean()),
     isManuallyJoined: v.boolean(),
+    guests: v.optional(v.array(v.object({ name: v.optional(v.string()) }))),
     ...SessionIdArg,
   },
   handler: async (ctx, args) => {
@@ -27,6 +36,15 @@ export const recordAttendance = mutation({
     const self = args.self ?? false;
     const isManuallyJoined = args.isManuallyJoined;
 
+    // Archived events no longer accept responses
+    const event = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', attendanceKey))
+      .first();
+    if (event?.isArchived) {
+      throw new ConvexError('This attendance event has been archived');
+    }
+
     // For authenticated users
     const user = await getAuthUserOptional(ctx, args);
     if (user && self) {
@@ -38,6 +56,29 @@ export const recordAttendance = mutation({
       throw new ConvexError('Name is required for anonymous attendance');
     }
 
+    // Guests respond together with the respondent, so they are dropped when not attending
+    const guests = args.guests ?? [];
+    if (guests.length > MAX_ATTENDANCE_GUESTS) {
+      throw new ConvexError(`A response can include at most ${MAX_ATTENDANCE_GUESTS} guests`);
+    }
+
+    // Records of the same name can only be replaced by their owner, or by a host or admin
+    const actor = { user, sessionId: args.sessionId };
+    const canOverride = canOverrideAttendanceRecords(user, event);
+    const nameRecords = await ctx.db
+      .query('attendanceRecords')
+      .withIndex('by_name_attendance', (q) => q.eq('attendanceKey', attendanceKey).eq('name', name))
+      .collect();
+    const isOverride = nameRecords.some((record) => !isAttendanceRecordOwner(record, actor));
+    if (isOverride && !canOverride) {
+      throw new ConvexError(
+        `${name} has already responded. Only they or the host can change their response.`
+      );
+    }
+
+    // Keep the check-in time and host mark of people whose response is being replaced
+    const replacedRecords: Doc<'attendanceRecords'>[] = [];
+
     // delete any records already associated with this user
     if (attendanceUserId) {
       // if the user is registering
@@ -47,31 +88,127 @@ export const recordAttendance = mutation({
           q.eq('attendanceKey', attendanceKey).eq('userId', attendanceUserId)
         )
         .collect();
-      //delete all existing records
-      await Promise.all(
-        existingRecords.map((record) => ctx.db.delete('attendanceRecords', record._id))
-      );
+      replacedRecords.push(...existingRecords);
     }
 
     // delete any records with the same name
-    const existingRecords = await ctx.db
-      .query('attendanceRecords')
-      .withIndex('by_name_attendance', (q) => q.eq('attendanceKey', attendanceKey).eq('name', name))
-      .collect();
+    replacedRecords.push(...nameRecords);
+    const replacedRecordIds = new Set(replacedRecords.map((record) => record._id));
     await Promise.all(
-      existingRecords.map((record) => ctx.db.delete('attendanceRecords', record._id))
+      Array.from(replacedRecordIds).map((recordId) => ctx.db.delete('attendanceRecords', recordId))
     );
-    // Create a new record
-    return ctx.db.insert('attendanceRecords', {
+
+    const previousRecord = nameRecords[0] ?? replacedRecords[0];
+    const checkedInAt = replacedRecords.find((record) => record.checkedInAt)?.checkedInAt;
+    const markedRecord = replacedRecords.find((record) => record.attendanceMark);
+    const status = args.status;
+    const recordId = await ctx.db.insert('attendanceRecords', {
       attendanceKey,
       userId: attendanceUserId,
       name,
       timestamp: Date.now(),
-      status: args.status,
-      reason: args.status === 'not_attending' ? args.reason : undefined,
-      remarks: args.status === 'attending' ? args.remarks : undefined,
+      status,
+      reason: status === 'not_attending' ? args.reason : undefined,
+      remarks: status !== 'not_attending' ? args.remarks : undefined,
       isManuallyJoined,
+      guests:
+        status !== 'not_attending' && guests.length > 0
+          ? normalizeAttendanceGuests(guests)
+          : undefined,
+      checkedInAt: status === 'attending' ? checkedInAt : undefined,
+      attendanceMark: markedRecord?.attendanceMark,
+      markedBy: markedRecord?.markedBy,
+      markedAt: markedRecord?.markedAt,
+      // Responses changed by a host stay with the session that originally gave them
+      ownerSessionId: isOverride ? previousRecord?.ownerSessionId : args.sessionId,
+    });
+
+    await logAttendanceChange(ctx, {
+      action: previousRecord ? 'updated' : 'created',
+      attendanceKey,
+      recordId,
+      name,
+      actor,
+      isOverride,
+      before: previousRecord,
+      after: { status, attendanceMark: markedRecord?.attendanceMark },
     });
+    return recordId;
+  },
+});
+
+// Set or clear the actual attendance of a person at an event (hosts only)
+export const markAttendance = mutation({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    name: v.string(),
+    mark: v.union(v.literal('present'), v.literal('absent'), v.literal('late'), v.null()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const event = await getManageableAttendanceEvent(ctx, args);
+    const user = await getAuthUserOptional(ctx, args);
+    const name = args.name.trim();
+    if (!name) {
+      throw new ConvexError('Name is required');
+    }
+
+    const mark = args.mark
+      ? { attendanceMark: args.mark, markedBy: user?._id, markedAt: Date.now() }
+      : { attendanceMark: undefined, markedBy: undefined, markedAt: undefined };
+
+    const existingRecord = await ctx.db
+      .query('attendanceRecords')
+      .withIndex('by_name_attendance', (q) =>
+        q.eq('attendanceKey', event.attendanceKey).eq('name', name)
+      )
+      .first();
+    const actor = { user, sessionId: args.sessionId };
+    if (existingRecord) {
+      await ctx.db.patch('attendanceRecords', existingRecord._id, mark);
+      await logAttendanceChange(ctx, {
+        action: 'marked',
+        attendanceKey: event.attendanceKey,
+        recordId: existingRecord._id,
+        name,
+        actor,
+        isOverride: !isAttendanceRecordOwner(existingRecord, actor),
+        before: existingRecord,
+        after: { status: existingRecord.status, attendanceMark: mark.attendanceMark },
+      });
+      return existingRecord._id;
+    }
+    if (!args.mark) {
+      return null;
+    }
+
+    // People who never responded get a record with a mark but no RSVP
+    const groupId = event.groupId;
+    const rosterMember = groupId
+      ? await ctx.db
+          .query('attendanceGroupMembers')
+          .withIndex('by_group_name', (q) => q.eq('groupId', groupId).eq('name', name))
+          .first()
+      : null;
+    // The record is left without an owner so that the person can still give their own RSVP
+    const recordId = await ctx.db.insert('attendanceRecords', {
+      attendanceKey: event.attendanceKey,
+      userId: rosterMember?.userId,
+      name,
+      timestamp: Date.now(),
+      isManuallyJoined: !rosterMember?.isActive,
+      ...mark,
+    });
+    await logAttendanceChange(ctx, {
+      action: 'marked',
+      attendanceKey: event.attendanceKey,
+      recordId,
+      name,
+      actor,
+      isOverride: false,
+      after: { attendanceMark: mark.attendanceMark },
+    });
+    return recordId;
   },
 });
 
@@ -88,18 +225,33 @@ export const deleteAttendanceRecord = mutation({
       throw new ConvexError('Attendance record not found');
     }
 
-    // Check if the user is authorized to delete this record
+    // Only the owner of the record, or a host or admin, can delete it; records carrying a host's
+    // mark without an owner can only be deleted by a host or admin
     const user = await getAuthUserOptional(ctx, args);
-
-    // Only allow deletion if:
-    // 1. The user is the owner of the record (their userId matches)
-    // 2. The record doesn't have a userId (anonymous entry)
-    if (record.userId && (!user || record.userId !== user._id)) {
-      throw new ConvexError('Not authorized to delete this attendance record');
+    const actor = { user, sessionId: args.sessionId };
+    const isOverride =
+      isHostOwnedAttendanceRecord(record) || !isAttendanceRecordOwner(record, actor);
+    if (isOverride) {
+      const event = await ctx.db
+        .query('attendanceEvents')
+        .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', record.attendanceKey))
+        .first();
+      if (!canOverrideAttendanceRecords(user, event)) {
+        throw new ConvexError('Not authorized to delete this attendance record');
+      }
     }
 
     // Delete the record
     await ctx.db.delete('attendanceRecords', args.recordId);
+    await logAttendanceChange(ctx, {
+      action: 'deleted',
+      attendanceKey: record.attendanceKey,
+      recordId: record._id,
+      name: record.name,
+      actor,
+      isOverride,
+      before: record,
+    });
     return { success: true };
   },
 });
@@ -111,25 +263,140 @@ export const getAttendanceData = query({
     ...SessionIdArg,
   },
   handler: async (ctx, args) => {
-    // Get all attendance records for this key
-    const records = await ctx.db
-      .query('attendanceRecords')
-      .withIndex('by_attendance', (q) => q.eq('attendanceKey', args.attendanceKey))
-      .collect();
+    // Attendance keys described by an event use the roster of the event's group
+    const event = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', args.attendanceKey))
+      .first();
 
-    // Get current user's response if authenticated
-    const user = await getAuthUserOptional(ctx, args);
-    const currentUserResponse = user
-      ? await ctx.db
-          .query('attendanceRecords')
-          .withIndex('by_user_attendance', (q) =>
-            q.eq('attendanceKey', args.attendanceKey).eq('userId', user._id)
-          )
-          .first()
-      : null;
+    return await _getAttendanceRecordsData(ctx, {
+      attendanceKey: args.attendanceKey,
+      event,
+      sessionId: args.sessionId,
+    });
+  },
+});
+
+// Get attendance data for an attendance event, including the event metadata
+export const getAttendanceEventData = query({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get('attendanceEvents', args.eventId);
+    if (!event) {
+      return null;
+    }
+
+    const data = await _getAttendanceRecordsData(ctx, {
+      attendanceKey: event.attendanceKey,
+      event,
+      sessionId: args.sessionId,
+    });
     return {
-      records,
-      currentUserResponse,
+      event,
+      ...data,
     };
   },
 });
+
+// Internal helper functions
+/**
+ * Loads all records for an attendance key along with the current user's response and
+ * the IDs of the records the current user may change.
+ * When the event has a group, the active roster is split into pending and responded members.
+ * The sessions that own records are never returned to clients.
+ */
+async function _getAttendanceRecordsData(
+  ctx: QueryCtx,
+  args: { attendanceKey: string; event: Doc<'attendanceEvents'> | null; sessionId: SessionId }
+) {
+  // Get all attendance records for this key
+  const records = await ctx.db
+    .query('attendanceRecords')
+    .withIndex('by_attendance', (q) => q.eq('attendanceKey', args.attendanceKey))
+    .collect();
+
+  // Get current user's response if authenticated
+  const user = await getAuthUserOptional(ctx, args);
+  const currentUserResponse = user
+    ? await ctx.db
+        .query('attendanceRecords')
+        .withIndex('by_user_attendance', (q) =>
+          q.eq('attendanceKey', args.attendanceKey).eq('userId', user._id)
+        )
+        .first()
+    : null;
+
+  const actor = { user, sessionId: args.sessionId };
+  const canOverride = canOverrideAttendanceRecords(user, args.event);
+  const editableRecordIds = records
+    .filter(
+      (record) =>
+        canOverride ||
+        (!isHostOwnedAttendanceRecord(record) && isAttendanceRecordOwner(record, actor))
+    )
+    .map((record) => record._id);
+
+  const groupId = args.event?.groupId;
+  const roster = groupId ? await _getRosterStatus(ctx, groupId, records) : null;
+
+  return {
+    records: records.map(_withoutOwnerSession),
+    currentUserResponse: currentUserResponse ? _withoutOwnerSession(currentUserResponse) : null,
+    editableRecordIds,
+    roster,
+  };
+}
+
+/**
+ * Removes the owning session from a record before it is returned to clients.
+ */
+function _withoutOwnerSession(record: Doc<'attendanceRecords'>) {
+  const { ownerSessionId: _ownerSessionId, ...rest } = record;
+  return rest;
+}
+
+/**
+ * Splits the active roster of a group into members who have and have not responded.
+ * A member has responded if a record matches their name or their linked user account,
+ * or if someone else listed them as a guest.
+ */
+async function _getRosterStatus(
+  ctx: QueryCtx,
+  groupId: Id<'attendanceGroups'>,
+  records: Doc<'attendanceRecords'>[]
+) {
+  const members = await ctx.db
+    .query('attendanceGroupMembers')
+    .withIndex('by_group', (q) => q.eq('groupId', groupId))
+    .collect();
+  const activeMembers = members
+    .filter((member) => member.isActive)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const respondedNames = new Set<string>();
+  const respondedUserIds = new Set<Id<'users'>>();
+  for (const record of records) {
+    if (!record.status) continue;
+    if (record.name) respondedNames.add(record.name);
+    for (const guest of record.guests ?? []) {
+      if (guest.name) respondedNames.add(guest.name);
+    }
+    if (record.userId) respondedUserIds.add(record.userId);
+  }
+
+  const hasResponded = (member: Doc<'attendanceGroupMembers'>) =>
+    respondedNames.has(member.name) ||
+    (member.userId !== undefined && respondedUserIds.has(member.userId));
+
+  return {
+    groupId,
+    expectedNames: activeMembers.map((member) => member.name),
+    pendingNames: activeMembers
+      .filter((member) => !hasResponded(member))
+      .map((member) => member.name),
+    respondedNames: activeMembers.filter(hasResponded).map((member) => member.name),
+  };
+}
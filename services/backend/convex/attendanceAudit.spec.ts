@@ -0,0 +1,122 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+test('anonymous responses can only be changed by their session or the host, and changes are audited', async () => {
+  const hostSessionId = 'attendance-audit-host' as SessionId;
+  const aliceSessionId = 'attendance-audit-alice' as SessionId;
+  const otherSessionId = 'attendance-audit-other' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId: hostSessionId });
+
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId: hostSessionId,
+    title: 'Audited Meeting',
+    attendanceKey: 'audited-meeting',
+  });
+  const response = {
+    attendanceKey: 'audited-meeting',
+    name: 'Alice',
+    isManuallyJoined: true,
+  };
+
+  const recordId = await t.mutation(api.attendance.recordAttendance, {
+    ...response,
+    sessionId: aliceSessionId,
+    status: 'attending',
+  });
+  await t.mutation(api.attendance.recordAttendance, {
+    ...response,
+    sessionId: aliceSessionId,
+    status: 'maybe',
+  });
+
+  // Someone else cannot overwrite or delete Alice's response
+  await expect(
+    t.mutation(api.attendance.recordAttendance, {
+      ...response,
+      sessionId: otherSessionId,
+      status: 'not_attending',
+    })
+  ).rejects.toThrow('Alice has already responded');
+  const otherView = await t.query(api.attendance.getAttendanceEventData, {
+    sessionId: otherSessionId,
+    eventId,
+  });
+  const aliceRecordId = otherView?.records[0]._id;
+  if (!aliceRecordId) {
+    throw new Error("Alice's response was not recorded");
+  }
+  expect(aliceRecordId).not.toBe(recordId);
+  expect(otherView?.editableRecordIds).toEqual([]);
+  expect(otherView?.records[0]).not.toHaveProperty('ownerSessionId');
+  await expect(
+    t.mutation(api.attendance.deleteAttendanceRecord, {
+      sessionId: otherSessionId,
+      recordId: aliceRecordId,
+    })
+  ).rejects.toThrow('Not authorized to delete this attendance record');
+
+  // The host can override it, and Alice keeps ownership of her response
+  await t.mutation(api.attendance.recordAttendance, {
+    ...response,
+    sessionId: hostSessionId,
+    status: 'not_attending',
+  });
+  const aliceView = await t.query(api.attendance.getAttendanceEventData, {
+    sessionId: aliceSessionId,
+    eventId,
+  });
+  expect(aliceView?.records.map((record) => record.status)).toEqual(['not_attending']);
+  expect(aliceView?.editableRecordIds).toHaveLength(1);
+
+  await expect(
+    t.query(api.attendanceAudit.getAttendanceAuditLog, { sessionId: aliceSessionId, eventId })
+  ).rejects.toThrow('Not authorized to view the change history of this attendance event');
+  const auditLog = await t.query(api.attendanceAudit.getAttendanceAuditLog, {
+    sessionId: hostSessionId,
+    eventId,
+  });
+  expect(
+    auditLog.map(({ action, isOverride, previousStatus, status }) => ({
+      action,
+      isOverride,
+      previousStatus,
+      status,
+    }))
+  ).toEqual([
+    { action: 'updated', isOverride: true, previousStatus: 'maybe', status: 'not_attending' },
+    { action: 'updated', isOverride: false, previousStatus: 'attending', status: 'maybe' },
+    { action: 'created', isOverride: false, previousStatus: null, status: 'attending' },
+  ]);
+});
+
+test("a host's marks for people who never responded can only be deleted by the host", async () => {
+  const hostSessionId = 'attendance-audit-marks-host' as SessionId;
+  const otherSessionId = 'attendance-audit-marks-other' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId: hostSessionId });
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId: hostSessionId,
+    title: 'Marked Meeting',
+    attendanceKey: 'marked-meeting',
+  });
+  const recordId = await t.mutation(api.attendance.markAttendance, {
+    sessionId: hostSessionId,
+    eventId,
+    name: 'Dan',
+    mark: 'present',
+  });
+  if (!recordId) throw new Error('Expected a record for the mark');
+
+  const data = await t.query(api.attendance.getAttendanceData, {
+    sessionId: otherSessionId,
+    attendanceKey: 'marked-meeting',
+  });
+  expect(data?.editableRecordIds).toEqual([]);
+  await expect(
+    t.mutation(api.attendance.deleteAttendanceRecord, { sessionId: otherSessionId, recordId })
+  ).rejects.toThrow('Not authorized to delete this attendance record');
+
+  await t.mutation(api.attendance.deleteAttendanceRecord, { sessionId: hostSessionId, recordId });
+});
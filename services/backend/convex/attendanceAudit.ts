@@ -0,0 +1,61 @@
+import { ConvexError, v } from 'convex/values';
+import { SessionIdArg } from 'convex-helpers/server/sessions';
+
+import type { Id } from './_generated/dataModel';
+import { query } from './_generated/server';
+import { canManageAttendanceResource } from '../modules/attendance/accessControl';
+import type { AttendanceAuditEntry } from '../modules/attendance/auditLog';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+
+const _MAX_AUDIT_ENTRIES = 200;
+
+/**
+ * Retrieves the most recent changes to the attendance records of an event.
+ * Only available to the host of the event and system administrators.
+ * @param eventId - The ID of the attendance event
+ * @returns Audit log entries, newest first
+ */
+export const getAttendanceAuditLog = query({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<AttendanceAuditEntry[]> => {
+    const event = await ctx.db.get('attendanceEvents', args.eventId);
+    if (!event) {
+      throw new ConvexError('Attendance event not found');
+    }
+    const user = await getAuthUserOptional(ctx, args);
+    if (!canManageAttendanceResource(user, event.ownerId)) {
+      throw new ConvexError('Not authorized to view the change history of this attendance event');
+    }
+
+    const entries = await ctx.db
+      .query('attendanceAuditLogs')
+      .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', event.attendanceKey))
+      .order('desc')
+      .take(_MAX_AUDIT_ENTRIES);
+
+    // Resolve each actor's name once
+    const actorNames = new Map<Id<'users'>, string | null>();
+    for (const entry of entries) {
+      if (entry.actorUserId && !actorNames.has(entry.actorUserId)) {
+        const actor = await ctx.db.get('users', entry.actorUserId);
+        actorNames.set(entry.actorUserId, actor?.name ?? null);
+      }
+    }
+
+    return entries.map((entry) => ({
+      _id: entry._id,
+      action: entry.action,
+      name: entry.name ?? null,
+      actorName: entry.actorUserId ? (actorNames.get(entry.actorUserId) ?? null) : null,
+      isOverride: entry.isOverride,
+      previousStatus: entry.previousStatus ?? null,
+      status: entry.status ?? null,
+      previousAttendanceMark: entry.previousAttendanceMark ?? null,
+      attendanceMark: entry.attendanceMark ?? null,
+      timestamp: entry.timestamp,
+    }));
+  },
+});
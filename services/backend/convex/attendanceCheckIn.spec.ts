@@ -0,0 +1,53 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+import { formatLoginCode } from '../modules/auth/codeUtils';
+
+test('checking in with a code marks the current user as present', async () => {
+  const hostSessionId = 'attendance-check-in-host' as SessionId;
+  const attendeeSessionId = 'attendance-check-in-attendee' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId: hostSessionId });
+  await t.mutation(api.auth.loginAnon, { sessionId: attendeeSessionId });
+  const attendee = await t.query(api.auth.getState, { sessionId: attendeeSessionId });
+  if (attendee.state !== 'authenticated') {
+    throw new Error('Attendee is not authenticated');
+  }
+
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId: hostSessionId,
+    title: 'Check-in Meeting',
+    attendanceKey: 'check-in-meeting',
+  });
+
+  // Only the host can open check-in
+  await expect(
+    t.mutation(api.attendanceCheckIn.createCheckInCode, { sessionId: attendeeSessionId, eventId })
+  ).rejects.toThrow('Not authorized to manage this attendance event');
+
+  const { code } = await t.mutation(api.attendanceCheckIn.createCheckInCode, {
+    sessionId: hostSessionId,
+    eventId,
+  });
+  const result = await t.mutation(api.attendanceCheckIn.checkInWithCode, {
+    sessionId: attendeeSessionId,
+    code: formatLoginCode(code).toLowerCase(),
+  });
+  expect(result.attendanceKey).toBe('check-in-meeting');
+
+  const data = await t.query(api.attendance.getAttendanceEventData, {
+    sessionId: attendeeSessionId,
+    eventId,
+  });
+  expect(data?.currentUserResponse?.status).toBe('attending');
+  expect(data?.currentUserResponse?.name).toBe(attendee.user.name);
+  expect(data?.currentUserResponse?.checkedInAt).toBeDefined();
+  expect(data?.currentUserResponse?.attendanceMark).toBe('present');
+
+  // Closing check-in invalidates the code
+  await t.mutation(api.attendanceCheckIn.closeCheckIn, { sessionId: hostSessionId, eventId });
+  await expect(
+    t.mutation(api.attendanceCheckIn.checkInWithCode, { sessionId: attendeeSessionId, code })
+  ).rejects.toThrow('Invalid check-in code');
+});
@@ -0,0 +1,211 @@
+import { ConvexError, v } from 'convex/values';
+import { SessionIdArg } from 'convex-helpers/server/sessions';
+
+import { mutation, query } from './_generated/server';
+import {
+  canManageAttendanceResource,
+  getManageableAttendanceEvent,
+} from '../modules/attendance/accessControl';
+import { logAttendanceChange } from '../modules/attendance/auditLog';
+import {
+  getCheckInAttendanceMark,
+  getCheckInCodeExpirationTime,
+  normalizeCheckInCode,
+} from '../modules/attendance/checkInCodes';
+import { generateLoginCode, isCodeExpired } from '../modules/auth/codeUtils';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+
+/**
+ * Retrieves the newest unexpired check-in code of an event for its host.
+ * @param eventId - The ID of the attendance event
+ * @returns The code and its expiry, or null if check-in is not open or the user is not the host
+ */
+export const getActiveCheckInCode = query({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get('attendanceEvents', args.eventId);
+    const user = await getAuthUserOptional(ctx, args);
+    if (!event || !canManageAttendanceResource(user, event.ownerId)) {
+      return null;
+    }
+
+    const codes = await ctx.db
+      .query('attendanceCheckInCodes')
+      .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', event.attendanceKey))
+      .collect();
+    const activeCode = codes
+      .filter((code) => !isCodeExpired(code.expiresAt))
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+
+    return activeCode ? { code: activeCode.code, expiresAt: activeCode.expiresAt } : null;
+  },
+});
+
+/**
+ * Generates a new check-in code for an event. Hosts call this repeatedly while check-in
+ * is open so that the displayed code rotates; earlier codes stay valid until they expire.
+ * @param eventId - The ID of the attendance event
+ * @returns The new code and its expiry
+ */
+export const createCheckInCode = mutation({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const event = await getManageableAttendanceEvent(ctx, args);
+    if (event.isArchived) {
+      throw new ConvexError('This attendance event has been archived');
+    }
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      throw new ConvexError('You must be logged in to open check-in');
+    }
+
+    const code = generateLoginCode();
+    const expiresAt = getCheckInCodeExpirationTime();
+    await ctx.db.insert('attendanceCheckInCodes', {
+      attendanceKey: event.attendanceKey,
+      code,
+      createdBy: user._id,
+      createdAt: Date.now(),
+      expiresAt,
+    });
+
+    return { code, expiresAt };
+  },
+});
+
+/**
+ * Closes check-in for an event by removing all of its check-in codes.
+ * @param eventId - The ID of the attendance event
+ * @returns Success status
+ */
+export const closeCheckIn = mutation({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const event = await getManageableAttendanceEvent(ctx, args);
+
+    const codes = await ctx.db
+      .query('attendanceCheckInCodes')
+      .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', event.attendanceKey))
+      .collect();
+    await Promise.all(codes.map((code) => ctx.db.delete('attendanceCheckInCodes', code._id)));
+
+    return { success: true };
+  },
+});
+
+/**
+ * Checks the current user in to an event with a code displayed by the host.
+ * Records an attending response marked as present, or late if the event started a while
+ * ago, keeping any remarks from an earlier RSVP and any mark already set by a host.
+ * @param code - The check-in code, with or without a dash
+ * @returns The attendance key and title of the event that was checked in to
+ */
+export const checkInWithCode = mutation({
+  args: {
+    code: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      throw new ConvexError('You must be logged in to check in');
+    }
+
+    const checkInCode = await ctx.db
+      .query('attendanceCheckInCodes')
+      .withIndex('by_code', (q) => q.eq('code', normalizeCheckInCode(args.code)))
+      .first();
+    if (!checkInCode) {
+      throw new ConvexError('Invalid check-in code');
+    }
+    if (isCodeExpired(checkInCode.expiresAt)) {
+      throw new ConvexError('This check-in code has expired');
+    }
+
+    const { attendanceKey } = checkInCode;
+    const event = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', attendanceKey))
+      .first();
+    if (event?.isArchived) {
+      throw new ConvexError('This attendance event has been archived');
+    }
+
+    // Replace the user's earlier response, whether it was linked to their account or their name.
+    // Checking in with a code shown by the host may claim an anonymous response with the
+    // user's name, but never a response linked to someone else's account.
+    const userRecords = await ctx.db
+      .query('attendanceRecords')
+      .withIndex('by_user_attendance', (q) =>
+        q.eq('attendanceKey', attendanceKey).eq('userId', user._id)
+      )
+      .collect();
+    const nameRecords = await ctx.db
+      .query('attendanceRecords')
+      .withIndex('by_name_attendance', (q) =>
+        q.eq('attendanceKey', attendanceKey).eq('name', user.name)
+      )
+      .collect();
+    if (nameRecords.some((record) => record.userId && record.userId !== user._id)) {
+      throw new ConvexError(`Someone else has already responded as ${user.name}`);
+    }
+    const existingRecord = userRecords[0] ?? nameRecords[0];
+    const existingRecordIds = new Set([...userRecords, ...nameRecords].map((record) => record._id));
+    await Promise.all(
+      Array.from(existingRecordIds).map((recordId) => ctx.db.delete('attendanceRecords', recordId))
+    );
+
+    // People on the event's roster did not join the list manually
+    const groupId = event?.groupId;
+    const rosterMember = groupId
+      ? await ctx.db
+          .query('attendanceGroupMembers')
+          .withIndex('by_group_name', (q) => q.eq('groupId', groupId).eq('name', user.name))
+          .first()
+      : null;
+
+    const now = Date.now();
+    const mark = getCheckInAttendanceMark(event?.date, now);
+    const recordId = await ctx.db.insert('attendanceRecords', {
+      attendanceKey,
+      userId: user._id,
+      name: user.name,
+      timestamp: now,
+      status: 'attending',
+      remarks: existingRecord?.status !== 'not_attending' ? existingRecord?.remarks : undefined,
+      guests: existingRecord?.status !== 'not_attending' ? existingRecord?.guests : undefined,
+      isManuallyJoined: existingRecord?.isManuallyJoined ?? !rosterMember?.isActive,
+      checkedInAt: now,
+      attendanceMark: existingRecord?.attendanceMark ?? mark,
+      markedBy: existingRecord?.attendanceMark ? existingRecord.markedBy : undefined,
+      markedAt: existingRecord?.attendanceMark ? existingRecord.markedAt : now,
+      ownerSessionId: args.sessionId,
+    });
+    await logAttendanceChange(ctx, {
+      action: 'checked_in',
+      attendanceKey,
+      recordId,
+      name: user.name,
+      actor: { user, sessionId: args.sessionId },
+      isOverride: false,
+      before: existingRecord,
+      after: { status: 'attending', attendanceMark: existingRecord?.attendanceMark ?? mark },
+    });
+
+    return {
+      success: true,
+      attendanceKey,
+      eventId: event?._id ?? null,
+      title: event?.title ?? null,
+    };
+  },
+});
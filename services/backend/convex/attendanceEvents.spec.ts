@@ -0,0 +1,98 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api, internal } from './_generated/api';
+
+test('attendance events expose metadata next to their records', async () => {
+  const sessionId = 'attendance-events-owner' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Friday Cell Group',
+    location: 'Church Hall',
+  });
+  const event = await t.query(api.attendanceEvents.getAttendanceEvent, { sessionId, eventId });
+  await t.mutation(api.attendance.recordAttendance, {
+    sessionId,
+    attendanceKey: event?.attendanceKey,
+    name: 'John Doe',
+    status: 'attending',
+    isManuallyJoined: true,
+  });
+
+  const data = await t.query(api.attendance.getAttendanceEventData, { sessionId, eventId });
+  expect(data?.event.title).toBe('Friday Cell Group');
+  expect(data?.event.location).toBe('Church Hall');
+  expect(data?.records.map((record) => record.name)).toEqual(['John Doe']);
+});
+
+test('only the owner can archive an attendance event', async () => {
+  const ownerSessionId = 'attendance-events-archive-owner' as SessionId;
+  const otherSessionId = 'attendance-events-archive-other' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  await t.mutation(api.auth.loginAnon, { sessionId: otherSessionId });
+
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId: ownerSessionId,
+    title: 'Weekly Meeting',
+  });
+
+  await expect(
+    t.mutation(api.attendanceEvents.archiveAttendanceEvent, { sessionId: otherSessionId, eventId })
+  ).rejects.toThrow('Not authorized to manage this attendance event');
+
+  await t.mutation(api.attendanceEvents.archiveAttendanceEvent, {
+    sessionId: ownerSessionId,
+    eventId,
+  });
+  const event = await t.query(api.attendanceEvents.getAttendanceEvent, {
+    sessionId: ownerSessionId,
+    eventId,
+  });
+  expect(event?.isArchived).toBe(true);
+
+  await expect(
+    t.mutation(api.attendance.recordAttendance, {
+      sessionId: ownerSessionId,
+      attendanceKey: event?.attendanceKey,
+      name: 'Late Responder',
+      status: 'attending',
+      isManuallyJoined: true,
+    })
+  ).rejects.toThrow('This attendance event has been archived');
+});
+
+test('recurring events generate the next session with the same roster', async () => {
+  const sessionId = 'attendance-events-recurring' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+
+  const groupId = await t.mutation(api.attendanceGroups.createAttendanceGroup, {
+    sessionId,
+    name: 'Cell Group',
+  });
+  // A session that has already started, so the cron job generates the next one
+  const date = Date.UTC(2024, 0, 5, 12, 0);
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Friday Cell Group',
+    attendanceKey: 'friday-cell',
+    date,
+    groupId,
+    recurrence: { frequency: 'biweekly', dayOfWeek: 5, time: '20:00', utcOffsetMinutes: 480 },
+  });
+
+  const result = await t.mutation(internal.attendanceEvents.generateRecurringAttendanceEvents, {});
+  expect(result.createdCount).toBeGreaterThanOrEqual(1);
+
+  const { previous, next } = await t.query(api.attendanceEvents.getAdjacentAttendanceSessions, {
+    sessionId,
+    eventId,
+  });
+  expect(previous).toBeNull();
+  expect(next?.attendanceKey).toBe('friday-cell-2024-01-19');
+  expect(next?.date).toBe(Date.UTC(2024, 0, 19, 12, 0));
+  expect(next?.groupId).toBe(groupId);
+  expect(next?.seriesId).toBe(eventId);
+});
@@ -0,0 +1,348 @@
+import { ConvexError, v } from 'convex/values';
+import { SessionIdArg } from 'convex-helpers/server/sessions';
+
+import type { Doc } from './_generated/dataModel';
+import { internalMutation, type MutationCtx, mutation, query } from './_generated/server';
+import {
+  getManageableAttendanceEvent,
+  getManageableAttendanceGroup,
+} from '../modules/attendance/accessControl';
+import {
+  formatOccurrenceDate,
+  getFirstOccurrence,
+  getNextOccurrence,
+  isValidRecurrenceRule,
+  type RecurrenceRule,
+} from '../modules/attendance/recurrence';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+
+// Public interfaces and types
+export interface RecurringAttendanceEventsResult {
+  success: boolean;
+  createdCount: number;
+}
+
+/**
+ * Validator for the recurrence rule of a repeating attendance event.
+ */
+const recurrenceValidator = v.object({
+  frequency: v.union(v.literal('weekly'), v.literal('biweekly')),
+  dayOfWeek: v.number(),
+  time: v.string(),
+  utcOffsetMinutes: v.number(),
+});
+
+/**
+ * Retrieves an attendance event by its ID.
+ * @param eventId - The ID of the attendance event
+ * @returns The attendance event, or null if it doesn't exist
+ */
+export const getAttendanceEvent = query({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.get('attendanceEvents', args.eventId);
+  },
+});
+
+/**
+ * Lists the attendance events owned by the current user, most recent first.
+ * @param includeArchived - Whether archived events should be included
+ * @returns Array of attendance events owned by the current user
+ */
+export const listAttendanceEvents = query({
+  args: {
+    includeArchived: v.optional(v.boolean()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      return [];
+    }
+
+    const events = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_owner', (q) => q.eq('ownerId', user._id))
+      .order('desc')
+      .collect();
+
+    return args.includeArchived ? events : events.filter((event) => !event.isArchived);
+  },
+});
+
+/**
+ * Retrieves the sessions before and after an event in its recurring series.
+ * @param eventId - The ID of the attendance event
+ * @returns The previous and next sessions, or null where there is none
+ */
+export const getAdjacentAttendanceSessions = query({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get('attendanceEvents', args.eventId);
+    if (!event?.seriesId || event.date === undefined) {
+      return { previous: null, next: null };
+    }
+
+    const { seriesId, date } = event;
+    const previous = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_series_date', (q) => q.eq('seriesId', seriesId).lt('date', date))
+      .order('desc')
+      .first();
+    const next = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_series_date', (q) => q.eq('seriesId', seriesId).gt('date', date))
+      .order('asc')
+      .first();
+
+    return { previous, next };
+  },
+});
+
+/**
+ * Creates a new attendance event owned by the current user.
+ * A unique attendance key is generated from the title unless one is provided,
+ * which allows existing hardcoded attendance keys to be adopted by an event.
+ * Recurring events start a series whose following sessions are generated by a cron job;
+ * each session's attendance key is suffixed with its date.
+ * @param title - The display title for the event
+ * @param attendanceKey - Optional existing attendance key to attach the event to
+ * @param recurrence - Optional rule for repeating the event weekly or biweekly
+ * @returns The ID of the created attendance event
+ */
+export const createAttendanceEvent = mutation({
+  args: {
+    title: v.string(),
+    date: v.optional(v.number()),
+    location: v.optional(v.string()),
+    rsvpDeadline: v.optional(v.number()),
+    attendanceKey: v.optional(v.string()),
+    groupId: v.optional(v.id('attendanceGroups')),
+    recurrence: v.optional(recurrenceValidator),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      throw new ConvexError('You must be logged in to create an attendance event');
+    }
+
+    const title = args.title.trim();
+    if (!title) {
+      throw new ConvexError('Title is required');
+    }
+
+    // The event's roster can only come from a group the user manages
+    if (args.groupId) {
+      await getManageableAttendanceGroup(ctx, { groupId: args.groupId, sessionId: args.sessionId });
+    }
+
+    if (args.recurrence && !isValidRecurrenceRule(args.recurrence)) {
+      throw new ConvexError('Invalid recurrence rule');
+    }
+
+    // Recurring events without a date start at the next occurrence of their rule
+    const date =
+      args.date ?? (args.recurrence ? getFirstOccurrence(args.recurrence, Date.now()) : undefined);
+    const baseKey = args.attendanceKey?.trim() || _generateAttendanceKey(title);
+    const attendanceKey =
+      args.recurrence && date !== undefined
+        ? `${baseKey}-${formatOccurrenceDate(args.recurrence, date)}`
+        : baseKey;
+
+    // Each attendance key can only be described by a single event
+    const existingEvent = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', attendanceKey))
+      .first();
+    if (existingEvent) {
+      throw new ConvexError('An attendance event already exists for this attendance key');
+    }
+
+    const eventId = await ctx.db.insert('attendanceEvents', {
+      attendanceKey,
+      title,
+      date,
+      location: args.location,
+      rsvpDeadline: args.rsvpDeadline,
+      ownerId: user._id,
+      groupId: args.groupId,
+      recurrence: args.recurrence,
+      nextOccurrenceAt: args.recurrence ? date : undefined,
+      isArchived: false,
+      createdAt: Date.now(),
+    });
+
+    // The first event of a recurring series identifies the series
+    if (args.recurrence) {
+      await ctx.db.patch('attendanceEvents', eventId, { seriesId: eventId });
+    }
+
+    return eventId;
+  },
+});
+
+/**
+ * Updates the metadata of an attendance event.
+ * Only the owner of the event or a system administrator can update it.
+ * @param eventId - The ID of the attendance event to update
+ * @returns The ID of the updated attendance event
+ */
+export const updateAttendanceEvent = mutation({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    title: v.optional(v.string()),
+    date: v.optional(v.number()),
+    location: v.optional(v.string()),
+    rsvpDeadline: v.optional(v.number()),
+    groupId: v.optional(v.id('attendanceGroups')),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const event = await getManageableAttendanceEvent(ctx, args);
+
+    if (args.groupId) {
+      await getManageableAttendanceGroup(ctx, { groupId: args.groupId, sessionId: args.sessionId });
+    }
+
+    const title = args.title?.trim();
+    if (args.title !== undefined && !title) {
+      throw new ConvexError('Title is required');
+    }
+
+    await ctx.db.patch('attendanceEvents', event._id, {
+      ...(title !== undefined && { title }),
+      ...(args.date !== undefined && { date: args.date }),
+      ...(args.location !== undefined && { location: args.location }),
+      ...(args.rsvpDeadline !== undefined && { rsvpDeadline: args.rsvpDeadline }),
+      ...(args.groupId !== undefined && { groupId: args.groupId }),
+    });
+
+    return event._id;
+  },
+});
+
+/**
+ * Archives an attendance event so that it no longer accepts responses.
+ * Existing attendance records are retained. Archiving the latest session of a
+ * recurring series stops further sessions from being generated.
+ * @param eventId - The ID of the attendance event to archive
+ * @returns The ID of the archived attendance event
+ */
+export const archiveAttendanceEvent = mutation({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const event = await getManageableAttendanceEvent(ctx, args);
+
+    if (!event.isArchived) {
+      await ctx.db.patch('attendanceEvents', event._id, {
+        isArchived: true,
+        archivedAt: Date.now(),
+        nextOccurrenceAt: undefined,
+      });
+    }
+
+    return event._id;
+  },
+});
+
+/**
+ * Generates the next session of every recurring series whose latest session has started.
+ * The new session carries the group roster, location and relative RSVP deadline forward.
+ * This is run periodically by the cron jobs registered in cleanupTasks.
+ */
+export const generateRecurringAttendanceEvents = internalMutation({
+  args: {},
+  handler: async (ctx, _args): Promise<RecurringAttendanceEventsResult> => {
+    const now = Date.now();
+
+    const dueEvents = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_next_occurrence', (q) =>
+        q.gte('nextOccurrenceAt', 0).lte('nextOccurrenceAt', now)
+      )
+      .collect();
+
+    let createdCount = 0;
+    for (const event of dueEvents) {
+      const created = await _createNextOccurrence(ctx, event);
+      if (created) {
+        createdCount++;
+      }
+    }
+
+    return {
+      success: true,
+      createdCount,
+    };
+  },
+});
+
+// Internal helper functions
+/**
+ * Creates the session following a recurring event and hands the series over to it.
+ * Returns false if the series has ended or the session already exists.
+ */
+async function _createNextOccurrence(
+  ctx: MutationCtx,
+  event: Doc<'attendanceEvents'>
+): Promise<boolean> {
+  // Only the latest session of a series schedules the next one
+  await ctx.db.patch('attendanceEvents', event._id, { nextOccurrenceAt: undefined });
+
+  const rule: RecurrenceRule | undefined = event.recurrence;
+  if (!rule || event.isArchived || event.date === undefined) {
+    return false;
+  }
+
+  const date = getNextOccurrence(rule, event.date);
+  const keyPrefix = event.attendanceKey.replace(/-\d{4}-\d{2}-\d{2}$/, '');
+  const attendanceKey = `${keyPrefix}-${formatOccurrenceDate(rule, date)}`;
+
+  const existingEvent = await ctx.db
+    .query('attendanceEvents')
+    .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', attendanceKey))
+    .first();
+  if (existingEvent) {
+    return false;
+  }
+
+  await ctx.db.insert('attendanceEvents', {
+    attendanceKey,
+    title: event.title,
+    date,
+    location: event.location,
+    rsvpDeadline:
+      event.rsvpDeadline !== undefined ? event.rsvpDeadline + (date - event.date) : undefined,
+    ownerId: event.ownerId,
+    groupId: event.groupId,
+    recurrence: rule,
+    seriesId: event.seriesId ?? event._id,
+    nextOccurrenceAt: date,
+    isArchived: false,
+    createdAt: Date.now(),
+  });
+  return true;
+}
+
+/**
+ * Generates a readable, unique attendance key from an event title.
+ */
+function _generateAttendanceKey(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  const suffix = Date.now().toString(36);
+  return slug ? `${slug}-${suffix}` : `event-${suffix}`;
+}
@@ -0,0 +1,134 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+test('getAttendanceData splits the group roster into pending and responded members', async () => {
+  const sessionId = 'attendance-groups-owner' as SessionId;
+  const login = await t.mutation(api.auth.loginAnon, { sessionId });
+
+  const groupId = await t.mutation(api.attendanceGroups.createAttendanceGroup, {
+    sessionId,
+    name: 'Cell Group',
+  });
+  await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId,
+    groupId,
+    name: 'Jane Smith',
+  });
+  await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId,
+    groupId,
+    name: 'Group Leader',
+    userId: login.userId,
+  });
+  const inactiveMemberId = await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId,
+    groupId,
+    name: 'Moved Away',
+  });
+  await t.mutation(api.attendanceGroups.updateAttendanceGroupMember, {
+    sessionId,
+    memberId: inactiveMemberId,
+    isActive: false,
+  });
+
+  await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Friday Cell Group',
+    attendanceKey: 'roster-test',
+    groupId,
+  });
+
+  // The linked member responds for themselves under their account name
+  await t.mutation(api.attendance.recordAttendance, {
+    sessionId,
+    attendanceKey: 'roster-test',
+    name: 'Anonymous Name',
+    status: 'attending',
+    self: true,
+    isManuallyJoined: false,
+  });
+
+  const data = await t.query(api.attendance.getAttendanceData, {
+    sessionId,
+    attendanceKey: 'roster-test',
+  });
+  expect(data.roster?.expectedNames).toEqual(['Group Leader', 'Jane Smith']);
+  expect(data.roster?.pendingNames).toEqual(['Jane Smith']);
+  expect(data.roster?.respondedNames).toEqual(['Group Leader']);
+});
+
+test('roster members listed as guests of a household response are not pending', async () => {
+  const sessionId = 'attendance-groups-household' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+
+  const groupId = await t.mutation(api.attendanceGroups.createAttendanceGroup, {
+    sessionId,
+    name: 'Family Group',
+  });
+  for (const name of ['Ann Lee', 'Ben Lee', 'Cat Tan']) {
+    await t.mutation(api.attendanceGroups.addAttendanceGroupMember, { sessionId, groupId, name });
+  }
+  await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Family Picnic',
+    attendanceKey: 'household-test',
+    groupId,
+  });
+
+  await t.mutation(api.attendance.recordAttendance, {
+    sessionId,
+    attendanceKey: 'household-test',
+    name: 'Ann Lee',
+    status: 'attending',
+    isManuallyJoined: false,
+    guests: [{ name: ' Ben Lee ' }, { name: '' }, {}],
+  });
+
+  const data = await t.query(api.attendance.getAttendanceData, {
+    sessionId,
+    attendanceKey: 'household-test',
+  });
+  expect(data.records[0].guests).toEqual([{ name: 'Ben Lee' }, {}, {}]);
+  expect(data.roster?.pendingNames).toEqual(['Cat Tan']);
+  expect(data.roster?.respondedNames).toEqual(['Ann Lee', 'Ben Lee']);
+});
+
+test('only group managers see the accounts and email addresses of members', async () => {
+  const ownerSessionId = 'attendance-groups-private-owner' as SessionId;
+  const anonymousSessionId = 'attendance-groups-private-anonymous' as SessionId;
+  const login = await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  const groupId = await t.mutation(api.attendanceGroups.createAttendanceGroup, {
+    sessionId: ownerSessionId,
+    name: 'Private Group',
+  });
+  await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId: ownerSessionId,
+    groupId,
+    name: 'Jane Smith',
+    userId: login.userId,
+    email: 'jane@example.com',
+  });
+
+  const managed = await t.query(api.attendanceGroups.getAttendanceGroupMembers, {
+    sessionId: ownerSessionId,
+    groupId,
+  });
+  expect(managed).toEqual([
+    expect.objectContaining({
+      name: 'Jane Smith',
+      userId: login.userId,
+      email: 'jane@example.com',
+    }),
+  ]);
+
+  const members = await t.query(api.attendanceGroups.getAttendanceGroupMembers, {
+    sessionId: anonymousSessionId,
+    groupId,
+  });
+  expect(members).toEqual([expect.objectContaining({ name: 'Jane Smith', isActive: true })]);
+  expect(members[0]).not.toHaveProperty('userId');
+  expect(members[0]).not.toHaveProperty('email');
+});
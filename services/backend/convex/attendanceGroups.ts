@@ -0,0 +1,255 @@
+import { ConvexError, v } from 'convex/values';
+import { SessionIdArg } from 'convex-helpers/server/sessions';
+
+import { mutation, query } from './_generated/server';
+import {
+  canManageAttendanceResource,
+  getManageableAttendanceGroup,
+} from '../modules/attendance/accessControl';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+
+/**
+ * Lists the attendance groups owned by the current user.
+ * @returns Array of attendance groups owned by the current user
+ */
+export const listAttendanceGroups = query({
+  args: {
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      return [];
+    }
+
+    return await ctx.db
+      .query('attendanceGroups')
+      .withIndex('by_owner', (q) => q.eq('ownerId', user._id))
+      .collect();
+  },
+});
+
+/**
+ * Retrieves the roster of an attendance group, sorted by name.
+ * Only people who can manage the group see members' accounts, email addresses and reminder
+ * settings; everyone else sees their names and whether they are active.
+ * @param groupId - The ID of the attendance group
+ * @param includeInactive - Whether inactive members should be included
+ * @returns Array of roster members
+ */
+export const getAttendanceGroupMembers = query({
+  args: {
+    groupId: v.id('attendanceGroups'),
+    includeInactive: v.optional(v.boolean()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const group = await ctx.db.get('attendanceGroups', args.groupId);
+    if (!group) {
+      return [];
+    }
+    const user = await getAuthUserOptional(ctx, args);
+    const canManage = canManageAttendanceResource(user, group.ownerId);
+
+    const members = await ctx.db
+      .query('attendanceGroupMembers')
+      .withIndex('by_group', (q) => q.eq('groupId', args.groupId))
+      .collect();
+
+    return members
+      .filter((member) => args.includeInactive || member.isActive)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((member) => ({
+        _id: member._id,
+        _creationTime: member._creationTime,
+        groupId: member.groupId,
+        name: member.name,
+        isActive: member.isActive,
+        createdAt: member.createdAt,
+        ...(canManage && {
+          userId: member.userId,
+          email: member.email,
+          remindersOptedOut: member.remindersOptedOut,
+        }),
+      }));
+  },
+});
+
+/**
+ * Creates a new attendance group owned by the current user.
+ * @param name - The display name for the group
+ * @returns The ID of the created attendance group
+ */
+export const createAttendanceGroup = mutation({
+  args: {
+    name: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      throw new ConvexError('You must be logged in to create an attendance group');
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new ConvexError('Group name is required');
+    }
+
+    return await ctx.db.insert('attendanceGroups', {
+      name,
+      ownerId: user._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Renames an attendance group.
+ * @param groupId - The ID of the attendance group
+ * @param name - The new display name for the group
+ * @returns The ID of the updated attendance group
+ */
+export const updateAttendanceGroup = mutation({
+  args: {
+    groupId: v.id('attendanceGroups'),
+    name: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const group = await getManageableAttendanceGroup(ctx, args);
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new ConvexError('Group name is required');
+    }
+
+    await ctx.db.patch('attendanceGroups', group._id, { name });
+    return group._id;
+  },
+});
+
+/**
+ * Adds a member to the roster of an attendance group.
+ * Re-adding an inactive member with the same name reactivates them instead.
+ * @param groupId - The ID of the attendance group
+ * @param name - The name shown in attendance lists
+ * @param userId - Optional user account to link the member to
+ * @param email - Optional email address that attendance reminders are sent to
+ * @returns The ID of the added or reactivated roster member
+ */
+export const addAttendanceGroupMember = mutation({
+  args: {
+    groupId: v.id('attendanceGroups'),
+    name: v.string(),
+    userId: v.optional(v.id('users')),
+    email: v.optional(v.string()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const group = await getManageableAttendanceGroup(ctx, args);
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new ConvexError('Member name is required');
+    }
+    const email = args.email?.trim() || undefined;
+
+    const existingMember = await ctx.db
+      .query('attendanceGroupMembers')
+      .withIndex('by_group_name', (q) => q.eq('groupId', group._id).eq('name', name))
+      .first();
+
+    if (existingMember) {
+      if (existingMember.isActive) {
+        throw new ConvexError('A member with this name is already on the roster');
+      }
+      await ctx.db.patch('attendanceGroupMembers', existingMember._id, {
+        isActive: true,
+        ...(args.userId && { userId: args.userId }),
+        ...(email && { email }),
+      });
+      return existingMember._id;
+    }
+
+    return await ctx.db.insert('attendanceGroupMembers', {
+      groupId: group._id,
+      name,
+      userId: args.userId,
+      email,
+      isActive: true,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Updates a roster member's name, linked user account, reminder email, or active status.
+ * An empty email removes the member's reminder email.
+ * @param memberId - The ID of the roster member
+ * @returns The ID of the updated roster member
+ */
+export const updateAttendanceGroupMember = mutation({
+  args: {
+    memberId: v.id('attendanceGroupMembers'),
+    name: v.optional(v.string()),
+    userId: v.optional(v.id('users')),
+    email: v.optional(v.string()),
+    isActive: v.optional(v.boolean()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get('attendanceGroupMembers', args.memberId);
+    if (!member) {
+      throw new ConvexError('Roster member not found');
+    }
+    await getManageableAttendanceGroup(ctx, { groupId: member.groupId, sessionId: args.sessionId });
+
+    const name = args.name?.trim();
+    if (args.name !== undefined && !name) {
+      throw new ConvexError('Member name is required');
+    }
+
+    if (name !== undefined && name !== member.name) {
+      const duplicateMember = await ctx.db
+        .query('attendanceGroupMembers')
+        .withIndex('by_group_name', (q) => q.eq('groupId', member.groupId).eq('name', name))
+        .first();
+      if (duplicateMember) {
+        throw new ConvexError('A member with this name is already on the roster');
+      }
+    }
+
+    await ctx.db.patch('attendanceGroupMembers', member._id, {
+      ...(name !== undefined && { name }),
+      ...(args.userId !== undefined && { userId: args.userId }),
+      ...(args.email !== undefined && { email: args.email.trim() || undefined }),
+      ...(args.isActive !== undefined && { isActive: args.isActive }),
+    });
+
+    return member._id;
+  },
+});
+
+/**
+ * Removes a member from the roster of an attendance group.
+ * Their existing attendance records are retained.
+ * @param memberId - The ID of the roster member
+ * @returns Success status
+ */
+export const removeAttendanceGroupMember = mutation({
+  args: {
+    memberId: v.id('attendanceGroupMembers'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get('attendanceGroupMembers', args.memberId);
+    if (!member) {
+      throw new ConvexError('Roster member not found');
+    }
+    await getManageableAttendanceGroup(ctx, { groupId: member.groupId, sessionId: args.sessionId });
+
+    await ctx.db.delete('attendanceGroupMembers', member._id);
+    return { success: true };
+  },
+});
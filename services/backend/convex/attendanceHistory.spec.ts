@@ -0,0 +1,138 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+test('attendance history aggregates rates, streaks and absence reasons per member', async () => {
+  const sessionId = 'attendance-history-admin' as SessionId;
+  const login = await t.mutation(api.auth.loginAnon, { sessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', login.userId, { accessLevel: 'system_admin' });
+  });
+
+  const groupId = await t.mutation(api.attendanceGroups.createAttendanceGroup, {
+    sessionId,
+    name: 'History Group',
+  });
+  const responses: { name: string; attending: boolean; reason?: string }[][] = [
+    [
+      { name: 'Alice', attending: true },
+      { name: 'Bob', attending: true },
+    ],
+    [
+      { name: 'Alice', attending: true },
+      { name: 'Bob', attending: false, reason: 'Work' },
+    ],
+    [
+      { name: 'Alice', attending: true },
+      { name: 'Bob', attending: false, reason: 'work' },
+    ],
+  ];
+  for (const [index, sessionResponses] of responses.entries()) {
+    const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+      sessionId,
+      title: 'History Meeting',
+      attendanceKey: `history-meeting-${index}`,
+      date: Date.UTC(2024, 0, 1 + index * 7),
+      groupId,
+    });
+    const event = await t.query(api.attendanceEvents.getAttendanceEvent, { sessionId, eventId });
+    for (const response of sessionResponses) {
+      await t.mutation(api.attendance.recordAttendance, {
+        sessionId,
+        attendanceKey: event?.attendanceKey,
+        name: response.name,
+        status: response.attending ? 'attending' : 'not_attending',
+        reason: response.reason,
+        isManuallyJoined: true,
+      });
+    }
+  }
+
+  const history = await t.query(api.attendanceHistory.getAttendanceHistory, {
+    sessionId,
+    groupId,
+  });
+  expect(history.sessions.map((session) => session.attendanceKey)).toEqual([
+    'history-meeting-0',
+    'history-meeting-1',
+    'history-meeting-2',
+  ]);
+
+  const [bob, alice] = history.members;
+  expect(bob.name).toBe('Bob');
+  expect(bob.attendanceRate).toBeCloseTo(1 / 3);
+  expect(bob.currentStreak).toBe(0);
+  expect(bob.topAbsenceReasons).toEqual([{ reason: 'Work', count: 2 }]);
+  expect(alice.name).toBe('Alice');
+  expect(alice.attendanceRate).toBe(1);
+  expect(alice.currentStreak).toBe(3);
+});
+
+test('host marks override RSVPs and count no-shows', async () => {
+  const sessionId = 'attendance-history-marks' as SessionId;
+  const login = await t.mutation(api.auth.loginAnon, { sessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', login.userId, { accessLevel: 'system_admin' });
+  });
+
+  const marks = ['absent', 'present', 'late'] as const;
+  const attendanceKeys: string[] = [];
+  for (const [index, mark] of marks.entries()) {
+    const attendanceKey = `no-show-meeting-${index}`;
+    attendanceKeys.push(attendanceKey);
+    const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+      sessionId,
+      title: 'No-show Meeting',
+      attendanceKey,
+      date: Date.UTC(2024, 1, 1 + index * 7),
+    });
+    await t.mutation(api.attendance.recordAttendance, {
+      sessionId,
+      attendanceKey,
+      name: 'Carol',
+      status: 'attending',
+      isManuallyJoined: true,
+    });
+    await t.mutation(api.attendance.recordAttendance, {
+      sessionId,
+      attendanceKey,
+      name: 'Dan',
+      status: 'maybe',
+      isManuallyJoined: true,
+    });
+    await t.mutation(api.attendance.markAttendance, { sessionId, eventId, name: 'Carol', mark });
+  }
+
+  // Marks are kept when the RSVP is changed afterwards
+  await t.mutation(api.attendance.recordAttendance, {
+    sessionId,
+    attendanceKey: attendanceKeys[0],
+    name: 'Carol',
+    status: 'attending',
+    remarks: 'Sorry!',
+    isManuallyJoined: true,
+  });
+
+  const history = await t.query(api.attendanceHistory.getAttendanceHistory, {
+    sessionId,
+    attendanceKeys,
+  });
+  const [dan, carol] = history.members;
+  expect(dan.name).toBe('Dan');
+  expect(dan.outcomes).toEqual([null, null, null]);
+  expect(carol.outcomes).toEqual(['absent', 'attended', 'attended']);
+  expect(carol.noShowCount).toBe(1);
+  expect(carol.noShowRate).toBeCloseTo(1 / 3);
+  expect(carol.lateCount).toBe(1);
+});
+
+test('attendance history is only available to system administrators', async () => {
+  const sessionId = 'attendance-history-user' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+
+  await expect(
+    t.query(api.attendanceHistory.getAttendanceHistory, { sessionId, attendanceKeys: ['any'] })
+  ).rejects.toThrow('Only system administrators can view attendance history');
+});
@@ -0,0 +1,159 @@
+import { ConvexError, v } from 'convex/values';
+import { type SessionId, SessionIdArg } from 'convex-helpers/server/sessions';
+
+import type { Doc, Id } from './_generated/dataModel';
+import { type QueryCtx, query } from './_generated/server';
+import {
+  type AttendanceHistorySession,
+  type AttendanceMemberStats,
+  computeAttendanceMemberStats,
+} from '../modules/attendance/history';
+import { isSystemAdmin } from '../modules/auth/accessControl';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+
+// Public interfaces and types
+export interface AttendanceHistorySeries {
+  seriesId: Id<'attendanceEvents'>;
+  title: string;
+}
+
+export interface AttendanceHistorySources {
+  groups: Doc<'attendanceGroups'>[];
+  series: AttendanceHistorySeries[];
+}
+
+export interface AttendanceHistory {
+  sessions: AttendanceHistorySession[];
+  members: AttendanceMemberStats[];
+}
+
+/**
+ * Lists the groups and recurring series that attendance history can be reported on.
+ * Only available to system administrators.
+ * @returns All attendance groups and recurring event series
+ */
+export const listAttendanceHistorySources = query({
+  args: {
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<AttendanceHistorySources> => {
+    await _requireSystemAdmin(ctx, args);
+
+    const groups = await ctx.db.query('attendanceGroups').collect();
+    const events = await ctx.db.query('attendanceEvents').collect();
+
+    // The first event of a series identifies the series
+    const series = events
+      .filter((event) => event.seriesId === event._id)
+      .map((event) => ({ seriesId: event._id, title: event.title }));
+
+    return {
+      groups: groups.sort((a, b) => a.name.localeCompare(b.name)),
+      series: series.sort((a, b) => a.title.localeCompare(b.title)),
+    };
+  },
+});
+
+/**
+ * Aggregates attendance records across many sessions into per-member statistics.
+ * Sessions are selected from the events of a group, the sessions of a recurring series,
+ * and any additional attendance keys. Only available to system administrators.
+ * @param groupId - Optional group whose events should be included
+ * @param seriesId - Optional recurring series whose sessions should be included
+ * @param attendanceKeys - Optional attendance keys to include, with or without an event
+ * @param since - Optional timestamp before which sessions are excluded
+ * @returns The sessions in date order and the statistics of every member that responded
+ */
+export const getAttendanceHistory = query({
+  args: {
+    groupId: v.optional(v.id('attendanceGroups')),
+    seriesId: v.optional(v.id('attendanceEvents')),
+    attendanceKeys: v.optional(v.array(v.string())),
+    since: v.optional(v.number()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<AttendanceHistory> => {
+    await _requireSystemAdmin(ctx, args);
+
+    const events: Doc<'attendanceEvents'>[] = [];
+    const { groupId, seriesId } = args;
+    if (groupId) {
+      events.push(
+        ...(await ctx.db
+          .query('attendanceEvents')
+          .withIndex('by_group_date', (q) => q.eq('groupId', groupId))
+          .collect())
+      );
+    }
+    if (seriesId) {
+      events.push(
+        ...(await ctx.db
+          .query('attendanceEvents')
+          .withIndex('by_series_date', (q) => q.eq('seriesId', seriesId))
+          .collect())
+      );
+    }
+
+    // Collect the records of every distinct session
+    const sessionsByKey = new Map<string, AttendanceHistorySession>();
+    const records: Doc<'attendanceRecords'>[] = [];
+    const attendanceKeys = [
+      ...events.map((event) => event.attendanceKey),
+      ...(args.attendanceKeys ?? []),
+    ];
+    for (const attendanceKey of attendanceKeys) {
+      if (sessionsByKey.has(attendanceKey)) continue;
+
+      const sessionRecords = await ctx.db
+        .query('attendanceRecords')
+        .withIndex('by_attendance', (q) => q.eq('attendanceKey', attendanceKey))
+        .collect();
+      const event =
+        events.find((e) => e.attendanceKey === attendanceKey) ??
+        (await ctx.db
+          .query('attendanceEvents')
+          .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', attendanceKey))
+          .first());
+
+      sessionsByKey.set(attendanceKey, {
+        attendanceKey,
+        title: event?.title ?? attendanceKey,
+        date: _getSessionDate(event, sessionRecords),
+      });
+      records.push(...sessionRecords);
+    }
+
+    const sessions = Array.from(sessionsByKey.values())
+      .filter((session) => args.since === undefined || session.date >= args.since)
+      .sort((a, b) => a.date - b.date);
+
+    return {
+      sessions,
+      members: computeAttendanceMemberStats(sessions, records),
+    };
+  },
+});
+
+// Internal helper functions
+/**
+ * Ensures the current user is a system administrator.
+ */
+async function _requireSystemAdmin(ctx: QueryCtx, args: { sessionId: SessionId }) {
+  const user = await getAuthUserOptional(ctx, args);
+  if (!user || !isSystemAdmin(user)) {
+    throw new ConvexError('Only system administrators can view attendance history');
+  }
+  return user;
+}
+
+/**
+ * Dates a session by its event, falling back to its earliest response for keys without one.
+ */
+function _getSessionDate(
+  event: Doc<'attendanceEvents'> | null | undefined,
+  records: Doc<'attendanceRecords'>[]
+): number {
+  if (event?.date !== undefined) return event.date;
+  if (records.length > 0) return Math.min(...records.map((record) => record.timestamp));
+  return event?.createdAt ?? 0;
+}
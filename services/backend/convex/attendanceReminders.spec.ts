@@ -0,0 +1,180 @@
+// @vitest-environment node
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { afterAll, beforeAll, expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api, internal } from './_generated/api';
+import { ATTENDANCE_REMINDER_ENV } from '../modules/attendance/notifiers';
+
+interface _ReceivedRequest {
+  path: string;
+  authorization?: string;
+  body: Record<string, unknown>;
+}
+
+const received: _ReceivedRequest[] = [];
+let server: Server;
+
+// Local mock of the email API and webhook that records every request it receives
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({
+        path: req.url ?? '',
+        authorization: req.headers.authorization,
+        body: JSON.parse(body),
+      });
+      res.statusCode = req.url === '/failing' ? 500 : 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  process.env[ATTENDANCE_REMINDER_ENV.emailApiUrl] = `http://127.0.0.1:${port}/email`;
+  process.env[ATTENDANCE_REMINDER_ENV.emailApiKey] = 'test-key';
+  process.env[ATTENDANCE_REMINDER_ENV.emailFrom] = 'reminders@example.com';
+  process.env[ATTENDANCE_REMINDER_ENV.webhookUrl] = `http://127.0.0.1:${port}/webhook`;
+  process.env[ATTENDANCE_REMINDER_ENV.siteUrl] = 'https://example.com/';
+});
+
+afterAll(async () => {
+  for (const name of Object.values(ATTENDANCE_REMINDER_ENV)) {
+    delete process.env[name];
+  }
+  await new Promise((resolve) => server.close(resolve));
+});
+
+test('reminders are sent once to pending roster members who have not opted out', async () => {
+  const sessionId = 'attendance-reminders-host' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+
+  const groupId = await t.mutation(api.attendanceGroups.createAttendanceGroup, {
+    sessionId,
+    name: 'Reminder Group',
+  });
+  await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId,
+    groupId,
+    name: 'Jane Smith',
+    email: ' jane@example.com ',
+  });
+  await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId,
+    groupId,
+    name: 'No Email',
+  });
+  await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId,
+    groupId,
+    name: 'Already Responded',
+    email: 'responded@example.com',
+  });
+  const optedOutMemberId = await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId,
+    groupId,
+    name: 'Opted Out',
+    email: 'opted-out@example.com',
+  });
+  await t.mutation(api.attendanceReminders.setAttendanceReminderOptOut, {
+    sessionId,
+    memberId: optedOutMemberId,
+    optedOut: true,
+  });
+
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Reminder Meeting',
+    attendanceKey: 'reminder-meeting',
+    groupId,
+    date: Date.now() + 2 * 24 * 60 * 60 * 1000,
+    rsvpDeadline: Date.now() + 60 * 60 * 1000,
+  });
+  await t.mutation(api.attendance.recordAttendance, {
+    sessionId,
+    attendanceKey: 'reminder-meeting',
+    name: 'Already Responded',
+    status: 'attending',
+    isManuallyJoined: false,
+  });
+
+  const result = await t.action(internal.attendanceReminders.sendAttendanceReminders, {});
+  expect(result).toEqual({ success: true, sentCount: 3, failedCount: 0 });
+
+  const emails = received.filter((request) => request.path === '/email');
+  expect(emails).toHaveLength(1);
+  expect(emails[0]?.authorization).toBe('Bearer test-key');
+  expect(emails[0]?.body.to).toBe('jane@example.com');
+  expect(emails[0]?.body.text).toContain(`https://example.com/attendance/${eventId}`);
+
+  const webhooks = received.filter((request) => request.path === '/webhook');
+  expect(webhooks.map((request) => request.body.recipientName).sort()).toEqual([
+    'Jane Smith',
+    'No Email',
+  ]);
+
+  // Members who were already reminded are not reminded again
+  const rerun = await t.action(internal.attendanceReminders.sendAttendanceReminders, {});
+  expect(rerun.sentCount).toBe(0);
+
+  const history = await t.query(api.attendanceReminders.getAttendanceReminderHistory, {
+    sessionId,
+    eventId,
+  });
+  expect(history).toHaveLength(3);
+  expect(history.every((entry) => entry.status === 'sent')).toBe(true);
+
+  // Only the host can see who was reminded
+  const otherSessionId = 'attendance-reminders-other' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId: otherSessionId });
+  await expect(
+    t.query(api.attendanceReminders.getAttendanceReminderHistory, {
+      sessionId: otherSessionId,
+      eventId,
+    })
+  ).rejects.toThrow('Not authorized to view the reminders of this attendance event');
+});
+
+test('failed deliveries are recorded and retried on the next run', async () => {
+  const sessionId = 'attendance-reminders-failing-host' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+  process.env[ATTENDANCE_REMINDER_ENV.webhookUrl] = process.env[
+    ATTENDANCE_REMINDER_ENV.webhookUrl
+  ]?.replace('/webhook', '/failing');
+  delete process.env[ATTENDANCE_REMINDER_ENV.emailApiUrl];
+
+  const groupId = await t.mutation(api.attendanceGroups.createAttendanceGroup, {
+    sessionId,
+    name: 'Failing Group',
+  });
+  await t.mutation(api.attendanceGroups.addAttendanceGroupMember, {
+    sessionId,
+    groupId,
+    name: 'Unreachable',
+  });
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Failing Meeting',
+    attendanceKey: 'failing-meeting',
+    groupId,
+    rsvpDeadline: Date.now() + 60 * 60 * 1000,
+  });
+
+  for (let run = 0; run < 4; run++) {
+    await t.action(internal.attendanceReminders.sendAttendanceReminders, {});
+  }
+
+  // Delivery is given up on after three failed attempts
+  const history = await t.query(api.attendanceReminders.getAttendanceReminderHistory, {
+    sessionId,
+    eventId,
+  });
+  expect(history).toHaveLength(3);
+  expect(history[0]?.status).toBe('failed');
+  expect(history[0]?.error).toContain('failed with status 500');
+});
@@ -0,0 +1,289 @@
+import { ConvexError, v } from 'convex/values';
+import { SessionIdArg } from 'convex-helpers/server/sessions';
+
+import { internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from './_generated/server';
+import {
+  canManageAttendanceResource,
+  getManageableAttendanceGroup,
+} from '../modules/attendance/accessControl';
+import {
+  ATTENDANCE_REMINDER_ENV,
+  ATTENDANCE_REMINDER_LEAD_TIME_MS,
+  type AttendanceReminderChannel,
+  type AttendanceReminderHistoryEntry,
+  type AttendanceReminderMessage,
+  getConfiguredAttendanceNotifiers,
+} from '../modules/attendance/notifiers';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+
+// Public interfaces and types
+export interface DueAttendanceReminder {
+  eventId: Id<'attendanceEvents'>;
+  memberId: Id<'attendanceGroupMembers'>;
+  message: AttendanceReminderMessage;
+  completedChannels: AttendanceReminderChannel[];
+}
+
+export interface AttendanceRemindersResult {
+  success: boolean;
+  sentCount: number;
+  failedCount: number;
+}
+
+// Failed deliveries are retried on later runs until this many attempts have failed
+const _MAX_FAILED_ATTEMPTS = 3;
+
+/**
+ * Sends reminders to roster members who have not responded to events whose RSVP deadline
+ * is coming up, through every configured notification channel that can reach them.
+ * This is run periodically by the cron jobs registered in cleanupTasks.
+ */
+export const sendAttendanceReminders = internalAction({
+  args: {},
+  handler: async (ctx, _args): Promise<AttendanceRemindersResult> => {
+    const notifiers = getConfiguredAttendanceNotifiers(process.env);
+    if (notifiers.length === 0) {
+      return { success: true, sentCount: 0, failedCount: 0 };
+    }
+
+    const reminders: DueAttendanceReminder[] = await ctx.runQuery(
+      internal.attendanceReminders.listDueAttendanceReminders,
+      { now: Date.now(), siteUrl: process.env[ATTENDANCE_REMINDER_ENV.siteUrl] }
+    );
+
+    let sentCount = 0;
+    let failedCount = 0;
+    for (const reminder of reminders) {
+      for (const notifier of notifiers) {
+        if (reminder.completedChannels.includes(notifier.channel)) continue;
+        if (!notifier.canSend(reminder.message)) continue;
+
+        let error: string | undefined;
+        try {
+          await notifier.send(reminder.message);
+          sentCount++;
+        } catch (sendError) {
+          error = sendError instanceof Error ? sendError.message : 'Unknown error';
+          failedCount++;
+        }
+
+        await ctx.runMutation(internal.attendanceReminders.recordAttendanceReminder, {
+          eventId: reminder.eventId,
+          memberId: reminder.memberId,
+          channel: notifier.channel,
+          status: error ? 'failed' : 'sent',
+          error,
+        });
+      }
+    }
+
+    return { success: true, sentCount, failedCount };
+  },
+});
+
+/**
+ * Lists the roster members to remind: active members who have not opted out or responded,
+ * for unarchived events whose RSVP deadline is within the reminder lead time.
+ * @param now - The current time
+ * @param siteUrl - Optional base URL of the web app, used to link to the event
+ * @returns The reminders to send, with the channels each member was already reached through
+ */
+export const listDueAttendanceReminders = internalQuery({
+  args: {
+    now: v.number(),
+    siteUrl: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<DueAttendanceReminder[]> => {
+    const events = await ctx.db
+      .query('attendanceEvents')
+      .withIndex('by_rsvp_deadline', (q) =>
+        q
+          .gt('rsvpDeadline', args.now)
+          .lte('rsvpDeadline', args.now + ATTENDANCE_REMINDER_LEAD_TIME_MS)
+      )
+      .collect();
+
+    const reminders: DueAttendanceReminder[] = [];
+    for (const event of events) {
+      const groupId = event.groupId;
+      if (event.isArchived || !groupId || event.rsvpDeadline === undefined) continue;
+
+      const members = await ctx.db
+        .query('attendanceGroupMembers')
+        .withIndex('by_group', (q) => q.eq('groupId', groupId))
+        .collect();
+      const records = await ctx.db
+        .query('attendanceRecords')
+        .withIndex('by_attendance', (q) => q.eq('attendanceKey', event.attendanceKey))
+        .collect();
+      const previousReminders = await ctx.db
+        .query('attendanceReminders')
+        .withIndex('by_event', (q) => q.eq('eventId', event._id))
+        .collect();
+
+      for (const member of members) {
+        if (!member.isActive || member.remindersOptedOut) continue;
+        if (_hasResponded(member, records)) continue;
+
+        const memberReminders = previousReminders.filter(
+          (reminder) => reminder.memberId === member._id
+        );
+        const completedChannels = (['email', 'webhook'] as const).filter((channel) => {
+          const attempts = memberReminders.filter((reminder) => reminder.channel === channel);
+          return (
+            attempts.some((reminder) => reminder.status === 'sent') ||
+            attempts.length >= _MAX_FAILED_ATTEMPTS
+          );
+        });
+
+        const linkedUser = member.userId ? await ctx.db.get('users', member.userId) : null;
+        reminders.push({
+          eventId: event._id,
+          memberId: member._id,
+          completedChannels,
+          message: {
+            recipientName: member.name,
+            recipientEmail:
+              member.email ?? (linkedUser?.type === 'full' ? linkedUser.email : undefined),
+            eventTitle: event.title,
+            eventDate: event.date,
+            location: event.location,
+            rsvpDeadline: event.rsvpDeadline,
+            responseUrl: args.siteUrl
+              ? `${args.siteUrl.replace(/\/+$/, '')}/attendance/${event._id}`
+              : undefined,
+          },
+        });
+      }
+    }
+
+    return reminders;
+  },
+});
+
+/**
+ * Records an attempt to remind a roster member in the reminder history.
+ */
+export const recordAttendanceReminder = internalMutation({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    memberId: v.id('attendanceGroupMembers'),
+    channel: v.union(v.literal('email'), v.literal('webhook')),
+    status: v.union(v.literal('sent'), v.literal('failed')),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert('attendanceReminders', {
+      ...args,
+      sentAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Retrieves the reminders sent for an event, newest first.
+ * Only available to the host of the event and system administrators.
+ * @param eventId - The ID of the attendance event
+ * @returns The reminder history of the event
+ */
+export const getAttendanceReminderHistory = query({
+  args: {
+    eventId: v.id('attendanceEvents'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<AttendanceReminderHistoryEntry[]> => {
+    const event = await ctx.db.get('attendanceEvents', args.eventId);
+    if (!event) {
+      throw new ConvexError('Attendance event not found');
+    }
+    const user = await getAuthUserOptional(ctx, args);
+    if (!canManageAttendanceResource(user, event.ownerId)) {
+      throw new ConvexError('Not authorized to view the reminders of this attendance event');
+    }
+
+    const reminders = await ctx.db
+      .query('attendanceReminders')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect();
+
+    const memberNames = new Map<Id<'attendanceGroupMembers'>, string>();
+    for (const reminder of reminders) {
+      if (!memberNames.has(reminder.memberId)) {
+        const member = await ctx.db.get('attendanceGroupMembers', reminder.memberId);
+        memberNames.set(reminder.memberId, member?.name ?? 'Removed member');
+      }
+    }
+
+    return reminders
+      .sort((a, b) => b.sentAt - a.sentAt)
+      .map((reminder) => ({
+        _id: reminder._id,
+        memberName: memberNames.get(reminder.memberId) ?? 'Removed member',
+        channel: reminder.channel,
+        status: reminder.status,
+        error: reminder.error ?? null,
+        sentAt: reminder.sentAt,
+      }));
+  },
+});
+
+/**
+ * Opts a roster member in or out of attendance reminders.
+ * Members linked to a user account can change this themselves; otherwise the group's
+ * owner or a system administrator can change it for them.
+ * @param memberId - The ID of the roster member
+ * @param optedOut - Whether the member should stop receiving reminders
+ * @returns Success status
+ */
+export const setAttendanceReminderOptOut = mutation({
+  args: {
+    memberId: v.id('attendanceGroupMembers'),
+    optedOut: v.boolean(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get('attendanceGroupMembers', args.memberId);
+    if (!member) {
+      throw new ConvexError('Roster member not found');
+    }
+
+    const user = await getAuthUserOptional(ctx, args);
+    const isSelf = Boolean(user && member.userId === user._id);
+    if (!isSelf) {
+      await getManageableAttendanceGroup(ctx, {
+        groupId: member.groupId,
+        sessionId: args.sessionId,
+      });
+    }
+
+    await ctx.db.patch('attendanceGroupMembers', member._id, {
+      remindersOptedOut: args.optedOut,
+    });
+    return { success: true };
+  },
+});
+
+// Internal helper functions
+/**
+ * Checks whether a roster member has responded, by name, linked account or as a guest.
+ */
+function _hasResponded(
+  member: Doc<'attendanceGroupMembers'>,
+  records: Doc<'attendanceRecords'>[]
+): boolean {
+  return records.some(
+    (record) =>
+      record.status !== undefined &&
+      (record.name === member.name ||
+        (member.userId !== undefined && record.userId === member.userId) ||
+        record.guests?.some((guest) => guest.name === member.name))
+  );
+}
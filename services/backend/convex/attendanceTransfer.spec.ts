@@ -0,0 +1,171 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+import { formatAttendanceCsv } from '../modules/attendance/transfer';
+
+test('imported sign-in sheets can be exported again', async () => {
+  const sessionId = 'attendance-transfer-owner' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+  await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Paper Sheet Meeting',
+    attendanceKey: 'paper-sheet-meeting',
+  });
+
+  const content = [
+    'name,status,attendanceMark,reason,remarks,isManuallyJoined,timestamp',
+    'Alice,attending,late,,"Bringing snacks, drinks",false,2024-01-05T12:00:00.000Z',
+    'Bob,not_attending,,Travelling,,true,2024-01-05T12:05:00.000Z',
+  ].join('\n');
+  const result = await t.mutation(api.attendanceTransfer.importAttendanceRecords, {
+    sessionId,
+    content,
+    format: 'csv',
+    attendanceKey: 'paper-sheet-meeting',
+  });
+  expect(result).toEqual({ success: true, importedCount: 2, errors: [] });
+
+  const rows = await t.query(api.attendanceTransfer.exportAttendanceRecords, {
+    sessionId,
+    attendanceKey: 'paper-sheet-meeting',
+  });
+  expect(formatAttendanceCsv(rows)).toBe(
+    [
+      'attendanceKey,name,status,attendanceMark,reason,remarks,isManuallyJoined,guests,guestNames,timestamp',
+      'paper-sheet-meeting,Alice,attending,late,,"Bringing snacks, drinks",false,0,,2024-01-05T12:00:00.000Z',
+      'paper-sheet-meeting,Bob,not_attending,,Travelling,,true,0,,2024-01-05T12:05:00.000Z',
+      '',
+    ].join('\n')
+  );
+});
+
+test('imports report per-row errors without importing anything', async () => {
+  const sessionId = 'attendance-transfer-errors' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+  await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Validated Meeting',
+    attendanceKey: 'validated-meeting',
+  });
+
+  const result = await t.mutation(api.attendanceTransfer.importAttendanceRecords, {
+    sessionId,
+    content: JSON.stringify([
+      { name: 'Carol', status: 'attending' },
+      { name: '', status: 'perhaps' },
+      { name: 'Dave', status: 'attending', attendanceKey: 'someone-elses-key' },
+    ]),
+    format: 'json',
+    attendanceKey: 'validated-meeting',
+  });
+  expect(result.success).toBe(false);
+  expect(result.importedCount).toBe(0);
+  expect(result.errors).toEqual([
+    { row: 2, message: 'Name is required' },
+    { row: 2, message: 'Status must be "attending", "not_attending" or "maybe"' },
+    { row: 3, message: 'No attendance event exists for someone-elses-key' },
+  ]);
+
+  const rows = await t.query(api.attendanceTransfer.exportAttendanceRecords, {
+    sessionId,
+    attendanceKey: 'validated-meeting',
+  });
+  expect(rows).toEqual([]);
+});
+
+test('people marked without responding are exported and imported with their mark alone', async () => {
+  const sessionId = 'attendance-transfer-marks' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+  const eventId = await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId,
+    title: 'Walk-in Meeting',
+    attendanceKey: 'walk-in-meeting',
+  });
+  await t.mutation(api.attendance.markAttendance, {
+    sessionId,
+    eventId,
+    name: 'Erin',
+    mark: 'absent',
+  });
+
+  const rows = await t.query(api.attendanceTransfer.exportAttendanceRecords, {
+    sessionId,
+    attendanceKey: 'walk-in-meeting',
+  });
+  expect(rows).toEqual([expect.objectContaining({ name: 'Erin', attendanceMark: 'absent' })]);
+  expect(rows[0]?.status).toBeUndefined();
+  const content = formatAttendanceCsv(rows);
+  expect(content).toContain('walk-in-meeting,Erin,,absent,');
+
+  const result = await t.mutation(api.attendanceTransfer.importAttendanceRecords, {
+    sessionId,
+    content,
+    format: 'csv',
+  });
+  expect(result).toEqual({ success: true, importedCount: 1, errors: [] });
+  expect(
+    await t.query(api.attendanceTransfer.exportAttendanceRecords, {
+      sessionId,
+      attendanceKey: 'walk-in-meeting',
+    })
+  ).toEqual(rows);
+
+  // Rows still need either a response or a mark
+  const invalid = await t.mutation(api.attendanceTransfer.importAttendanceRecords, {
+    sessionId,
+    content: JSON.stringify([{ name: 'Frank' }]),
+    format: 'json',
+    attendanceKey: 'walk-in-meeting',
+  });
+  expect(invalid.errors).toEqual([{ row: 1, message: 'Status or attendance mark is required' }]);
+});
+
+test('re-importing a response keeps who gave it, their check-in and their guests', async () => {
+  const hostSessionId = 'attendance-transfer-reimport-host' as SessionId;
+  const guestSessionId = 'attendance-transfer-reimport-guest' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId: hostSessionId });
+  const guestLogin = await t.mutation(api.auth.loginAnon, { sessionId: guestSessionId });
+  await t.mutation(api.attendanceEvents.createAttendanceEvent, {
+    sessionId: hostSessionId,
+    title: 'Household Meeting',
+    attendanceKey: 'household-meeting',
+  });
+  const recordId = await t.mutation(api.attendance.recordAttendance, {
+    sessionId: guestSessionId,
+    attendanceKey: 'household-meeting',
+    name: 'Grace',
+    status: 'attending',
+    self: true,
+    isManuallyJoined: false,
+    guests: [{ name: 'Heidi' }, {}],
+  });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('attendanceRecords', recordId, { checkedInAt: 1704456000000 });
+  });
+
+  const rows = await t.query(api.attendanceTransfer.exportAttendanceRecords, {
+    sessionId: hostSessionId,
+    attendanceKey: 'household-meeting',
+  });
+  const content = formatAttendanceCsv(rows);
+  expect(content).toContain(',2,Heidi,');
+
+  // The host corrects the response on the sheet and imports it again
+  const result = await t.mutation(api.attendanceTransfer.importAttendanceRecords, {
+    sessionId: hostSessionId,
+    content: content.replace('Grace,attending,', 'Grace,maybe,'),
+    format: 'csv',
+  });
+  expect(result).toEqual({ success: true, importedCount: 1, errors: [] });
+
+  const record = await t.run(async (ctx) => await ctx.db.get('attendanceRecords', recordId));
+  expect(record).toMatchObject({
+    status: 'maybe',
+    userId: guestLogin.userId,
+    ownerSessionId: guestSessionId,
+    checkedInAt: 1704456000000,
+    guests: [{ name: 'Heidi' }, {}],
+  });
+});
@@ -0,0 +1,256 @@
+import { ConvexError, v } from 'convex/values';
+import { SessionIdArg } from 'convex-helpers/server/sessions';
+
+import type { Doc, Id } from './_generated/dataModel';
+import { mutation, query } from './_generated/server';
+import {
+  canManageAttendanceResource,
+  isAttendanceRecordOwner,
+} from '../modules/attendance/accessControl';
+import { logAttendanceChange } from '../modules/attendance/auditLog';
+import {
+  type AttendanceImportError,
+  type AttendanceImportResult,
+  type AttendanceTransferRow,
+  parseAttendanceImport,
+  validateAttendanceImportRow,
+} from '../modules/attendance/transfer';
+import { isSystemAdmin } from '../modules/auth/accessControl';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+
+/**
+ * Exports attendance records for a single session, or for every event the current user
+ * manages within a date range. Single sessions are as visible as their attendance list.
+ * @param attendanceKey - Optional attendance key of a single session to export
+ * @param from - Optional start of the date range, inclusive
+ * @param to - Optional end of the date range, inclusive
+ * @returns Rows ordered by session date and then response time
+ */
+export const exportAttendanceRecords = query({
+  args: {
+    attendanceKey: v.optional(v.string()),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<AttendanceTransferRow[]> => {
+    let attendanceKeys: string[];
+    if (args.attendanceKey) {
+      attendanceKeys = [args.attendanceKey];
+    } else {
+      const user = await getAuthUserOptional(ctx, args);
+      if (!user) {
+        throw new ConvexError('You must be logged in to export attendance records');
+      }
+
+      const events = isSystemAdmin(user)
+        ? await ctx.db.query('attendanceEvents').collect()
+        : await ctx.db
+            .query('attendanceEvents')
+            .withIndex('by_owner', (q) => q.eq('ownerId', user._id))
+            .collect();
+      attendanceKeys = events
+        .filter((event) => _isInDateRange(event, args.from, args.to))
+        .sort((a, b) => (a.date ?? a.createdAt) - (b.date ?? b.createdAt))
+        .map((event) => event.attendanceKey);
+    }
+
+    const rows: AttendanceTransferRow[] = [];
+    for (const attendanceKey of attendanceKeys) {
+      const records = await ctx.db
+        .query('attendanceRecords')
+        .withIndex('by_attendance', (q) => q.eq('attendanceKey', attendanceKey))
+        .collect();
+      for (const record of records.sort((a, b) => a.timestamp - b.timestamp)) {
+        // People marked without responding are exported with their mark alone
+        if (!record.status && !record.attendanceMark) continue;
+        rows.push({
+          attendanceKey,
+          name: record.name ?? '',
+          status: record.status,
+          attendanceMark: record.attendanceMark,
+          reason: record.reason,
+          remarks: record.remarks,
+          isManuallyJoined: record.isManuallyJoined ?? false,
+          guests: record.guests,
+          timestamp: record.timestamp,
+        });
+      }
+    }
+
+    return rows;
+  },
+});
+
+/**
+ * Bulk-imports attendance records from a CSV or JSON file, such as a past paper sign-in sheet.
+ * Every row is validated first; if any row has errors nothing is imported and the errors are
+ * returned with their 1-based row numbers (excluding the CSV header). Imported rows update the
+ * existing record with the same name in place, so that it keeps who responded and when they
+ * checked in. A blank status, attendance mark or guests column keeps the stored value.
+ * @param content - The content of the import file
+ * @param format - Whether the content is CSV or JSON
+ * @param attendanceKey - Attendance key used for rows that do not specify one
+ * @returns The number of imported rows and any per-row errors
+ */
+export const importAttendanceRecords = mutation({
+  args: {
+    content: v.string(),
+    format: v.union(v.literal('csv'), v.literal('json')),
+    attendanceKey: v.optional(v.string()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<AttendanceImportResult> => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      throw new ConvexError('You must be logged in to import attendance records');
+    }
+
+    let rawRows: Record<string, unknown>[];
+    try {
+      rawRows = parseAttendanceImport(args.content, args.format);
+    } catch (error) {
+      throw new ConvexError(
+        `Could not read the import file: ${error instanceof Error ? error.message : 'unknown error'}`
+      );
+    }
+    if (rawRows.length === 0) {
+      throw new ConvexError('The import file does not contain any rows');
+    }
+
+    const errors: AttendanceImportError[] = [];
+    const rows: AttendanceTransferRow[] = [];
+    const seenNames = new Set<string>();
+    const authorizedKeys = new Map<string, string | null>();
+
+    for (const [index, rawRow] of rawRows.entries()) {
+      const rowNumber = index + 1;
+      const result = validateAttendanceImportRow(rawRow, args.attendanceKey?.trim());
+      if ('errors' in result) {
+        errors.push(...result.errors.map((message) => ({ row: rowNumber, message })));
+        continue;
+      }
+
+      const { row } = result;
+      if (!authorizedKeys.has(row.attendanceKey)) {
+        const event = await ctx.db
+          .query('attendanceEvents')
+          .withIndex('by_attendance_key', (q) => q.eq('attendanceKey', row.attendanceKey))
+          .first();
+        authorizedKeys.set(
+          row.attendanceKey,
+          _getImportDenialReason(user, event, row.attendanceKey)
+        );
+      }
+      const denialReason = authorizedKeys.get(row.attendanceKey);
+      if (denialReason) {
+        errors.push({ row: rowNumber, message: denialReason });
+        continue;
+      }
+
+      // Each person can only have one response per session
+      const nameKey = `${row.attendanceKey}\n${row.name}`;
+      if (seenNames.has(nameKey)) {
+        errors.push({ row: rowNumber, message: `Duplicate response for ${row.name}` });
+        continue;
+      }
+      seenNames.add(nameKey);
+      rows.push(row);
+    }
+
+    if (errors.length > 0) {
+      return { success: false, importedCount: 0, errors };
+    }
+
+    const actor = { user, sessionId: args.sessionId };
+    for (const row of rows) {
+      const existingRecords = await ctx.db
+        .query('attendanceRecords')
+        .withIndex('by_name_attendance', (q) =>
+          q.eq('attendanceKey', row.attendanceKey).eq('name', row.name)
+        )
+        .collect();
+      const [existing, ...duplicates] = existingRecords;
+      await Promise.all(duplicates.map((record) => ctx.db.delete('attendanceRecords', record._id)));
+
+      const fields = _getImportedFields(row, existing, user);
+      let recordId: Id<'attendanceRecords'>;
+      if (existing) {
+        recordId = existing._id;
+        await ctx.db.patch('attendanceRecords', recordId, fields);
+      } else {
+        // Imported records have no owner, so that people can still change their own response
+        recordId = await ctx.db.insert('attendanceRecords', {
+          attendanceKey: row.attendanceKey,
+          name: row.name,
+          ...fields,
+        });
+      }
+      await logAttendanceChange(ctx, {
+        action: 'imported',
+        attendanceKey: row.attendanceKey,
+        recordId,
+        name: row.name,
+        actor,
+        isOverride: existingRecords.some((record) => !isAttendanceRecordOwner(record, actor)),
+        before: existingRecords[0],
+        after: { status: row.status, attendanceMark: row.attendanceMark },
+      });
+    }
+
+    return { success: true, importedCount: rows.length, errors: [] };
+  },
+});
+
+// Internal helper functions
+/**
+ * Gets the fields an imported row sets on a record. Responses, marks and guests the row leaves
+ * blank are kept, and the mark is only attributed to the importer when it changes.
+ */
+function _getImportedFields(
+  row: AttendanceTransferRow,
+  existing: Doc<'attendanceRecords'> | undefined,
+  user: Doc<'users'>
+): Pick<Doc<'attendanceRecords'>, 'timestamp' | 'isManuallyJoined'> &
+  Partial<Doc<'attendanceRecords'>> {
+  const status = row.status ?? existing?.status;
+  const guests = status === 'not_attending' ? [] : (row.guests ?? existing?.guests ?? []);
+  return {
+    timestamp: row.timestamp,
+    isManuallyJoined: row.isManuallyJoined,
+    ...(row.status && { status: row.status, reason: row.reason, remarks: row.remarks }),
+    guests: guests.length > 0 ? guests : undefined,
+    ...(row.attendanceMark &&
+      row.attendanceMark !== existing?.attendanceMark && {
+        attendanceMark: row.attendanceMark,
+        markedBy: user._id,
+        markedAt: Date.now(),
+      }),
+  };
+}
+
+/**
+ * Checks whether an event falls within an optional, inclusive date range.
+ * Events without a date are placed at their creation time.
+ */
+function _isInDateRange(event: Doc<'attendanceEvents'>, from?: number, to?: number): boolean {
+  const date = event.date ?? event.createdAt;
+  return (from === undefined || date >= from) && (to === undefined || date <= to);
+}
+
+/**
+ * Explains why a user cannot import into an attendance key, or returns null if they can.
+ * Keys with an event require the user to manage the event; other keys require a system admin.
+ */
+function _getImportDenialReason(
+  user: Doc<'users'>,
+  event: Doc<'attendanceEvents'> | null,
+  attendanceKey: string
+): string | null {
+  if (event) {
+    return canManageAttendanceResource(user, event.ownerId)
+      ? null
+      : `Not authorized to import into ${attendanceKey}`;
+  }
+  return isSystemAdmin(user) ? null : `No attendance event exists for ${attendanceKey}`;
+}
@@ -19,6 +19,7 @@ export interface AllCleanupResults {
   results: {
     loginRequests: LoginRequestsCleanupResult;
     loginCodes: CleanupResult;
+    attendanceCheckInCodes: CleanupResult;
   };
 }
 
@@ -128,6 +129,35 @@ export const cleanupExpiredLoginCodes = internalMutation({
   },
 });
 
+/**
+ * Cleanup task for expired attendance check-in codes.
+ * This can be called periodically to clean up check-in codes that have rotated out.
+ */
+export const cleanupExpiredCheckInCodes = internalMutation({
+  args: {},
+  handler: async (ctx, _args): Promise<CleanupResult> => {
+    const now = Date.now();
+
+    // Find expired check-in codes
+    const expiredCodes = await ctx.db
+      .query('attendanceCheckInCodes')
+      .filter((q) => q.lt(q.field('expiresAt'), now))
+      .collect();
+
+    // Delete expired codes
+    let deletedCount = 0;
+    for (const code of expiredCodes) {
+      await ctx.db.delete('attendanceCheckInCodes', code._id);
+      deletedCount++;
+    }
+
+    return {
+      success: true,
+      deletedCount,
+    };
+  },
+});
+
 /**
  * Master cleanup function that runs all cleanup tasks.
  */
@@ -137,6 +167,10 @@ export const runAllCleanupTasks = internalMutation({
     const results = {
       loginRequests: await ctx.runMutation(internal.cleanupTasks.cleanupExpiredLoginRequests, {}),
       loginCodes: await ctx.runMutation(internal.cleanupTasks.cleanupExpiredLoginCodes, {}),
+      attendanceCheckInCodes: await ctx.runMutation(
+        internal.cleanupTasks.cleanupExpiredCheckInCodes,
+        {}
+      ),
     };
 
     return {
@@ -148,7 +182,10 @@ export const runAllCleanupTasks = internalMutation({
 
 // Internal helper functions
 /**
- * Registers cron jobs for automatic cleanup of expired authentication data.
+ * Registers cron jobs for automatic cleanup of expired authentication data and check-in codes,
+ * for generating upcoming sessions of recurring attendance events, for sending
+ * attendance reminders, and for releasing presentations whose presenter disconnected and
+ * removing presentation viewers and reactions that are no longer shown.
  */
 const _registerCleanupCronJobs = (): typeof cleanupCronJobs => {
   const cleanupCronJobs = cronJobs();
@@ -160,6 +197,42 @@ const _registerCleanupCronJobs = (): typeof cleanupCronJobs => {
     internal.cleanupTasks.runAllCleanupTasks
   );
 
+  // Generate the next session of recurring attendance events every 10 minutes
+  cleanupCronJobs.interval(
+    'generate recurring attendance events',
+    { minutes: 10 },
+    internal.attendanceEvents.generateRecurringAttendanceEvents
+  );
+
+  // Remind roster members who have not responded to upcoming events every hour
+  cleanupCronJobs.interval(
+    'send attendance reminders',
+    { hours: 1 },
+    internal.attendanceReminders.sendAttendanceReminders
+  );
+
+  // Release presentations whose presenter stopped sending heartbeats every minute
+  cleanupCronJobs.interval(
+    'release stale presenters',
+    { minutes: 1 },
+    internal.presentations.releaseStalePresenters,
+    {}
+  );
+
+  // Remove viewers who closed a deck without leaving every 10 minutes
+  cleanupCronJobs.interval(
+    'cleanup stale presentation viewers',
+    { minutes: 10 },
+    internal.presentationPresence.cleanupStaleViewers
+  );
+
+  // Remove presentation reactions that finished floating over their slide every 10 minutes
+  cleanupCronJobs.interval(
+    'cleanup expired presentation reactions',
+    { minutes: 10 },
+    internal.presentationReactions.cleanupExpiredReactions
+  );
+
   return cleanupCronJobs;
 };
 
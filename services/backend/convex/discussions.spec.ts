@@ -0,0 +1,617 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+test('replies are threaded under their parent and reactions are counted per session', async () => {
+  const sessionId = 'discussions-threads' as SessionId;
+  const otherSessionId = 'discussions-threads-other' as SessionId;
+  const discussionKey = 'discussions-threads';
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId,
+    key: discussionKey,
+    title: 'Threads',
+  });
+
+  const parentId = await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId,
+    discussionKey,
+    name: 'Anna',
+    message: 'We should pray more',
+  });
+  const replyId = await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: otherSessionId,
+    discussionKey,
+    name: 'Ben',
+    message: 'Agreed',
+    parentMessageId: parentId,
+  });
+
+  // Replying to a reply continues the same thread
+  const nestedReplyId = await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId,
+    discussionKey,
+    name: 'Anna',
+    message: 'Every morning?',
+    parentMessageId: replyId,
+  });
+
+  await t.mutation(api.discussions.toggleDiscussionMessageReaction, {
+    sessionId,
+    messageId: parentId,
+    emoji: '👍',
+  });
+  await t.mutation(api.discussions.toggleDiscussionMessageReaction, {
+    sessionId: otherSessionId,
+    messageId: parentId,
+    emoji: '👍',
+  });
+  await expect(
+    t.mutation(api.discussions.toggleDiscussionMessageReaction, {
+      sessionId,
+      messageId: parentId,
+      emoji: '🔥',
+    })
+  ).rejects.toThrow('Unsupported reaction');
+
+  const messages = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId,
+    key: discussionKey,
+  });
+  const byId = new Map(messages.map((message) => [message._id, message]));
+  expect(byId.get(replyId)?.parentMessageId).toBe(parentId);
+  expect(byId.get(nestedReplyId)?.parentMessageId).toBe(parentId);
+  expect(byId.get(parentId)?.reactions).toEqual([{ emoji: '👍', count: 2, hasReacted: true }]);
+
+  // Reacting again takes the reaction back
+  const toggled = await t.mutation(api.discussions.toggleDiscussionMessageReaction, {
+    sessionId,
+    messageId: parentId,
+    emoji: '👍',
+  });
+  expect(toggled.hasReacted).toBe(false);
+
+  // Deleting a message deletes its thread
+  await t.mutation(api.discussions.deleteDiscussionMessage, { sessionId, messageId: parentId });
+  const remaining = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId,
+    key: discussionKey,
+  });
+  expect(remaining).toEqual([]);
+});
+
+test('only the author can edit a message, and the author or a moderator can delete it', async () => {
+  const moderatorSessionId = 'discussions-ownership-moderator' as SessionId;
+  const authorSessionId = 'discussions-ownership-author' as SessionId;
+  const otherSessionId = 'discussions-ownership-other' as SessionId;
+  const discussionKey = 'discussions-ownership';
+  // Only admins and the presenters of a deck run its discussions
+  const adminLogin = await t.mutation(api.auth.loginAnon, { sessionId: moderatorSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', adminLogin.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: moderatorSessionId,
+    key: discussionKey,
+    title: 'Ownership',
+  });
+
+  const messageId = await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: authorSessionId,
+    discussionKey,
+    name: 'Anna',
+    message: 'First draft',
+  });
+
+  await expect(
+    t.mutation(api.discussions.editDiscussionMessage, {
+      sessionId: otherSessionId,
+      messageId,
+      message: 'Hijacked',
+    })
+  ).rejects.toThrow('Only the author can edit this message');
+  await expect(
+    t.mutation(api.discussions.deleteDiscussionMessage, { sessionId: otherSessionId, messageId })
+  ).rejects.toThrow('Only the author or a facilitator can delete this message');
+
+  // Editing keeps the previous content in the history
+  await t.mutation(api.discussions.editDiscussionMessage, {
+    sessionId: authorSessionId,
+    messageId,
+    message: 'Second draft',
+  });
+  const [edited] = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId: authorSessionId,
+    key: discussionKey,
+  });
+  expect(edited).toMatchObject({
+    message: 'Second draft',
+    editedAt: expect.any(Number),
+    canEdit: true,
+    canDelete: true,
+    canViewEdits: true,
+  });
+
+  // Only the author and facilitators can see what the message said before
+  for (const sessionId of [authorSessionId, moderatorSessionId]) {
+    const edits = await t.query(api.discussions.getDiscussionMessageEdits, {
+      sessionId,
+      messageId,
+    });
+    expect(edits?.map((edit) => edit.previousMessage)).toEqual(['First draft']);
+  }
+  expect(
+    await t.query(api.discussions.getDiscussionMessageEdits, {
+      sessionId: otherSessionId,
+      messageId,
+    })
+  ).toBeNull();
+
+  const [seenByOther] = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId: otherSessionId,
+    key: discussionKey,
+  });
+  expect(seenByOther).toMatchObject({ canEdit: false, canDelete: false, canViewEdits: false });
+
+  // The owner can delete messages they did not write
+  await t.mutation(api.discussions.deleteDiscussionMessage, {
+    sessionId: moderatorSessionId,
+    messageId,
+  });
+  const remaining = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId: moderatorSessionId,
+    key: discussionKey,
+  });
+  expect(remaining).toEqual([]);
+});
+
+test('facilitators run the discussion, mute participants, pin messages and lock it', async () => {
+  const ownerSessionId = 'discussions-roles-owner' as SessionId;
+  const facilitatorSessionId = 'discussions-roles-facilitator' as SessionId;
+  const participantSessionId = 'discussions-roles-participant' as SessionId;
+  const discussionKey = 'discussions-roles';
+  const presentationKey = 'discussions-roles-deck';
+  const conclusions = [{ text: 'Pray more', tags: ['decision'] }];
+
+  // The owner of the deck owns the discussion, whoever opened it first
+  const ownerLogin = await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.insert('presentations', {
+      key: presentationKey,
+      title: 'Roles',
+      date: '2025-06-01',
+      path: '/presentations/roles',
+      visibility: 'public',
+      ownerId: ownerLogin.userId,
+      updatedAt: Date.now(),
+    });
+  });
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+    title: 'Roles',
+    presentationKey,
+  });
+
+  const facilitatorMessageId = await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: facilitatorSessionId,
+    discussionKey,
+    name: 'Ben',
+    message: 'I can lead this',
+  });
+  const participantMessageId = await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: participantSessionId,
+    discussionKey,
+    name: 'Cara',
+    message: 'Off topic',
+  });
+
+  // Participants cannot run the discussion or see who takes part
+  await expect(
+    t.mutation(api.discussions.concludeDiscussion, {
+      sessionId: participantSessionId,
+      discussionKey,
+      conclusions,
+    })
+  ).rejects.toThrow('Only a facilitator can conclude this discussion');
+  expect(
+    await t.query(api.discussions.getDiscussionParticipants, {
+      sessionId: participantSessionId,
+      key: discussionKey,
+    })
+  ).toBeNull();
+
+  // The owner makes Ben a facilitator, identified by his message
+  await t.mutation(api.discussions.updateDiscussionParticipant, {
+    sessionId: ownerSessionId,
+    discussionKey,
+    participantId: facilitatorMessageId,
+    role: 'facilitator',
+  });
+  const state = await t.query(api.discussions.getDiscussionState, {
+    sessionId: facilitatorSessionId,
+    key: discussionKey,
+  });
+  expect(state).toMatchObject({ role: 'facilitator', canPost: true });
+  expect(state).not.toHaveProperty('participants');
+
+  // Only the owner can change facilitators
+  await expect(
+    t.mutation(api.discussions.updateDiscussionParticipant, {
+      sessionId: facilitatorSessionId,
+      discussionKey,
+      participantId: participantMessageId,
+      role: 'facilitator',
+    })
+  ).rejects.toThrow('Only the owner can change facilitators');
+
+  // The facilitator mutes Cara and pins a message
+  await t.mutation(api.discussions.updateDiscussionParticipant, {
+    sessionId: facilitatorSessionId,
+    discussionKey,
+    participantId: participantMessageId,
+    isMuted: true,
+  });
+  await expect(
+    t.mutation(api.discussions.addDiscussionMessage, {
+      sessionId: participantSessionId,
+      discussionKey,
+      name: 'Cara',
+      message: 'Still off topic',
+    })
+  ).rejects.toThrow('You have been muted in this discussion');
+  await t.mutation(api.discussions.setDiscussionMessagePinned, {
+    sessionId: facilitatorSessionId,
+    messageId: facilitatorMessageId,
+    isPinned: true,
+  });
+
+  const participants = await t.query(api.discussions.getDiscussionParticipants, {
+    sessionId: facilitatorSessionId,
+    key: discussionKey,
+  });
+  expect(participants).toEqual(
+    expect.arrayContaining([
+      expect.objectContaining({ name: 'Ben', role: 'facilitator', isMuted: false }),
+      expect.objectContaining({ name: 'Cara', role: 'participant', isMuted: true }),
+    ])
+  );
+  const messages = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId: facilitatorSessionId,
+    key: discussionKey,
+  });
+  expect(messages.find((message) => message._id === facilitatorMessageId)?.pinnedAt).toEqual(
+    expect.any(Number)
+  );
+
+  // Locking makes the discussion read-only, for facilitators too
+  await t.mutation(api.discussions.setDiscussionLocked, {
+    sessionId: facilitatorSessionId,
+    discussionKey,
+    isLocked: true,
+  });
+  await expect(
+    t.mutation(api.discussions.addDiscussionMessage, {
+      sessionId: ownerSessionId,
+      discussionKey,
+      name: 'Anna',
+      message: 'One more thing',
+    })
+  ).rejects.toThrow('Discussion is locked');
+
+  // Facilitators conclude and reopen the discussion
+  await t.mutation(api.discussions.concludeDiscussion, {
+    sessionId: facilitatorSessionId,
+    discussionKey,
+    conclusions,
+  });
+  await t.mutation(api.discussions.reopenDiscussion, {
+    sessionId: facilitatorSessionId,
+    discussionKey,
+  });
+  const reopened = await t.query(api.discussions.getDiscussionState, {
+    sessionId: ownerSessionId,
+    key: discussionKey,
+  });
+  expect(reopened).toMatchObject({ isActive: true, isLocked: true, role: 'owner' });
+});
+
+test('anonymous discussions post under a stable pseudonym and never expose sessions', async () => {
+  const sessionId = 'discussions-anonymous' as SessionId;
+  const otherSessionId = 'discussions-anonymous-other' as SessionId;
+  const discussionKey = 'discussions-anonymous';
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId,
+    key: discussionKey,
+    title: 'What do we struggle with?',
+    isAnonymous: true,
+  });
+
+  await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId,
+    discussionKey,
+    name: 'Anna',
+    message: 'Pride',
+  });
+  await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: otherSessionId,
+    discussionKey,
+    message: 'Impatience',
+  });
+  await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId,
+    discussionKey,
+    message: 'Worry',
+  });
+
+  const state = await t.query(api.discussions.getDiscussionState, {
+    sessionId,
+    key: discussionKey,
+  });
+  expect(state).toMatchObject({ isAnonymous: true, pseudonym: expect.any(String) });
+  expect(state).not.toHaveProperty('createdBy');
+
+  const messages = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId,
+    key: discussionKey,
+  });
+  const [worry, impatience, pride] = messages;
+  expect(pride?.name).toBe(state.pseudonym);
+  expect(worry?.name).toBe(state.pseudonym);
+  expect(impatience?.name).not.toBe(state.pseudonym);
+  expect(messages.map((message) => message.isOwn)).toEqual([true, false, true]);
+  for (const message of messages) {
+    expect(message).not.toHaveProperty('sessionId');
+    expect(message).not.toHaveProperty('userId');
+  }
+});
+
+test('messages answer the questions of a discussion, which facilitators move through', async () => {
+  const ownerSessionId = 'discussions-prompts-owner' as SessionId;
+  const participantSessionId = 'discussions-prompts-participant' as SessionId;
+  const discussionKey = 'discussions-prompts';
+  // Only admins and the presenters of a deck run its discussions
+  const adminLogin = await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', adminLogin.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: ownerSessionId,
+    key: discussionKey,
+    title: 'Reflection',
+    prompts: ['What do we struggle with?', ' ', 'How can we become aware of it?'],
+  });
+
+  const state = await t.query(api.discussions.getDiscussionState, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+  });
+  expect(state).toMatchObject({
+    prompts: ['What do we struggle with?', 'How can we become aware of it?'],
+    activePromptIndex: 0,
+  });
+
+  const firstAnswerId = await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: participantSessionId,
+    discussionKey,
+    name: 'Ben',
+    message: 'Pride',
+    promptIndex: 0,
+  });
+  await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: participantSessionId,
+    discussionKey,
+    name: 'Ben',
+    message: 'Reading the Word',
+    promptIndex: 1,
+  });
+  // Replies answer the same question as the message they reply to
+  await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: ownerSessionId,
+    discussionKey,
+    name: 'Anna',
+    message: 'Me too',
+    parentMessageId: firstAnswerId,
+    promptIndex: 1,
+  });
+  await expect(
+    t.mutation(api.discussions.addDiscussionMessage, {
+      sessionId: participantSessionId,
+      discussionKey,
+      name: 'Ben',
+      message: 'Lost',
+      promptIndex: 2,
+    })
+  ).rejects.toThrow('Question not found');
+
+  const firstQuestionMessages = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+    promptIndex: 0,
+  });
+  expect(firstQuestionMessages.map((message) => message.message)).toEqual(['Me too', 'Pride']);
+
+  // Only facilitators move the discussion to the next question
+  await expect(
+    t.mutation(api.discussions.setActiveDiscussionPrompt, {
+      sessionId: participantSessionId,
+      discussionKey,
+      promptIndex: 1,
+    })
+  ).rejects.toThrow('Only a facilitator can change the question of this discussion');
+  await t.mutation(api.discussions.setActiveDiscussionPrompt, {
+    sessionId: ownerSessionId,
+    discussionKey,
+    promptIndex: 1,
+  });
+  const advanced = await t.query(api.discussions.getDiscussionState, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+  });
+  expect(advanced).toMatchObject({ activePromptIndex: 1 });
+});
+
+test('facilitators add questions to a discussion created without any, but never replace them', async () => {
+  const ownerSessionId = 'discussions-late-prompts-owner' as SessionId;
+  const participantSessionId = 'discussions-late-prompts-participant' as SessionId;
+  const discussionKey = 'discussions-late-prompts';
+  const ownerLogin = await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', ownerLogin.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: ownerSessionId,
+    key: discussionKey,
+    title: 'Reflection',
+  });
+  await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: participantSessionId,
+    discussionKey,
+    name: 'Ben',
+    message: 'Posted before the questions',
+  });
+
+  // Participants cannot add questions
+  const prompts = ['What do we struggle with?', 'How can we become aware of it?'];
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+    title: 'Reflection',
+    prompts: ['Which question would you like?'],
+  });
+  const ignored = await t.query(api.discussions.getDiscussionState, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+  });
+  expect(ignored?.prompts).toEqual([]);
+
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: ownerSessionId,
+    key: discussionKey,
+    title: 'Reflection',
+    prompts,
+  });
+  const state = await t.query(api.discussions.getDiscussionState, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+  });
+  expect(state).toMatchObject({ prompts, activePromptIndex: 0 });
+
+  // Earlier messages answer the first question, so they are still shown
+  const firstQuestionMessages = await t.query(api.discussions.getDiscussionMessages, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+    promptIndex: 0,
+  });
+  expect(firstQuestionMessages.map((message) => message.message)).toEqual([
+    'Posted before the questions',
+  ]);
+
+  // Questions a discussion already has are kept
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: ownerSessionId,
+    key: discussionKey,
+    title: 'Reflection',
+    prompts: ['Something else entirely?'],
+  });
+  const unchanged = await t.query(api.discussions.getDiscussionState, {
+    sessionId: participantSessionId,
+    key: discussionKey,
+  });
+  expect(unchanged?.prompts).toEqual(prompts);
+});
+
+test('whoever creates a discussion cannot moderate it unless they present its deck', async () => {
+  const ownerSessionId = 'discussions-deck-owner' as SessionId;
+  const coPresenterSessionId = 'discussions-deck-co-presenter' as SessionId;
+  const viewerSessionId = 'discussions-deck-viewer' as SessionId;
+  const discussionKey = 'discussions-deck';
+  const presentationKey = 'discussions-deck-presentation';
+  const ownerLogin = await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  const coPresenterLogin = await t.mutation(api.auth.loginAnon, {
+    sessionId: coPresenterSessionId,
+  });
+  await t.mutation(api.auth.loginAnon, { sessionId: viewerSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.insert('presentations', {
+      key: presentationKey,
+      title: 'Deck Discussion',
+      date: '2025-06-01',
+      path: '/presentations/deck-discussion',
+      visibility: 'public',
+      ownerId: ownerLogin.userId,
+      coPresenterIds: [coPresenterLogin.userId],
+      updatedAt: Date.now(),
+    });
+  });
+
+  // A viewer opens the slide first, which creates the discussion
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: viewerSessionId,
+    key: discussionKey,
+    title: 'Questions',
+  });
+  const viewerState = await t.query(api.discussions.getDiscussionState, {
+    sessionId: viewerSessionId,
+    key: discussionKey,
+  });
+  expect(viewerState).toMatchObject({ role: 'participant' });
+  await expect(
+    t.mutation(api.discussions.concludeDiscussion, {
+      sessionId: viewerSessionId,
+      discussionKey,
+      conclusions: [],
+    })
+  ).rejects.toThrow('Only a facilitator can conclude this discussion');
+  await expect(
+    t.mutation(api.discussions.setDiscussionLocked, {
+      sessionId: viewerSessionId,
+      discussionKey,
+      isLocked: true,
+    })
+  ).rejects.toThrow('Only a facilitator can lock this discussion');
+  await expect(
+    t.mutation(api.discussions.setDiscussionAnonymous, {
+      sessionId: viewerSessionId,
+      discussionKey,
+      isAnonymous: true,
+    })
+  ).rejects.toThrow('Only a facilitator can change the privacy of this discussion');
+
+  // Viewers cannot add the discussion to a deck, but its presenters can
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: viewerSessionId,
+    key: discussionKey,
+    title: 'Questions',
+    presentationKey,
+  });
+  const unattached = await t.query(api.discussions.getDiscussionState, {
+    sessionId: coPresenterSessionId,
+    key: discussionKey,
+  });
+  expect(unattached).toMatchObject({ role: 'participant' });
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: coPresenterSessionId,
+    key: discussionKey,
+    title: 'Questions',
+    presentationKey,
+  });
+
+  // The deck's owner owns the discussion and its co-presenters facilitate it
+  const roles = await Promise.all(
+    [ownerSessionId, coPresenterSessionId, viewerSessionId].map(async (sessionId) => {
+      const state = await t.query(api.discussions.getDiscussionState, {
+        sessionId,
+        key: discussionKey,
+      });
+      return state.exists ? state.role : undefined;
+    })
+  );
+  expect(roles).toEqual(['owner', 'facilitator', 'participant']);
+  await t.mutation(api.discussions.setDiscussionLocked, {
+    sessionId: coPresenterSessionId,
+    discussionKey,
+    isLocked: true,
+  });
+});
@@ -1,9 +1,29 @@
 import { v } from 'convex/values';
-import { SessionIdArg } from 'convex-helpers/server/sessions';
-
-import { mutation, query } from './_generated/server';
-
-// Get the current state of a discussion
+import { type SessionId, SessionIdArg } from 'convex-helpers/server/sessions';
+
+import type { Doc, Id } from './_generated/dataModel';
+import { type MutationCtx, mutation, query, type QueryCtx } from './_generated/server';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+import {
+  canDeleteDiscussionMessage,
+  canFacilitateDiscussion,
+  canPostToDiscussion,
+  canViewDiscussionMessageEdits,
+  type DiscussionParticipantEntry,
+  type DiscussionRole,
+  findDiscussionParticipant,
+  getDiscussionRole,
+  isDiscussionMessageAuthor,
+} from '../modules/discussion/accessControl';
+import { getDiscussionPseudonym } from '../modules/discussion/pseudonyms';
+import {
+  countDiscussionReactions,
+  isDiscussionReactionEmoji,
+} from '../modules/discussion/reactions';
+import { canPresent } from '../modules/presentation/accessControl';
+
+// Get the current state of a discussion, with the role of the current session in it. Sessions
+// and users are never included
 export const getDiscussionState = query({
   args: {
     key: v.string(),
@@ -25,29 +45,221 @@ export const getDiscussionState = query({
       };
     }
 
+    // Participants are only listed to facilitators, by getDiscussionParticipants
+    const user = await getAuthUserOptional(ctx, args);
+    const presentation = await _getDiscussionPresentation(ctx, state);
     return {
-      ...state,
+      _id: state._id,
+      _creationTime: state._creationTime,
+      key: state.key,
+      title: state.title,
+      presentationKey: state.presentationKey,
+      prompts: state.prompts ?? [],
+      activePromptIndex: state.activePromptIndex ?? 0,
+      isActive: state.isActive,
+      createdAt: state.createdAt,
+      conclusions: state.conclusions,
+      concludedAt: state.concludedAt,
+      isLocked: state.isLocked ?? false,
+      isAnonymous: state.isAnonymous ?? false,
       exists: true,
+      role: getDiscussionRole(state, presentation, user, args.sessionId),
+      isMuted: !!findDiscussionParticipant(state, user, args.sessionId)?.isMuted,
+      canPost: canPostToDiscussion(state, presentation, user, args.sessionId),
+      // The name the current session posts under in an anonymous discussion
+      pseudonym: state.isAnonymous ? getDiscussionPseudonym(state.key, args.sessionId) : undefined,
     };
   },
 });
 
-// Get messages for a discussion
-export const getDiscussionMessages = query({
+// Get the people who posted to a discussion, and anyone given a role or muted in it, for its
+// facilitators to manage
+export const getDiscussionParticipants = query({
   args: {
     key: v.string(),
     ...SessionIdArg,
   },
   handler: async (ctx, args) => {
-    // Look up messages for this discussion
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+    if (!discussion) {
+      return null;
+    }
+
+    const user = await getAuthUserOptional(ctx, args);
+    const presentation = await _getDiscussionPresentation(ctx, discussion);
+    if (!canFacilitateDiscussion(discussion, presentation, user, args.sessionId)) {
+      return null;
+    }
+
     const messages = await ctx.db
       .query('discussionMessages')
       .withIndex('by_discussion', (q) => q.eq('discussionKey', args.key))
       .order('desc')
       .collect();
 
-    // Return messages in reverse chronological order (newest first)
-    return messages;
+    // Start with the stored participants, then add everyone else who posted, identified by
+    // their latest message; sessions are never exposed
+    const participants: {
+      participantId: string;
+      name: string;
+      role: DiscussionRole;
+      isMuted: boolean;
+      messageCount: number;
+    }[] = [];
+    const entries = new Map<string, DiscussionParticipantEntry>();
+    for (const entry of discussion.participants ?? []) {
+      entries.set(entry.participantId, entry);
+      participants.push({
+        participantId: entry.participantId,
+        name: entry.name,
+        role: entry.role,
+        isMuted: entry.isMuted,
+        messageCount: 0,
+      });
+    }
+
+    for (const message of messages) {
+      if (!message.sessionId) continue;
+      const author = _getMessageAuthor(message);
+      let participant = participants.find((candidate) => {
+        const entry = entries.get(candidate.participantId);
+        return !!entry && _isSameParticipant(entry, author);
+      });
+      if (!participant) {
+        participant = {
+          participantId: message._id,
+          name: message.name,
+          role: _getPresenterRole(presentation, author) ?? 'participant',
+          isMuted: false,
+          messageCount: 0,
+        };
+        participants.push(participant);
+        entries.set(participant.participantId, { ...author, participantId: message._id });
+      }
+      participant.messageCount++;
+    }
+
+    return participants;
+  },
+});
+
+// Get messages for a discussion, including replies, with the reactions to each message and
+// whether the current session wrote, can edit or can delete it. Who wrote a message is only
+// shown by its name, which is a pseudonym if it was posted anonymously. Pass a prompt index to
+// only get the messages answering that question
+export const getDiscussionMessages = query({
+  args: {
+    key: v.string(),
+    promptIndex: v.optional(v.number()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+
+    // Look up messages for this discussion, or for one of its questions
+    const promptIndex = args.promptIndex;
+    const messages = await (
+      promptIndex === undefined
+        ? ctx.db
+            .query('discussionMessages')
+            .withIndex('by_discussion', (q) => q.eq('discussionKey', args.key))
+        : ctx.db
+            .query('discussionMessages')
+            .withIndex('by_discussion_prompt', (q) =>
+              q.eq('discussionKey', args.key).eq('promptIndex', promptIndex)
+            )
+    )
+      .order('desc')
+      .collect();
+
+    // Group the reactions in the discussion by message
+    const reactions = await ctx.db
+      .query('discussionMessageReactions')
+      .withIndex('by_discussion', (q) => q.eq('discussionKey', args.key))
+      .collect();
+    const reactionsByMessage = new Map<string, typeof reactions>();
+    for (const reaction of reactions) {
+      const messageReactions = reactionsByMessage.get(reaction.messageId) ?? [];
+      messageReactions.push(reaction);
+      reactionsByMessage.set(reaction.messageId, messageReactions);
+    }
+
+    // Return messages in reverse chronological order (newest first); replies point to their
+    // parent message with parentMessageId
+    const presentation = await _getDiscussionPresentation(ctx, discussion);
+    const canPost =
+      !!discussion && canPostToDiscussion(discussion, presentation, user, args.sessionId);
+    return messages.map((message) => ({
+      _id: message._id,
+      _creationTime: message._creationTime,
+      discussionKey: message.discussionKey,
+      name: message.name,
+      message: message.message,
+      timestamp: message.timestamp,
+      parentMessageId: message.parentMessageId,
+      promptIndex: message.promptIndex,
+      editedAt: message.editedAt,
+      pinnedAt: message.pinnedAt,
+      isOwn: isDiscussionMessageAuthor(message, user, args.sessionId),
+      reactions: countDiscussionReactions(
+        reactionsByMessage.get(message._id) ?? [],
+        args.sessionId
+      ),
+      canEdit: canPost && isDiscussionMessageAuthor(message, user, args.sessionId),
+      canDelete:
+        !!discussion &&
+        canDeleteDiscussionMessage(message, discussion, presentation, user, args.sessionId),
+      canViewEdits: canViewDiscussionMessageEdits(
+        message,
+        discussion,
+        presentation,
+        user,
+        args.sessionId
+      ),
+    }));
+  },
+});
+
+// Get the edit history of a message, newest edit first - only its author and facilitators can
+// see what it said before
+export const getDiscussionMessageEdits = query({
+  args: {
+    messageId: v.id('discussionMessages'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get('discussionMessages', args.messageId);
+    if (!message) {
+      return null;
+    }
+    const user = await getAuthUserOptional(ctx, args);
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', message.discussionKey))
+      .first();
+    const presentation = await _getDiscussionPresentation(ctx, discussion);
+    if (!canViewDiscussionMessageEdits(message, discussion, presentation, user, args.sessionId)) {
+      return null;
+    }
+
+    const edits = await ctx.db
+      .query('discussionMessageEdits')
+      .withIndex('by_message', (q) => q.eq('messageId', args.messageId))
+      .order('desc')
+      .collect();
+
+    return edits.map((edit) => ({
+      _id: edit._id,
+      previousMessage: edit.previousMessage,
+      editedAt: edit.editedAt,
+    }));
   },
 });
 
@@ -74,16 +286,21 @@ export const getDiscussionConclusion = query({
       discussionKey: args.key,
       conclusions: discussion.conclusions,
       createdAt: discussion.concludedAt || 0,
-      createdBy: discussion.concludedBy,
     };
   },
 });
 
-// Create a new discussion
+// Create a new discussion, optionally with guiding questions and where people post anonymously.
+// Facilitators also add questions to an existing discussion that has none yet. Whoever creates the
+// discussion gets no role in it; the presenters of its deck run it
 export const createDiscussion = mutation({
   args: {
     key: v.string(),
     title: v.string(),
+    prompts: v.optional(v.array(v.string())),
+    isAnonymous: v.optional(v.boolean()),
+    // The deck the discussion is part of
+    presentationKey: v.optional(v.string()),
     ...SessionIdArg,
   },
   handler: async (ctx, args) => {
@@ -93,27 +310,76 @@ export const createDiscussion = mutation({
       .withIndex('by_key', (q) => q.eq('key', args.key))
       .first();
 
+    const prompts = (args.prompts ?? []).map((prompt) => prompt.trim()).filter(Boolean);
     if (existingDiscussion) {
-      // If it exists, return the existing discussion ID
-      return existingDiscussion._id;
+      const user = await getAuthUserOptional(ctx, args);
+      let discussion = existingDiscussion;
+
+      // Discussions created before they belonged to a deck are added to it by its presenters
+      if (!discussion.presentationKey && args.presentationKey) {
+        const presentationKey = args.presentationKey;
+        const presentation = await ctx.db
+          .query('presentations')
+          .withIndex('by_key', (q) => q.eq('key', presentationKey))
+          .first();
+        if (presentation && canPresent(user, presentation)) {
+          await ctx.db.patch('discussionState', discussion._id, { presentationKey });
+          discussion = { ...discussion, presentationKey };
+        }
+      }
+
+      // Only facilitators add questions; for everyone else the discussion is left as it is.
+      // Messages posted before the discussion had questions answer its first question, so that
+      // they are still shown
+      const presentation = await _getDiscussionPresentation(ctx, discussion);
+      if (
+        !discussion.prompts?.length &&
+        prompts.length > 0 &&
+        canFacilitateDiscussion(discussion, presentation, user, args.sessionId)
+      ) {
+        await ctx.db.patch('discussionState', discussion._id, {
+          prompts,
+          activePromptIndex: 0,
+        });
+        const messages = await ctx.db
+          .query('discussionMessages')
+          .withIndex('by_discussion', (q) => q.eq('discussionKey', args.key))
+          .collect();
+        await Promise.all(
+          messages
+            .filter((message) => message.promptIndex === undefined)
+            .map((message) => ctx.db.patch('discussionMessages', message._id, { promptIndex: 0 }))
+        );
+      }
+      return discussion._id;
     }
 
-    // Create a new discussion
+    // Create a new discussion, starting at its first question
     return await ctx.db.insert('discussionState', {
       key: args.key,
       title: args.title,
+      presentationKey: args.presentationKey,
+      prompts: prompts.length > 0 ? prompts : undefined,
+      activePromptIndex: prompts.length > 0 ? 0 : undefined,
       isActive: true,
       createdAt: Date.now(),
+      createdBy: args.sessionId,
+      isAnonymous: args.isAnonymous,
     });
   },
 });
 
-// Add a message to a discussion
+// Add a message to a discussion, optionally as a reply to another message or as an answer to
+// one of its questions. Replies answer the same question as the message they reply to. In an
+// anonymous discussion the message is posted under the session's pseudonym, and the name is
+// ignored
 export const addDiscussionMessage = mutation({
   args: {
     discussionKey: v.string(),
-    name: v.string(),
+    name: v.optional(v.string()),
     message: v.string(),
+    parentMessageId: v.optional(v.id('discussionMessages')),
+    promptIndex: v.optional(v.number()),
     ...SessionIdArg,
   },
   handler: async (ctx, args) => {
@@ -127,22 +393,46 @@ export const addDiscussionMessage = mutation({
       throw new Error('Discussion not found');
     }
 
-    if (!discussion.isActive) {
-      throw new Error('Discussion is no longer active');
+    const user = await getAuthUserOptional(ctx, args);
+    await _assertCanPost(ctx, discussion, user, args.sessionId);
+
+    // Replies to a reply are added to the same thread, under the message that started it
+    let parentMessageId: Id<'discussionMessages'> | undefined;
+    let promptIndex = args.promptIndex;
+    if (args.parentMessageId) {
+      const parent = await ctx.db.get('discussionMessages', args.parentMessageId);
+      if (!parent || parent.discussionKey !== args.discussionKey) {
+        throw new Error('Message to reply to not found');
+      }
+      parentMessageId = parent.parentMessageId ?? parent._id;
+      promptIndex = parent.promptIndex;
+    } else if (promptIndex !== undefined && !_isPromptIndex(discussion, promptIndex)) {
+      throw new Error('Question not found');
+    }
+
+    // Anonymous messages are only tied to the session, so neither the name nor the user is kept
+    const name = discussion.isAnonymous
+      ? getDiscussionPseudonym(args.discussionKey, args.sessionId)
+      : args.name?.trim();
+    if (!name) {
+      throw new Error('Name is required');
     }
 
-    // Add the message
+    // Add the message, owned by the session and, if logged in, the user
     return await ctx.db.insert('discussionMessages', {
       discussionKey: args.discussionKey,
-      name: args.name,
+      name,
       message: args.message,
       timestamp: Date.now(),
       sessionId: args.sessionId,
+      userId: discussion.isAnonymous ? undefined : user?._id,
+      parentMessageId,
+      promptIndex,
     });
   },
 });
 
-// Conclude a discussion
+// Conclude a discussion; only its facilitators can
 export const concludeDiscussion = mutation({
   args: {
     discussionKey: v.string(),
@@ -165,6 +455,8 @@ export const concludeDiscussion = mutation({
       throw new Error('Discussion not found');
     }
 
+    await _assertCanFacilitate(ctx, discussion, args, 'conclude');
+
     // Mark the discussion as inactive and add conclusions
     return await ctx.db.patch('discussionState', discussion._id, {
       isActive: false,
@@ -187,7 +479,7 @@ export const getDiscussionsForPresentation = query({
   },
 });
 
-// Reopen a concluded discussion
+// Reopen a concluded discussion; only its facilitators can
 export const reopenDiscussion = mutation({
   args: {
     discussionKey: v.string(),
@@ -204,6 +496,8 @@ export const reopenDiscussion = mutation({
       throw new Error('Discussion not found');
     }
 
+    await _assertCanFacilitate(ctx, discussion, args, 'reopen');
+
     // Already active
     if (discussion.isActive) {
       return discussion._id;
@@ -216,7 +510,8 @@ export const reopenDiscussion = mutation({
   },
 });
 
-// Delete a message from a discussion
+// Delete a message from a discussion; only its facilitators, or its author while the discussion
+// is not locked, can
 export const deleteDiscussionMessage = mutation({
   args: {
     messageId: v.id('discussionMessages'),
@@ -244,14 +539,322 @@ export const deleteDiscussionMessage = mutation({
       throw new Error('Cannot delete messages from a concluded discussion');
     }
 
+    const user = await getAuthUserOptional(ctx, args);
+    const presentation = await _getDiscussionPresentation(ctx, discussion);
+    if (!canDeleteDiscussionMessage(message, discussion, presentation, user, args.sessionId)) {
+      throw new Error(
+        discussion.isLocked
+          ? 'Discussion is locked'
+          : 'Only the author or a facilitator can delete this message'
+      );
+    }
+
+    // Delete the replies to the message along with it
+    const replies = await ctx.db
+      .query('discussionMessages')
+      .withIndex('by_discussion', (q) => q.eq('discussionKey', message.discussionKey))
+      .filter((q) => q.eq(q.field('parentMessageId'), args.messageId))
+      .collect();
+    for (const reply of replies) {
+      await _deleteMessage(ctx, reply._id);
+    }
+
     // Delete the message
-    await ctx.db.delete('discussionMessages', args.messageId);
+    await _deleteMessage(ctx, args.messageId);
 
     return true;
   },
 });
 
-// Update conclusions for a discussion
+// Edit a message, keeping its previous content in the edit history; only its author can
+export const editDiscussionMessage = mutation({
+  args: {
+    messageId: v.id('discussionMessages'),
+    message: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get('discussionMessages', args.messageId);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', message.discussionKey))
+      .first();
+    if (!discussion) {
+      throw new Error('Discussion not found');
+    }
+    if (!discussion.isActive) {
+      throw new Error('Cannot edit messages in a concluded discussion');
+    }
+
+    const user = await getAuthUserOptional(ctx, args);
+    if (!isDiscussionMessageAuthor(message, user, args.sessionId)) {
+      throw new Error('Only the author can edit this message');
+    }
+    await _assertCanPost(ctx, discussion, user, args.sessionId);
+
+    const content = args.message.trim();
+    if (!content) {
+      throw new Error('Message cannot be empty');
+    }
+
+    // Nothing changed, so there is nothing to record
+    if (content === message.message) {
+      return args.messageId;
+    }
+
+    const now = Date.now();
+    await ctx.db.insert('discussionMessageEdits', {
+      messageId: args.messageId,
+      discussionKey: message.discussionKey,
+      previousMessage: message.message,
+      editedAt: now,
+      editedBy: args.sessionId,
+    });
+    await ctx.db.patch('discussionMessages', args.messageId, {
+      message: content,
+      editedAt: now,
+    });
+
+    return args.messageId;
+  },
+});
+
+// React to a message, or take the reaction back if the session already reacted with the emoji
+export const toggleDiscussionMessageReaction = mutation({
+  args: {
+    messageId: v.id('discussionMessages'),
+    emoji: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    if (!isDiscussionReactionEmoji(args.emoji)) {
+      throw new Error('Unsupported reaction');
+    }
+
+    const message = await ctx.db.get('discussionMessages', args.messageId);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', message.discussionKey))
+      .first();
+    if (!discussion) {
+      throw new Error('Discussion not found');
+    }
+
+    const user = await getAuthUserOptional(ctx, args);
+    await _assertCanPost(ctx, discussion, user, args.sessionId);
+
+    const existing = (
+      await ctx.db
+        .query('discussionMessageReactions')
+        .withIndex('by_message_session', (q) =>
+          q.eq('messageId', args.messageId).eq('sessionId', args.sessionId)
+        )
+        .collect()
+    ).find((reaction) => reaction.emoji === args.emoji);
+
+    if (existing) {
+      await ctx.db.delete('discussionMessageReactions', existing._id);
+      return { hasReacted: false };
+    }
+
+    await ctx.db.insert('discussionMessageReactions', {
+      messageId: args.messageId,
+      discussionKey: message.discussionKey,
+      sessionId: args.sessionId,
+      emoji: args.emoji,
+      createdAt: Date.now(),
+    });
+    return { hasReacted: true };
+  },
+});
+
+// Pin a message to the top of its discussion, or unpin it; only facilitators can
+export const setDiscussionMessagePinned = mutation({
+  args: {
+    messageId: v.id('discussionMessages'),
+    isPinned: v.boolean(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get('discussionMessages', args.messageId);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', message.discussionKey))
+      .first();
+    if (!discussion) {
+      throw new Error('Discussion not found');
+    }
+
+    await _assertCanFacilitate(ctx, discussion, args, 'pin messages in');
+
+    await ctx.db.patch('discussionMessages', args.messageId, {
+      pinnedAt: args.isPinned ? Date.now() : undefined,
+    });
+    return args.messageId;
+  },
+});
+
+// Move a discussion to one of its questions; only facilitators can
+export const setActiveDiscussionPrompt = mutation({
+  args: {
+    discussionKey: v.string(),
+    promptIndex: v.number(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', args.discussionKey))
+      .first();
+    if (!discussion) {
+      throw new Error('Discussion not found');
+    }
+
+    await _assertCanFacilitate(ctx, discussion, args, 'change the question of');
+
+    if (!_isPromptIndex(discussion, args.promptIndex)) {
+      throw new Error('Question not found');
+    }
+
+    return await ctx.db.patch('discussionState', discussion._id, {
+      activePromptIndex: args.promptIndex,
+    });
+  },
+});
+
+// Make people post to a discussion under a pseudonym, or under their name again; only
+// facilitators can. Messages keep the name they were posted under
+export const setDiscussionAnonymous = mutation({
+  args: {
+    discussionKey: v.string(),
+    isAnonymous: v.boolean(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', args.discussionKey))
+      .first();
+    if (!discussion) {
+      throw new Error('Discussion not found');
+    }
+
+    await _assertCanFacilitate(ctx, discussion, args, 'change the privacy of');
+
+    return await ctx.db.patch('discussionState', discussion._id, {
+      isAnonymous: args.isAnonymous,
+    });
+  },
+});
+
+// Lock a discussion as read-only, or unlock it; only facilitators can
+export const setDiscussionLocked = mutation({
+  args: {
+    discussionKey: v.string(),
+    isLocked: v.boolean(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', args.discussionKey))
+      .first();
+    if (!discussion) {
+      throw new Error('Discussion not found');
+    }
+
+    await _assertCanFacilitate(ctx, discussion, args, 'lock');
+
+    return await ctx.db.patch('discussionState', discussion._id, {
+      isLocked: args.isLocked,
+    });
+  },
+});
+
+// Mute or unmute a participant, or change their role. Facilitators can mute participants; only
+// the owner can change who facilitates
+export const updateDiscussionParticipant = mutation({
+  args: {
+    discussionKey: v.string(),
+    // From getDiscussionParticipants
+    participantId: v.string(),
+    role: v.optional(v.union(v.literal('facilitator'), v.literal('participant'))),
+    isMuted: v.optional(v.boolean()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const discussion = await ctx.db
+      .query('discussionState')
+      .withIndex('by_key', (q) => q.eq('key', args.discussionKey))
+      .first();
+    if (!discussion) {
+      throw new Error('Discussion not found');
+    }
+
+    const user = await getAuthUserOptional(ctx, args);
+    const presentation = await _getDiscussionPresentation(ctx, discussion);
+    const callerRole = getDiscussionRole(discussion, presentation, user, args.sessionId);
+    if (callerRole === 'participant') {
+      throw new Error('Only a facilitator can manage participants');
+    }
+
+    // Participants are either stored already, or identified by one of their messages
+    const participants = discussion.participants ?? [];
+    let entry = participants.find((candidate) => candidate.participantId === args.participantId);
+    if (!entry) {
+      const messageId = ctx.db.normalizeId('discussionMessages', args.participantId);
+      const message = messageId ? await ctx.db.get('discussionMessages', messageId) : null;
+      if (!message || message.discussionKey !== args.discussionKey || !message.sessionId) {
+        throw new Error('Participant not found');
+      }
+      const author = _getMessageAuthor(message);
+      entry = participants.find((candidate) => _isSameParticipant(candidate, author)) ?? {
+        ...author,
+        participantId: message._id,
+      };
+    }
+
+    // The deck's presenters have their role from the deck
+    if (_getPresenterRole(presentation, entry)) {
+      throw new Error('The presenters of the deck cannot be muted or change role');
+    }
+    const changesRole = args.role !== undefined && args.role !== entry.role;
+    if ((changesRole || entry.role === 'facilitator') && callerRole !== 'owner') {
+      throw new Error('Only the owner can change facilitators');
+    }
+
+    // Facilitators are never muted
+    const role = args.role ?? entry.role;
+    const updated: DiscussionParticipantEntry = {
+      ...entry,
+      role,
+      isMuted: role === 'participant' && (args.isMuted ?? entry.isMuted),
+    };
+    // Participants back to the default role and unmuted no longer need to be stored
+    const isDefault = updated.role === 'participant' && !updated.isMuted;
+    await ctx.db.patch('discussionState', discussion._id, {
+      participants: [
+        ...participants.filter((candidate) => candidate.participantId !== updated.participantId),
+        ...(isDefault ? [] : [updated]),
+      ],
+    });
+    return updated.participantId;
+  },
+});
+
+// Update conclusions for a discussion; only its facilitators can
 export const updateConclusions = mutation({
   args: {
     discussionKey: v.string(),
@@ -274,9 +877,126 @@ export const updateConclusions = mutation({
       throw new Error('Discussion not found');
     }
 
+    await _assertCanFacilitate(ctx, discussion, args, 'edit the conclusions of');
+
     // Update the conclusions (works whether discussion is active or concluded)
     return await ctx.db.patch('discussionState', discussion._id, {
       conclusions: args.conclusions,
     });
   },
 });
+
+// Internal helper functions
+// Throw unless the current session can post to the discussion
+async function _assertCanPost(
+  ctx: QueryCtx,
+  discussion: Doc<'discussionState'>,
+  user: Doc<'users'> | null,
+  sessionId: string
+) {
+  const presentation = await _getDiscussionPresentation(ctx, discussion);
+  if (canPostToDiscussion(discussion, presentation, user, sessionId)) {
+    return;
+  }
+  if (!discussion.isActive) {
+    throw new Error('Discussion is no longer active');
+  }
+  if (discussion.isLocked) {
+    throw new Error('Discussion is locked');
+  }
+  throw new Error('You have been muted in this discussion');
+}
+
+// Throw unless the current session can facilitate the discussion
+async function _assertCanFacilitate(
+  ctx: MutationCtx,
+  discussion: Doc<'discussionState'>,
+  args: { sessionId: SessionId },
+  action: string
+) {
+  const user = await getAuthUserOptional(ctx, args);
+  const presentation = await _getDiscussionPresentation(ctx, discussion);
+  if (!canFacilitateDiscussion(discussion, presentation, user, args.sessionId)) {
+    throw new Error(`Only a facilitator can ${action} this discussion`);
+  }
+}
+
+// Look up the registry entry of the deck a discussion is part of, whose presenters run it
+async function _getDiscussionPresentation(
+  ctx: QueryCtx,
+  discussion: Doc<'discussionState'> | null
+): Promise<Doc<'presentations'> | null> {
+  const presentationKey = discussion?.presentationKey;
+  if (!presentationKey) {
+    return null;
+  }
+  return await ctx.db
+    .query('presentations')
+    .withIndex('by_key', (q) => q.eq('key', presentationKey))
+    .first();
+}
+
+// Check if an index is one of the discussion's questions
+function _isPromptIndex(discussion: Doc<'discussionState'>, promptIndex: number): boolean {
+  return (
+    Number.isInteger(promptIndex) &&
+    promptIndex >= 0 &&
+    promptIndex < (discussion.prompts ?? []).length
+  );
+}
+
+// Get the author of a message as a participant with the default role
+function _getMessageAuthor(
+  message: Doc<'discussionMessages'>
+): Omit<DiscussionParticipantEntry, 'participantId'> {
+  return {
+    sessionId: message.sessionId ?? '',
+    userId: message.userId,
+    name: message.name,
+    role: 'participant',
+    isMuted: false,
+  };
+}
+
+// Check if two participants are the same session or user
+function _isSameParticipant(
+  a: Pick<DiscussionParticipantEntry, 'sessionId' | 'userId'>,
+  b: Pick<DiscussionParticipantEntry, 'sessionId' | 'userId'>
+): boolean {
+  return a.sessionId === b.sessionId || (!!a.userId && a.userId === b.userId);
+}
+
+// Get the role a participant has as a presenter of the deck the discussion is part of, if any
+function _getPresenterRole(
+  presentation: Doc<'presentations'> | null,
+  participant: Pick<DiscussionParticipantEntry, 'userId'>
+): DiscussionRole | null {
+  const { userId } = participant;
+  if (!presentation || !userId) {
+    return null;
+  }
+  if (presentation.ownerId === userId) {
+    return 'owner';
+  }
+  return (presentation.coPresenterIds ?? []).includes(userId) ? 'facilitator' : null;
+}
+
+// Delete a message along with the reactions to it and its edit history
+async function _deleteMessage(ctx: MutationCtx, messageId: Id<'discussionMessages'>) {
+  const edits = await ctx.db
+    .query('discussionMessageEdits')
+    .withIndex('by_message', (q) => q.eq('messageId', messageId))
+    .collect();
+  for (const edit of edits) {
+    await ctx.db.delete('discussionMessageEdits', edit._id);
+  }
+
+  const reactions = await ctx.db
+    .query('discussionMessageReactions')
+    .withIndex('by_message_session', (q) => q.eq('messageId', messageId))
+    .collect();
+  for (const reaction of reactions) {
+    await ctx.db.delete('discussionMessageReactions', reaction._id);
+  }
+  await ctx.db.delete('discussionMessages', messageId);
+}
@@ -0,0 +1,58 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+test('handouts include concluded discussions and checklist snapshots', async () => {
+  const sessionId = 'handouts-session' as SessionId;
+  // Only admins and the presenters of a deck run its discussions
+  const adminLogin = await t.mutation(api.auth.loginAnon, { sessionId: sessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', adminLogin.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId,
+    key: 'handout-concluded',
+    title: 'What did we learn?',
+  });
+  await t.mutation(api.discussions.concludeDiscussion, {
+    sessionId,
+    discussionKey: 'handout-concluded',
+    conclusions: [{ text: 'Confess to one another', tags: ['action'] }],
+  });
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId,
+    key: 'handout-ongoing',
+    title: 'Still talking',
+  });
+  await t.mutation(api.checklists.createChecklist, {
+    sessionId,
+    key: 'handout-checklist',
+    title: 'Next steps',
+  });
+  await t.mutation(api.checklists.addChecklistItem, {
+    sessionId,
+    checklistKey: 'handout-checklist',
+    text: 'Find an accountability partner',
+  });
+
+  const snapshot = await t.query(api.handouts.getHandoutSnapshot, {
+    discussionKeys: ['handout-concluded', 'handout-ongoing', 'handout-missing'],
+    checklistKeys: ['handout-checklist'],
+  });
+  expect(snapshot.discussions).toHaveLength(1);
+  expect(snapshot.discussions[0]).toMatchObject({
+    key: 'handout-concluded',
+    title: 'What did we learn?',
+    conclusions: [{ text: 'Confess to one another', tags: ['action'] }],
+  });
+  expect(snapshot.checklists).toEqual([
+    {
+      key: 'handout-checklist',
+      title: 'Next steps',
+      isConcluded: false,
+      items: [{ text: 'Find an accountability partner', isCompleted: false }],
+    },
+  ]);
+});
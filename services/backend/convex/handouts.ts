@@ -0,0 +1,59 @@
+import { v } from 'convex/values';
+
+import { query } from './_generated/server';
+
+/**
+ * Retrieves what a deck's discussions and checklists concluded with, for printing in its handout.
+ * Only concluded discussions with conclusions are included; checklists are included as they
+ * stand, with their items in order. The handout is rendered on the server without a session,
+ * and only includes what viewers of the deck can already see.
+ * @param discussionKeys - The keys of the discussions embedded in the deck
+ * @param checklistKeys - The keys of the checklists embedded in the deck
+ * @returns The discussion conclusions and checklist snapshots that exist
+ */
+export const getHandoutSnapshot = query({
+  args: {
+    discussionKeys: v.array(v.string()),
+    checklistKeys: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const discussions = [];
+    for (const key of args.discussionKeys) {
+      const discussion = await ctx.db
+        .query('discussionState')
+        .withIndex('by_key', (q) => q.eq('key', key))
+        .first();
+      if (!discussion || discussion.isActive || !discussion.conclusions?.length) continue;
+
+      discussions.push({
+        key,
+        title: discussion.title,
+        conclusions: discussion.conclusions,
+        concludedAt: discussion.concludedAt ?? null,
+      });
+    }
+
+    const checklists = [];
+    for (const key of args.checklistKeys) {
+      const checklist = await ctx.db
+        .query('checklistState')
+        .withIndex('by_key', (q) => q.eq('key', key))
+        .first();
+      if (!checklist) continue;
+
+      const items = await ctx.db
+        .query('checklistItems')
+        .withIndex('by_checklist_order', (q) => q.eq('checklistKey', key))
+        .order('asc')
+        .collect();
+      checklists.push({
+        key,
+        title: checklist.title,
+        isConcluded: !checklist.isActive,
+        items: items.map((item) => ({ text: item.text, isCompleted: item.isCompleted })),
+      });
+    }
+
+    return { discussions, checklists };
+  },
+});
@@ -0,0 +1,172 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+test('the presenter opens, closes and reveals a poll that viewers vote in', async () => {
+  const presenterSessionId = 'polls-presenter' as SessionId;
+  const viewerSessionId = 'polls-viewer' as SessionId;
+  const otherViewerSessionId = 'polls-other-viewer' as SessionId;
+  const presentationKey = 'polls-deck';
+  const key = 'polls-favourite-fruit';
+  // Only admins can present a registered deck without an owner
+  const presenterLogin = await t.mutation(api.auth.loginAnon, { sessionId: presenterSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', presenterLogin.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.auth.loginAnon, { sessionId: viewerSessionId });
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId: presenterSessionId,
+    key: presentationKey,
+    title: 'Polls',
+    date: '2025-06-01',
+    path: '/presentations/polls',
+  });
+  await t.mutation(api.presentations.startPresenting, {
+    sessionId: presenterSessionId,
+    key: presentationKey,
+  });
+
+  const definition = {
+    key,
+    question: 'Favourite fruit?',
+    type: 'single_choice' as const,
+    options: ['Apple', 'Banana', 'Cherry'],
+    presentationKey,
+  };
+  await t.mutation(api.polls.ensurePoll, { sessionId: viewerSessionId, ...definition });
+
+  // Votes are only accepted while the poll is open, and only the presenter can open it
+  await expect(
+    t.mutation(api.polls.votePoll, { sessionId: viewerSessionId, key, optionIndexes: [0] })
+  ).rejects.toThrow('This poll is not open for voting');
+  await expect(t.mutation(api.polls.openPoll, { sessionId: viewerSessionId, key })).rejects.toThrow(
+    'Only the presenter can control this poll'
+  );
+  await t.mutation(api.polls.openPoll, { sessionId: presenterSessionId, key });
+
+  await expect(
+    t.mutation(api.polls.votePoll, { sessionId: viewerSessionId, key, optionIndexes: [0, 1] })
+  ).rejects.toThrow('Only one option can be chosen in this poll');
+  await t.mutation(api.polls.votePoll, { sessionId: viewerSessionId, key, optionIndexes: [0] });
+  // Changing a vote replaces it
+  await t.mutation(api.polls.votePoll, { sessionId: viewerSessionId, key, optionIndexes: [2] });
+  await t.mutation(api.polls.votePoll, {
+    sessionId: otherViewerSessionId,
+    key,
+    optionIndexes: [2],
+  });
+
+  // The presenter sees live results; viewers only once they are revealed
+  const presenterPoll = await t.query(api.polls.getPoll, { sessionId: presenterSessionId, key });
+  expect(presenterPoll?.canControl).toBe(true);
+  expect(presenterPoll?.results).toEqual({ type: 'choice', optionCounts: [0, 0, 2] });
+  const viewerPoll = await t.query(api.polls.getPoll, { sessionId: viewerSessionId, key });
+  expect(viewerPoll?.ownVote?.optionIndexes).toEqual([2]);
+  expect(viewerPoll?.results).toBeNull();
+
+  await t.mutation(api.polls.closePoll, { sessionId: presenterSessionId, key });
+  await expect(
+    t.mutation(api.polls.votePoll, { sessionId: viewerSessionId, key, optionIndexes: [1] })
+  ).rejects.toThrow('This poll is not open for voting');
+  await t.mutation(api.polls.setPollResultsRevealed, {
+    sessionId: presenterSessionId,
+    key,
+    isRevealed: true,
+  });
+  const revealed = await t.query(api.polls.getPoll, { sessionId: viewerSessionId, key });
+  expect(revealed?.voteCount).toBe(2);
+  expect(revealed?.results).toEqual({ type: 'choice', optionCounts: [0, 0, 2] });
+});
+
+test('word cloud answers are grouped regardless of case', async () => {
+  const sessionId = 'polls-word-cloud' as SessionId;
+  const otherSessionId = 'polls-word-cloud-other' as SessionId;
+  const key = 'polls-one-word';
+  const login = await t.mutation(api.auth.loginAnon, { sessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', login.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.auth.loginAnon, { sessionId: otherSessionId });
+
+  // Showing a poll outside a deck first does not give control of it
+  await t.mutation(api.polls.ensurePoll, {
+    sessionId: otherSessionId,
+    key,
+    question: 'Describe the talk in one word',
+    type: 'word_cloud',
+    options: [],
+  });
+  await expect(t.mutation(api.polls.openPoll, { sessionId: otherSessionId, key })).rejects.toThrow(
+    'Only the presenter can control this poll'
+  );
+  await t.mutation(api.polls.openPoll, { sessionId, key });
+
+  await t.mutation(api.polls.votePoll, { sessionId, key, text: '  Inspiring ' });
+  await t.mutation(api.polls.votePoll, { sessionId: otherSessionId, key, text: 'inspiring' });
+
+  const poll = await t.query(api.polls.getPoll, { sessionId, key });
+  expect(poll?.results).toEqual({
+    type: 'word_cloud',
+    words: [{ text: 'Inspiring', count: 2 }],
+  });
+});
+
+test('only whoever controls a poll can change its definition, and never its deck', async () => {
+  const presenterSessionId = 'polls-definition-presenter' as SessionId;
+  const viewerSessionId = 'polls-definition-viewer' as SessionId;
+  const presentationKey = 'polls-definition-deck';
+  const key = 'polls-definition';
+  const presenterLogin = await t.mutation(api.auth.loginAnon, { sessionId: presenterSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', presenterLogin.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.auth.loginAnon, { sessionId: viewerSessionId });
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId: presenterSessionId,
+    key: presentationKey,
+    title: 'Poll Definitions',
+    date: '2025-06-01',
+    path: '/presentations/poll-definitions',
+  });
+  await t.mutation(api.presentations.startPresenting, {
+    sessionId: presenterSessionId,
+    key: presentationKey,
+  });
+
+  const definition = {
+    key,
+    question: 'Favourite season?',
+    type: 'single_choice' as const,
+    options: ['Spring', 'Autumn'],
+    presentationKey,
+  };
+  await t.mutation(api.polls.ensurePoll, { sessionId: viewerSessionId, ...definition });
+
+  // Viewers showing the poll cannot rewrite it
+  await t.mutation(api.polls.ensurePoll, {
+    sessionId: viewerSessionId,
+    ...definition,
+    question: 'Least favourite season?',
+  });
+  const unchanged = await t.query(api.polls.getPoll, { sessionId: viewerSessionId, key });
+  expect(unchanged?.question).toBe('Favourite season?');
+
+  await t.mutation(api.polls.ensurePoll, {
+    sessionId: presenterSessionId,
+    ...definition,
+    options: ['Spring', 'Summer', 'Autumn'],
+  });
+  const changed = await t.query(api.polls.getPoll, { sessionId: viewerSessionId, key });
+  expect(changed?.options).toEqual(['Spring', 'Summer', 'Autumn']);
+
+  // Showing the poll in another deck does not move it there
+  await expect(
+    t.mutation(api.polls.ensurePoll, {
+      sessionId: presenterSessionId,
+      ...definition,
+      presentationKey: 'polls-other-deck',
+    })
+  ).rejects.toThrow('This poll belongs to another presentation');
+});
@@ -0,0 +1,286 @@
+import { v } from 'convex/values';
+import { type SessionId, SessionIdArg } from 'convex-helpers/server/sessions';
+
+import type { Doc } from './_generated/dataModel';
+import { type MutationCtx, mutation, type QueryCtx, query } from './_generated/server';
+import { isSystemAdmin } from '../modules/auth/accessControl';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+import { normalizePollVote, type PollResults, tallyPollVotes } from '../modules/poll/results';
+import { canPresent } from '../modules/presentation/accessControl';
+
+const pollTypeValidator = v.union(
+  v.literal('single_choice'),
+  v.literal('multiple_choice'),
+  v.literal('word_cloud')
+);
+
+/**
+ * Retrieves a poll with the current session's vote. Results are included once they are
+ * revealed, and always for the people who control the poll.
+ * @param key - The unique identifier for the poll
+ * @returns The poll, or null if it has not been created yet
+ */
+export const getPoll = query({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const poll = await _getPoll(ctx, args.key);
+    if (!poll) {
+      return null;
+    }
+
+    const votes = await ctx.db
+      .query('pollVotes')
+      .withIndex('by_poll_session', (q) => q.eq('pollKey', args.key))
+      .collect();
+    const ownVote = votes.find((vote) => vote.sessionId === args.sessionId);
+    const canControl = await _canControlPoll(ctx, poll, args);
+
+    const results: PollResults | null =
+      poll.isResultsRevealed || canControl ? tallyPollVotes(poll, votes) : null;
+
+    return {
+      key: poll.key,
+      question: poll.question,
+      type: poll.type,
+      options: poll.options,
+      status: poll.status,
+      isResultsRevealed: poll.isResultsRevealed,
+      canControl,
+      voteCount: votes.length,
+      ownVote: ownVote ? { optionIndexes: ownVote.optionIndexes, text: ownVote.text } : null,
+      results,
+    };
+  },
+});
+
+/**
+ * Creates a poll the first time it is shown. The question and options of a poll that has
+ * not been opened yet follow the deck when it is shown by someone who controls the poll, so
+ * they can be edited until the poll is used. A poll always stays in the deck it was created in.
+ * @param key - The unique identifier for the poll
+ * @param question - The question asked
+ * @param type - How viewers answer the poll
+ * @param options - Options to choose from, ignored for word clouds
+ * @param presentationKey - The deck the poll is shown in, if any
+ * @returns The ID of the created or existing poll
+ */
+export const ensurePoll = mutation({
+  args: {
+    key: v.string(),
+    question: v.string(),
+    type: pollTypeValidator,
+    options: v.array(v.string()),
+    presentationKey: v.optional(v.string()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const question = args.question.trim();
+    const options =
+      args.type === 'word_cloud'
+        ? []
+        : args.options.map((option) => option.trim()).filter((option) => option !== '');
+    if (!args.key.trim() || !question) {
+      throw new Error('Poll key and question are required');
+    }
+    if (args.type !== 'word_cloud' && options.length < 2) {
+      throw new Error('Choice polls need at least two options');
+    }
+
+    const existing = await _getPoll(ctx, args.key);
+    if (!existing) {
+      const user = await getAuthUserOptional(ctx, args);
+      return await ctx.db.insert('polls', {
+        key: args.key,
+        question,
+        type: args.type,
+        options,
+        presentationKey: args.presentationKey,
+        status: 'draft',
+        isResultsRevealed: false,
+        createdBy: user?._id,
+        createdAt: Date.now(),
+      });
+    }
+
+    // Polls shown outside a deck, such as in the presenter view, keep the deck they belong to
+    if (args.presentationKey !== undefined && args.presentationKey !== existing.presentationKey) {
+      throw new Error('This poll belongs to another presentation');
+    }
+
+    // Changing the options of a poll that has votes would mix up its results
+    const definition = { question, type: args.type, options };
+    const hasChanges =
+      existing.question !== definition.question ||
+      existing.type !== definition.type ||
+      existing.options.join('\n') !== definition.options.join('\n');
+    if (hasChanges && existing.status === 'draft' && (await _canControlPoll(ctx, existing, args))) {
+      await ctx.db.patch('polls', existing._id, definition);
+    }
+    return existing._id;
+  },
+});
+
+/**
+ * Casts or changes the current session's vote in an open poll.
+ * @param key - The unique identifier for the poll
+ * @param optionIndexes - The chosen options, for choice polls
+ * @param text - The answer, for word clouds
+ * @returns The ID of the vote
+ */
+export const votePoll = mutation({
+  args: {
+    key: v.string(),
+    optionIndexes: v.optional(v.array(v.number())),
+    text: v.optional(v.string()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const poll = await _getPoll(ctx, args.key);
+    if (!poll) {
+      throw new Error('Poll not found');
+    }
+    if (poll.status !== 'open') {
+      throw new Error('This poll is not open for voting');
+    }
+
+    const vote = normalizePollVote(poll, args);
+    const existing = await ctx.db
+      .query('pollVotes')
+      .withIndex('by_poll_session', (q) =>
+        q.eq('pollKey', args.key).eq('sessionId', args.sessionId)
+      )
+      .first();
+    if (existing) {
+      await ctx.db.patch('pollVotes', existing._id, { ...vote, votedAt: Date.now() });
+      return existing._id;
+    }
+    return await ctx.db.insert('pollVotes', {
+      pollKey: args.key,
+      sessionId: args.sessionId,
+      ...vote,
+      votedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Opens a poll for voting. Reopening a closed poll keeps its votes.
+ * @param key - The unique identifier for the poll
+ * @returns The ID of the poll
+ */
+export const openPoll = mutation({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const poll = await _getControllablePoll(ctx, args);
+    await ctx.db.patch('polls', poll._id, { status: 'open', openedAt: Date.now() });
+    return poll._id;
+  },
+});
+
+/**
+ * Closes a poll so that no more votes are accepted.
+ * @param key - The unique identifier for the poll
+ * @returns The ID of the poll
+ */
+export const closePoll = mutation({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const poll = await _getControllablePoll(ctx, args);
+    await ctx.db.patch('polls', poll._id, { status: 'closed', closedAt: Date.now() });
+    return poll._id;
+  },
+});
+
+/**
+ * Shows or hides the results of a poll to viewers.
+ * @param key - The unique identifier for the poll
+ * @param isRevealed - Whether viewers can see the results
+ * @returns The ID of the poll
+ */
+export const setPollResultsRevealed = mutation({
+  args: {
+    key: v.string(),
+    isRevealed: v.boolean(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const poll = await _getControllablePoll(ctx, args);
+    await ctx.db.patch('polls', poll._id, { isResultsRevealed: args.isRevealed });
+    return poll._id;
+  },
+});
+
+// Internal helper functions
+/**
+ * Looks up a poll by its key.
+ */
+async function _getPoll(ctx: QueryCtx, key: string): Promise<Doc<'polls'> | null> {
+  return await ctx.db
+    .query('polls')
+    .withIndex('by_key', (q) => q.eq('key', key))
+    .first();
+}
+
+/**
+ * Checks if the current session controls a poll. Polls in a deck are controlled by whoever
+ * is presenting it and by everyone who can present it. Administrators control every poll,
+ * and are the only ones who control polls outside a deck, since anyone can show those first.
+ */
+async function _canControlPoll(
+  ctx: QueryCtx,
+  poll: Doc<'polls'>,
+  args: { sessionId: SessionId }
+): Promise<boolean> {
+  const user = await getAuthUserOptional(ctx, args);
+  if (!user) {
+    return false;
+  }
+  if (isSystemAdmin(user)) {
+    return true;
+  }
+
+  const { presentationKey } = poll;
+  if (!presentationKey) {
+    return false;
+  }
+
+  const state = await ctx.db
+    .query('presentationState')
+    .withIndex('by_key', (q) => q.eq('key', presentationKey))
+    .first();
+  if (state?.activePresentation?.presenterId === args.sessionId) {
+    return true;
+  }
+  const presentation = await ctx.db
+    .query('presentations')
+    .withIndex('by_key', (q) => q.eq('key', presentationKey))
+    .first();
+  return canPresent(user, presentation);
+}
+
+/**
+ * Looks up a poll the current session controls.
+ * @throws Error if the poll does not exist or the session does not control it
+ */
+async function _getControllablePoll(
+  ctx: MutationCtx,
+  args: { key: string; sessionId: SessionId }
+): Promise<Doc<'polls'>> {
+  const poll = await _getPoll(ctx, args.key);
+  if (!poll) {
+    throw new Error('Poll not found');
+  }
+  if (!(await _canControlPoll(ctx, poll, args))) {
+    throw new Error('Only the presenter can control this poll');
+  }
+  return poll;
+}
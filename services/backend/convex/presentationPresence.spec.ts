@@ -0,0 +1,81 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+test('presenters see who is viewing, their slide and whether they follow along', async () => {
+  const presenterSessionId = 'presence-presenter' as SessionId;
+  const viewerSessionId = 'presence-viewer' as SessionId;
+  const soloSessionId = 'presence-solo-viewer' as SessionId;
+  const key = 'presence-deck';
+  // Only admins can present a registered deck without an owner
+  const presenterLogin = await t.mutation(api.auth.loginAnon, { sessionId: presenterSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', presenterLogin.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.auth.loginAnon, { sessionId: viewerSessionId });
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId: presenterSessionId,
+    key,
+    title: 'Presence',
+    date: '2025-06-01',
+    path: '/presentations/presence',
+  });
+  await t.mutation(api.presentations.startPresenting, { sessionId: presenterSessionId, key });
+
+  // The presenter is not part of their own audience
+  await t.mutation(api.presentationPresence.joinPresentation, {
+    sessionId: presenterSessionId,
+    key,
+    currentSlide: 1,
+    isSoloMode: false,
+  });
+  await t.mutation(api.presentationPresence.joinPresentation, {
+    sessionId: viewerSessionId,
+    key,
+    currentSlide: 1,
+    isSoloMode: false,
+  });
+  await t.mutation(api.presentationPresence.joinPresentation, {
+    sessionId: soloSessionId,
+    key,
+    currentSlide: 1,
+    isSoloMode: false,
+  });
+  await t.mutation(api.presentationPresence.presenceHeartbeat, {
+    sessionId: soloSessionId,
+    key,
+    currentSlide: 4,
+    isSoloMode: true,
+  });
+
+  const audience = await t.query(api.presentationPresence.getPresentationAudience, {
+    sessionId: presenterSessionId,
+    key,
+  });
+  expect(audience.viewerCount).toBe(2);
+  expect(audience.viewers).toContainEqual({
+    name: 'Guest',
+    currentSlide: 4,
+    isSoloMode: true,
+    isCurrentSession: false,
+  });
+  expect(audience.viewers.some((viewer) => viewer.name !== 'Guest' && !viewer.isSoloMode)).toBe(
+    true
+  );
+
+  // Viewers who cannot present only see how many people are watching
+  const viewerAudience = await t.query(api.presentationPresence.getPresentationAudience, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(viewerAudience).toEqual({ viewerCount: 2, viewers: [] });
+
+  await t.mutation(api.presentationPresence.leavePresentation, { sessionId: soloSessionId, key });
+  const remaining = await t.query(api.presentationPresence.getPresentationAudience, {
+    sessionId: presenterSessionId,
+    key,
+  });
+  expect(remaining.viewerCount).toBe(1);
+});
@@ -0,0 +1,152 @@
+import { v } from 'convex/values';
+import { type SessionId, SessionIdArg } from 'convex-helpers/server/sessions';
+
+import { internalMutation, type MutationCtx, mutation, query } from './_generated/server';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+import { canPresent } from '../modules/presentation/accessControl';
+import {
+  isViewerActive,
+  type PresentationAudience,
+  VIEWER_TIMEOUT_MS,
+} from '../modules/presentation/presence';
+
+// Start showing the current session in the audience of a presentation
+export const joinPresentation = mutation({
+  args: {
+    key: v.string(),
+    currentSlide: v.number(),
+    isSoloMode: v.boolean(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    return await _upsertViewer(ctx, args);
+  },
+});
+
+// Record that the current session is still viewing, and where it is in the deck
+export const presenceHeartbeat = mutation({
+  args: {
+    key: v.string(),
+    currentSlide: v.number(),
+    isSoloMode: v.boolean(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    // Viewers removed after a long sleep rejoin with their next heartbeat
+    return await _upsertViewer(ctx, args);
+  },
+});
+
+// Stop showing the current session in the audience of a presentation
+export const leavePresentation = mutation({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const viewer = await ctx.db
+      .query('presentationViewers')
+      .withIndex('by_key_session', (q) => q.eq('key', args.key).eq('sessionId', args.sessionId))
+      .first();
+    if (viewer) {
+      await ctx.db.delete('presentationViewers', viewer._id);
+    }
+    return null;
+  },
+});
+
+// Get the live audience of a presentation, excluding the presenter
+export const getPresentationAudience = query({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<PresentationAudience> => {
+    const now = Date.now();
+    const state = await ctx.db
+      .query('presentationState')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+    const presenterId = state?.activePresentation?.presenterId;
+
+    const entries = await ctx.db
+      .query('presentationViewers')
+      .withIndex('by_key_session', (q) => q.eq('key', args.key))
+      .collect();
+    const activeEntries = entries.filter(
+      (entry) => entry.sessionId !== presenterId && isViewerActive(entry.lastSeenAt, now)
+    );
+
+    // Only people who can present the deck see who is in the audience
+    const user = await getAuthUserOptional(ctx, args);
+    const presentation = await ctx.db
+      .query('presentations')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+    if (!user || !canPresent(user, presentation)) {
+      return { viewerCount: activeEntries.length, viewers: [] };
+    }
+
+    const viewers = await Promise.all(
+      activeEntries.map(async (entry) => {
+        const viewer = entry.userId ? await ctx.db.get('users', entry.userId) : null;
+        return {
+          name: viewer?.name ?? 'Guest',
+          currentSlide: entry.currentSlide,
+          isSoloMode: entry.isSoloMode,
+          isCurrentSession: entry.sessionId === args.sessionId,
+        };
+      })
+    );
+    viewers.sort((a, b) => a.name.localeCompare(b.name));
+
+    return { viewerCount: activeEntries.length, viewers };
+  },
+});
+
+// Remove viewers whose browsers went away without leaving
+export const cleanupStaleViewers = internalMutation({
+  args: {},
+  handler: async (ctx, _args) => {
+    const staleViewers = await ctx.db
+      .query('presentationViewers')
+      .withIndex('by_last_seen', (q) => q.lt('lastSeenAt', Date.now() - VIEWER_TIMEOUT_MS))
+      .collect();
+    await Promise.all(
+      staleViewers.map((viewer) => ctx.db.delete('presentationViewers', viewer._id))
+    );
+
+    return { success: true, deletedCount: staleViewers.length };
+  },
+});
+
+// Internal helper functions
+// Create or refresh the audience entry of the current session
+async function _upsertViewer(
+  ctx: MutationCtx,
+  args: { key: string; currentSlide: number; isSoloMode: boolean; sessionId: SessionId }
+) {
+  const now = Date.now();
+  const existing = await ctx.db
+    .query('presentationViewers')
+    .withIndex('by_key_session', (q) => q.eq('key', args.key).eq('sessionId', args.sessionId))
+    .first();
+  const user = await getAuthUserOptional(ctx, args);
+
+  const presence = {
+    userId: user?._id,
+    currentSlide: args.currentSlide,
+    isSoloMode: args.isSoloMode,
+    lastSeenAt: now,
+  };
+  if (existing) {
+    await ctx.db.patch('presentationViewers', existing._id, presence);
+    return existing._id;
+  }
+  return await ctx.db.insert('presentationViewers', {
+    key: args.key,
+    sessionId: args.sessionId,
+    joinedAt: now,
+    ...presence,
+  });
+}
@@ -0,0 +1,37 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+test('viewers react to slides with the allowed emoji', async () => {
+  const sessionId = 'reactions-viewer' as SessionId;
+  const key = 'reactions-deck';
+  const since = Date.now() - 1;
+
+  await t.mutation(api.presentationReactions.sendReaction, {
+    sessionId,
+    key,
+    slide: 2,
+    emoji: '🎉',
+  });
+  await expect(
+    t.mutation(api.presentationReactions.sendReaction, { sessionId, key, slide: 2, emoji: '💩' })
+  ).rejects.toThrow('Unsupported reaction');
+  // Reactions sent faster than the cooldown are dropped
+  const dropped = await t.mutation(api.presentationReactions.sendReaction, {
+    sessionId,
+    key,
+    slide: 2,
+    emoji: '👍',
+  });
+  expect(dropped).toBeNull();
+
+  const reactions = await t.query(api.presentationReactions.getRecentReactions, {
+    sessionId,
+    key,
+    since,
+  });
+  expect(reactions).toHaveLength(1);
+  expect(reactions[0]).toMatchObject({ slide: 2, emoji: '🎉' });
+});
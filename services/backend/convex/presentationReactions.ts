@@ -0,0 +1,86 @@
+import { v } from 'convex/values';
+import { SessionIdArg } from 'convex-helpers/server/sessions';
+
+import { internalMutation, mutation, query } from './_generated/server';
+import {
+  isPresentationReactionEmoji,
+  PRESENTATION_REACTION_COOLDOWN_MS,
+  PRESENTATION_REACTION_TTL_MS,
+} from '../modules/presentation/reactions';
+
+// Most reactions returned at once, which is more than can float over a slide anyway
+const _MAX_RECENT_REACTIONS = 50;
+
+// Send an emoji reaction to the slide the viewer is on
+export const sendReaction = mutation({
+  args: {
+    key: v.string(),
+    slide: v.number(),
+    emoji: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    if (!isPresentationReactionEmoji(args.emoji)) {
+      throw new Error('Unsupported reaction');
+    }
+
+    // Drop reactions sent faster than the cooldown instead of failing, as they are only cosmetic
+    const now = Date.now();
+    const lastReaction = await ctx.db
+      .query('presentationReactions')
+      .withIndex('by_session_created', (q) => q.eq('sessionId', args.sessionId))
+      .order('desc')
+      .first();
+    if (lastReaction && now - lastReaction.createdAt < PRESENTATION_REACTION_COOLDOWN_MS) {
+      return null;
+    }
+
+    return await ctx.db.insert('presentationReactions', {
+      key: args.key,
+      slide: args.slide,
+      emoji: args.emoji,
+      sessionId: args.sessionId,
+      createdAt: now,
+    });
+  },
+});
+
+// Get the reactions sent to a presentation since a point in time, newest first
+export const getRecentReactions = query({
+  args: {
+    key: v.string(),
+    since: v.number(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const reactions = await ctx.db
+      .query('presentationReactions')
+      .withIndex('by_key_created', (q) => q.eq('key', args.key).gt('createdAt', args.since))
+      .order('desc')
+      .take(_MAX_RECENT_REACTIONS);
+
+    // Only share what floats over the slide, never who sent it
+    return reactions.map((reaction) => ({
+      _id: reaction._id,
+      slide: reaction.slide,
+      emoji: reaction.emoji,
+      createdAt: reaction.createdAt,
+    }));
+  },
+});
+
+// Remove reactions that have long finished floating over their slide
+export const cleanupExpiredReactions = internalMutation({
+  args: {},
+  handler: async (ctx, _args) => {
+    const expiredReactions = await ctx.db
+      .query('presentationReactions')
+      .withIndex('by_created', (q) => q.lt('createdAt', Date.now() - PRESENTATION_REACTION_TTL_MS))
+      .collect();
+    await Promise.all(
+      expiredReactions.map((reaction) => ctx.db.delete('presentationReactions', reaction._id))
+    );
+
+    return { success: true, deletedCount: expiredReactions.length };
+  },
+});
@@ -0,0 +1,95 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { afterEach, expect, test, vi } from 'vitest';
+
+import { t } from '../test.setup';
+import { api } from './_generated/api';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+test('presented sessions are recorded with dwell times and discussion messages', async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  const presenterSessionId = 'replays-presenter' as SessionId;
+  const viewerSessionId = 'replays-viewer' as SessionId;
+  const key = 'replays-deck';
+  // Only admins can present a registered deck without an owner
+  const presenterLogin = await t.mutation(api.auth.loginAnon, { sessionId: presenterSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', presenterLogin.userId, { accessLevel: 'system_admin' });
+  });
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId: presenterSessionId,
+    key,
+    path: '/presentations/replays',
+    title: 'Replays',
+    date: '2025-05-01',
+    slideCount: 3,
+  });
+  await t.mutation(api.discussions.createDiscussion, {
+    sessionId: presenterSessionId,
+    key: 'replays-discussion',
+    title: 'Questions',
+  });
+
+  vi.setSystemTime(1_000_000);
+  await t.mutation(api.presentations.startPresenting, { sessionId: presenterSessionId, key });
+  vi.setSystemTime(1_060_000);
+  await t.mutation(api.presentations.setCurrentSlide, {
+    sessionId: presenterSessionId,
+    key,
+    slide: 1,
+    timestamp: Date.now(),
+  });
+  vi.setSystemTime(1_090_000);
+  await t.mutation(api.discussions.addDiscussionMessage, {
+    sessionId: viewerSessionId,
+    discussionKey: 'replays-discussion',
+    name: 'Viewer',
+    message: 'What about grace?',
+  });
+  vi.setSystemTime(1_100_000);
+  await t.mutation(api.presentations.setCurrentSlide, {
+    sessionId: presenterSessionId,
+    key,
+    slide: 1,
+    fragment: 1,
+    timestamp: Date.now(),
+  });
+  vi.setSystemTime(1_180_000);
+  await t.mutation(api.presentations.stopPresenting, { sessionId: presenterSessionId, key });
+
+  const recordings = await t.query(api.presentationReplays.listPresentationRecordings, {
+    sessionId: presenterSessionId,
+    key,
+  });
+  expect(recordings).toEqual([{ startedAt: 1_000_000, endedAt: 1_180_000, slideChangeCount: 2 }]);
+
+  const replay = await t.query(api.presentationReplays.getPresentationReplay, {
+    sessionId: presenterSessionId,
+    key,
+    startedAt: 1_000_000,
+    discussionKeys: ['replays-discussion'],
+  });
+  expect(replay?.events.map((event) => event.type)).toEqual([
+    'presenting_started',
+    'slide_changed',
+    'slide_changed',
+    'presenting_stopped',
+  ]);
+  // Revealing a fragment stays on the same slide
+  expect(replay?.dwellTimes).toEqual([
+    { slide: 0, totalMs: 60_000, visitCount: 1 },
+    { slide: 1, totalMs: 120_000, visitCount: 1 },
+  ]);
+  expect(replay?.messages).toMatchObject([
+    { discussionTitle: 'Questions', name: 'Viewer', timestamp: 1_090_000 },
+  ]);
+
+  // Viewers who cannot present the deck cannot see its recordings
+  const viewerRecordings = await t.query(api.presentationReplays.listPresentationRecordings, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(viewerRecordings).toBeNull();
+});
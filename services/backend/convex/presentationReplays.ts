@@ -0,0 +1,153 @@
+import { v } from 'convex/values';
+import { type SessionId, SessionIdArg } from 'convex-helpers/server/sessions';
+
+import type { Doc } from './_generated/dataModel';
+import { type QueryCtx, query } from './_generated/server';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+import { canPresent } from '../modules/presentation/accessControl';
+import {
+  calculateSlideDwellTimes,
+  type PresentationRecording,
+  splitPresentationRecordings,
+} from '../modules/presentation/timeline';
+
+/**
+ * Lists the recorded sessions of a deck, newest first. Only people who can present the deck
+ * can see its recordings.
+ * @param key - The presentation key of the deck
+ * @returns The recordings, or null if the current user cannot see them
+ */
+export const listPresentationRecordings = query({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<PresentationRecording[] | null> => {
+    if (!(await _canViewRecordings(ctx, args))) {
+      return null;
+    }
+
+    const events = await _getPresentationEvents(ctx, args.key);
+    return splitPresentationRecordings(events).reverse();
+  },
+});
+
+/**
+ * Retrieves the timeline of a recorded session for replaying it: its events, the time spent
+ * on each slide, and the messages sent to the deck's discussions while it was presented.
+ * @param key - The presentation key of the deck
+ * @param startedAt - When the recording started, identifying it among the deck's recordings
+ * @param discussionKeys - The keys of the discussions embedded in the deck
+ * @returns The replay, or null if the recording does not exist or the current user cannot see it
+ */
+export const getPresentationReplay = query({
+  args: {
+    key: v.string(),
+    startedAt: v.number(),
+    discussionKeys: v.array(v.string()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    if (!(await _canViewRecordings(ctx, args))) {
+      return null;
+    }
+
+    const allEvents = await _getPresentationEvents(ctx, args.key);
+    const recording = splitPresentationRecordings(allEvents).find(
+      (candidate) => candidate.startedAt === args.startedAt
+    );
+    if (!recording) {
+      return null;
+    }
+
+    const endedAt = recording.endedAt ?? Date.now();
+    const events = allEvents.filter(
+      (event) => event.timestamp >= recording.startedAt && event.timestamp <= endedAt
+    );
+
+    // The slide shown when presenting started is the last one changed to before it
+    const previousSlideChange = await ctx.db
+      .query('presentationEvents')
+      .withIndex('by_key_timestamp', (q) =>
+        q.eq('key', args.key).lt('timestamp', recording.startedAt)
+      )
+      .order('desc')
+      .filter((q) => q.eq(q.field('type'), 'slide_changed'))
+      .first();
+    const initialSlide = previousSlideChange?.slide ?? 0;
+
+    // Name who started presenting, including anyone control was handed over to
+    const presenterNames = new Map<string, string>();
+    for (const event of events) {
+      if (event.type !== 'presenting_started' || !event.userId) continue;
+      if (presenterNames.has(event.userId)) continue;
+      const presenter = await ctx.db.get('users', event.userId);
+      presenterNames.set(event.userId, presenter?.name ?? 'Unknown');
+    }
+
+    const messages = [];
+    for (const discussionKey of args.discussionKeys) {
+      const discussion = await ctx.db
+        .query('discussionState')
+        .withIndex('by_key', (q) => q.eq('key', discussionKey))
+        .first();
+      const discussionMessages = await ctx.db
+        .query('discussionMessages')
+        .withIndex('by_discussion', (q) => q.eq('discussionKey', discussionKey))
+        .collect();
+      for (const message of discussionMessages) {
+        if (message.timestamp < recording.startedAt || message.timestamp > endedAt) continue;
+        messages.push({
+          _id: message._id,
+          discussionKey,
+          discussionTitle: discussion?.title ?? discussionKey,
+          name: message.name,
+          message: message.message,
+          timestamp: message.timestamp,
+        });
+      }
+    }
+    messages.sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+      recording,
+      initialSlide,
+      events: events.map((event) => ({
+        _id: event._id,
+        type: event.type,
+        timestamp: event.timestamp,
+        slide: event.slide,
+        fragment: event.fragment,
+        presenterName: event.userId ? presenterNames.get(event.userId) : undefined,
+      })),
+      dwellTimes: calculateSlideDwellTimes(events, recording.startedAt, endedAt, initialSlide),
+      messages,
+    };
+  },
+});
+
+// Internal helper functions
+// Check if the current user can present the deck, and so see its recordings
+async function _canViewRecordings(
+  ctx: QueryCtx,
+  args: { key: string; sessionId: SessionId }
+): Promise<boolean> {
+  const user = await getAuthUserOptional(ctx, args);
+  const presentation = await ctx.db
+    .query('presentations')
+    .withIndex('by_key', (q) => q.eq('key', args.key))
+    .first();
+  return canPresent(user, presentation);
+}
+
+// Get every event logged for a deck, oldest first
+async function _getPresentationEvents(
+  ctx: QueryCtx,
+  key: string
+): Promise<Doc<'presentationEvents'>[]> {
+  return await ctx.db
+    .query('presentationEvents')
+    .withIndex('by_key_timestamp', (q) => q.eq('key', key))
+    .order('asc')
+    .collect();
+}
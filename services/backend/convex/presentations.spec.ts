@@ -0,0 +1,452 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+import { expect, test } from 'vitest';
+
+import { t } from '../test.setup';
+import { api, internal } from './_generated/api';
+
+test('registered presentations are listed newest first with filters and live badges', async () => {
+  const sessionId = 'presentations-registry' as SessionId;
+  const login = await t.mutation(api.auth.loginAnon, { sessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', login.userId, { accessLevel: 'system_admin' });
+  });
+
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId,
+    key: 'confession',
+    title: 'Confession',
+    date: '2025-04-25',
+    path: '/presentations/20250425-confession',
+    speaker: 'Jane Smith',
+    slideCount: 7,
+  });
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId,
+    key: 'luke-10',
+    title: 'Making a Difference',
+    date: '2025-05-16',
+    path: '/presentations/20250516-luke-10',
+    description: 'The Good Samaritan',
+    slideCount: 7,
+  });
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId,
+    key: 'demo',
+    title: 'Demo Deck',
+    date: '2025-06-01',
+    path: '/test/presentations',
+    visibility: 'unlisted',
+  });
+
+  // Registering again updates the existing entry instead of adding another
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId,
+    key: 'confession',
+    title: 'Confession',
+    date: '2025-04-25',
+    path: '/presentations/20250425-confession',
+    speaker: 'Jane Smith',
+    slideCount: 8,
+  });
+
+  const all = await t.query(api.presentations.listPresentations, { sessionId });
+  expect(all.map((presentation) => presentation.key)).toEqual(['luke-10', 'confession']);
+  expect(all[1]?.slideCount).toBe(8);
+  expect(all.every((presentation) => !presentation.isLive)).toBe(true);
+
+  const bySpeaker = await t.query(api.presentations.listPresentations, {
+    sessionId,
+    search: 'jane',
+  });
+  expect(bySpeaker.map((presentation) => presentation.key)).toEqual(['confession']);
+
+  const inMay = await t.query(api.presentations.listPresentations, {
+    sessionId,
+    fromDate: '2025-05-01',
+    toDate: '2025-05-31',
+  });
+  expect(inMay.map((presentation) => presentation.key)).toEqual(['luke-10']);
+
+  await t.mutation(api.presentations.startPresenting, { sessionId, key: 'luke-10' });
+  const live = await t.query(api.presentations.listPresentations, { sessionId });
+  expect(live.find((presentation) => presentation.key === 'luke-10')?.isLive).toBe(true);
+
+  await expect(
+    t.mutation(api.presentations.registerPresentation, {
+      sessionId,
+      key: 'bad-date',
+      title: 'Bad Date',
+      date: '2025-02-30',
+      path: '/presentations/bad-date',
+    })
+  ).rejects.toThrow('Presentation date must be formatted as YYYY-MM-DD');
+});
+
+test('anonymous callers cannot move or hide registered presentations', async () => {
+  const sessionId = 'presentations-anonymous-registry' as SessionId;
+  await t.mutation(api.auth.loginAnon, { sessionId });
+  const registration = {
+    sessionId,
+    key: 'anonymous-registry',
+    title: 'Anonymous Registry',
+    date: '2025-06-01',
+    path: '/presentations/anonymous-registry',
+  };
+  await t.mutation(api.presentations.registerPresentation, registration);
+
+  for (const path of ['//example.com', '/\\example.com']) {
+    await expect(
+      t.mutation(api.presentations.registerPresentation, { ...registration, path })
+    ).rejects.toThrow('Presentation path must be a path on this site');
+  }
+
+  await t.mutation(api.presentations.registerPresentation, {
+    ...registration,
+    title: 'Renamed Registry',
+    path: '/elsewhere',
+    speaker: 'Someone Else',
+    slideCount: 1,
+    visibility: 'unlisted',
+  });
+  const listed = await t.query(api.presentations.listPresentations, { sessionId });
+  const entry = listed.find((presentation) => presentation.key === 'anonymous-registry');
+  expect(entry).toMatchObject({
+    title: 'Anonymous Registry',
+    path: '/presentations/anonymous-registry',
+    speaker: null,
+    slideCount: null,
+  });
+});
+
+test('only the owner or an admin can change a registered presentation', async () => {
+  const adminSessionId = 'presentations-registry-admin' as SessionId;
+  const ownerSessionId = 'presentations-registry-owner' as SessionId;
+  const otherSessionId = 'presentations-registry-other' as SessionId;
+  const adminLogin = await t.mutation(api.auth.loginAnon, { sessionId: adminSessionId });
+  const ownerLogin = await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  const otherLogin = await t.mutation(api.auth.loginAnon, { sessionId: otherSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', adminLogin.userId, { accessLevel: 'system_admin' });
+    await ctx.db.replace('users', ownerLogin.userId, {
+      type: 'full',
+      name: 'Registry Owner',
+      username: 'registry-owner',
+      email: 'registry-owner@example.com',
+    });
+    await ctx.db.replace('users', otherLogin.userId, {
+      type: 'full',
+      name: 'Registry Visitor',
+      username: 'registry-visitor',
+      email: 'registry-visitor@example.com',
+    });
+  });
+  const registration = {
+    key: 'owned-registry',
+    title: 'Owned Registry',
+    date: '2025-06-01',
+    path: '/presentations/owned-registry',
+  };
+  await t.mutation(api.presentations.registerPresentation, {
+    ...registration,
+    sessionId: otherSessionId,
+  });
+  await t.mutation(api.presentations.setPresentationOwner, {
+    sessionId: adminSessionId,
+    key: registration.key,
+    username: 'registry-owner',
+  });
+
+  // Signed-in users other than the owner leave the entry as it is
+  await t.mutation(api.presentations.registerPresentation, {
+    ...registration,
+    sessionId: otherSessionId,
+    title: 'Hijacked Registry',
+    description: 'Not the real description',
+    visibility: 'unlisted',
+  });
+  let listed = await t.query(api.presentations.listPresentations, { sessionId: otherSessionId });
+  expect(listed.find((presentation) => presentation.key === registration.key)).toMatchObject({
+    title: 'Owned Registry',
+  });
+
+  // The owner can rename the deck, and an admin can move it
+  await t.mutation(api.presentations.registerPresentation, {
+    ...registration,
+    sessionId: ownerSessionId,
+    title: 'Renamed Registry',
+  });
+  await t.mutation(api.presentations.registerPresentation, {
+    ...registration,
+    sessionId: adminSessionId,
+    title: 'Renamed Registry',
+    path: '/presentations/moved-registry',
+  });
+  listed = await t.query(api.presentations.listPresentations, { sessionId: otherSessionId });
+  expect(listed.find((presentation) => presentation.key === registration.key)).toMatchObject({
+    title: 'Renamed Registry',
+    path: '/presentations/moved-registry',
+  });
+});
+
+test('only authorized presenters can present, and control is handed over on request', async () => {
+  const adminSessionId = 'presentations-admin' as SessionId;
+  const ownerSessionId = 'presentations-owner' as SessionId;
+  const viewerSessionId = 'presentations-viewer' as SessionId;
+  const adminLogin = await t.mutation(api.auth.loginAnon, { sessionId: adminSessionId });
+  const ownerLogin = await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  await t.mutation(api.auth.loginAnon, { sessionId: viewerSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.patch('users', adminLogin.userId, { accessLevel: 'system_admin' });
+    await ctx.db.replace('users', ownerLogin.userId, {
+      type: 'full',
+      name: 'Deck Owner',
+      username: 'deck-owner',
+      email: 'deck-owner@example.com',
+    });
+  });
+  const key = 'handoff-deck';
+
+  await t.mutation(api.presentations.registerPresentation, {
+    sessionId: ownerSessionId,
+    key,
+    title: 'Handoff Deck',
+    date: '2025-07-01',
+    path: '/presentations/handoff-deck',
+  });
+
+  // Viewers must be logged in to present
+  await expect(
+    t.mutation(api.presentations.startPresenting, {
+      sessionId: 'presentations-anonymous' as SessionId,
+      key,
+    })
+  ).rejects.toThrow('You must be logged in to present');
+
+  // Presenting a deck without an owner does not claim it, so only admins can until they assign one
+  await expect(
+    t.mutation(api.presentations.startPresenting, { sessionId: ownerSessionId, key })
+  ).rejects.toThrow('Only the owner, co-presenters or an admin can present this deck');
+  await expect(
+    t.mutation(api.presentations.setPresentationOwner, {
+      sessionId: ownerSessionId,
+      key,
+      username: 'deck-owner',
+    })
+  ).rejects.toThrow('Only an admin can choose who owns this deck');
+  await t.mutation(api.presentations.setPresentationOwner, {
+    sessionId: adminSessionId,
+    key,
+    username: 'deck-owner',
+  });
+
+  await t.mutation(api.presentations.startPresenting, { sessionId: ownerSessionId, key });
+  const access = await t.query(api.presentations.getPresentationAccess, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(access.canPresent).toBe(false);
+  expect(access.ownerName).toBe('Deck Owner');
+
+  // Viewers can neither take over nor move the slides
+  await expect(
+    t.mutation(api.presentations.startPresenting, { sessionId: viewerSessionId, key })
+  ).rejects.toThrow('Only the owner, co-presenters or an admin can present this deck');
+  await expect(
+    t.mutation(api.presentations.setCurrentSlide, { sessionId: viewerSessionId, key, slide: 3 })
+  ).rejects.toThrow('Only the presenter can change slides');
+
+  // The viewer asks for control and the presenter grants it
+  await t.mutation(api.presentations.requestControl, { sessionId: viewerSessionId, key });
+  const presenterView = await t.query(api.presentations.getPresentationState, {
+    sessionId: ownerSessionId,
+    key,
+  });
+  expect(presenterView.controlRequest?.isOwnRequest).toBe(false);
+  expect(JSON.stringify(presenterView.controlRequest)).not.toContain(viewerSessionId);
+
+  await expect(
+    t.mutation(api.presentations.respondToControlRequest, {
+      sessionId: viewerSessionId,
+      key,
+      grant: true,
+    })
+  ).rejects.toThrow('Only the presenter can hand over control');
+  await t.mutation(api.presentations.respondToControlRequest, {
+    sessionId: ownerSessionId,
+    key,
+    grant: true,
+  });
+
+  const state = await t.query(api.presentations.getPresentationState, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(state.activePresentation?.isPresenter).toBe(true);
+  expect(state.controlRequest).toBeNull();
+  await t.mutation(api.presentations.setCurrentSlide, {
+    sessionId: viewerSessionId,
+    key,
+    slide: 3,
+  });
+  await expect(
+    t.mutation(api.presentations.setCurrentSlide, { sessionId: ownerSessionId, key, slide: 1 })
+  ).rejects.toThrow('Only the presenter can change slides');
+
+  // The owner can always take control back
+  await t.mutation(api.presentations.startPresenting, { sessionId: ownerSessionId, key });
+  const reclaimed = await t.query(api.presentations.getPresentationState, {
+    sessionId: ownerSessionId,
+    key,
+  });
+  expect(reclaimed.activePresentation?.isPresenter).toBe(true);
+
+  // Viewers learn that someone is presenting, but not who
+  const viewerView = await t.query(api.presentations.getPresentationState, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(viewerView.activePresentation).toEqual({
+    isPresenter: false,
+    lastHeartbeatAt: expect.any(Number),
+  });
+  expect(JSON.stringify(viewerView)).not.toContain(ownerSessionId);
+});
+
+test('presenters who stop sending heartbeats are released', async () => {
+  const presenterSessionId = 'presentations-heartbeat-presenter' as SessionId;
+  const viewerSessionId = 'presentations-heartbeat-viewer' as SessionId;
+  const key = 'heartbeat-deck';
+  await t.mutation(api.auth.loginAnon, { sessionId: presenterSessionId });
+  await t.mutation(api.presentations.startPresenting, { sessionId: presenterSessionId, key });
+
+  // Only the presenter's heartbeats count
+  const viewerHeartbeat = await t.mutation(api.presentations.presenterHeartbeat, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(viewerHeartbeat.isPresenter).toBe(false);
+  const heartbeat = await t.mutation(api.presentations.presenterHeartbeat, {
+    sessionId: presenterSessionId,
+    key,
+  });
+  expect(heartbeat.isPresenter).toBe(true);
+
+  // A presenter who checked in recently is kept
+  await t.mutation(internal.presentations.releaseStalePresenters, { timeoutMs: 60 * 1000 });
+  const active = await t.query(api.presentations.getPresentationState, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(active.activePresentation?.isPresenter).toBe(false);
+
+  // Once the timeout has passed, viewers are released and told the presenter disconnected
+  const { releasedCount } = await t.mutation(internal.presentations.releaseStalePresenters, {
+    timeoutMs: 0,
+  });
+  expect(releasedCount).toBeGreaterThanOrEqual(1);
+  const released = await t.query(api.presentations.getPresentationState, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(released.activePresentation).toBeUndefined();
+  expect(released.presenterDisconnectedAt).toBeDefined();
+
+  // Presenting again clears the disconnection
+  await t.mutation(api.presentations.startPresenting, { sessionId: presenterSessionId, key });
+  const resumed = await t.query(api.presentations.getPresentationState, {
+    sessionId: viewerSessionId,
+    key,
+  });
+  expect(resumed.presenterDisconnectedAt).toBeUndefined();
+});
+
+test('fragment steps are synced with the slide, newest change first', async () => {
+  const sessionId = 'presentations-fragments' as SessionId;
+  const key = 'fragments-deck';
+
+  const initial = await t.query(api.presentations.getPresentationState, { sessionId, key });
+  expect(initial.currentFragment).toBe(0);
+
+  await t.mutation(api.presentations.setCurrentSlide, { sessionId, key, slide: 1, timestamp: 100 });
+  await t.mutation(api.presentations.setCurrentSlide, {
+    sessionId,
+    key,
+    slide: 1,
+    fragment: 2,
+    timestamp: 300,
+  });
+
+  // A step sent earlier that arrives late does not hide the revealed fragments
+  await t.mutation(api.presentations.setCurrentSlide, {
+    sessionId,
+    key,
+    slide: 1,
+    fragment: 1,
+    timestamp: 200,
+  });
+  const revealed = await t.query(api.presentations.getPresentationState, { sessionId, key });
+  expect(revealed).toMatchObject({ currentSlide: 1, currentFragment: 2, lastUpdated: 300 });
+
+  // Moving to another slide starts with none of its fragments revealed
+  await t.mutation(api.presentations.setCurrentSlide, { sessionId, key, slide: 2, timestamp: 400 });
+  const next = await t.query(api.presentations.getPresentationState, { sessionId, key });
+  expect(next).toMatchObject({ currentSlide: 2, currentFragment: 0 });
+});
+
+test('co-presenters ask for control instead of taking over, while the owner can take over', async () => {
+  const ownerSessionId = 'presentations-takeover-owner' as SessionId;
+  const firstSessionId = 'presentations-takeover-first' as SessionId;
+  const secondSessionId = 'presentations-takeover-second' as SessionId;
+  const key = 'takeover-deck';
+  const ownerLogin = await t.mutation(api.auth.loginAnon, { sessionId: ownerSessionId });
+  const firstLogin = await t.mutation(api.auth.loginAnon, { sessionId: firstSessionId });
+  const secondLogin = await t.mutation(api.auth.loginAnon, { sessionId: secondSessionId });
+  await t.run(async (ctx) => {
+    await ctx.db.insert('presentations', {
+      key,
+      title: 'Takeover Deck',
+      date: '2025-07-01',
+      path: '/presentations/takeover-deck',
+      visibility: 'public',
+      ownerId: ownerLogin.userId,
+      coPresenterIds: [firstLogin.userId, secondLogin.userId],
+      updatedAt: Date.now(),
+    });
+  });
+
+  await t.mutation(api.presentations.startPresenting, { sessionId: firstSessionId, key });
+  const coPresenterAccess = await t.query(api.presentations.getPresentationAccess, {
+    sessionId: secondSessionId,
+    key,
+  });
+  expect(coPresenterAccess).toMatchObject({ canPresent: true, canTakeOver: false });
+  const ownerAccess = await t.query(api.presentations.getPresentationAccess, {
+    sessionId: ownerSessionId,
+    key,
+  });
+  expect(ownerAccess.canTakeOver).toBe(true);
+  await expect(
+    t.mutation(api.presentations.startPresenting, { sessionId: secondSessionId, key })
+  ).rejects.toThrow('Someone else is presenting. Ask them to hand over control.');
+
+  // The second co-presenter asks, and the first hands over
+  await t.mutation(api.presentations.requestControl, { sessionId: secondSessionId, key });
+  await t.mutation(api.presentations.respondToControlRequest, {
+    sessionId: firstSessionId,
+    key,
+    grant: true,
+  });
+  const handedOver = await t.query(api.presentations.getPresentationState, {
+    sessionId: secondSessionId,
+    key,
+  });
+  expect(handedOver.activePresentation?.isPresenter).toBe(true);
+
+  // The owner takes over without asking
+  await t.mutation(api.presentations.startPresenting, { sessionId: ownerSessionId, key });
+  const takenOver = await t.query(api.presentations.getPresentationState, {
+    sessionId: ownerSessionId,
+    key,
+  });
+  expect(takenOver.activePresentation?.isPresenter).toBe(true);
+});
@@ -1,7 +1,131 @@
 import { v } from 'convex/values';
-import { SessionIdArg } from 'convex-helpers/server/sessions';
+import { type SessionId, SessionIdArg } from 'convex-helpers/server/sessions';
 
-import { mutation, query } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import {
+  internalMutation,
+  type MutationCtx,
+  mutation,
+  query,
+  type QueryCtx,
+} from './_generated/server';
+import { isSystemAdmin } from '../modules/auth/accessControl';
+import { getAuthUserOptional } from '../modules/auth/getAuthUser';
+import { canManagePresenters, canPresent } from '../modules/presentation/accessControl';
+import { getPresenterTimeoutMs, isPresenterStale } from '../modules/presentation/heartbeat';
+import {
+  isValidPresentationDate,
+  isValidPresentationPath,
+  matchesPresentationFilter,
+  type PresentationListItem,
+} from '../modules/presentation/registry';
+
+// List the public presentations for the index, newest first, with whether each is live
+export const listPresentations = query({
+  args: {
+    search: v.optional(v.string()),
+    fromDate: v.optional(v.string()),
+    toDate: v.optional(v.string()),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args): Promise<PresentationListItem[]> => {
+    const presentations = await ctx.db
+      .query('presentations')
+      .withIndex('by_date')
+      .order('desc')
+      .collect();
+
+    const items: PresentationListItem[] = [];
+    for (const presentation of presentations) {
+      if (presentation.visibility !== 'public') continue;
+
+      const item = {
+        key: presentation.key,
+        title: presentation.title,
+        date: presentation.date,
+        path: presentation.path,
+        speaker: presentation.speaker ?? null,
+        description: presentation.description ?? null,
+        slideCount: presentation.slideCount ?? null,
+      };
+      if (!matchesPresentationFilter(item, args)) continue;
+
+      // A presentation is live while someone is presenting it
+      const state = await ctx.db
+        .query('presentationState')
+        .withIndex('by_key', (q) => q.eq('key', presentation.key))
+        .first();
+      items.push({ ...item, isLive: Boolean(state?.activePresentation) });
+    }
+
+    return items;
+  },
+});
+
+// Register a deck's metadata so that it appears on the presentations index
+export const registerPresentation = mutation({
+  args: {
+    key: v.string(),
+    title: v.string(),
+    date: v.string(),
+    path: v.string(),
+    speaker: v.optional(v.string()),
+    description: v.optional(v.string()),
+    slideCount: v.optional(v.number()),
+    visibility: v.optional(v.union(v.literal('public'), v.literal('unlisted'))),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const { sessionId: _sessionId, ...registration } = args;
+    if (!registration.key.trim() || !registration.title.trim()) {
+      throw new Error('Presentation key and title are required');
+    }
+    if (!isValidPresentationDate(registration.date)) {
+      throw new Error('Presentation date must be formatted as YYYY-MM-DD');
+    }
+    if (!isValidPresentationPath(registration.path)) {
+      throw new Error('Presentation path must be a path on this site, starting with a single /');
+    }
+
+    const metadata = {
+      title: registration.title,
+      date: registration.date,
+      path: registration.path,
+      speaker: registration.speaker,
+      description: registration.description,
+      slideCount: registration.slideCount,
+      visibility: registration.visibility ?? 'public',
+    };
+
+    const existing = await ctx.db
+      .query('presentations')
+      .withIndex('by_key', (q) => q.eq('key', registration.key))
+      .first();
+
+    if (!existing) {
+      return await ctx.db.insert('presentations', {
+        key: registration.key,
+        ...metadata,
+        updatedAt: Date.now(),
+      });
+    }
+
+    // Anyone who opens a deck registers it, but only its owner or an admin can change the entry
+    const user = await getAuthUserOptional(ctx, args);
+    if (!canManagePresenters(user, existing)) {
+      return existing._id;
+    }
+
+    // Decks register every time they are opened, so only write when the metadata changed
+    const hasChanges = (Object.keys(metadata) as (keyof typeof metadata)[]).some(
+      (field) => existing[field] !== metadata[field]
+    );
+    if (hasChanges) {
+      await ctx.db.patch('presentations', existing._id, { ...metadata, updatedAt: Date.now() });
+    }
+    return existing._id;
+  },
+});
 
 // Get the current state of a presentation
 export const getPresentationState = query({
@@ -21,28 +145,93 @@ export const getPresentationState = query({
       return {
         key: args.key,
         currentSlide: 0,
+        currentFragment: 0,
         lastUpdated: 0,
         exists: false,
+        activePresentation: undefined,
+        presenterDisconnectedAt: undefined,
+        controlRequest: null,
       };
     }
 
+    // Only share the name of whoever asked to present, and whether the caller is presenting,
+    // never anyone's session
+    const { controlRequest, activePresentation, ...rest } = state;
     return {
-      ...state,
+      ...rest,
+      currentFragment: rest.currentFragment ?? 0,
       exists: true,
+      activePresentation: activePresentation
+        ? {
+            isPresenter: activePresentation.presenterId === args.sessionId,
+            lastHeartbeatAt: activePresentation.lastHeartbeatAt,
+          }
+        : undefined,
+      controlRequest: controlRequest
+        ? {
+            name: controlRequest.name,
+            requestedAt: controlRequest.requestedAt,
+            isOwnRequest: controlRequest.sessionId === args.sessionId,
+          }
+        : null,
+    };
+  },
+});
+
+// Get who can present a deck, including its co-presenters for the owner
+export const getPresentationAccess = query({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    const presentation = await _getRegisteredPresentation(ctx, args.key);
+
+    const canManage = presentation ? canManagePresenters(user, presentation) : false;
+    const owner = presentation?.ownerId ? await ctx.db.get('users', presentation.ownerId) : null;
+    const coPresenters = canManage
+      ? await Promise.all(
+          (presentation?.coPresenterIds ?? []).map(async (userId) => {
+            const coPresenter = await ctx.db.get('users', userId);
+            return { userId, name: coPresenter?.name ?? 'Unknown user' };
+          })
+        )
+      : [];
+
+    const state = await ctx.db
+      .query('presentationState')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+
+    return {
+      canPresent: canPresent(user, presentation),
+      // Whether the current user can take over from whoever is presenting without asking
+      canTakeOver:
+        !!user &&
+        canPresent(user, presentation) &&
+        _canTakeOverPresenting(user, presentation, state, args.sessionId),
+      canManagePresenters: canManage,
+      canSetOwner: !!presentation && !!user && isSystemAdmin(user),
+      ownerName: owner?.name ?? null,
+      coPresenters,
     };
   },
 });
 
-// Set the current slide for a presentation
+// Set the current slide, and the fragments revealed on it, for a presentation
 export const setCurrentSlide = mutation({
   args: {
     key: v.string(),
     slide: v.number(),
+    fragment: v.optional(v.number()),
     timestamp: v.optional(v.number()),
     ...SessionIdArg,
   },
   handler: async (ctx, args) => {
     const timestamp = args.timestamp || Date.now();
+    // Moving to a slide without a fragment shows it with none of its fragments revealed
+    const fragment = Math.max(0, args.fragment ?? 0);
 
     // Look up the presentation state by key
     const state = await ctx.db
@@ -52,20 +241,46 @@ export const setCurrentSlide = mutation({
 
     if (!state) {
       // If no state exists for this key, create a new one
-      return await ctx.db.insert('presentationState', {
+      const stateId = await ctx.db.insert('presentationState', {
         key: args.key,
         currentSlide: args.slide,
+        currentFragment: fragment,
         lastUpdated: timestamp,
       });
+      await _logPresentationEvent(ctx, {
+        key: args.key,
+        type: 'slide_changed',
+        sessionId: args.sessionId,
+        slide: args.slide,
+        fragment,
+      });
+      return stateId;
     }
 
-    // Only update if the incoming timestamp is newer than the existing one
+    // While someone is presenting, only they can move the slides
+    if (state.activePresentation && state.activePresentation.presenterId !== args.sessionId) {
+      throw new Error('Only the presenter can change slides');
+    }
+
+    // Only update if the incoming timestamp is newer than the existing one. The slide and
+    // fragment are updated together, so fragment steps that arrive out of order are ignored
+    // like slide changes are.
     if (timestamp > state.lastUpdated) {
       // Update the existing state
-      return await ctx.db.patch('presentationState', state._id, {
+      await ctx.db.patch('presentationState', state._id, {
         currentSlide: args.slide,
+        currentFragment: fragment,
         lastUpdated: timestamp,
       });
+      await _logPresentationEvent(ctx, {
+        key: args.key,
+        type: 'slide_changed',
+        sessionId: args.sessionId,
+        userId: state.activePresentation?.presenterUserId,
+        slide: args.slide,
+        fragment,
+      });
+      return state._id;
     }
 
     // Return the current state if we didn't update
@@ -80,30 +295,119 @@ export const startPresenting = mutation({
     ...SessionIdArg,
   },
   handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      throw new Error('You must be logged in to present');
+    }
+
+    const presentation = await _getRegisteredPresentation(ctx, args.key);
+    if (!canPresent(user, presentation)) {
+      throw new Error('Only the owner, co-presenters or an admin can present this deck');
+    }
+
     // Look up the presentation state by key
     const state = await ctx.db
       .query('presentationState')
       .withIndex('by_key', (q) => q.eq('key', args.key))
       .first();
 
+    // Only the owner or an admin can take over from someone else, such as a co-presenter who
+    // left the deck open; everyone else asks the presenter to hand over control
+    if (!_canTakeOverPresenting(user, presentation, state, args.sessionId)) {
+      throw new Error('Someone else is presenting. Ask them to hand over control.');
+    }
+
+    const presenter = {
+      presenterId: args.sessionId,
+      presenterUserId: user._id,
+      lastHeartbeatAt: Date.now(),
+    };
+    await _logPresentationEvent(ctx, {
+      key: args.key,
+      type: 'presenting_started',
+      sessionId: args.sessionId,
+      userId: user._id,
+    });
     if (!state) {
       // If no state exists for this key, create a new one with the presenter info
       return await ctx.db.insert('presentationState', {
         key: args.key,
         currentSlide: 0,
         lastUpdated: Date.now(),
-        activePresentation: {
-          presenterId: args.sessionId,
-        },
+        activePresentation: presenter,
       });
     }
 
     // Update the existing state with the new presenter
     return await ctx.db.patch('presentationState', state._id, {
-      activePresentation: {
-        presenterId: args.sessionId,
-      },
+      activePresentation: presenter,
+      controlRequest: undefined,
+      presenterDisconnectedAt: undefined,
+    });
+  },
+});
+
+// Record that the presenter is still connected - sent periodically by the presenter's browser
+export const presenterHeartbeat = mutation({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const state = await ctx.db
+      .query('presentationState')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+
+    // Presenters who were released or replaced stop sending heartbeats
+    if (!state?.activePresentation || state.activePresentation.presenterId !== args.sessionId) {
+      return { isPresenter: false };
+    }
+
+    await ctx.db.patch('presentationState', state._id, {
+      activePresentation: { ...state.activePresentation, lastHeartbeatAt: Date.now() },
     });
+    return { isPresenter: true };
+  },
+});
+
+// Stop presentations whose presenter has not sent a heartbeat within the timeout, so that
+// viewers are not locked to a presenter who has gone away
+export const releaseStalePresenters = internalMutation({
+  args: {
+    timeoutMs: v.optional(v.number()), // Defaults to the configured presenter timeout
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const timeoutMs = args.timeoutMs ?? getPresenterTimeoutMs(process.env);
+
+    // Only a handful of decks are ever presented at once, so scanning the table is cheap
+    const states = await ctx.db.query('presentationState').collect();
+    let releasedCount = 0;
+    for (const state of states) {
+      const { activePresentation } = state;
+      if (
+        !activePresentation ||
+        !isPresenterStale(activePresentation.lastHeartbeatAt, now, timeoutMs)
+      ) {
+        continue;
+      }
+
+      await ctx.db.patch('presentationState', state._id, {
+        activePresentation: undefined,
+        controlRequest: undefined,
+        presenterDisconnectedAt: now,
+      });
+      await _logPresentationEvent(ctx, {
+        key: state.key,
+        type: 'presenting_stopped',
+        sessionId: activePresentation.presenterId,
+        userId: activePresentation.presenterUserId,
+      });
+      releasedCount++;
+    }
+
+    return { releasedCount };
   },
 });
 
@@ -125,14 +429,259 @@ export const stopPresenting = mutation({
       return null;
     }
 
-    // Verify the requester is the presenter
+    // Verify the requester is the presenter, or the deck's owner or an admin
     if (state.activePresentation.presenterId !== args.sessionId) {
-      throw new Error('Only the presenter can stop the presentation');
+      const user = await getAuthUserOptional(ctx, args);
+      const presentation = await _getRegisteredPresentation(ctx, args.key);
+      if (!presentation || !canManagePresenters(user, presentation)) {
+        throw new Error('Only the presenter can stop the presentation');
+      }
     }
 
-    // Remove the activePresentation field
+    await _logPresentationEvent(ctx, {
+      key: args.key,
+      type: 'presenting_stopped',
+      sessionId: state.activePresentation.presenterId,
+      userId: state.activePresentation.presenterUserId,
+    });
+
+    // Remove the activePresentation field and any pending request to take over
     return await ctx.db.patch('presentationState', state._id, {
       activePresentation: undefined,
+      controlRequest: undefined,
     });
   },
 });
+
+// Ask the current presenter to hand over control of the presentation
+export const requestControl = mutation({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user) {
+      throw new Error('You must be logged in to request control');
+    }
+
+    const state = await ctx.db
+      .query('presentationState')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+    if (!state?.activePresentation) {
+      throw new Error('No one is presenting right now');
+    }
+    if (state.activePresentation.presenterId === args.sessionId) {
+      throw new Error('You are already presenting');
+    }
+
+    // A newer request replaces any earlier one
+    return await ctx.db.patch('presentationState', state._id, {
+      controlRequest: {
+        sessionId: args.sessionId,
+        userId: user._id,
+        name: user.name,
+        requestedAt: Date.now(),
+      },
+    });
+  },
+});
+
+// Withdraw your own pending request to present
+export const cancelControlRequest = mutation({
+  args: {
+    key: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const state = await ctx.db
+      .query('presentationState')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+    if (!state?.controlRequest || state.controlRequest.sessionId !== args.sessionId) {
+      return null;
+    }
+
+    return await ctx.db.patch('presentationState', state._id, { controlRequest: undefined });
+  },
+});
+
+// Grant or deny the pending request to present - only the current presenter can respond
+export const respondToControlRequest = mutation({
+  args: {
+    key: v.string(),
+    grant: v.boolean(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const state = await ctx.db
+      .query('presentationState')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+    if (!state?.activePresentation || state.activePresentation.presenterId !== args.sessionId) {
+      throw new Error('Only the presenter can hand over control');
+    }
+    if (!state.controlRequest) {
+      throw new Error('No one has requested control');
+    }
+
+    // Granting hands the presentation over, even to a viewer who could not start presenting
+    const { controlRequest } = state;
+    if (args.grant) {
+      await _logPresentationEvent(ctx, {
+        key: args.key,
+        type: 'presenting_started',
+        sessionId: controlRequest.sessionId,
+        userId: controlRequest.userId,
+      });
+    }
+    return await ctx.db.patch('presentationState', state._id, {
+      controlRequest: undefined,
+      ...(args.grant && {
+        activePresentation: {
+          presenterId: controlRequest.sessionId,
+          presenterUserId: controlRequest.userId,
+          lastHeartbeatAt: Date.now(),
+        },
+      }),
+    });
+  },
+});
+
+// Choose who owns a deck - only an admin can assign an owner
+export const setPresentationOwner = mutation({
+  args: {
+    key: v.string(),
+    username: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserOptional(ctx, args);
+    if (!user || !isSystemAdmin(user)) {
+      throw new Error('Only an admin can choose who owns this deck');
+    }
+    const presentation = await _getRegisteredPresentation(ctx, args.key);
+    if (!presentation) {
+      throw new Error('Presentation not found');
+    }
+
+    const owner = await ctx.db
+      .query('users')
+      .withIndex('by_username', (q) => q.eq('username', args.username.trim()))
+      .first();
+    if (!owner) {
+      throw new Error('No user found with that username');
+    }
+
+    // The new owner no longer needs to be a co-presenter
+    await ctx.db.patch('presentations', presentation._id, {
+      ownerId: owner._id,
+      coPresenterIds: (presentation.coPresenterIds ?? []).filter((userId) => userId !== owner._id),
+    });
+    return presentation._id;
+  },
+});
+
+// Allow another user to present a deck - only the owner or an admin can add co-presenters
+export const addCoPresenter = mutation({
+  args: {
+    key: v.string(),
+    username: v.string(),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const presentation = await _getManageablePresentation(ctx, args);
+
+    const coPresenter = await ctx.db
+      .query('users')
+      .withIndex('by_username', (q) => q.eq('username', args.username.trim()))
+      .first();
+    if (!coPresenter) {
+      throw new Error('No user found with that username');
+    }
+
+    const coPresenterIds = presentation.coPresenterIds ?? [];
+    if (coPresenter._id === presentation.ownerId || coPresenterIds.includes(coPresenter._id)) {
+      return presentation._id;
+    }
+    await ctx.db.patch('presentations', presentation._id, {
+      coPresenterIds: [...coPresenterIds, coPresenter._id],
+    });
+    return presentation._id;
+  },
+});
+
+// Stop allowing a user to present a deck - only the owner or an admin can remove co-presenters
+export const removeCoPresenter = mutation({
+  args: {
+    key: v.string(),
+    userId: v.id('users'),
+    ...SessionIdArg,
+  },
+  handler: async (ctx, args) => {
+    const presentation = await _getManageablePresentation(ctx, args);
+
+    await ctx.db.patch('presentations', presentation._id, {
+      coPresenterIds: (presentation.coPresenterIds ?? []).filter(
+        (userId) => userId !== args.userId
+      ),
+    });
+    return presentation._id;
+  },
+});
+
+// Internal helper functions
+// Check if a user can start presenting without asking whoever is presenting now: when no one
+// else is, when they are presenting on another device, or as the deck's owner or an admin
+function _canTakeOverPresenting(
+  user: Doc<'users'>,
+  presentation: Doc<'presentations'> | null,
+  state: Doc<'presentationState'> | null,
+  sessionId: string
+): boolean {
+  const activePresentation = state?.activePresentation;
+  if (
+    !activePresentation ||
+    activePresentation.presenterId === sessionId ||
+    activePresentation.presenterUserId === user._id
+  ) {
+    return true;
+  }
+  return presentation ? canManagePresenters(user, presentation) : isSystemAdmin(user);
+}
+
+// Look up the registry entry of a deck, if it has been registered
+async function _getRegisteredPresentation(
+  ctx: QueryCtx,
+  key: string
+): Promise<Doc<'presentations'> | null> {
+  return await ctx.db
+    .query('presentations')
+    .withIndex('by_key', (q) => q.eq('key', key))
+    .first();
+}
+
+// Look up a registered deck whose presenters the current user can manage
+async function _getManageablePresentation(
+  ctx: MutationCtx,
+  args: { key: string; sessionId: SessionId }
+): Promise<Doc<'presentations'>> {
+  const presentation = await _getRegisteredPresentation(ctx, args.key);
+  if (!presentation) {
+    throw new Error('Presentation not found');
+  }
+  const user = await getAuthUserOptional(ctx, args);
+  if (!canManagePresenters(user, presentation)) {
+    throw new Error('Only the owner or an admin can change who presents this deck');
+  }
+  return presentation;
+}
+
+// Record an event in the timeline of a presentation, for replaying the session later
+async function _logPresentationEvent(
+  ctx: MutationCtx,
+  event: Omit<Doc<'presentationEvents'>, '_id' | '_creationTime' | 'timestamp'>
+): Promise<void> {
+  await ctx.db.insert('presentationEvents', { ...event, timestamp: Date.now() });
+}
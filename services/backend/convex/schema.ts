@@ -17,21 +17,135 @@ export default defineSchema({
     latestVersion: v.string(),
   }),
 
+  /**
+   * Registry of presentation decks, used to build the presentations index.
+   * Decks register their metadata into this table when they are opened.
+   */
+  presentations: defineTable({
+    key: v.string(), // The presentation key used for presentation state
+    title: v.string(), // Title shown on the index
+    date: v.string(), // Date the presentation was given, formatted as YYYY-MM-DD
+    path: v.string(), // Path of the deck in the web app
+    speaker: v.optional(v.string()), // Name of the person presenting
+    description: v.optional(v.string()), // Short summary shown on the index
+    slideCount: v.optional(v.number()), // Number of slides, if the presentation is a slide deck
+    visibility: v.union(v.literal('public'), v.literal('unlisted')), // Unlisted decks are hidden from the index
+    ownerId: v.optional(v.id('users')), // Owner of the deck, assigned by an admin
+    coPresenterIds: v.optional(v.array(v.id('users'))), // Users the owner allows to present the deck
+    updatedAt: v.number(), // When the metadata was last registered with changes
+  })
+    .index('by_key', ['key'])
+    .index('by_date', ['date']),
+
   /**
    * Presentation state management for real-time presentation controls.
-   * Tracks current slide and active presenter information.
+   * Tracks current slide, active presenter information and requests to take over presenting.
    */
   presentationState: defineTable({
     key: v.string(), // The presentation key that identifies this presentation
     currentSlide: v.number(), // The current slide number
+    currentFragment: v.optional(v.number()), // Fragments revealed on the current slide, 0 when unset
     lastUpdated: v.number(), // Timestamp of last update
     activePresentation: v.optional(
       v.object({
         presenterId: v.string(), // Session ID of the current presenter
+        presenterUserId: v.optional(v.id('users')), // User account of the current presenter
+        lastHeartbeatAt: v.optional(v.number()), // When the presenter's browser last checked in
       })
     ), // Optional object containing presenter information
+    presenterDisconnectedAt: v.optional(v.number()), // When a stale presenter was last released
+    controlRequest: v.optional(
+      v.object({
+        sessionId: v.string(), // Session ID of the viewer asking to present
+        userId: v.id('users'), // User account of the viewer asking to present
+        name: v.string(), // Name shown to the presenter
+        requestedAt: v.number(), // When control was requested
+      })
+    ), // Pending request from a viewer to take over presenting
   }).index('by_key', ['key']),
 
+  /**
+   * Audience presence for presentations.
+   * One entry per browser session following a deck, kept fresh by heartbeats.
+   */
+  presentationViewers: defineTable({
+    key: v.string(), // The presentation key being viewed
+    sessionId: v.string(), // Session ID of the viewer
+    userId: v.optional(v.id('users')), // User account of the viewer, if logged in
+    currentSlide: v.number(), // The slide the viewer is on, starting from 1
+    isSoloMode: v.boolean(), // Whether the viewer is navigating independently of the presenter
+    joinedAt: v.number(), // When the viewer opened the deck
+    lastSeenAt: v.number(), // When the viewer's browser last checked in
+  })
+    .index('by_key_session', ['key', 'sessionId'])
+    .index('by_last_seen', ['lastSeenAt']),
+
+  /**
+   * Log of what happened during presentations, for replaying recorded sessions.
+   * Every slide change and every time someone starts or stops presenting is recorded.
+   */
+  presentationEvents: defineTable({
+    key: v.string(), // The presentation key the event happened in
+    type: v.union(
+      v.literal('slide_changed'),
+      v.literal('presenting_started'),
+      v.literal('presenting_stopped')
+    ), // What happened
+    sessionId: v.string(), // Session ID of who caused the event; for stops, the presenter who stopped
+    userId: v.optional(v.id('users')), // User account of who caused the event, if known
+    slide: v.optional(v.number()), // The slide shown after a slide change, starting from 0
+    fragment: v.optional(v.number()), // Fragments revealed after a slide change
+    timestamp: v.number(), // When the event was recorded
+  }).index('by_key_timestamp', ['key', 'timestamp']),
+
+  /**
+   * Emoji reactions sent by viewers during a presentation.
+   * Reactions float over the slide they were sent on and are cleaned up after a while.
+   */
+  presentationReactions: defineTable({
+    key: v.string(), // The presentation key the reaction was sent to
+    slide: v.number(), // The slide the viewer was on, starting from 1
+    emoji: v.string(), // One of the allowed reaction emoji
+    sessionId: v.string(), // Session ID of the viewer who reacted
+    createdAt: v.number(), // When the reaction was sent
+  })
+    .index('by_key_created', ['key', 'createdAt'])
+    .index('by_session_created', ['sessionId', 'createdAt'])
+    .index('by_created', ['createdAt']),
+
+  /**
+   * Audience polls embedded in slides.
+   * Polls are created the first time they are shown and controlled by whoever presents the deck.
+   */
+  polls: defineTable({
+    key: v.string(), // Unique identifier for the poll
+    presentationKey: v.optional(v.string()), // The deck the poll is shown in, whose presenters control it
+    question: v.string(), // The question asked
+    type: v.union(
+      v.literal('single_choice'),
+      v.literal('multiple_choice'),
+      v.literal('word_cloud')
+    ), // How viewers answer the poll
+    options: v.array(v.string()), // Options to choose from; empty for word clouds
+    status: v.union(v.literal('draft'), v.literal('open'), v.literal('closed')), // Whether votes are accepted
+    isResultsRevealed: v.boolean(), // Whether viewers can see the results
+    createdBy: v.optional(v.id('users')), // User who first showed the poll, which grants no control over it
+    createdAt: v.number(), // When the poll was created
+    openedAt: v.optional(v.number()), // When the poll was last opened
+    closedAt: v.optional(v.number()), // When the poll was last closed
+  }).index('by_key', ['key']),
+
+  /**
+   * Votes cast in polls, one per poll and session.
+   */
+  pollVotes: defineTable({
+    pollKey: v.string(), // The poll this vote belongs to
+    sessionId: v.string(), // Session ID of the voter
+    optionIndexes: v.optional(v.array(v.number())), // Chosen options, for choice polls
+    text: v.optional(v.string()), // The answer, for word clouds
+    votedAt: v.number(), // When the vote was last changed
+  }).index('by_poll_session', ['pollKey', 'sessionId']),
+
   /**
    * Discussion state management for collaborative discussions.
    * Tracks discussion lifecycle, conclusions, and metadata.
@@ -39,8 +153,27 @@ export default defineSchema({
   discussionState: defineTable({
     key: v.string(), // Unique identifier for the discussion
     title: v.string(), // Title of the discussion
+    prompts: v.optional(v.array(v.string())), // Guiding questions of the discussion, in order
+    activePromptIndex: v.optional(v.number()), // Index of the question facilitators moved the discussion to
     isActive: v.boolean(), // Whether the discussion is active or concluded
     createdAt: v.number(), // When the discussion was created
+    presentationKey: v.optional(v.string()), // The deck the discussion is part of, whose presenters run it
+    createdBy: v.optional(v.string()), // Session ID of who created the discussion, which grants no role
+    ownerId: v.optional(v.id('users')), // User who created the discussion, if logged in, in discussions created before roles came from the deck; grants no role
+    isLocked: v.optional(v.boolean()), // Whether facilitators made the discussion read-only
+    isAnonymous: v.optional(v.boolean()), // Whether people post under a pseudonym instead of their name
+    participants: v.optional(
+      v.array(
+        v.object({
+          participantId: v.string(), // Opaque identifier of the participant, shown to facilitators instead of their session
+          sessionId: v.string(), // Session ID of the participant
+          userId: v.optional(v.id('users')), // User of the participant, if logged in
+          name: v.string(), // Name the participant posted under
+          role: v.union(v.literal('facilitator'), v.literal('participant')), // Role given by the owner
+          isMuted: v.boolean(), // Whether a facilitator muted the participant
+        })
+      )
+    ), // Participants whose role or mute state differs from the default
     conclusions: v.optional(
       v.array(
         v.object({
@@ -59,11 +192,44 @@ export default defineSchema({
    */
   discussionMessages: defineTable({
     discussionKey: v.string(), // The discussion this message belongs to
-    name: v.string(), // Name of the person who wrote the message
+    name: v.string(), // Name of the person who wrote the message, or their pseudonym if posted anonymously
     message: v.string(), // The content of the message
     timestamp: v.number(), // When the message was sent
     sessionId: v.optional(v.string()), // Session ID of the sender (optional)
-  }).index('by_discussion', ['discussionKey']),
+    userId: v.optional(v.id('users')), // User who sent the message, if logged in
+    parentMessageId: v.optional(v.id('discussionMessages')), // The message this replies to; replies are one level deep
+    promptIndex: v.optional(v.number()), // Index of the question the message answers, if any
+    editedAt: v.optional(v.number()), // When the message was last edited
+    pinnedAt: v.optional(v.number()), // When a facilitator pinned the message
+  })
+    .index('by_discussion', ['discussionKey'])
+    .index('by_discussion_prompt', ['discussionKey', 'promptIndex']),
+
+  /**
+   * Edit history of discussion messages.
+   * Keeps the content a message had before each edit.
+   */
+  discussionMessageEdits: defineTable({
+    messageId: v.id('discussionMessages'), // The edited message
+    discussionKey: v.string(), // The discussion the message belongs to
+    previousMessage: v.string(), // The content of the message before the edit
+    editedAt: v.number(), // When the message was edited
+    editedBy: v.string(), // Session ID of who edited the message
+  }).index('by_message', ['messageId', 'editedAt']),
+
+  /**
+   * Reactions to discussion messages, such as a "+1".
+   * One entry per message, session and emoji.
+   */
+  discussionMessageReactions: defineTable({
+    messageId: v.id('discussionMessages'), // The message reacted to
+    discussionKey: v.string(), // The discussion the message belongs to
+    sessionId: v.string(), // Session ID of who reacted
+    emoji: v.string(), // One of the allowed reaction emoji
+    createdAt: v.number(), // When the reaction was added
+  })
+    .index('by_message_session', ['messageId', 'sessionId'])
+    .index('by_discussion', ['discussionKey']),
 
   /**
    * Checklist state management for collaborative task tracking.
@@ -95,6 +261,78 @@ export default defineSchema({
     .index('by_checklist', ['checklistKey'])
     .index('by_checklist_order', ['checklistKey', 'order']),
 
+  /**
+   * Attendance events describing a meeting that attendance is collected for.
+   * Records for an event are stored in attendanceRecords under the event's attendanceKey.
+   */
+  attendanceEvents: defineTable({
+    attendanceKey: v.string(), // The attendance session key that records are stored under
+    title: v.string(), // Title of the event
+    date: v.optional(v.number()), // When the event takes place
+    location: v.optional(v.string()), // Where the event takes place
+    rsvpDeadline: v.optional(v.number()), // When responses are due
+    ownerId: v.id('users'), // User who created and manages the event
+    groupId: v.optional(v.id('attendanceGroups')), // Group whose roster is expected to respond
+    recurrence: v.optional(
+      v.object({
+        frequency: v.union(v.literal('weekly'), v.literal('biweekly')), // How often the event repeats
+        dayOfWeek: v.number(), // Day of the week the event repeats on (0 = Sunday)
+        time: v.string(), // Local time of day in HH:mm format
+        utcOffsetMinutes: v.number(), // Offset of the local time from UTC, in minutes
+      })
+    ), // Recurrence rule for events that repeat
+    seriesId: v.optional(v.id('attendanceEvents')), // First event of the recurring series this event belongs to
+    nextOccurrenceAt: v.optional(v.number()), // When the following occurrence is due to be generated (latest occurrence only)
+    isArchived: v.boolean(), // Whether the event has been archived
+    createdAt: v.number(), // When the event was created
+    archivedAt: v.optional(v.number()), // When the event was archived
+  })
+    .index('by_attendance_key', ['attendanceKey'])
+    .index('by_owner', ['ownerId'])
+    .index('by_group_date', ['groupId', 'date'])
+    .index('by_series_date', ['seriesId', 'date'])
+    .index('by_next_occurrence', ['nextOccurrenceAt'])
+    .index('by_rsvp_deadline', ['rsvpDeadline']),
+
+  /**
+   * Groups whose members are expected to respond to attendance events.
+   */
+  attendanceGroups: defineTable({
+    name: v.string(), // Display name of the group
+    ownerId: v.id('users'), // User who manages the group roster
+    createdAt: v.number(), // When the group was created
+  }).index('by_owner', ['ownerId']),
+
+  /**
+   * Roster of expected attendees for an attendance group.
+   * Inactive members are kept for history but are no longer expected to respond.
+   */
+  attendanceGroupMembers: defineTable({
+    groupId: v.id('attendanceGroups'), // The group this member belongs to
+    name: v.string(), // Name shown in attendance lists
+    userId: v.optional(v.id('users')), // Optional link to the member's user account
+    email: v.optional(v.string()), // Email address that reminders are sent to
+    remindersOptedOut: v.optional(v.boolean()), // Whether the member has opted out of reminders
+    isActive: v.boolean(), // Whether the member is currently expected to respond
+    createdAt: v.number(), // When the member was added
+  })
+    .index('by_group', ['groupId'])
+    .index('by_group_name', ['groupId', 'name']),
+
+  /**
+   * Short-lived codes displayed by a host (as a QR code or text) for attendees to check in with.
+   * Codes rotate while check-in is open and expired codes are removed by the cleanup tasks.
+   */
+  attendanceCheckInCodes: defineTable({
+    attendanceKey: v.string(), // The attendance session key that check-ins are recorded under
+    code: v.string(), // The 8-letter check-in code
+    createdBy: v.id('users'), // The host who generated this code
+    createdAt: v.number(), // When the code was created
+    expiresAt: v.number(), // When the code expires
+  })
+    .index('by_code', ['code'])
+    .index('by_attendance_key', ['attendanceKey']),
+
   /**
    * Attendance tracking for events and meetings.
    * Records attendance status, reasons, and participant information.
@@ -104,15 +342,72 @@ export default defineSchema({
     timestamp: v.number(), // When the attendance was recorded
     userId: v.optional(v.id('users')), // Optional user ID (for authenticated users)
     name: v.optional(v.string()), // Name (required for anonymous users)
-    status: v.optional(v.union(v.literal('attending'), v.literal('not_attending'))), // Attendance status
+    status: v.optional(
+      v.union(v.literal('attending'), v.literal('not_attending'), v.literal('maybe'))
+    ), // RSVP status given by the attendee
     reason: v.optional(v.string()), // Optional reason for not attending
     remarks: v.optional(v.string()), // Optional remarks for attending
     isManuallyJoined: v.optional(v.boolean()), // Whether this person manually joined the list (vs being in expected list)
+    guests: v.optional(
+      v.array(
+        v.object({
+          name: v.optional(v.string()), // Name of the guest, if given
+        })
+      )
+    ), // Household members or plus-ones responding together with this person
+    checkedInAt: v.optional(v.number()), // When the person checked in with a code, marking them as physically present
+    attendanceMark: v.optional(
+      v.union(v.literal('present'), v.literal('absent'), v.literal('late'))
+    ), // Actual attendance recorded by a host after the event, independent of the RSVP
+    markedBy: v.optional(v.id('users')), // The user who set the attendance mark
+    markedAt: v.optional(v.number()), // When the attendance mark was set
+    ownerSessionId: v.optional(v.string()), // Session that created the record, which may change it without an account
   })
     .index('by_attendance', ['attendanceKey'])
     .index('by_name_attendance', ['attendanceKey', 'name'])
     .index('by_user_attendance', ['attendanceKey', 'userId']),
 
+  /**
+   * History of reminders sent to roster members who had not responded to an event.
+   * Each attempt through each notification channel is recorded, including failures.
+   */
+  attendanceReminders: defineTable({
+    eventId: v.id('attendanceEvents'), // The event the member was reminded about
+    memberId: v.id('attendanceGroupMembers'), // The roster member who was reminded
+    channel: v.union(v.literal('email'), v.literal('webhook')), // The channel the reminder was sent through
+    status: v.union(v.literal('sent'), v.literal('failed')), // Whether the reminder was delivered
+    error: v.optional(v.string()), // Why delivery failed
+    sentAt: v.number(), // When the reminder was attempted
+  })
+    .index('by_event', ['eventId'])
+    .index('by_member', ['memberId', 'sentAt']),
+
+  /**
+   * Audit log of changes to attendance records.
+   * Records who created, changed or deleted which response and when, including host overrides.
+   */
+  attendanceAuditLogs: defineTable({
+    attendanceKey: v.string(), // The attendance session key of the changed record
+    recordId: v.optional(v.id('attendanceRecords')), // The record that was changed (may no longer exist)
+    name: v.optional(v.string()), // Name on the changed record
+    action: v.union(
+      v.literal('created'),
+      v.literal('updated'),
+      v.literal('deleted'),
+      v.literal('marked'),
+      v.literal('checked_in'),
+      v.literal('imported')
+    ), // What happened to the record
+    actorUserId: v.optional(v.id('users')), // The user who made the change, if logged in
+    actorSessionId: v.string(), // The session that made the change
+    isOverride: v.boolean(), // Whether a host or admin changed a record owned by someone else
+    previousStatus: v.optional(v.string()), // RSVP status before the change
+    status: v.optional(v.string()), // RSVP status after the change
+    previousAttendanceMark: v.optional(v.string()), // Attendance mark before the change
+    attendanceMark: v.optional(v.string()), // Attendance mark after the change
+    timestamp: v.number(), // When the change was made
+  }).index('by_attendance_key', ['attendanceKey', 'timestamp']),
+
   /**
    * User accounts supporting authenticated, anonymous, and Google OAuth users.
    * Stores user credentials, names, and recovery information.
@@ -0,0 +1,121 @@
+import { ConvexError } from 'convex/values';
+import type { SessionId } from 'convex-helpers/server/sessions';
+
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import type { MutationCtx } from '../../convex/_generated/server';
+import { isSystemAdmin } from '../auth/accessControl';
+import { getAuthUserOptional } from '../auth/getAuthUser';
+
+/**
+ * Access control utilities for attendance events and group rosters.
+ */
+
+/**
+ * Checks if a user can manage an attendance resource (event or group).
+ * Owners can always manage their own resources, and system administrators can manage any.
+ * @param user - The user attempting the change, or null if not authenticated
+ * @param ownerId - The owner of the attendance resource
+ * @returns true if the user can manage the resource, false otherwise
+ */
+export function canManageAttendanceResource(
+  user: Doc<'users'> | null,
+  ownerId: Id<'users'>
+): boolean {
+  if (!user) {
+    return false;
+  }
+  return user._id === ownerId || isSystemAdmin(user);
+}
+
+/**
+ * Loads an attendance event and verifies the current user is allowed to manage it.
+ * @throws ConvexError if the event does not exist or the user cannot manage it
+ */
+export async function getManageableAttendanceEvent(
+  ctx: MutationCtx,
+  args: { eventId: Id<'attendanceEvents'>; sessionId: SessionId }
+): Promise<Doc<'attendanceEvents'>> {
+  const event = await ctx.db.get('attendanceEvents', args.eventId);
+  if (!event) {
+    throw new ConvexError('Attendance event not found');
+  }
+
+  const user = await getAuthUserOptional(ctx, args);
+  if (!canManageAttendanceResource(user, event.ownerId)) {
+    throw new ConvexError('Not authorized to manage this attendance event');
+  }
+
+  return event;
+}
+
+/**
+ * Loads an attendance group and verifies the current user is allowed to manage its roster.
+ * @throws ConvexError if the group does not exist or the user cannot manage it
+ */
+export async function getManageableAttendanceGroup(
+  ctx: MutationCtx,
+  args: { groupId: Id<'attendanceGroups'>; sessionId: SessionId }
+): Promise<Doc<'attendanceGroups'>> {
+  const group = await ctx.db.get('attendanceGroups', args.groupId);
+  if (!group) {
+    throw new ConvexError('Attendance group not found');
+  }
+
+  const user = await getAuthUserOptional(ctx, args);
+  if (!canManageAttendanceResource(user, group.ownerId)) {
+    throw new ConvexError('Not authorized to manage this attendance group');
+  }
+
+  return group;
+}
+
+/**
+ * Checks if the current actor owns an attendance record.
+ * Records linked to a user account belong to that user; other records belong to the session
+ * that created them. Records created before ownership was tracked belong to no one and can
+ * be changed by anyone.
+ * @param record - The attendance record
+ * @param actor - The current user, if logged in, and session
+ * @returns true if the actor owns the record, false otherwise
+ */
+export function isAttendanceRecordOwner(
+  record: Doc<'attendanceRecords'>,
+  actor: { user: Doc<'users'> | null; sessionId: SessionId }
+): boolean {
+  if (record.userId) {
+    return actor.user?._id === record.userId;
+  }
+  if (record.ownerSessionId) {
+    return record.ownerSessionId === actor.sessionId;
+  }
+  return true;
+}
+
+/**
+ * Checks if an attendance record belongs to the host: records without an owner that carry a
+ * host's mark, such as people marked without responding and imported sign-in sheets. Anyone
+ * can still give an RSVP for them, which keeps the mark, but only hosts and admins can delete
+ * them.
+ * @param record - The attendance record
+ * @returns true if the record is owned by the host, false otherwise
+ */
+export function isHostOwnedAttendanceRecord(record: Doc<'attendanceRecords'>): boolean {
+  return !record.userId && !record.ownerSessionId && !!record.attendanceMark;
+}
+
+/**
+ * Checks if a user can change any record of an attendance key, regardless of who owns it.
+ * Hosts can override records of their events; keys without an event require a system admin.
+ * @param user - The user attempting the change, or null if not authenticated
+ * @param event - The event of the attendance key, or null if there is none
+ * @returns true if the user can override records, false otherwise
+ */
+export function canOverrideAttendanceRecords(
+  user: Doc<'users'> | null,
+  event: Doc<'attendanceEvents'> | null
+): boolean {
+  if (event) {
+    return canManageAttendanceResource(user, event.ownerId);
+  }
+  return user !== null && isSystemAdmin(user);
+}
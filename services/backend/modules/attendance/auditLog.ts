@@ -0,0 +1,68 @@
+import type { SessionId } from 'convex-helpers/server/sessions';
+
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import type { MutationCtx } from '../../convex/_generated/server';
+
+/**
+ * Utility functions for recording changes to attendance records in the audit log.
+ */
+
+export type AttendanceAuditAction = Doc<'attendanceAuditLogs'>['action'];
+
+/**
+ * The RSVP status and attendance mark of a record, before or after a change.
+ */
+export interface AttendanceAuditState {
+  status?: string;
+  attendanceMark?: string;
+}
+
+/**
+ * An audit log entry as shown to hosts. The session that made the change is not included.
+ */
+export interface AttendanceAuditEntry {
+  _id: Id<'attendanceAuditLogs'>;
+  action: AttendanceAuditAction;
+  name: string | null;
+  actorName: string | null;
+  isOverride: boolean;
+  previousStatus: string | null;
+  status: string | null;
+  previousAttendanceMark: string | null;
+  attendanceMark: string | null;
+  timestamp: number;
+}
+
+/**
+ * Appends an entry to the attendance audit log.
+ * @param ctx - Mutation context
+ * @param entry - The change, who made it, and the record's state before and after
+ */
+export async function logAttendanceChange(
+  ctx: MutationCtx,
+  entry: {
+    action: AttendanceAuditAction;
+    attendanceKey: string;
+    recordId?: Id<'attendanceRecords'>;
+    name?: string;
+    actor: { user: Doc<'users'> | null; sessionId: SessionId };
+    isOverride: boolean;
+    before?: AttendanceAuditState | null;
+    after?: AttendanceAuditState | null;
+  }
+): Promise<void> {
+  await ctx.db.insert('attendanceAuditLogs', {
+    attendanceKey: entry.attendanceKey,
+    recordId: entry.recordId,
+    name: entry.name,
+    action: entry.action,
+    actorUserId: entry.actor.user?._id,
+    actorSessionId: entry.actor.sessionId,
+    isOverride: entry.isOverride,
+    previousStatus: entry.before?.status,
+    status: entry.after?.status,
+    previousAttendanceMark: entry.before?.attendanceMark,
+    attendanceMark: entry.after?.attendanceMark,
+    timestamp: Date.now(),
+  });
+}
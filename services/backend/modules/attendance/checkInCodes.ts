@@ -0,0 +1,47 @@
+/**
+ * Utility functions for attendance check-in codes.
+ * Codes use the same format as login codes, but stay valid for longer so that a code
+ * that was just rotated on the host's screen can still be used by someone mid-scan.
+ */
+
+/**
+ * How often the host's check-in code is replaced with a new one.
+ */
+export const CHECK_IN_CODE_ROTATION_MS = 60 * 1000;
+
+/**
+ * How long a check-in code stays valid after it is created.
+ */
+export const CHECK_IN_CODE_TTL_MS = 2 * CHECK_IN_CODE_ROTATION_MS;
+
+/**
+ * How long after an event starts people can check in before they are marked as late.
+ */
+export const CHECK_IN_LATE_GRACE_MS = 10 * 60 * 1000;
+
+/**
+ * Calculates the expiration timestamp for a check-in code created now.
+ */
+export const getCheckInCodeExpirationTime = (): number => {
+  return Date.now() + CHECK_IN_CODE_TTL_MS;
+};
+
+/**
+ * Normalizes a check-in code entered by hand, removing dashes and spaces.
+ */
+export const normalizeCheckInCode = (code: string): string => {
+  return code.replace(/[-\s]/g, '').toUpperCase();
+};
+
+/**
+ * Decides the attendance mark for someone checking in at the given time.
+ * People checking in after the grace period of an event with a start time are marked late.
+ */
+export const getCheckInAttendanceMark = (
+  eventDate: number | undefined,
+  checkedInAt: number
+): 'present' | 'late' => {
+  return eventDate !== undefined && checkedInAt > eventDate + CHECK_IN_LATE_GRACE_MS
+    ? 'late'
+    : 'present';
+};
@@ -0,0 +1,44 @@
+/**
+ * Utility functions for guests who respond together with an attendee, such as
+ * household members or plus-ones. Guests are stored on the respondent's record, and
+ * headcounts include every guest rather than counting records.
+ */
+
+export interface AttendanceGuest {
+  name?: string;
+}
+
+/**
+ * Maximum number of guests a single response can bring.
+ */
+export const MAX_ATTENDANCE_GUESTS = 20;
+
+/**
+ * Trims guest names, treating blank names as unnamed guests.
+ */
+export const normalizeAttendanceGuests = (guests: AttendanceGuest[]): AttendanceGuest[] => {
+  return guests.map((guest) => {
+    const name = guest.name?.trim();
+    return name ? { name } : {};
+  });
+};
+
+/**
+ * Counts the people a response stands for: the respondent and each of their guests.
+ */
+export const getPartySize = (record: { guests?: AttendanceGuest[] }): number => {
+  return 1 + (record.guests?.length ?? 0);
+};
+
+/**
+ * Describes the guests of a response, e.g. "Bob, Carol and 1 guest".
+ */
+export const formatAttendanceGuests = (guests: AttendanceGuest[]): string => {
+  const names = guests.flatMap((guest) => (guest.name ? [guest.name] : []));
+  const unnamedCount = guests.length - names.length;
+  const parts =
+    unnamedCount > 0 ? [...names, `${unnamedCount} guest${unnamedCount === 1 ? '' : 's'}`] : names;
+  return parts.length > 1
+    ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+    : (parts[0] ?? '');
+};
@@ -0,0 +1,221 @@
+import type { Doc } from '../../convex/_generated/dataModel';
+
+/**
+ * Utility functions for aggregating attendance records across many sessions.
+ * Sessions are attendance keys ordered by date; members are matched across sessions
+ * by their linked user account, falling back to the name they responded with.
+ * A host's attendance mark takes precedence over the RSVP when deciding whether a member
+ * attended, and members who RSVP'd as attending but were marked absent count as no-shows.
+ */
+
+export type AttendanceOutcome = 'attended' | 'absent';
+
+export interface AttendanceHistorySession {
+  attendanceKey: string;
+  title: string;
+  date: number;
+}
+
+export interface AttendanceAbsenceReason {
+  reason: string;
+  count: number;
+}
+
+export interface AttendanceMemberStats {
+  memberKey: string;
+  name: string;
+  attendedCount: number;
+  absentCount: number;
+  missedCount: number;
+  lateCount: number;
+  noShowCount: number;
+  noShowRate: number;
+  attendanceRate: number;
+  currentStreak: number;
+  longestStreak: number;
+  topAbsenceReasons: AttendanceAbsenceReason[];
+  outcomes: (AttendanceOutcome | null)[];
+  trend: number[];
+}
+
+/**
+ * Number of sessions averaged for each point of a member's attendance trend.
+ */
+export const ATTENDANCE_TREND_WINDOW = 4;
+
+const _MAX_ABSENCE_REASONS = 3;
+
+/**
+ * Computes per-member attendance statistics for sessions ordered from oldest to newest.
+ * A member is only counted from the first session they responded to, and sessions they
+ * did not respond to after that are counted as missed.
+ * @param sessions - The sessions to aggregate, ordered by date
+ * @param records - The attendance records of all sessions
+ * @returns Statistics for every member that responded, sorted by attendance rate then name
+ */
+export const computeAttendanceMemberStats = (
+  sessions: AttendanceHistorySession[],
+  records: Doc<'attendanceRecords'>[]
+): AttendanceMemberStats[] => {
+  const sessionIndex = new Map(sessions.map((session, index) => [session.attendanceKey, index]));
+  const members = new Map<
+    string,
+    {
+      name: string;
+      nameTimestamp: number;
+      outcomes: (AttendanceOutcome | null)[];
+      reasons: string[];
+      marks: _RsvpMarks;
+    }
+  >();
+
+  for (const record of records) {
+    const index = sessionIndex.get(record.attendanceKey);
+    if (index === undefined || (!record.status && !record.attendanceMark)) continue;
+
+    const memberKey = _getMemberKey(record);
+    if (!memberKey) continue;
+
+    let member = members.get(memberKey);
+    if (!member) {
+      member = {
+        name: record.name ?? '',
+        nameTimestamp: record.timestamp,
+        outcomes: sessions.map(() => null),
+        reasons: [],
+        marks: { lateCount: 0, noShowCount: 0, markedAttendingCount: 0 },
+      };
+      members.set(memberKey, member);
+    }
+
+    // Show the name the member most recently responded with
+    if (record.name && record.timestamp >= member.nameTimestamp) {
+      member.name = record.name;
+      member.nameTimestamp = record.timestamp;
+    }
+
+    member.outcomes[index] = _getOutcome(record);
+    if (record.attendanceMark === 'late') {
+      member.marks.lateCount++;
+    }
+    if (record.status === 'attending' && record.attendanceMark) {
+      member.marks.markedAttendingCount++;
+      if (record.attendanceMark === 'absent') {
+        member.marks.noShowCount++;
+      }
+    }
+    if (record.status === 'not_attending' && record.reason?.trim()) {
+      member.reasons.push(record.reason.trim());
+    }
+  }
+
+  return Array.from(members.entries())
+    .map(([memberKey, member]) =>
+      _summarizeMember(memberKey, member.name, member.outcomes, member.reasons, member.marks)
+    )
+    .sort((a, b) => a.attendanceRate - b.attendanceRate || a.name.localeCompare(b.name));
+};
+
+// Internal helper functions
+/**
+ * Counts of a member's RSVPs that were checked against a host's attendance mark.
+ */
+interface _RsvpMarks {
+  lateCount: number;
+  noShowCount: number;
+  markedAttendingCount: number;
+}
+
+/**
+ * Decides whether a record counts as attended, using the host's mark when there is one.
+ * A "maybe" RSVP without a mark has no outcome.
+ */
+function _getOutcome(record: Doc<'attendanceRecords'>): AttendanceOutcome | null {
+  if (record.attendanceMark) {
+    return record.attendanceMark === 'absent' ? 'absent' : 'attended';
+  }
+  if (record.status === 'attending') return 'attended';
+  if (record.status === 'not_attending') return 'absent';
+  return null;
+}
+
+/**
+ * Identifies the member a record belongs to, preferring the linked user account.
+ */
+function _getMemberKey(record: Doc<'attendanceRecords'>): string | null {
+  if (record.userId) return `user:${record.userId}`;
+  if (record.name) return `name:${record.name.trim().toLowerCase()}`;
+  return null;
+}
+
+/**
+ * Computes the statistics of a single member from their per-session outcomes.
+ */
+function _summarizeMember(
+  memberKey: string,
+  name: string,
+  outcomes: (AttendanceOutcome | null)[],
+  reasons: string[],
+  marks: _RsvpMarks
+): AttendanceMemberStats {
+  const firstIndex = outcomes.findIndex((outcome) => outcome !== null);
+  // Members who only ever answered "maybe" have no tracked sessions yet
+  const trackedOutcomes = firstIndex === -1 ? [] : outcomes.slice(firstIndex);
+
+  const attendedCount = trackedOutcomes.filter((outcome) => outcome === 'attended').length;
+  const absentCount = trackedOutcomes.filter((outcome) => outcome === 'absent').length;
+  const missedCount = trackedOutcomes.length - attendedCount - absentCount;
+
+  let longestStreak = 0;
+  let streak = 0;
+  for (const outcome of trackedOutcomes) {
+    streak = outcome === 'attended' ? streak + 1 : 0;
+    longestStreak = Math.max(longestStreak, streak);
+  }
+
+  // Rolling attendance rate, so that members drifting away show a downward trend
+  const trend = trackedOutcomes.map((_, index) => {
+    const window = trackedOutcomes.slice(
+      Math.max(0, index - ATTENDANCE_TREND_WINDOW + 1),
+      index + 1
+    );
+    return window.filter((outcome) => outcome === 'attended').length / window.length;
+  });
+
+  return {
+    memberKey,
+    name,
+    attendedCount,
+    absentCount,
+    missedCount,
+    lateCount: marks.lateCount,
+    noShowCount: marks.noShowCount,
+    noShowRate: marks.markedAttendingCount > 0 ? marks.noShowCount / marks.markedAttendingCount : 0,
+    attendanceRate: trackedOutcomes.length > 0 ? attendedCount / trackedOutcomes.length : 0,
+    currentStreak: streak,
+    longestStreak,
+    topAbsenceReasons: _countReasons(reasons),
+    outcomes,
+    trend,
+  };
+}
+
+/**
+ * Groups absence reasons case-insensitively and returns the most common ones.
+ */
+function _countReasons(reasons: string[]): AttendanceAbsenceReason[] {
+  const counts = new Map<string, AttendanceAbsenceReason>();
+  for (const reason of reasons) {
+    const key = reason.toLowerCase();
+    const existing = counts.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      counts.set(key, { reason, count: 1 });
+    }
+  }
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason))
+    .slice(0, _MAX_ABSENCE_REASONS);
+}
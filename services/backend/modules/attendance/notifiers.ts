@@ -0,0 +1,164 @@
+/**
+ * Pluggable notification channels for attendance reminders.
+ * Each notifier delivers a reminder through one channel, such as an email API or a webhook,
+ * and throws if delivery fails. Channels are enabled by setting environment variables on
+ * the Convex deployment.
+ */
+
+import type { Id } from '../../convex/_generated/dataModel';
+
+export type AttendanceReminderChannel = 'email' | 'webhook';
+
+export interface AttendanceReminderMessage {
+  recipientName: string;
+  recipientEmail?: string;
+  eventTitle: string;
+  eventDate?: number;
+  location?: string;
+  rsvpDeadline: number;
+  responseUrl?: string;
+}
+
+export interface AttendanceNotifier {
+  channel: AttendanceReminderChannel;
+  canSend: (message: AttendanceReminderMessage) => boolean;
+  send: (message: AttendanceReminderMessage) => Promise<void>;
+}
+
+export interface AttendanceReminderHistoryEntry {
+  _id: Id<'attendanceReminders'>;
+  memberName: string;
+  channel: AttendanceReminderChannel;
+  status: 'sent' | 'failed';
+  error: string | null;
+  sentAt: number;
+}
+
+export interface EmailNotifierConfig {
+  apiUrl: string;
+  apiKey?: string;
+  from: string;
+}
+
+export interface WebhookNotifierConfig {
+  url: string;
+}
+
+/**
+ * How long before an event's RSVP deadline members who have not responded are reminded.
+ */
+export const ATTENDANCE_REMINDER_LEAD_TIME_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Environment variables that configure the reminder channels.
+ */
+export const ATTENDANCE_REMINDER_ENV = {
+  emailApiUrl: 'ATTENDANCE_REMINDER_EMAIL_API_URL',
+  emailApiKey: 'ATTENDANCE_REMINDER_EMAIL_API_KEY',
+  emailFrom: 'ATTENDANCE_REMINDER_EMAIL_FROM',
+  webhookUrl: 'ATTENDANCE_REMINDER_WEBHOOK_URL',
+  siteUrl: 'ATTENDANCE_REMINDER_SITE_URL',
+} as const;
+
+/**
+ * Creates a notifier that sends reminders to members with an email address by posting
+ * `{ from, to, subject, text }` as JSON to an HTTP email API.
+ */
+export const createEmailNotifier = (config: EmailNotifierConfig): AttendanceNotifier => ({
+  channel: 'email',
+  canSend: (message) => Boolean(message.recipientEmail),
+  send: async (message) => {
+    await _postJson(config.apiUrl, config.apiKey, {
+      from: config.from,
+      to: message.recipientEmail,
+      subject: `Reminder: please RSVP for ${message.eventTitle}`,
+      text: formatAttendanceReminderText(message),
+    });
+  },
+});
+
+/**
+ * Creates a notifier that posts every reminder as JSON to a webhook, such as a chat bot
+ * that forwards it to the member.
+ */
+export const createWebhookNotifier = (config: WebhookNotifierConfig): AttendanceNotifier => ({
+  channel: 'webhook',
+  canSend: () => true,
+  send: async (message) => {
+    await _postJson(config.url, undefined, {
+      type: 'attendance_reminder',
+      ...message,
+      text: formatAttendanceReminderText(message),
+    });
+  },
+});
+
+/**
+ * Creates the notifiers enabled by environment variables.
+ * @param env - Environment variables, usually process.env
+ * @returns The configured notifiers, which may be empty
+ */
+export const getConfiguredAttendanceNotifiers = (
+  env: Record<string, string | undefined>
+): AttendanceNotifier[] => {
+  const notifiers: AttendanceNotifier[] = [];
+
+  const emailApiUrl = env[ATTENDANCE_REMINDER_ENV.emailApiUrl];
+  const emailFrom = env[ATTENDANCE_REMINDER_ENV.emailFrom];
+  if (emailApiUrl && emailFrom) {
+    notifiers.push(
+      createEmailNotifier({
+        apiUrl: emailApiUrl,
+        apiKey: env[ATTENDANCE_REMINDER_ENV.emailApiKey],
+        from: emailFrom,
+      })
+    );
+  }
+
+  const webhookUrl = env[ATTENDANCE_REMINDER_ENV.webhookUrl];
+  if (webhookUrl) {
+    notifiers.push(createWebhookNotifier({ url: webhookUrl }));
+  }
+
+  return notifiers;
+};
+
+/**
+ * Formats the plain text body of a reminder.
+ */
+export const formatAttendanceReminderText = (message: AttendanceReminderMessage): string => {
+  const lines = [
+    `Hi ${message.recipientName},`,
+    '',
+    `You have not responded to ${message.eventTitle} yet.`,
+  ];
+  if (message.eventDate !== undefined) {
+    lines.push(`When: ${new Date(message.eventDate).toUTCString()}`);
+  }
+  if (message.location) {
+    lines.push(`Where: ${message.location}`);
+  }
+  lines.push(`Please respond by ${new Date(message.rsvpDeadline).toUTCString()}.`);
+  if (message.responseUrl) {
+    lines.push('', `Respond here: ${message.responseUrl}`);
+  }
+  return lines.join('\n');
+};
+
+// Internal helper functions
+/**
+ * Posts a JSON body to a URL, throwing if the response is not successful.
+ */
+async function _postJson(url: string, apiKey: string | undefined, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Request to ${new URL(url).host} failed with status ${response.status}`);
+  }
+}
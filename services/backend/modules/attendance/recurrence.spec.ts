@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  formatOccurrenceDate,
+  getFirstOccurrence,
+  getNextOccurrence,
+  type RecurrenceRule,
+} from './recurrence';
+
+// Wednesdays at 19:00 UTC, such as 3 January 2024
+const weeklyRule: RecurrenceRule = {
+  frequency: 'weekly',
+  dayOfWeek: 3,
+  time: '19:00',
+  utcOffsetMinutes: 0,
+};
+const biweeklyRule: RecurrenceRule = { ...weeklyRule, frequency: 'biweekly' };
+
+describe('getFirstOccurrence', () => {
+  test('finds the next matching day and time', () => {
+    expect(getFirstOccurrence(weeklyRule, Date.UTC(2024, 0, 1, 8, 0))).toBe(
+      Date.UTC(2024, 0, 3, 19, 0)
+    );
+  });
+
+  test('counts an occurrence at exactly the given time', () => {
+    const occurrence = Date.UTC(2024, 0, 3, 19, 0);
+    expect(getFirstOccurrence(weeklyRule, occurrence)).toBe(occurrence);
+    expect(getFirstOccurrence(weeklyRule, occurrence + 1)).toBe(Date.UTC(2024, 0, 10, 19, 0));
+  });
+
+  test('uses the local day when the offset moves the time across midnight', () => {
+    // Sunday 09:00 at UTC+10 is Saturday 23:00 in UTC
+    const aheadRule: RecurrenceRule = {
+      ...weeklyRule,
+      dayOfWeek: 0,
+      time: '09:00',
+      utcOffsetMinutes: 600,
+    };
+    expect(getFirstOccurrence(aheadRule, Date.UTC(2024, 0, 6, 12, 0))).toBe(
+      Date.UTC(2024, 0, 6, 23, 0)
+    );
+
+    // Friday 20:00 at UTC-5 is Saturday 01:00 in UTC
+    const behindRule: RecurrenceRule = {
+      ...weeklyRule,
+      dayOfWeek: 5,
+      time: '20:00',
+      utcOffsetMinutes: -300,
+    };
+    expect(getFirstOccurrence(behindRule, Date.UTC(2024, 0, 6, 0, 30))).toBe(
+      Date.UTC(2024, 0, 6, 1, 0)
+    );
+  });
+
+  test('rejects an invalid time', () => {
+    expect(() => getFirstOccurrence({ ...weeklyRule, time: '24:00' }, 0)).toThrow(
+      'Invalid recurrence time: 24:00'
+    );
+  });
+});
+
+describe('getNextOccurrence', () => {
+  test('steps a week at a time for weekly rules', () => {
+    expect(getNextOccurrence(weeklyRule, Date.UTC(2024, 0, 3, 19, 0))).toBe(
+      Date.UTC(2024, 0, 10, 19, 0)
+    );
+  });
+
+  test('steps two weeks at a time for biweekly rules', () => {
+    const second = getNextOccurrence(biweeklyRule, Date.UTC(2024, 0, 3, 19, 0));
+    expect(second).toBe(Date.UTC(2024, 0, 17, 19, 0));
+    expect(getNextOccurrence(biweeklyRule, second)).toBe(Date.UTC(2024, 0, 31, 19, 0));
+  });
+
+  test('keeps the local time when the offset moves it across midnight', () => {
+    const aheadRule: RecurrenceRule = {
+      frequency: 'biweekly',
+      dayOfWeek: 0,
+      time: '09:00',
+      utcOffsetMinutes: 600,
+    };
+    expect(getNextOccurrence(aheadRule, Date.UTC(2024, 0, 6, 23, 0))).toBe(
+      Date.UTC(2024, 0, 20, 23, 0)
+    );
+  });
+});
+
+describe('formatOccurrenceDate', () => {
+  test('formats the date in the event time zone', () => {
+    expect(formatOccurrenceDate(weeklyRule, Date.UTC(2024, 0, 3, 19, 0))).toBe('2024-01-03');
+    expect(
+      formatOccurrenceDate({ ...weeklyRule, utcOffsetMinutes: 600 }, Date.UTC(2024, 0, 6, 23, 0))
+    ).toBe('2024-01-07');
+    expect(
+      formatOccurrenceDate({ ...weeklyRule, utcOffsetMinutes: -300 }, Date.UTC(2024, 0, 6, 1, 0))
+    ).toBe('2024-01-05');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Utility functions for computing occurrences of recurring attendance events.
+ * Local times are resolved with a fixed UTC offset captured when the event was created,
+ * so occurrences do not shift for daylight saving time changes.
+ */
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  dayOfWeek: number;
+  time: string;
+  utcOffsetMinutes: number;
+}
+
+const _MINUTE_MS = 60 * 1000;
+const _DAY_MS = 24 * 60 * _MINUTE_MS;
+
+/**
+ * Number of days between occurrences for each recurrence frequency.
+ */
+export const RECURRENCE_INTERVAL_DAYS: Record<RecurrenceFrequency, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+/**
+ * Checks that a recurrence rule has a valid day of week and HH:mm time.
+ */
+export const isValidRecurrenceRule = (rule: RecurrenceRule): boolean => {
+  return (
+    Number.isInteger(rule.dayOfWeek) &&
+    rule.dayOfWeek >= 0 &&
+    rule.dayOfWeek <= 6 &&
+    _parseTime(rule.time) !== null
+  );
+};
+
+/**
+ * Returns the first occurrence of a rule at or after the given timestamp.
+ */
+export const getFirstOccurrence = (rule: RecurrenceRule, from: number): number => {
+  const parsedTime = _parseTime(rule.time);
+  if (!parsedTime) {
+    throw new Error(`Invalid recurrence time: ${rule.time}`);
+  }
+
+  // Work in the event's local time by shifting the timestamp by its UTC offset
+  const offsetMs = rule.utcOffsetMinutes * _MINUTE_MS;
+  const localFrom = new Date(from + offsetMs);
+  const localDayStart = Date.UTC(
+    localFrom.getUTCFullYear(),
+    localFrom.getUTCMonth(),
+    localFrom.getUTCDate()
+  );
+
+  const daysUntil = (rule.dayOfWeek - localFrom.getUTCDay() + 7) % 7;
+  let candidate =
+    localDayStart +
+    daysUntil * _DAY_MS +
+    (parsedTime.hours * 60 + parsedTime.minutes) * _MINUTE_MS -
+    offsetMs;
+
+  if (candidate < from) {
+    candidate += 7 * _DAY_MS;
+  }
+  return candidate;
+};
+
+/**
+ * Returns the occurrence that follows the given occurrence according to the rule's frequency.
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, previous: number): number => {
+  const skipDays = RECURRENCE_INTERVAL_DAYS[rule.frequency] - 7;
+  return getFirstOccurrence(rule, previous + skipDays * _DAY_MS + 1);
+};
+
+/**
+ * Formats an occurrence as a YYYY-MM-DD date in the event's local time, for use in attendance keys.
+ */
+export const formatOccurrenceDate = (rule: RecurrenceRule, occurrence: number): string => {
+  return new Date(occurrence + rule.utcOffsetMinutes * _MINUTE_MS).toISOString().slice(0, 10);
+};
+
+/**
+ * Parses an HH:mm time string into hours and minutes.
+ */
+function _parseTime(time: string): { hours: number; minutes: number } | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  type AttendanceTransferRow,
+  formatAttendanceCsv,
+  parseAttendanceImport,
+  validateAttendanceImportRow,
+} from './transfer';
+
+describe('parseAttendanceImport', () => {
+  test('reads quoted cells with commas, escaped quotes and line breaks', () => {
+    const content = [
+      'name,status,remarks',
+      'Alice,attending,"Bringing snacks, drinks"',
+      'Bob,maybe,"Said ""probably"" at the door"',
+      '"Carol",attending,"First line',
+      'second line"',
+    ].join('\r\n');
+
+    expect(parseAttendanceImport(content, 'csv')).toEqual([
+      { name: 'Alice', status: 'attending', remarks: 'Bringing snacks, drinks' },
+      { name: 'Bob', status: 'maybe', remarks: 'Said "probably" at the door' },
+      { name: 'Carol', status: 'attending', remarks: 'First line\r\nsecond line' },
+    ]);
+  });
+
+  test('skips blank lines and a byte order mark, and fills in missing cells', () => {
+    const content = '\uFEFF name , status\n\nDave,attending\nErin\n';
+
+    expect(parseAttendanceImport(content, 'csv')).toEqual([
+      { name: 'Dave', status: 'attending' },
+      { name: 'Erin', status: '' },
+    ]);
+  });
+
+  test('rejects content without a header row', () => {
+    expect(() => parseAttendanceImport('\n\n', 'csv')).toThrow(
+      'CSV imports must start with a header row'
+    );
+  });
+});
+
+describe('validateAttendanceImportRow', () => {
+  test('reads guests from their number and names', () => {
+    const result = validateAttendanceImportRow(
+      { name: 'Grace', status: 'attending', guests: '3', guestNames: 'Heidi; Ivan' },
+      'meeting'
+    );
+
+    expect(result).toMatchObject({
+      row: { guests: [{ name: 'Heidi' }, { name: 'Ivan' }, {}] },
+    });
+  });
+
+  test('rejects fewer guests than guest names', () => {
+    const result = validateAttendanceImportRow(
+      { name: 'Grace', status: 'attending', guests: '1', guestNames: 'Heidi; Ivan' },
+      'meeting'
+    );
+
+    expect(result).toEqual({
+      errors: ['Guests must be a number from 0 to 20, and at least the number of guest names'],
+    });
+  });
+});
+
+test('exported rows are imported unchanged', () => {
+  const rows: AttendanceTransferRow[] = [
+    {
+      attendanceKey: 'meeting',
+      name: 'Smith, "Jo"',
+      status: 'attending',
+      remarks: 'Arriving late,\nafter work',
+      isManuallyJoined: true,
+      guests: [{ name: 'Kim' }, {}],
+      timestamp: Date.parse('2024-01-05T12:00:00.000Z'),
+    },
+    {
+      attendanceKey: 'meeting',
+      name: 'Lee',
+      status: 'not_attending',
+      reason: 'Travelling',
+      isManuallyJoined: false,
+      guests: [],
+      timestamp: Date.parse('2024-01-05T12:05:00.000Z'),
+    },
+    {
+      attendanceKey: 'meeting',
+      name: 'Max',
+      attendanceMark: 'absent',
+      isManuallyJoined: false,
+      guests: [],
+      timestamp: Date.parse('2024-01-05T12:10:00.000Z'),
+    },
+  ];
+
+  const imported = parseAttendanceImport(formatAttendanceCsv(rows), 'csv').map((raw) =>
+    validateAttendanceImportRow(raw)
+  );
+
+  expect(imported).toEqual(rows.map((row) => ({ row })));
+});
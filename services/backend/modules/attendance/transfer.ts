@@ -0,0 +1,325 @@
+/**
+ * Utility functions for exporting attendance records to CSV or JSON and for
+ * parsing and validating imported rows, such as a transcribed paper sign-in sheet.
+ * The same columns are used for both directions so that an export can be re-imported.
+ */
+
+import { type AttendanceGuest, MAX_ATTENDANCE_GUESTS } from './guests';
+
+export type AttendanceTransferFormat = 'csv' | 'json';
+
+export interface AttendanceTransferRow {
+  attendanceKey: string;
+  name: string;
+  // Missing for people who were marked without responding
+  status?: 'attending' | 'not_attending' | 'maybe';
+  attendanceMark?: 'present' | 'absent' | 'late';
+  reason?: string;
+  remarks?: string;
+  isManuallyJoined: boolean;
+  // Missing when the import does not say, so that the stored guests are kept
+  guests?: AttendanceGuest[];
+  timestamp: number;
+}
+
+export interface AttendanceImportError {
+  row: number;
+  message: string;
+}
+
+export interface AttendanceImportResult {
+  success: boolean;
+  importedCount: number;
+  errors: AttendanceImportError[];
+}
+
+/**
+ * Columns of exported files, in order. Imports accept the same columns.
+ */
+export const ATTENDANCE_TRANSFER_COLUMNS = [
+  'attendanceKey',
+  'name',
+  'status',
+  'attendanceMark',
+  'reason',
+  'remarks',
+  'isManuallyJoined',
+  'guests',
+  'guestNames',
+  'timestamp',
+] as const;
+
+type _RawRow = Record<string, unknown>;
+
+/**
+ * Formats rows as CSV with a header row. Timestamps are written as ISO 8601 strings.
+ */
+export const formatAttendanceCsv = (rows: AttendanceTransferRow[]): string => {
+  const lines = [ATTENDANCE_TRANSFER_COLUMNS.join(',')];
+  for (const row of rows) {
+    const serialized = _serializeRow(row);
+    lines.push(
+      ATTENDANCE_TRANSFER_COLUMNS.map((column) => _escapeCsv(serialized[column])).join(',')
+    );
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Formats rows as a JSON array. Timestamps are written as ISO 8601 strings.
+ */
+export const formatAttendanceJson = (rows: AttendanceTransferRow[]): string => {
+  return JSON.stringify(rows.map(_serializeRow), null, 2);
+};
+
+/**
+ * Parses the content of an import file into raw rows, keyed by column name.
+ * Throws if the content is not valid CSV with a header row or a JSON array.
+ */
+export const parseAttendanceImport = (
+  content: string,
+  format: AttendanceTransferFormat
+): _RawRow[] => {
+  if (format === 'json') {
+    const parsed: unknown = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON imports must contain an array of rows');
+    }
+    return parsed.map((row) => (row && typeof row === 'object' ? (row as _RawRow) : {}));
+  }
+
+  const [header, ...records] = _parseCsv(content).filter((record) =>
+    record.some((cell) => cell.trim() !== '')
+  );
+  if (!header) {
+    throw new Error('CSV imports must start with a header row');
+  }
+  const columns = header.map((column) => column.trim());
+  return records.map((record) =>
+    Object.fromEntries(columns.map((column, index) => [column, record[index] ?? '']))
+  );
+};
+
+/**
+ * Validates a raw imported row and converts it into an attendance row.
+ * @param raw - The raw row, keyed by column name
+ * @param defaultAttendanceKey - Attendance key used when the row does not specify one
+ * @returns The validated row, or the problems found with it
+ */
+export const validateAttendanceImportRow = (
+  raw: _RawRow,
+  defaultAttendanceKey?: string
+): { row: AttendanceTransferRow } | { errors: string[] } => {
+  const errors: string[] = [];
+
+  const attendanceKey = _readString(raw.attendanceKey) || defaultAttendanceKey;
+  if (!attendanceKey) {
+    errors.push('Attendance key is required');
+  }
+
+  const name = _readString(raw.name);
+  if (!name) {
+    errors.push('Name is required');
+  }
+
+  const status = _readString(raw.status)?.toLowerCase().replace(/[\s-]/g, '_');
+  if (
+    status !== undefined &&
+    status !== 'attending' &&
+    status !== 'not_attending' &&
+    status !== 'maybe'
+  ) {
+    errors.push('Status must be "attending", "not_attending" or "maybe"');
+  }
+
+  const attendanceMark = _readString(raw.attendanceMark)?.toLowerCase();
+  if (
+    attendanceMark !== undefined &&
+    attendanceMark !== 'present' &&
+    attendanceMark !== 'absent' &&
+    attendanceMark !== 'late'
+  ) {
+    errors.push('Attendance mark must be "present", "absent" or "late"');
+  }
+
+  // People who were marked without responding have no status
+  if (status === undefined && attendanceMark === undefined) {
+    errors.push('Status or attendance mark is required');
+  }
+
+  const isManuallyJoined = _readBoolean(raw.isManuallyJoined);
+  if (isManuallyJoined === null) {
+    errors.push('isManuallyJoined must be true or false');
+  }
+
+  const guests = _readGuests(raw.guests, raw.guestNames);
+  if (guests === null) {
+    errors.push(
+      `Guests must be a number from 0 to ${MAX_ATTENDANCE_GUESTS}, and at least the number of guest names`
+    );
+  }
+
+  const timestamp = _readTimestamp(raw.timestamp);
+  if (timestamp === null) {
+    errors.push('Timestamp must be an ISO 8601 date or milliseconds since epoch');
+  }
+
+  if (
+    errors.length > 0 ||
+    !attendanceKey ||
+    !name ||
+    isManuallyJoined === null ||
+    guests === null ||
+    timestamp === null
+  ) {
+    return { errors };
+  }
+
+  const validStatus = status as AttendanceTransferRow['status'] | undefined;
+  return {
+    row: {
+      attendanceKey,
+      name,
+      status: validStatus,
+      attendanceMark: attendanceMark as AttendanceTransferRow['attendanceMark'],
+      reason: validStatus === 'not_attending' ? _readString(raw.reason) : undefined,
+      remarks: validStatus !== 'not_attending' ? _readString(raw.remarks) : undefined,
+      isManuallyJoined,
+      guests: validStatus === 'not_attending' && guests ? [] : guests,
+      timestamp,
+    },
+  };
+};
+
+// Internal helper functions
+/**
+ * Converts a row into plain string values for writing to a file. Guests are written as their
+ * number and the names of those who have one, separated by semicolons.
+ */
+function _serializeRow(row: AttendanceTransferRow): Record<string, string | boolean> {
+  return {
+    attendanceKey: row.attendanceKey,
+    name: row.name,
+    status: row.status ?? '',
+    attendanceMark: row.attendanceMark ?? '',
+    reason: row.reason ?? '',
+    remarks: row.remarks ?? '',
+    isManuallyJoined: row.isManuallyJoined,
+    guests: String(row.guests?.length ?? 0),
+    guestNames: (row.guests ?? []).flatMap((guest) => (guest.name ? [guest.name] : [])).join('; '),
+    timestamp: new Date(row.timestamp).toISOString(),
+  };
+}
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or line break.
+ */
+function _escapeCsv(value: string | boolean): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Splits CSV content into records of cells, supporting quoted cells with
+ * escaped quotes and line breaks.
+ */
+function _parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a byte order mark, which spreadsheet applications often add
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Reads a trimmed, non-empty string value.
+ */
+function _readString(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+/**
+ * Reads a boolean value, treating an empty value as false. Returns null if invalid.
+ */
+function _readBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = _readString(value)?.toLowerCase();
+  if (text === undefined || text === 'false' || text === 'no' || text === '0') return false;
+  if (text === 'true' || text === 'yes' || text === '1') return true;
+  return null;
+}
+
+/**
+ * Reads guests from their number and their names separated by semicolons. Guests without a name
+ * make up the rest of the number. Returns undefined if neither is given, and null if invalid.
+ */
+function _readGuests(count: unknown, names: unknown): AttendanceGuest[] | undefined | null {
+  const countText = _readString(count);
+  const guestNames = (_readString(names) ?? '')
+    .split(';')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (countText === undefined && guestNames.length === 0) return undefined;
+
+  const guestCount = countText === undefined ? guestNames.length : Number(countText);
+  if (
+    !/^\d*$/.test(countText ?? '') ||
+    guestCount < guestNames.length ||
+    guestCount > MAX_ATTENDANCE_GUESTS
+  ) {
+    return null;
+  }
+  return [
+    ...guestNames.map((name) => ({ name })),
+    ...Array.from({ length: guestCount - guestNames.length }, () => ({})),
+  ];
+}
+
+/**
+ * Reads a timestamp from an ISO 8601 date or milliseconds, treating an empty value
+ * as the current time. Returns null if invalid.
+ */
+function _readTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = _readString(value);
+  if (text === undefined) return Date.now();
+  if (/^\d+$/.test(text)) return Number(text);
+  const timestamp = Date.parse(text);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
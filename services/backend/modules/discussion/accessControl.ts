@@ -0,0 +1,179 @@
+import type { Doc } from '../../convex/_generated/dataModel';
+import { isSystemAdmin } from '../auth/accessControl';
+import { canManagePresenters, canPresent } from '../presentation/accessControl';
+
+/**
+ * Access control utilities for discussions.
+ * Messages belong to the session that wrote them and, when the author was logged in, to their
+ * user, so they can still change them from another device.
+ * Creating a discussion grants no role, as discussions are created by whoever opens them first.
+ * Roles come from the deck the discussion is part of instead.
+ */
+
+/**
+ * Roles someone can have in a discussion. The owner manages the presenters of the deck the
+ * discussion is part of, or is a system administrator, and decides who facilitates it;
+ * facilitators, including the deck's co-presenters, run it; everyone else participates.
+ */
+export type DiscussionRole = 'owner' | 'facilitator' | 'participant';
+
+/**
+ * A participant whose role or mute state differs from the default, as stored with the
+ * discussion.
+ */
+export type DiscussionParticipantEntry = NonNullable<
+  Doc<'discussionState'>['participants']
+>[number];
+
+/**
+ * Checks if a message was written by the current session or user.
+ * @param message - The message to check
+ * @param user - The current user, or null if not authenticated
+ * @param sessionId - The current session
+ * @returns true if the message belongs to the session or user, false otherwise
+ */
+export function isDiscussionMessageAuthor(
+  message: Doc<'discussionMessages'>,
+  user: Doc<'users'> | null,
+  sessionId: string
+): boolean {
+  if (message.sessionId === sessionId) {
+    return true;
+  }
+  return !!user && !!message.userId && message.userId === user._id;
+}
+
+/**
+ * Finds the stored entry of the current session or user among a discussion's participants.
+ * @param discussion - The discussion to look in
+ * @param user - The current user, or null if not authenticated
+ * @param sessionId - The current session
+ * @returns The participant entry, or undefined if none is stored
+ */
+export function findDiscussionParticipant(
+  discussion: Doc<'discussionState'>,
+  user: Doc<'users'> | null,
+  sessionId: string
+): DiscussionParticipantEntry | undefined {
+  return (discussion.participants ?? []).find(
+    (participant) =>
+      participant.sessionId === sessionId ||
+      (!!user && !!participant.userId && participant.userId === user._id)
+  );
+}
+
+/**
+ * Gets the role of the current session or user in a discussion.
+ * Whoever manages the presenters of the deck the discussion is part of owns it, as do system
+ * administrators, and the deck's co-presenters facilitate it.
+ * @param discussion - The discussion to check
+ * @param presentation - The registry entry of the deck the discussion is part of, if any
+ * @param user - The current user, or null if not authenticated
+ * @param sessionId - The current session
+ * @returns The role in the discussion, 'participant' unless another role was given
+ */
+export function getDiscussionRole(
+  discussion: Doc<'discussionState'>,
+  presentation: Doc<'presentations'> | null,
+  user: Doc<'users'> | null,
+  sessionId: string
+): DiscussionRole {
+  if (
+    (!!user && isSystemAdmin(user)) ||
+    (presentation && canManagePresenters(user, presentation))
+  ) {
+    return 'owner';
+  }
+  if (presentation && canPresent(user, presentation)) {
+    return 'facilitator';
+  }
+  return findDiscussionParticipant(discussion, user, sessionId)?.role ?? 'participant';
+}
+
+/**
+ * Checks if the current session or user can facilitate a discussion: conclude, reopen and lock
+ * it, edit its conclusions, pin messages and mute participants.
+ * @param discussion - The discussion to check
+ * @param presentation - The registry entry of the deck the discussion is part of, if any
+ * @param user - The current user, or null if not authenticated
+ * @param sessionId - The current session
+ * @returns true if the session or user is the owner or a facilitator, false otherwise
+ */
+export function canFacilitateDiscussion(
+  discussion: Doc<'discussionState'>,
+  presentation: Doc<'presentations'> | null,
+  user: Doc<'users'> | null,
+  sessionId: string
+): boolean {
+  return getDiscussionRole(discussion, presentation, user, sessionId) !== 'participant';
+}
+
+/**
+ * Checks if the current session or user can post to a discussion: it must be active and not
+ * locked, and they must not have been muted. Facilitators are never muted.
+ * @param discussion - The discussion to check
+ * @param presentation - The registry entry of the deck the discussion is part of, if any
+ * @param user - The current user, or null if not authenticated
+ * @param sessionId - The current session
+ * @returns true if the session or user can add, edit and react to messages, false otherwise
+ */
+export function canPostToDiscussion(
+  discussion: Doc<'discussionState'>,
+  presentation: Doc<'presentations'> | null,
+  user: Doc<'users'> | null,
+  sessionId: string
+): boolean {
+  if (!discussion.isActive || discussion.isLocked) {
+    return false;
+  }
+  if (canFacilitateDiscussion(discussion, presentation, user, sessionId)) {
+    return true;
+  }
+  return !findDiscussionParticipant(discussion, user, sessionId)?.isMuted;
+}
+
+/**
+ * Checks if a message can be deleted: by a facilitator of its discussion, or by its author
+ * while the discussion is not locked.
+ * @param message - The message to delete
+ * @param discussion - The discussion the message belongs to
+ * @param presentation - The registry entry of the deck the discussion is part of, if any
+ * @param user - The current user, or null if not authenticated
+ * @param sessionId - The current session
+ * @returns true if the message can be deleted, false otherwise
+ */
+export function canDeleteDiscussionMessage(
+  message: Doc<'discussionMessages'>,
+  discussion: Doc<'discussionState'>,
+  presentation: Doc<'presentations'> | null,
+  user: Doc<'users'> | null,
+  sessionId: string
+): boolean {
+  if (canFacilitateDiscussion(discussion, presentation, user, sessionId)) {
+    return true;
+  }
+  return !discussion.isLocked && isDiscussionMessageAuthor(message, user, sessionId);
+}
+
+/**
+ * Checks if the edit history of a message can be seen: by its author, and by facilitators of
+ * its discussion.
+ * @param message - The edited message
+ * @param discussion - The discussion the message belongs to, or null if it no longer exists
+ * @param presentation - The registry entry of the deck the discussion is part of, if any
+ * @param user - The current user, or null if not authenticated
+ * @param sessionId - The current session
+ * @returns true if the message's earlier versions can be seen, false otherwise
+ */
+export function canViewDiscussionMessageEdits(
+  message: Doc<'discussionMessages'>,
+  discussion: Doc<'discussionState'> | null,
+  presentation: Doc<'presentations'> | null,
+  user: Doc<'users'> | null,
+  sessionId: string
+): boolean {
+  if (isDiscussionMessageAuthor(message, user, sessionId)) {
+    return true;
+  }
+  return !!discussion && canFacilitateDiscussion(discussion, presentation, user, sessionId);
+}
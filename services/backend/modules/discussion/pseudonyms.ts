@@ -0,0 +1,69 @@
+/**
+ * Pseudonyms for anonymous discussions.
+ * In an anonymous discussion, people post under a pseudonym instead of their name. The pseudonym
+ * is derived from their session and the discussion, so it stays the same for everything they
+ * post to the discussion, differs between discussions, and their real name is never stored.
+ */
+
+const _PSEUDONYM_ADJECTIVES = [
+  'Brave',
+  'Calm',
+  'Gentle',
+  'Hopeful',
+  'Joyful',
+  'Kind',
+  'Patient',
+  'Quiet',
+  'Steady',
+  'Thankful',
+  'Humble',
+  'Faithful',
+  'Bright',
+  'Warm',
+  'Honest',
+  'Peaceful',
+] as const;
+
+const _PSEUDONYM_NOUNS = [
+  'Sparrow',
+  'Dove',
+  'Lamb',
+  'Lily',
+  'Cedar',
+  'Olive',
+  'River',
+  'Meadow',
+  'Willow',
+  'Lantern',
+  'Harbor',
+  'Robin',
+  'Fig',
+  'Vine',
+  'Pebble',
+  'Wren',
+] as const;
+
+/**
+ * Gets the pseudonym a session posts under in an anonymous discussion.
+ * @param discussionKey - The key of the discussion
+ * @param sessionId - The session posting to the discussion
+ * @returns A stable pseudonym such as "Quiet Sparrow 12"
+ */
+export function getDiscussionPseudonym(discussionKey: string, sessionId: string): string {
+  const hash = _hashString(`${discussionKey}:${sessionId}`);
+  const adjective = _PSEUDONYM_ADJECTIVES[hash % _PSEUDONYM_ADJECTIVES.length];
+  const noun =
+    _PSEUDONYM_NOUNS[Math.floor(hash / _PSEUDONYM_ADJECTIVES.length) % _PSEUDONYM_NOUNS.length];
+  const number = Math.floor(hash / (_PSEUDONYM_ADJECTIVES.length * _PSEUDONYM_NOUNS.length)) % 100;
+  return `${adjective} ${noun} ${number}`;
+}
+
+// Hash a string to an unsigned 32-bit integer (FNV-1a), which is stable across runs
+function _hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
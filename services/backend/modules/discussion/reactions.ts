@@ -0,0 +1,47 @@
+/**
+ * Types and settings for reactions on discussion messages.
+ * Each session can react to a message once with each emoji; reacting again takes it back.
+ */
+
+/**
+ * Emoji people can react to discussion messages with. The first is the "+1".
+ */
+export const DISCUSSION_REACTION_EMOJIS = ['👍', '❤️', '🙏', '💡'] as const;
+
+export type DiscussionReactionEmoji = (typeof DISCUSSION_REACTION_EMOJIS)[number];
+
+/**
+ * How many times a message was reacted to with an emoji, and whether the current session did.
+ */
+export interface DiscussionReactionCount {
+  emoji: string;
+  count: number;
+  hasReacted: boolean;
+}
+
+/**
+ * Checks if an emoji is one people can react to discussion messages with.
+ */
+export const isDiscussionReactionEmoji = (emoji: string): emoji is DiscussionReactionEmoji => {
+  return (DISCUSSION_REACTION_EMOJIS as readonly string[]).includes(emoji);
+};
+
+/**
+ * Counts the reactions to a message by emoji, in the order the emoji are offered.
+ * @param reactions - The reactions to the message
+ * @param sessionId - The current session, to mark its own reactions
+ * @returns The count of each emoji that was reacted with
+ */
+export function countDiscussionReactions(
+  reactions: { emoji: string; sessionId: string }[],
+  sessionId: string
+): DiscussionReactionCount[] {
+  return DISCUSSION_REACTION_EMOJIS.map((emoji) => {
+    const emojiReactions = reactions.filter((reaction) => reaction.emoji === emoji);
+    return {
+      emoji,
+      count: emojiReactions.length,
+      hasReacted: emojiReactions.some((reaction) => reaction.sessionId === sessionId),
+    };
+  }).filter((reactionCount) => reactionCount.count > 0);
+}
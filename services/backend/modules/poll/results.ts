@@ -0,0 +1,104 @@
+/**
+ * Types and helpers for audience polls embedded in slides.
+ * Each browser session has at most one vote per poll, which it can change while the poll is
+ * open; results are tallied from the votes whenever they are read.
+ */
+
+/**
+ * Single and multiple choice polls offer fixed options; word clouds take a short free-text answer.
+ */
+export type PollType = 'single_choice' | 'multiple_choice' | 'word_cloud';
+
+/**
+ * Polls start as drafts, are opened by the presenter for voting, and are closed afterwards.
+ */
+export type PollStatus = 'draft' | 'open' | 'closed';
+
+/**
+ * Maximum length of a word cloud answer.
+ */
+export const MAX_WORD_CLOUD_ANSWER_LENGTH = 40;
+
+/**
+ * A vote as submitted by a viewer.
+ */
+export interface PollVoteInput {
+  optionIndexes?: number[];
+  text?: string;
+}
+
+/**
+ * Tallied results of a poll. Choice polls count each option, in the order of the options;
+ * word clouds count each distinct answer, most common first.
+ */
+export type PollResults =
+  | { type: 'choice'; optionCounts: number[] }
+  | { type: 'word_cloud'; words: { text: string; count: number }[] };
+
+/**
+ * Validates a vote for a poll and normalizes it for storage.
+ * @throws Error describing why the vote is invalid
+ */
+export const normalizePollVote = (
+  poll: { type: PollType; options: string[] },
+  vote: PollVoteInput
+): PollVoteInput => {
+  if (poll.type === 'word_cloud') {
+    const text = vote.text?.trim().replace(/\s+/g, ' ');
+    if (!text) {
+      throw new Error('Enter an answer to submit');
+    }
+    if (text.length > MAX_WORD_CLOUD_ANSWER_LENGTH) {
+      throw new Error(`Answers must be at most ${MAX_WORD_CLOUD_ANSWER_LENGTH} characters`);
+    }
+    return { text };
+  }
+
+  const optionIndexes = Array.from(new Set(vote.optionIndexes ?? [])).sort((a, b) => a - b);
+  if (optionIndexes.some((index) => !Number.isInteger(index) || !poll.options[index])) {
+    throw new Error('Invalid poll option');
+  }
+  if (optionIndexes.length === 0) {
+    throw new Error('Choose an option to vote');
+  }
+  if (poll.type === 'single_choice' && optionIndexes.length > 1) {
+    throw new Error('Only one option can be chosen in this poll');
+  }
+  return { optionIndexes };
+};
+
+/**
+ * Tallies the votes of a poll. Word cloud answers are grouped case-insensitively and shown
+ * with the casing of their first answer.
+ */
+export const tallyPollVotes = (
+  poll: { type: PollType; options: string[] },
+  votes: PollVoteInput[]
+): PollResults => {
+  if (poll.type === 'word_cloud') {
+    const words = new Map<string, { text: string; count: number }>();
+    for (const vote of votes) {
+      if (!vote.text) continue;
+      const normalized = vote.text.toLowerCase();
+      const word = words.get(normalized) ?? { text: vote.text, count: 0 };
+      word.count++;
+      words.set(normalized, word);
+    }
+    return {
+      type: 'word_cloud',
+      words: Array.from(words.values()).sort(
+        (a, b) => b.count - a.count || a.text.localeCompare(b.text)
+      ),
+    };
+  }
+
+  const optionCounts = poll.options.map(() => 0);
+  for (const vote of votes) {
+    for (const index of vote.optionIndexes ?? []) {
+      if (index < optionCounts.length) {
+        optionCounts[index] = (optionCounts[index] ?? 0) + 1;
+      }
+    }
+  }
+  return { type: 'choice', optionCounts };
+};
@@ -0,0 +1,48 @@
+import type { Doc } from '../../convex/_generated/dataModel';
+import { isSystemAdmin } from '../auth/accessControl';
+
+/**
+ * Access control utilities for presenting decks.
+ */
+
+/**
+ * Checks if a user is allowed to present a deck.
+ * System administrators can present any deck, and the owner and co-presenters of a registered
+ * deck can present it. A registered deck without an owner can only be presented by
+ * administrators until one of them assigns an owner. Decks that are not registered can be
+ * presented by any logged-in user.
+ * @param user - The user attempting to present, or null if not authenticated
+ * @param presentation - The registry entry of the deck, or null if it is not registered
+ * @returns true if the user can present the deck, false otherwise
+ */
+export function canPresent(
+  user: Doc<'users'> | null,
+  presentation: Doc<'presentations'> | null
+): boolean {
+  if (!user) {
+    return false;
+  }
+  if (isSystemAdmin(user) || !presentation) {
+    return true;
+  }
+  return (
+    presentation.ownerId === user._id ||
+    (presentation.coPresenterIds ?? []).some((userId) => userId === user._id)
+  );
+}
+
+/**
+ * Checks if a user can manage who presents a deck, i.e. change its co-presenters.
+ * @param user - The user attempting the change, or null if not authenticated
+ * @param presentation - The registry entry of the deck
+ * @returns true if the user is the deck's owner or a system administrator, false otherwise
+ */
+export function canManagePresenters(
+  user: Doc<'users'> | null,
+  presentation: Doc<'presentations'>
+): boolean {
+  if (!user) {
+    return false;
+  }
+  return presentation.ownerId === user._id || isSystemAdmin(user);
+}
@@ -0,0 +1,49 @@
+/**
+ * Utility functions for presenter heartbeats.
+ * The presenter's browser sends a heartbeat while presenting, and a scheduled job releases
+ * presentations whose presenter stopped sending them, e.g. because their laptop was closed.
+ */
+
+/**
+ * How often the presenter's browser sends a heartbeat.
+ */
+export const PRESENTER_HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * How long a presenter can go without a heartbeat before they are considered disconnected,
+ * unless overridden with the environment variable below.
+ */
+export const DEFAULT_PRESENTER_TIMEOUT_MS = 4 * PRESENTER_HEARTBEAT_INTERVAL_MS;
+
+/**
+ * Environment variable that overrides the presenter timeout, in seconds.
+ */
+export const PRESENTER_TIMEOUT_ENV = 'PRESENTER_HEARTBEAT_TIMEOUT_SECONDS';
+
+/**
+ * Reads the presenter timeout from environment variables.
+ * Timeouts shorter than two heartbeats are ignored, so that a single late heartbeat does not
+ * disconnect the presenter.
+ * @param env - Environment variables, usually process.env
+ * @returns The timeout in milliseconds
+ */
+export const getPresenterTimeoutMs = (env: Record<string, string | undefined>): number => {
+  const seconds = Number(env[PRESENTER_TIMEOUT_ENV]);
+  const timeoutMs = seconds * 1000;
+  return Number.isFinite(timeoutMs) && timeoutMs >= 2 * PRESENTER_HEARTBEAT_INTERVAL_MS
+    ? timeoutMs
+    : DEFAULT_PRESENTER_TIMEOUT_MS;
+};
+
+/**
+ * Checks if a presenter has gone too long without a heartbeat.
+ * Presenters without any heartbeat, who started presenting before heartbeats were sent,
+ * are considered disconnected.
+ */
+export const isPresenterStale = (
+  lastHeartbeatAt: number | undefined,
+  now: number,
+  timeoutMs: number
+): boolean => {
+  return lastHeartbeatAt === undefined || now - lastHeartbeatAt >= timeoutMs;
+};
@@ -0,0 +1,41 @@
+/**
+ * Types and settings for the audience presence of presentations.
+ * Every browser viewing a deck joins, sends a heartbeat while it stays open, and leaves when
+ * it is closed; browsers that go away without leaving drop out once their heartbeat is stale.
+ */
+
+/**
+ * How often a viewer's browser sends a heartbeat.
+ */
+export const VIEWER_HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+/**
+ * How long a viewer can go without a heartbeat before they are no longer listed.
+ */
+export const VIEWER_TIMEOUT_MS = 3 * VIEWER_HEARTBEAT_INTERVAL_MS;
+
+/**
+ * A viewer of a presentation, as listed to its presenters.
+ */
+export interface PresentationViewer {
+  name: string;
+  currentSlide: number;
+  isSoloMode: boolean;
+  isCurrentSession: boolean;
+}
+
+/**
+ * The audience of a presentation. Everyone can see how many people are viewing, but only
+ * people who can present the deck see who they are.
+ */
+export interface PresentationAudience {
+  viewerCount: number;
+  viewers: PresentationViewer[];
+}
+
+/**
+ * Checks if a viewer has sent a heartbeat recently enough to be listed.
+ */
+export const isViewerActive = (lastSeenAt: number, now: number): boolean => {
+  return now - lastSeenAt < VIEWER_TIMEOUT_MS;
+};
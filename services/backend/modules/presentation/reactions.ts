@@ -0,0 +1,33 @@
+/**
+ * Settings for the emoji reactions viewers send while a deck is presented.
+ * Reactions are short-lived: they float over the slide for a few seconds and are then cleaned up.
+ */
+
+/**
+ * Emoji viewers can react with.
+ */
+export const PRESENTATION_REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '👏', '🤔'] as const;
+
+export type PresentationReactionEmoji = (typeof PRESENTATION_REACTION_EMOJIS)[number];
+
+/**
+ * How long a reaction floats over the slide.
+ */
+export const PRESENTATION_REACTION_DISPLAY_MS = 4 * 1000;
+
+/**
+ * How long reactions are kept before they are cleaned up.
+ */
+export const PRESENTATION_REACTION_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Minimum time between two reactions from the same session, to keep the slide readable.
+ */
+export const PRESENTATION_REACTION_COOLDOWN_MS = 500;
+
+/**
+ * Checks if an emoji is one viewers can react with.
+ */
+export const isPresentationReactionEmoji = (emoji: string): emoji is PresentationReactionEmoji => {
+  return (PRESENTATION_REACTION_EMOJIS as readonly string[]).includes(emoji);
+};
@@ -0,0 +1,81 @@
+/**
+ * Types and helpers for the registry of presentations shown on the presentations index.
+ * Decks register their metadata when they are opened, so the index never has to be kept
+ * in sync with the decks by hand.
+ */
+
+/**
+ * Public presentations are listed on the index; unlisted ones are only reachable by link.
+ */
+export type PresentationVisibility = 'public' | 'unlisted';
+
+/**
+ * Metadata a deck registers about itself.
+ */
+export interface PresentationRegistration {
+  key: string;
+  title: string;
+  date: string; // YYYY-MM-DD
+  path: string;
+  speaker?: string;
+  description?: string;
+  slideCount?: number;
+  visibility?: PresentationVisibility;
+}
+
+/**
+ * A registered presentation as listed on the index.
+ */
+export interface PresentationListItem {
+  key: string;
+  title: string;
+  date: string;
+  path: string;
+  speaker: string | null;
+  description: string | null;
+  slideCount: number | null;
+  isLive: boolean;
+}
+
+/**
+ * Filters for the presentations index. Dates are inclusive and formatted as YYYY-MM-DD.
+ */
+export interface PresentationFilter {
+  search?: string;
+  fromDate?: string;
+  toDate?: string;
+}
+
+/**
+ * Checks that a date is a valid calendar date formatted as YYYY-MM-DD.
+ */
+export const isValidPresentationDate = (date: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+};
+
+/**
+ * Checks that a path points to a page of this site. Protocol-relative paths such as
+ * //example.com, which browsers also accept as /\example.com, would link to another site.
+ */
+export const isValidPresentationPath = (path: string): boolean =>
+  path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\');
+
+/**
+ * Checks whether a presentation matches the search text and date range of a filter.
+ * The search matches the title, speaker and description, ignoring case.
+ */
+export const matchesPresentationFilter = (
+  presentation: Pick<PresentationListItem, 'title' | 'date' | 'speaker' | 'description'>,
+  filter: PresentationFilter
+): boolean => {
+  if (filter.fromDate && presentation.date < filter.fromDate) return false;
+  if (filter.toDate && presentation.date > filter.toDate) return false;
+
+  const search = filter.search?.trim().toLowerCase();
+  if (!search) return true;
+  return [presentation.title, presentation.speaker, presentation.description].some((value) =>
+    value?.toLowerCase().includes(search)
+  );
+};
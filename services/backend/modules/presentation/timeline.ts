@@ -0,0 +1,114 @@
+/**
+ * Types and calculations for replaying recorded presentation sessions.
+ * Every slide change, and every time someone starts or stops presenting, is logged as an event.
+ * A recording runs from when someone starts presenting a deck until presenting stops, including
+ * any handovers to other presenters in between.
+ */
+
+/**
+ * Kinds of events logged for a presentation.
+ */
+export type PresentationEventType = 'slide_changed' | 'presenting_started' | 'presenting_stopped';
+
+/**
+ * An event in the timeline of a presentation, in the order it happened.
+ */
+export interface PresentationTimelineEvent {
+  type: PresentationEventType;
+  timestamp: number;
+  // The slide shown after the event, 0-based, for slide changes
+  slide?: number;
+  fragment?: number;
+}
+
+/**
+ * A recorded session of a deck, from when presenting started until it stopped.
+ */
+export interface PresentationRecording {
+  startedAt: number;
+  // When presenting stopped, or null while the deck is still being presented
+  endedAt: number | null;
+  slideChangeCount: number;
+}
+
+/**
+ * Time spent on a slide during a recording.
+ */
+export interface SlideDwellTime {
+  // 0-based, like the slides of the presentation state
+  slide: number;
+  totalMs: number;
+  visitCount: number;
+}
+
+/**
+ * Splits the events of a deck into recordings. Events outside a recording, such as slides
+ * changed while no one was presenting, are left out.
+ * @param events - The events of the deck, oldest first
+ * @returns The recordings, oldest first
+ */
+export function splitPresentationRecordings(
+  events: PresentationTimelineEvent[]
+): PresentationRecording[] {
+  const recordings: PresentationRecording[] = [];
+  let current: PresentationRecording | null = null;
+
+  for (const event of events) {
+    if (event.type === 'presenting_started') {
+      // Starting while a recording is running is a handover, which continues it
+      if (!current) {
+        current = { startedAt: event.timestamp, endedAt: null, slideChangeCount: 0 };
+        recordings.push(current);
+      }
+    } else if (event.type === 'presenting_stopped') {
+      if (current) {
+        current.endedAt = event.timestamp;
+        current = null;
+      }
+    } else if (current) {
+      current.slideChangeCount++;
+    }
+  }
+
+  return recordings;
+}
+
+/**
+ * Calculates how long each slide was shown during a recording. The slide shown when the
+ * recording started is taken from the last slide change before it.
+ * @param events - The slide changes of the recording, oldest first
+ * @param startedAt - When the recording started
+ * @param endedAt - When the recording ended, or the current time while it is running
+ * @param initialSlide - The slide shown when the recording started, 0-based
+ * @returns The time spent on each slide that was shown, by slide
+ */
+export function calculateSlideDwellTimes(
+  events: PresentationTimelineEvent[],
+  startedAt: number,
+  endedAt: number,
+  initialSlide: number
+): SlideDwellTime[] {
+  const dwellTimes = new Map<number, SlideDwellTime>();
+  const addVisit = (slide: number, from: number, to: number) => {
+    const dwellTime = dwellTimes.get(slide) ?? { slide, totalMs: 0, visitCount: 0 };
+    dwellTime.totalMs += Math.max(0, to - from);
+    dwellTime.visitCount++;
+    dwellTimes.set(slide, dwellTime);
+  };
+
+  let currentSlide = initialSlide;
+  let shownSince = startedAt;
+  for (const event of events) {
+    if (event.type !== 'slide_changed' || event.slide === undefined) continue;
+
+    // Revealing fragments stays on the same slide
+    if (event.slide === currentSlide) continue;
+
+    addVisit(currentSlide, shownSince, event.timestamp);
+    currentSlide = event.slide;
+    shownSince = event.timestamp;
+  }
+  addVisit(currentSlide, shownSince, endedAt);
+
+  return Array.from(dwellTimes.values()).sort((a, b) => a.slide - b.slide);
+}